@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "DetectionState" AS ENUM ('QUANTIFIED', 'BELOW_LIMIT', 'NOT_DETECTED', 'ABOVE_LIMIT');
+
+-- AlterTable
+ALTER TABLE "TestAssignment" ADD COLUMN     "detectionState" "DetectionState",
+ADD COLUMN     "resultQualifier" TEXT,
+ADD COLUMN     "resultValue" DOUBLE PRECISION;
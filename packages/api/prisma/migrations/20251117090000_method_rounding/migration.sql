@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "RoundingMode" AS ENUM ('HALF_UP', 'HALF_EVEN');
+
+-- CreateEnum
+CREATE TYPE "OOSEvaluationBasis" AS ENUM ('ROUNDED', 'RAW');
+
+-- AlterTable
+ALTER TABLE "Method" ADD COLUMN     "decimalPlaces" INTEGER,
+ADD COLUMN     "oosBasis" "OOSEvaluationBasis" NOT NULL DEFAULT 'ROUNDED',
+ADD COLUMN     "roundingMode" "RoundingMode" NOT NULL DEFAULT 'HALF_UP',
+ADD COLUMN     "significantFigures" INTEGER;
+
+-- AlterTable
+ALTER TABLE "TestAssignment" ADD COLUMN     "reportedResult" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "TestAssignment" ADD COLUMN     "calculation" TEXT,
+ADD COLUMN     "formulaVersion" INTEGER,
+ADD COLUMN     "rawInputs" JSONB;
+
+-- AlterTable
+ALTER TABLE "TestDefinition" ADD COLUMN     "formula" TEXT,
+ADD COLUMN     "formulaVersion" INTEGER,
+ADD COLUMN     "inputFields" JSONB;
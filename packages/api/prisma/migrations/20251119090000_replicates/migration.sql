@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "ReportableRule" AS ENUM ('MEAN', 'MEDIAN', 'FIRST_VALID');
+
+-- AlterTable
+ALTER TABLE "Method" ADD COLUMN     "reportableRule" "ReportableRule" NOT NULL DEFAULT 'MEAN',
+ADD COLUMN     "rsdLimit" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "TestAssignment" ADD COLUMN     "replicateMean" DOUBLE PRECISION,
+ADD COLUMN     "replicateRsd" DOUBLE PRECISION,
+ADD COLUMN     "replicateSd" DOUBLE PRECISION,
+ADD COLUMN     "replicates" JSONB,
+ADD COLUMN     "rsdExceeded" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "OOSInvestigationStatus" AS ENUM ('PHASE_I', 'PHASE_II', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "OOSConclusion" AS ENUM ('INVALIDATED', 'CONFIRMED', 'INCONCLUSIVE');
+
+-- CreateTable
+CREATE TABLE "OOSInvestigation" (
+    "id" UUID NOT NULL,
+    "status" "OOSInvestigationStatus" NOT NULL DEFAULT 'PHASE_I',
+    "phaseIFindings" TEXT,
+    "labErrorFound" BOOLEAN,
+    "phaseICompletedAt" TIMESTAMP(3),
+    "phaseIIFindings" TEXT,
+    "rootCause" TEXT,
+    "capaReference" TEXT,
+    "conclusion" "OOSConclusion",
+    "conclusionNotes" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" UUID NOT NULL,
+    "updatedById" UUID NOT NULL,
+    "testAssignmentId" UUID NOT NULL,
+    "sampleId" UUID NOT NULL,
+    "closedById" UUID,
+
+    CONSTRAINT "OOSInvestigation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OOSInvestigation_testAssignmentId_idx" ON "OOSInvestigation"("testAssignmentId");
+
+-- CreateIndex
+CREATE INDEX "OOSInvestigation_sampleId_status_idx" ON "OOSInvestigation"("sampleId", "status");
+
+-- CreateIndex
+CREATE INDEX "OOSInvestigation_status_idx" ON "OOSInvestigation"("status");
+
+-- CreateIndex
+CREATE INDEX "OOSInvestigation_createdById_idx" ON "OOSInvestigation"("createdById");
+
+-- CreateIndex
+CREATE INDEX "OOSInvestigation_updatedById_idx" ON "OOSInvestigation"("updatedById");
+
+-- AddForeignKey
+ALTER TABLE "OOSInvestigation" ADD CONSTRAINT "OOSInvestigation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OOSInvestigation" ADD CONSTRAINT "OOSInvestigation_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OOSInvestigation" ADD CONSTRAINT "OOSInvestigation_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OOSInvestigation" ADD CONSTRAINT "OOSInvestigation_testAssignmentId_fkey" FOREIGN KEY ("testAssignmentId") REFERENCES "TestAssignment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OOSInvestigation" ADD CONSTRAINT "OOSInvestigation_sampleId_fkey" FOREIGN KEY ("sampleId") REFERENCES "Sample"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Audit trigger, as for the other business tables
+DROP TRIGGER IF EXISTS audit_oos_investigation_trigger ON "OOSInvestigation";
+CREATE TRIGGER audit_oos_investigation_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "OOSInvestigation"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
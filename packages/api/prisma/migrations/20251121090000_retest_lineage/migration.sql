@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "RetestReason" AS ENUM ('LAB_ERROR', 'OOS_INVESTIGATION', 'INSTRUMENT_FAILURE', 'SAMPLE_PREPARATION', 'RESAMPLE', 'CLIENT_REQUEST', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "TestAssignment" ADD COLUMN     "attempt" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "reportable" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "retestNotes" TEXT,
+ADD COLUMN     "retestOfId" UUID,
+ADD COLUMN     "retestReason" "RetestReason";
+
+-- CreateIndex
+CREATE INDEX "TestAssignment_retestOfId_idx" ON "TestAssignment"("retestOfId");
+
+-- AddForeignKey
+ALTER TABLE "TestAssignment" ADD CONSTRAINT "TestAssignment_retestOfId_fkey" FOREIGN KEY ("retestOfId") REFERENCES "TestAssignment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
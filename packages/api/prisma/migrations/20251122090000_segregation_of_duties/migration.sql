@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "LabSettings" ADD COLUMN     "allowSegregationExceptions" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TestAssignment" ADD COLUMN     "resultEnteredById" UUID;
+
+-- CreateIndex
+CREATE INDEX "TestAssignment_resultEnteredById_idx" ON "TestAssignment"("resultEnteredById");
+
+-- AddForeignKey
+ALTER TABLE "TestAssignment" ADD CONSTRAINT "TestAssignment_resultEnteredById_fkey" FOREIGN KEY ("resultEnteredById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "SignatureMeaning" AS ENUM ('REVIEWED', 'APPROVED', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "ElectronicSignature" (
+    "id" UUID NOT NULL,
+    "recordTable" TEXT NOT NULL,
+    "recordId" UUID NOT NULL,
+    "meaning" "SignatureMeaning" NOT NULL,
+    "dataHash" TEXT NOT NULL,
+    "signerName" TEXT NOT NULL,
+    "signerEmail" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "invalidatedAt" TIMESTAMP(3),
+    "invalidationReason" TEXT,
+    "signerId" UUID NOT NULL,
+    "invalidatedById" UUID,
+
+    CONSTRAINT "ElectronicSignature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ElectronicSignature_recordTable_recordId_idx" ON "ElectronicSignature"("recordTable", "recordId");
+
+-- CreateIndex
+CREATE INDEX "ElectronicSignature_signerId_idx" ON "ElectronicSignature"("signerId");
+
+-- CreateIndex
+CREATE INDEX "ElectronicSignature_invalidatedById_idx" ON "ElectronicSignature"("invalidatedById");
+
+-- CreateIndex
+CREATE INDEX "ElectronicSignature_signedAt_idx" ON "ElectronicSignature"("signedAt");
+
+-- AddForeignKey
+ALTER TABLE "ElectronicSignature" ADD CONSTRAINT "ElectronicSignature_signerId_fkey" FOREIGN KEY ("signerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ElectronicSignature" ADD CONSTRAINT "ElectronicSignature_invalidatedById_fkey" FOREIGN KEY ("invalidatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Audit trigger, as for the other business tables
+DROP TRIGGER IF EXISTS audit_electronic_signature_trigger ON "ElectronicSignature";
+CREATE TRIGGER audit_electronic_signature_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "ElectronicSignature"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
@@ -0,0 +1,131 @@
+-- Migration: Tamper-evident hash chain over AuditLog
+-- Each entry carries a SHA-256 of its contents plus the previous entry's hash, so a row that is
+-- rewritten or deleted (even by a superuser bypassing the immutability triggers) breaks the chain.
+-- A daily anchor seals the chain head into AuditAnchor.
+
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN "seq" INTEGER,
+ADD COLUMN "prevHash" TEXT,
+ADD COLUMN "hash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_seq_key" ON "AuditLog"("seq");
+
+-- CreateTable
+CREATE TABLE "AuditAnchor" (
+    "id" UUID NOT NULL,
+    "day" DATE NOT NULL,
+    "lastSeq" INTEGER NOT NULL,
+    "lastHash" TEXT NOT NULL,
+    "entryCount" INTEGER NOT NULL,
+    "anchorHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditAnchor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditAnchor_day_key" ON "AuditAnchor"("day");
+
+-- Contents covered by an entry's hash. The API verifier hashes this same text, so keep the
+-- field list and formats in step with AuditChainService.
+CREATE OR REPLACE FUNCTION audit_log_payload(entry "AuditLog")
+RETURNS TEXT AS $$
+  SELECT json_build_array(
+    entry.seq,
+    entry.id,
+    entry."actorId",
+    entry."actorEmail",
+    entry.ip,
+    entry."userAgent",
+    entry.action,
+    entry."table",
+    entry."recordId",
+    entry.changes,
+    entry.reason,
+    to_char(entry.at, 'YYYY-MM-DD"T"HH24:MI:SS.MS'),
+    entry."txId"
+  )::TEXT;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION audit_log_hash(entry "AuditLog")
+RETURNS TEXT AS $$
+  SELECT encode(sha256(convert_to(entry."prevHash" || audit_log_payload(entry), 'UTF8')), 'hex');
+$$ LANGUAGE sql STABLE;
+
+-- Link existing entries in the order they were written
+ALTER TABLE "AuditLog" DISABLE TRIGGER prevent_audit_log_update;
+
+DO $$
+DECLARE
+  v_entry "AuditLog"%ROWTYPE;
+  v_seq INTEGER := 0;
+  v_prev_hash TEXT := repeat('0', 64);
+BEGIN
+  FOR v_entry IN SELECT * FROM "AuditLog" ORDER BY at, id LOOP
+    v_seq := v_seq + 1;
+    v_entry.seq := v_seq;
+    v_entry."prevHash" := v_prev_hash;
+    v_entry.hash := audit_log_hash(v_entry);
+
+    UPDATE "AuditLog"
+    SET seq = v_entry.seq, "prevHash" = v_entry."prevHash", hash = v_entry.hash
+    WHERE id = v_entry.id;
+
+    v_prev_hash := v_entry.hash;
+  END LOOP;
+END
+$$;
+
+ALTER TABLE "AuditLog" ENABLE TRIGGER prevent_audit_log_update;
+
+-- Append new entries to the chain. The advisory lock serializes writers so seq has no gaps and
+-- prevHash always points at the entry before; it is held until the writing transaction ends.
+CREATE OR REPLACE FUNCTION audit_log_chain_func()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_last_seq INTEGER;
+  v_last_hash TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('AuditLog_chain'));
+
+  SELECT seq, hash INTO v_last_seq, v_last_hash
+  FROM "AuditLog"
+  WHERE seq IS NOT NULL
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(v_last_seq, 0) + 1;
+  NEW."prevHash" := COALESCE(v_last_hash, repeat('0', 64));
+  NEW.hash := audit_log_hash(NEW);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_chain_trigger ON "AuditLog";
+CREATE TRIGGER audit_log_chain_trigger
+  BEFORE INSERT ON "AuditLog"
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_log_chain_func();
+
+COMMENT ON FUNCTION audit_log_chain_func() IS 'Links each new AuditLog entry to the previous one by hash';
+COMMENT ON TRIGGER audit_log_chain_trigger ON "AuditLog" IS 'Assigns seq, prevHash and hash to new audit log entries';
+
+-- Anchors are append-only, like the log they seal
+REVOKE ALL ON TABLE "AuditAnchor" FROM PUBLIC;
+REVOKE ALL ON TABLE "AuditAnchor" FROM lims_app_role;
+GRANT SELECT, INSERT ON TABLE "AuditAnchor" TO lims_app_role;
+
+CREATE OR REPLACE FUNCTION prevent_audit_anchor_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditAnchor records are immutable and cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_audit_anchor_modification ON "AuditAnchor";
+CREATE TRIGGER prevent_audit_anchor_modification
+  BEFORE UPDATE OR DELETE ON "AuditAnchor"
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_anchor_modification();
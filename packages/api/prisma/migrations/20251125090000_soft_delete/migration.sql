@@ -0,0 +1,68 @@
+-- Migration: Soft delete for samples, jobs and master data
+-- Deleted rows keep their data and history; lists hide them unless an admin asks for them.
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" UUID,
+ADD COLUMN "deleteReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Method" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" UUID,
+ADD COLUMN "deleteReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Specification" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" UUID,
+ADD COLUMN "deleteReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "TestDefinition" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" UUID,
+ADD COLUMN "deleteReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" UUID,
+ADD COLUMN "deleteReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Sample" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" UUID,
+ADD COLUMN "deleteReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Client_deletedAt_idx" ON "Client"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Method_deletedAt_idx" ON "Method"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Specification_deletedAt_idx" ON "Specification"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "TestDefinition_deletedAt_idx" ON "TestDefinition"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Job_deletedAt_idx" ON "Job"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Sample_deletedAt_idx" ON "Sample"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "Client" ADD CONSTRAINT "Client_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Method" ADD CONSTRAINT "Method_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Specification" ADD CONSTRAINT "Specification_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TestDefinition" ADD CONSTRAINT "TestDefinition_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Sample" ADD CONSTRAINT "Sample_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
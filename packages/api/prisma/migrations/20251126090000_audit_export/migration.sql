@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "AuditExport" (
+    "id" UUID NOT NULL,
+    "table" TEXT NOT NULL,
+    "recordId" UUID NOT NULL,
+    "entryCount" INTEGER NOT NULL,
+    "lastSeq" INTEGER,
+    "pdfKey" TEXT NOT NULL,
+    "pdfSha256" TEXT NOT NULL,
+    "csvKey" TEXT NOT NULL,
+    "csvSha256" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" UUID NOT NULL,
+
+    CONSTRAINT "AuditExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditExport_table_recordId_idx" ON "AuditExport"("table", "recordId");
+
+-- CreateIndex
+CREATE INDEX "AuditExport_createdById_idx" ON "AuditExport"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "AuditExport" ADD CONSTRAINT "AuditExport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Audit trigger, so each export is itself on the record
+DROP TRIGGER IF EXISTS audit_audit_export_trigger ON "AuditExport";
+CREATE TRIGGER audit_audit_export_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "AuditExport"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
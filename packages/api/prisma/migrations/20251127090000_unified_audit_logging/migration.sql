@@ -0,0 +1,108 @@
+-- Migration: One audit entry per change
+-- The audit triggers become the only writer of AuditLog. AuditService no longer inserts its own
+-- copy; it sets the context below inside the writing transaction (AuditService.withContext), so
+-- the trigger entry carries the real actor, IP, user agent, txId and reason.
+
+-- Audit context from transaction-local settings. A setting that was set earlier in the session
+-- reads back as '' rather than NULL, so empty values fall back too. Without an application txId,
+-- entries of one database transaction share a txId derived from it.
+DROP FUNCTION IF EXISTS get_audit_context();
+CREATE FUNCTION get_audit_context()
+RETURNS TABLE (
+  actor_id UUID,
+  actor_email TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  tx_id TEXT,
+  reason TEXT
+) AS $$
+BEGIN
+  RETURN QUERY SELECT
+    COALESCE(NULLIF(current_setting('app.actor_id', TRUE), '')::UUID, '00000000-0000-0000-0000-000000000000'::UUID),
+    COALESCE(NULLIF(current_setting('app.actor_email', TRUE), ''), 'system@lims.local'),
+    COALESCE(NULLIF(current_setting('app.ip', TRUE), ''), '127.0.0.1'),
+    COALESCE(NULLIF(current_setting('app.user_agent', TRUE), ''), 'database-trigger'),
+    COALESCE(NULLIF(current_setting('app.tx_id', TRUE), ''), 'tx-' || txid_current()::TEXT),
+    NULLIF(current_setting('app.reason', TRUE), '');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Field-level changes in the {field: {old, new}} shape the API and web UI read. Bookkeeping
+-- columns are left out, so an update that only touches them yields '{}'.
+CREATE OR REPLACE FUNCTION audit_field_changes(old_row JSONB, new_row JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(
+      fields.key,
+      jsonb_build_object('old', old_row -> fields.key, 'new', new_row -> fields.key)
+    ),
+    '{}'::JSONB
+  )
+  FROM jsonb_object_keys(COALESCE(old_row, '{}'::JSONB) || COALESCE(new_row, '{}'::JSONB)) AS fields(key)
+  WHERE fields.key NOT IN ('id', 'createdAt', 'updatedAt')
+    AND (old_row -> fields.key) IS DISTINCT FROM (new_row -> fields.key);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION audit_trigger_func()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_context RECORD;
+  v_action "AuditAction";
+  v_record_id UUID;
+  v_changes JSONB;
+BEGIN
+  IF (TG_OP = 'INSERT') THEN
+    v_action := 'CREATE';
+    v_record_id := NEW.id;
+    v_changes := audit_field_changes(NULL, to_jsonb(NEW));
+  ELSIF (TG_OP = 'UPDATE') THEN
+    v_action := 'UPDATE';
+    v_record_id := NEW.id;
+    v_changes := audit_field_changes(to_jsonb(OLD), to_jsonb(NEW));
+
+    -- Only log if there are actual changes
+    IF (v_changes = '{}'::JSONB) THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    v_action := 'DELETE';
+    v_record_id := OLD.id;
+    v_changes := audit_field_changes(to_jsonb(OLD), NULL);
+  END IF;
+
+  SELECT * INTO v_context FROM get_audit_context();
+
+  INSERT INTO "AuditLog" (
+    id, "actorId", "actorEmail", ip, "userAgent", action,
+    "table", "recordId", changes, reason, "txId", at
+  ) VALUES (
+    gen_random_uuid(),
+    v_context.actor_id,
+    v_context.actor_email,
+    v_context.ip,
+    v_context.user_agent,
+    v_action,
+    TG_TABLE_NAME,
+    v_record_id,
+    v_changes,
+    v_context.reason,
+    v_context.tx_id,
+    NOW()
+  );
+
+  IF (TG_OP = 'DELETE') THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- LabSettings was only logged by AuditService
+DROP TRIGGER IF EXISTS audit_lab_settings_trigger ON "LabSettings";
+CREATE TRIGGER audit_lab_settings_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "LabSettings"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
+
+COMMENT ON FUNCTION audit_trigger_func() IS 'Sole writer of AuditLog: one entry per changed row, with the application context of the transaction';
+COMMENT ON FUNCTION get_audit_context() IS 'Gets audit context from transaction-local settings set by AuditService.withContext';
+COMMENT ON FUNCTION audit_field_changes(JSONB, JSONB) IS 'Field-level {old, new} diff of two row snapshots';
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ClientUser" (
+    "id" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "clientId" UUID NOT NULL,
+
+    CONSTRAINT "ClientUser_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientUser_userId_clientId_key" ON "ClientUser"("userId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "ClientUser_userId_idx" ON "ClientUser"("userId");
+
+-- CreateIndex
+CREATE INDEX "ClientUser_clientId_idx" ON "ClientUser"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "ClientUser" ADD CONSTRAINT "ClientUser_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientUser" ADD CONSTRAINT "ClientUser_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientUser" ADD CONSTRAINT "ClientUser_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Audit trigger, so granting and revoking portal access is on the record
+DROP TRIGGER IF EXISTS audit_client_user_trigger ON "ClientUser";
+CREATE TRIGGER audit_client_user_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "ClientUser"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "SampleSubmissionStatus" AS ENUM ('SUBMITTED', 'RECEIVED');
+
+-- CreateTable
+CREATE TABLE "SampleSubmission" (
+    "id" UUID NOT NULL,
+    "submissionNumber" TEXT NOT NULL,
+    "status" "SampleSubmissionStatus" NOT NULL DEFAULT 'SUBMITTED',
+    "notes" TEXT,
+    "receivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" UUID NOT NULL,
+    "updatedById" UUID NOT NULL,
+    "receivedById" UUID,
+    "clientId" UUID NOT NULL,
+    "jobId" UUID NOT NULL,
+
+    CONSTRAINT "SampleSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SampleSubmissionItem" (
+    "id" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "sampleDescription" TEXT NOT NULL,
+    "sampleBatch" TEXT,
+    "rmSupplier" TEXT,
+    "storageConditions" TEXT,
+    "testPackIds" UUID[],
+    "submissionId" UUID NOT NULL,
+    "sampleId" UUID,
+
+    CONSTRAINT "SampleSubmissionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SampleSubmission_submissionNumber_key" ON "SampleSubmission"("submissionNumber");
+
+-- CreateIndex
+CREATE INDEX "SampleSubmission_clientId_idx" ON "SampleSubmission"("clientId");
+
+-- CreateIndex
+CREATE INDEX "SampleSubmission_jobId_idx" ON "SampleSubmission"("jobId");
+
+-- CreateIndex
+CREATE INDEX "SampleSubmission_status_idx" ON "SampleSubmission"("status");
+
+-- CreateIndex
+CREATE INDEX "SampleSubmission_createdById_idx" ON "SampleSubmission"("createdById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SampleSubmissionItem_sampleId_key" ON "SampleSubmissionItem"("sampleId");
+
+-- CreateIndex
+CREATE INDEX "SampleSubmissionItem_submissionId_idx" ON "SampleSubmissionItem"("submissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SampleSubmissionItem_submissionId_position_key" ON "SampleSubmissionItem"("submissionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmission" ADD CONSTRAINT "SampleSubmission_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmission" ADD CONSTRAINT "SampleSubmission_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmission" ADD CONSTRAINT "SampleSubmission_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmission" ADD CONSTRAINT "SampleSubmission_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmission" ADD CONSTRAINT "SampleSubmission_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmissionItem" ADD CONSTRAINT "SampleSubmissionItem_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "SampleSubmission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SampleSubmissionItem" ADD CONSTRAINT "SampleSubmissionItem_sampleId_fkey" FOREIGN KEY ("sampleId") REFERENCES "Sample"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Audit triggers, so the chain of custody from pre-registration to receipt
+-- is on the record
+DROP TRIGGER IF EXISTS audit_sample_submission_trigger ON "SampleSubmission";
+CREATE TRIGGER audit_sample_submission_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "SampleSubmission"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
+
+DROP TRIGGER IF EXISTS audit_sample_submission_item_trigger ON "SampleSubmissionItem";
+CREATE TRIGGER audit_sample_submission_item_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "SampleSubmissionItem"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
@@ -0,0 +1,81 @@
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN "coaTemplateId" UUID;
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "coaTemplateId" UUID;
+
+-- CreateTable
+CREATE TABLE "COATemplate" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" UUID NOT NULL,
+    "updatedById" UUID NOT NULL,
+
+    CONSTRAINT "COATemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "COATemplateVersion" (
+    "id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "layout" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" UUID NOT NULL,
+    "templateId" UUID NOT NULL,
+
+    CONSTRAINT "COATemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Client_coaTemplateId_idx" ON "Client"("coaTemplateId");
+
+-- CreateIndex
+CREATE INDEX "Job_coaTemplateId_idx" ON "Job"("coaTemplateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "COATemplate_name_key" ON "COATemplate"("name");
+
+-- CreateIndex
+CREATE INDEX "COATemplate_createdById_idx" ON "COATemplate"("createdById");
+
+-- CreateIndex
+CREATE INDEX "COATemplate_updatedById_idx" ON "COATemplate"("updatedById");
+
+-- CreateIndex
+CREATE INDEX "COATemplateVersion_createdById_idx" ON "COATemplateVersion"("createdById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "COATemplateVersion_templateId_version_key" ON "COATemplateVersion"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "Client" ADD CONSTRAINT "Client_coaTemplateId_fkey" FOREIGN KEY ("coaTemplateId") REFERENCES "COATemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_coaTemplateId_fkey" FOREIGN KEY ("coaTemplateId") REFERENCES "COATemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "COATemplate" ADD CONSTRAINT "COATemplate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "COATemplate" ADD CONSTRAINT "COATemplate_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "COATemplateVersion" ADD CONSTRAINT "COATemplateVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "COATemplateVersion" ADD CONSTRAINT "COATemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "COATemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Audit triggers: a template version is part of what a COA was rendered with
+DROP TRIGGER IF EXISTS audit_coa_template_trigger ON "COATemplate";
+CREATE TRIGGER audit_coa_template_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "COATemplate"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
+
+DROP TRIGGER IF EXISTS audit_coa_template_version_trigger ON "COATemplateVersion";
+CREATE TRIGGER audit_coa_template_version_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "COATemplateVersion"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "COATemplateVersion" ADD COLUMN "source" TEXT;
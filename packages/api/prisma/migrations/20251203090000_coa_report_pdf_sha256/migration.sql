@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "COAReport" ADD COLUMN "pdfSha256" TEXT;
+
+-- CreateIndex
+CREATE INDEX "COAReport_pdfSha256_idx" ON "COAReport"("pdfSha256");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "COAReport" ADD COLUMN "amendmentReason" TEXT,
+ADD COLUMN "amendmentChanges" JSONB;
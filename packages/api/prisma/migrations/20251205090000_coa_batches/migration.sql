@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "COABatchStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "COABatch" (
+    "id" UUID NOT NULL,
+    "jobId" UUID NOT NULL,
+    "status" "COABatchStatus" NOT NULL DEFAULT 'RUNNING',
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "zipKey" TEXT,
+    "zipSha256" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdById" UUID NOT NULL,
+
+    CONSTRAINT "COABatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "COABatch_jobId_idx" ON "COABatch"("jobId");
+
+-- CreateIndex
+CREATE INDEX "COABatch_status_idx" ON "COABatch"("status");
+
+-- CreateIndex
+CREATE INDEX "COABatch_createdById_idx" ON "COABatch"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "COABatch" ADD CONSTRAINT "COABatch_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "COABatch" ADD CONSTRAINT "COABatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Audit trigger, so starting and completing a batch is on the record
+DROP TRIGGER IF EXISTS audit_coa_batch_trigger ON "COABatch";
+CREATE TRIGGER audit_coa_batch_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON "COABatch"
+  FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
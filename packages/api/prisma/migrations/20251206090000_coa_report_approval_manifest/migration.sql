@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "COAReport" ADD COLUMN "approvalPdfKey" TEXT,
+ADD COLUMN "approvalPdfSha256" TEXT;
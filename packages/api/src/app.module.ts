@@ -1,6 +1,6 @@
-import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
@@ -13,6 +13,8 @@ import { JobsModule } from './jobs/jobs.module';
 import { SamplesModule } from './samples/samples.module';
 import { TestAssignmentsModule } from './test-assignments/test-assignments.module';
 import { COAReportsModule } from './coa-reports/coa-reports.module';
+import { COATemplatesModule } from './coa-templates/coa-templates.module';
+import { COABatchesModule } from './coa-batches/coa-batches.module';
 import { ClientsModule } from './clients/clients.module';
 import { MethodsModule } from './methods/methods.module';
 import { SpecificationsModule } from './specifications/specifications.module';
@@ -20,11 +22,16 @@ import { SectionsModule } from './sections/sections.module';
 import { TestDefinitionsModule } from './test-definitions/test-definitions.module';
 import { TestPacksModule } from './test-packs/test-packs.module';
 import { LabSettingsModule } from './lab-settings/lab-settings.module';
+import { OOSInvestigationsModule } from './oos-investigations/oos-investigations.module';
+import { SignaturesModule } from './signatures/signatures.module';
 import { HealthModule } from './health/health.module';
+import { PortalModule } from './portal/portal.module';
+import { SampleSubmissionsModule } from './sample-submissions/sample-submissions.module';
 import { JwtAuthGuard } from './auth/jwt-auth.guard';
 import { RolesGuard } from './auth/roles.guard';
 import { PermissionsGuard } from './auth/permissions.guard';
-import { AuditContextMiddleware } from './audit/audit-context.middleware';
+import { AuditContextInterceptor } from './audit/audit-context.interceptor';
+import { ClientScopeInterceptor } from './auth/client-scope.interceptor';
 import { loggerConfig } from './config/logger.config';
 import { validateEnvironment } from './config/env.validation';
 
@@ -51,6 +58,8 @@ import { validateEnvironment } from './config/env.validation';
     SamplesModule,
     TestAssignmentsModule,
     COAReportsModule,
+    COATemplatesModule,
+    COABatchesModule,
     ClientsModule,
     MethodsModule,
     SpecificationsModule,
@@ -58,7 +67,11 @@ import { validateEnvironment } from './config/env.validation';
     TestDefinitionsModule,
     TestPacksModule,
     LabSettingsModule,
+    OOSInvestigationsModule,
+    SignaturesModule,
     HealthModule,
+    PortalModule,
+    SampleSubmissionsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -79,12 +92,16 @@ import { validateEnvironment } from './config/env.validation';
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    {
+      // Limits CLIENT users to the data of their own clients
+      provide: APP_INTERCEPTOR,
+      useClass: ClientScopeInterceptor,
+    },
+    {
+      // Attributes every write of a mutating request to its actor
+      provide: APP_INTERCEPTOR,
+      useClass: AuditContextInterceptor,
+    },
   ],
 })
-export class AppModule implements NestModule {
-  configure(consumer: MiddlewareConsumer) {
-    // Apply audit context middleware to all routes
-    // This will set PostgreSQL session variables for audit triggers
-    consumer.apply(AuditContextMiddleware).forRoutes('*');
-  }
-}
+export class AppModule {}
@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AuditChainService,
+  GENESIS_HASH,
+  hashAnchor,
+  hashAuditEntry,
+} from './audit-chain.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditChainService', () => {
+  let service: AuditChainService;
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+    auditLog: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+    },
+    auditAnchor: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  /**
+   * Build a linked chain the way audit_log_chain_trigger does
+   */
+  const buildChain = (length: number) => {
+    const rows: {
+      seq: number;
+      id: string;
+      prevHash: string;
+      hash: string;
+      payload: string;
+    }[] = [];
+    let prevHash = GENESIS_HASH;
+    for (let seq = 1; seq <= length; seq++) {
+      const payload = JSON.stringify([seq, `log-${seq}`, 'UPDATE']);
+      const hash = hashAuditEntry(prevHash, payload);
+      rows.push({ seq, id: `log-${seq}`, prevHash, hash, payload });
+      prevHash = hash;
+    }
+    return rows;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditChainService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditChainService>(AuditChainService);
+
+    mockPrismaService.auditLog.findFirst.mockResolvedValue(null);
+    mockPrismaService.auditAnchor.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verifyChain', () => {
+    it('should accept an intact chain', async () => {
+      const rows = buildChain(3);
+      mockPrismaService.$queryRaw.mockResolvedValueOnce(rows);
+
+      const result = await service.verifyChain();
+
+      expect(result).toEqual({
+        valid: true,
+        entriesChecked: 3,
+        anchorsChecked: 0,
+        lastSeq: 3,
+        lastHash: rows[2].hash,
+      });
+    });
+
+    it('should report an entry whose contents were rewritten', async () => {
+      const rows = buildChain(3);
+      rows[1].payload = JSON.stringify([2, 'log-2', 'DELETE']);
+      mockPrismaService.$queryRaw.mockResolvedValueOnce(rows);
+
+      const result = await service.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.entriesChecked).toBe(1);
+      expect(result.firstBrokenLink).toEqual({
+        seq: 2,
+        id: 'log-2',
+        reason: 'Entry contents do not match its hash',
+      });
+    });
+
+    it('should report a deleted entry', async () => {
+      const rows = buildChain(3);
+      mockPrismaService.$queryRaw.mockResolvedValueOnce([rows[0], rows[2]]);
+
+      const result = await service.verifyChain();
+
+      expect(result.firstBrokenLink).toEqual({
+        seq: 2,
+        reason: 'Entry 2 is missing; the chain resumes at 3',
+      });
+    });
+
+    it('should report a rehashed entry that no longer links back', async () => {
+      const rows = buildChain(2);
+      const forgedPrevHash = 'f'.repeat(64);
+      rows[1] = {
+        ...rows[1],
+        prevHash: forgedPrevHash,
+        hash: hashAuditEntry(forgedPrevHash, rows[1].payload),
+      };
+      mockPrismaService.$queryRaw.mockResolvedValueOnce(rows);
+
+      const result = await service.verifyChain();
+
+      expect(result.firstBrokenLink?.seq).toBe(2);
+      expect(result.firstBrokenLink?.reason).toBe(
+        'prevHash does not match the hash of entry 1',
+      );
+    });
+
+    it('should report entries that bypassed the chain', async () => {
+      mockPrismaService.auditLog.findFirst.mockResolvedValueOnce({
+        id: 'log-x',
+      });
+
+      const result = await service.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink?.id).toBe('log-x');
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('should catch a rewritten chain through its anchor', async () => {
+      const rows = buildChain(2);
+      const day = new Date('2025-11-23T00:00:00.000Z');
+      mockPrismaService.$queryRaw.mockResolvedValueOnce(rows);
+      mockPrismaService.auditAnchor.findMany.mockResolvedValue([
+        {
+          day,
+          lastSeq: 2,
+          lastHash: 'a'.repeat(64),
+          anchorHash: hashAnchor(GENESIS_HASH, day, 2, 'a'.repeat(64)),
+        },
+      ]);
+      mockPrismaService.auditLog.findUnique.mockResolvedValue({
+        hash: rows[1].hash,
+      });
+
+      const result = await service.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.entriesChecked).toBe(2);
+      expect(result.firstBrokenLink).toEqual({
+        seq: 2,
+        anchorDay: '2025-11-23',
+        reason: 'Entry 2 no longer matches the hash sealed on 2025-11-23',
+      });
+    });
+  });
+
+  describe('sealPendingAnchors', () => {
+    it('should seal each whole day since the last anchor', async () => {
+      const lastAnchor = {
+        day: new Date('2025-11-21T00:00:00.000Z'),
+        anchorHash: 'b'.repeat(64),
+      };
+      mockPrismaService.auditAnchor.findFirst.mockResolvedValue(lastAnchor);
+      mockPrismaService.auditLog.findFirst.mockResolvedValue({
+        seq: 42,
+        hash: 'c'.repeat(64),
+      });
+      mockPrismaService.auditLog.count.mockResolvedValue(5);
+      mockPrismaService.auditAnchor.create.mockImplementation((args) =>
+        Promise.resolve(args.data),
+      );
+
+      const anchors = await service.sealPendingAnchors(
+        new Date('2025-11-24T09:30:00.000Z'),
+      );
+
+      expect(anchors.map((anchor) => anchor.day.toISOString())).toEqual([
+        '2025-11-22T00:00:00.000Z',
+        '2025-11-23T00:00:00.000Z',
+      ]);
+      expect(anchors[0]).toEqual(
+        expect.objectContaining({
+          lastSeq: 42,
+          lastHash: 'c'.repeat(64),
+          entryCount: 5,
+          anchorHash: hashAnchor(
+            lastAnchor.anchorHash,
+            anchors[0].day,
+            42,
+            'c'.repeat(64),
+          ),
+        }),
+      );
+      expect(anchors[1].anchorHash).toBe(
+        hashAnchor(anchors[0].anchorHash, anchors[1].day, 42, 'c'.repeat(64)),
+      );
+    });
+
+    it('should not seal the current day', async () => {
+      mockPrismaService.auditAnchor.findFirst.mockResolvedValue({
+        day: new Date('2025-11-23T00:00:00.000Z'),
+        anchorHash: 'b'.repeat(64),
+      });
+
+      const anchors = await service.sealPendingAnchors(
+        new Date('2025-11-24T23:59:00.000Z'),
+      );
+
+      expect(anchors).toEqual([]);
+      expect(mockPrismaService.auditAnchor.create).not.toHaveBeenCalled();
+    });
+  });
+});
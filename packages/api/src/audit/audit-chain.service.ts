@@ -0,0 +1,295 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditAnchor } from '@prisma/client';
+
+/**
+ * prevHash of the first entry, and of the first anchor
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+const VERIFY_BATCH_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChainBreak {
+  seq?: number;
+  id?: string;
+  anchorDay?: string;
+  reason: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  entriesChecked: number;
+  anchorsChecked: number;
+  lastSeq: number;
+  lastHash: string;
+  firstBrokenLink?: ChainBreak;
+}
+
+interface ChainRow {
+  seq: number;
+  id: string;
+  prevHash: string;
+  hash: string;
+  payload: string; // audit_log_payload() of the stored row
+}
+
+/**
+ * Hash of an audit entry, as computed by audit_log_chain_trigger
+ */
+export function hashAuditEntry(prevHash: string, payload: string): string {
+  return createHash('sha256')
+    .update(prevHash + payload, 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Hash sealing a day's chain head onto the previous anchor
+ */
+export function hashAnchor(
+  prevAnchorHash: string,
+  day: Date,
+  lastSeq: number,
+  lastHash: string,
+): string {
+  return createHash('sha256')
+    .update([prevAnchorHash, formatDay(day), lastSeq, lastHash].join('|'))
+    .digest('hex');
+}
+
+/**
+ * Audit log hash chain
+ *
+ * The database links every AuditLog entry to the one before it (see the
+ * audit_hash_chain migration), whether the entry was written by
+ * AuditService or by an audit trigger. This service walks the chain to find
+ * rows that were changed or removed, and seals the chain head into a daily
+ * AuditAnchor so a rewritten chain no longer matches its anchors.
+ */
+@Injectable()
+export class AuditChainService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditChainService.name);
+  private anchorTimer?: NodeJS.Timeout;
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    // Catch up on days missed while the API was down, then seal each day
+    // shortly after midnight UTC
+    void this.runAnchorJob();
+  }
+
+  onModuleDestroy() {
+    clearTimeout(this.anchorTimer);
+  }
+
+  /**
+   * Walk the chain from the first entry and check every link and anchor
+   * @returns The first broken link, if any
+   */
+  async verifyChain(): Promise<ChainVerification> {
+    const result: ChainVerification = {
+      valid: true,
+      entriesChecked: 0,
+      anchorsChecked: 0,
+      lastSeq: 0,
+      lastHash: GENESIS_HASH,
+    };
+    const fail = (brokenLink: ChainBreak): ChainVerification => ({
+      ...result,
+      valid: false,
+      firstBrokenLink: brokenLink,
+    });
+
+    const unchained = await this.prisma.auditLog.findFirst({
+      where: { seq: null },
+      select: { id: true },
+    });
+    if (unchained) {
+      return fail({
+        id: unchained.id,
+        reason: 'Entry was written without going through the hash chain',
+      });
+    }
+
+    for (;;) {
+      const rows = await this.prisma.$queryRaw<ChainRow[]>`
+        SELECT seq, id, "prevHash", hash, audit_log_payload(entry) AS payload
+        FROM "AuditLog" entry
+        WHERE seq > ${result.lastSeq}
+        ORDER BY seq
+        LIMIT ${VERIFY_BATCH_SIZE}
+      `;
+
+      for (const row of rows) {
+        const expectedSeq = result.lastSeq + 1;
+        if (row.seq !== expectedSeq) {
+          return fail({
+            seq: expectedSeq,
+            reason: `Entry ${expectedSeq} is missing; the chain resumes at ${row.seq}`,
+          });
+        }
+        if (row.prevHash !== result.lastHash) {
+          return fail({
+            seq: row.seq,
+            id: row.id,
+            reason: `prevHash does not match the hash of entry ${result.lastSeq}`,
+          });
+        }
+        if (hashAuditEntry(row.prevHash, row.payload) !== row.hash) {
+          return fail({
+            seq: row.seq,
+            id: row.id,
+            reason: 'Entry contents do not match its hash',
+          });
+        }
+
+        result.entriesChecked++;
+        result.lastSeq = row.seq;
+        result.lastHash = row.hash;
+      }
+
+      if (rows.length < VERIFY_BATCH_SIZE) break;
+    }
+
+    const anchors = await this.prisma.auditAnchor.findMany({
+      orderBy: { day: 'asc' },
+    });
+    let prevAnchorHash = GENESIS_HASH;
+    for (const anchor of anchors) {
+      const anchorDay = formatDay(anchor.day);
+      const anchorHash = hashAnchor(
+        prevAnchorHash,
+        anchor.day,
+        anchor.lastSeq,
+        anchor.lastHash,
+      );
+      if (anchorHash !== anchor.anchorHash) {
+        return fail({
+          anchorDay,
+          reason: 'Anchor does not match its hash or the anchor before it',
+        });
+      }
+
+      const sealedHash =
+        anchor.lastSeq === 0
+          ? GENESIS_HASH
+          : (
+              await this.prisma.auditLog.findUnique({
+                where: { seq: anchor.lastSeq },
+                select: { hash: true },
+              })
+            )?.hash;
+      if (sealedHash !== anchor.lastHash) {
+        return fail({
+          seq: anchor.lastSeq,
+          anchorDay,
+          reason: `Entry ${anchor.lastSeq} no longer matches the hash sealed on ${anchorDay}`,
+        });
+      }
+
+      result.anchorsChecked++;
+      prevAnchorHash = anchor.anchorHash;
+    }
+
+    return result;
+  }
+
+  /**
+   * Seal every whole UTC day since the last anchor
+   * @returns The anchors created
+   */
+  async sealPendingAnchors(now = new Date()): Promise<AuditAnchor[]> {
+    const today = startOfDay(now);
+    const lastAnchor = await this.prisma.auditAnchor.findFirst({
+      orderBy: { day: 'desc' },
+    });
+
+    let day: Date;
+    if (lastAnchor) {
+      day = new Date(lastAnchor.day.getTime() + DAY_MS);
+    } else {
+      const firstEntry = await this.prisma.auditLog.findFirst({
+        orderBy: { seq: 'asc' },
+        select: { at: true },
+      });
+      if (!firstEntry) return [];
+      day = startOfDay(firstEntry.at);
+    }
+
+    const anchors: AuditAnchor[] = [];
+    let prevAnchorHash = lastAnchor?.anchorHash ?? GENESIS_HASH;
+    for (; day < today; day = new Date(day.getTime() + DAY_MS)) {
+      const anchor = await this.sealAnchor(day, prevAnchorHash);
+      anchors.push(anchor);
+      prevAnchorHash = anchor.anchorHash;
+    }
+    return anchors;
+  }
+
+  private async sealAnchor(
+    day: Date,
+    prevAnchorHash: string,
+  ): Promise<AuditAnchor> {
+    const end = new Date(day.getTime() + DAY_MS);
+    const [head, entryCount] = await Promise.all([
+      this.prisma.auditLog.findFirst({
+        where: { at: { lt: end }, seq: { not: null } },
+        orderBy: { seq: 'desc' },
+        select: { seq: true, hash: true },
+      }),
+      this.prisma.auditLog.count({ where: { at: { gte: day, lt: end } } }),
+    ]);
+
+    const lastSeq = head?.seq ?? 0;
+    const lastHash = head?.hash ?? GENESIS_HASH;
+
+    return this.prisma.auditAnchor.create({
+      data: {
+        day,
+        lastSeq,
+        lastHash,
+        entryCount,
+        anchorHash: hashAnchor(prevAnchorHash, day, lastSeq, lastHash),
+      },
+    });
+  }
+
+  private async runAnchorJob() {
+    try {
+      const anchors = await this.sealPendingAnchors();
+      if (anchors.length > 0) {
+        this.logger.log(`Sealed ${anchors.length} audit anchor(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to seal audit anchors: ${(error as Error).message}`,
+      );
+    }
+
+    // Five minutes past midnight UTC, so late writes of the day are in
+    const now = Date.now();
+    const nextRun = startOfDay(new Date(now)).getTime() + DAY_MS + 5 * 60000;
+    this.anchorTimer = setTimeout(
+      () => void this.runAnchorJob(),
+      nextRun - now,
+    );
+    this.anchorTimer.unref();
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
@@ -0,0 +1,21 @@
+/**
+ * AuditLog change formats
+ * Shared by the export and point-in-time reconstruction, which both read
+ * the entries written by AuditService and by the audit triggers
+ */
+
+/**
+ * Whether changes were written by an audit trigger ({old, new} rows) rather
+ * than by AuditService ({field: {old, new}})
+ */
+export function isRowSnapshot(changes: Record<string, any>): boolean {
+  const keys = Object.keys(changes);
+  return (
+    keys.length > 0 &&
+    keys.every((key) => key === 'old' || key === 'new') &&
+    Object.values(changes).every(
+      (row) =>
+        row && typeof row === 'object' && !('old' in row && 'new' in row),
+    )
+  );
+}
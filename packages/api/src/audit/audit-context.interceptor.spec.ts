@@ -0,0 +1,165 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { defer, lastValueFrom, of, throwError } from 'rxjs';
+import { AuditContextInterceptor } from './audit-context.interceptor';
+import { PrismaService } from '../prisma/prisma.service';
+
+// Stands in for the generated client so no query engine is loaded; the
+// transactions are replaced per test
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual<object>('@prisma/client'),
+  PrismaClient: class {
+    client = { update: jest.fn() };
+    $transaction = jest.fn();
+  },
+}));
+
+describe('AuditContextInterceptor', () => {
+  let prisma: PrismaService;
+  let interceptor: AuditContextInterceptor;
+  let mockTx: {
+    $executeRaw: jest.Mock;
+    client: { update: jest.Mock };
+  };
+
+  const user = { id: 'user-123', email: 'analyst@example.com' };
+
+  const httpContext = (request: Record<string, unknown>) =>
+    ({
+      getType: () => 'http',
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const request = (overrides: Record<string, unknown> = {}) => ({
+    method: 'PATCH',
+    user,
+    ip: '10.0.0.7',
+    headers: {
+      'user-agent': 'Mozilla/5.0\', true); DROP TABLE "AuditLog"; --',
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prisma = new PrismaService();
+    interceptor = new AuditContextInterceptor(prisma);
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      client: { update: jest.fn().mockResolvedValue({ id: 'client-1' }) },
+    };
+    jest
+      .spyOn(prisma, '$transaction')
+      .mockImplementation((fn: any) => fn(mockTx));
+    (prisma.client.update as unknown as jest.Mock).mockResolvedValue({
+      id: 'client-1',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should attribute writes made by the handler to the authenticated user', async () => {
+    // The handler writes through PrismaService, as the services do
+    const next: CallHandler = {
+      handle: () =>
+        defer(() =>
+          prisma.client.update({
+            where: { id: 'client-1' },
+            data: { name: 'Acme' },
+          }),
+        ),
+    };
+
+    await lastValueFrom(interceptor.intercept(httpContext(request()), next));
+
+    const [sql, ...values] = mockTx.$executeRaw.mock.calls[0] as [
+      TemplateStringsArray,
+      ...unknown[],
+    ];
+    expect(sql.join('?')).not.toContain('DROP TABLE');
+    expect(values).toEqual([
+      'user-123',
+      'analyst@example.com',
+      '10.0.0.7',
+      'Mozilla/5.0\', true); DROP TABLE "AuditLog"; --',
+      '',
+      '',
+    ]);
+    expect(mockTx.client.update).toHaveBeenCalledWith({
+      where: { id: 'client-1' },
+      data: { name: 'Acme' },
+    });
+    expect(mockTx.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      mockTx.client.update.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should return the handler result', async () => {
+    const next: CallHandler = { handle: () => of({ id: 'client-1' }) };
+
+    await expect(
+      lastValueFrom(interceptor.intercept(httpContext(request()), next)),
+    ).resolves.toEqual({ id: 'client-1' });
+  });
+
+  it('should not hold a transaction open while the handler runs', async () => {
+    // e.g. a COA PDF rendered between two writes
+    const next: CallHandler = {
+      handle: () =>
+        defer(async () => {
+          await prisma.client.update({ where: { id: 'client-1' }, data: {} });
+          expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return prisma.client.update({ where: { id: 'client-1' }, data: {} });
+        }),
+    };
+
+    await lastValueFrom(interceptor.intercept(httpContext(request()), next));
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should propagate handler errors', async () => {
+    const next: CallHandler = {
+      handle: () => throwError(() => new Error('validation failed')),
+    };
+
+    await expect(
+      lastValueFrom(interceptor.intercept(httpContext(request()), next)),
+    ).rejects.toThrow('validation failed');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should not attach the context to read requests', async () => {
+    const next: CallHandler = {
+      handle: () =>
+        defer(() =>
+          prisma.client.update({ where: { id: 'client-1' }, data: {} }),
+        ),
+    };
+
+    await lastValueFrom(
+      interceptor.intercept(httpContext(request({ method: 'GET' })), next),
+    );
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should not attach the context to unauthenticated requests', async () => {
+    const next: CallHandler = {
+      handle: () =>
+        defer(() =>
+          prisma.client.update({ where: { id: 'client-1' }, data: {} }),
+        ),
+    };
+
+    await lastValueFrom(
+      interceptor.intercept(
+        httpContext(request({ method: 'POST', user: undefined })),
+        next,
+      ),
+    );
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { from, lastValueFrom, Observable } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+
+// The authenticated user attached by JwtStrategy.validate
+interface RequestWithUser extends Request {
+  user?: {
+    id: string;
+    email: string;
+  };
+}
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Attaches the audit context of each authenticated mutating request
+ *
+ * Interceptors run after the guards, so the JWT user is known here. Every
+ * write the handler makes through PrismaService runs in a transaction with
+ * the context set, and the audit triggers log it with the real actor, IP
+ * and user agent. The handler itself is not wrapped in a transaction, so
+ * PDF rendering and file uploads never hold the audit chain lock.
+ */
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  constructor(private prisma: PrismaService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const req = context.switchToHttp().getRequest<RequestWithUser>();
+    if (!MUTATING_METHODS.has(req.method) || !req.user) {
+      return next.handle();
+    }
+
+    return from(
+      this.prisma.withRequestAuditContext(
+        {
+          actorId: req.user.id,
+          actorEmail: req.user.email,
+          ip: req.ip,
+          userAgent: req.headers['user-agent'],
+        },
+        () => lastValueFrom(next.handle(), { defaultValue: undefined }),
+      ),
+    );
+  }
+}
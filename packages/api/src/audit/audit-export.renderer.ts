@@ -0,0 +1,363 @@
+/**
+ * Audit Trail Export Renderer
+ * Builds the PDF HTML and the CSV for an inspection export from AuditLog rows
+ */
+
+import { AuditAction, AuditLog } from '@prisma/client';
+import { isRowSnapshot } from './audit-changes';
+
+export interface AuditExportData {
+  subject: string; // e.g. "Sample S-2025-001"
+  generatedAt: Date;
+  generatedBy: string;
+  entries: AuditLog[]; // Chronological, as written to the chain
+}
+
+export interface FieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+export interface AuditTransaction {
+  txId: string;
+  at: Date;
+  actorEmail: string;
+  ip: string | null;
+  entries: AuditLog[];
+}
+
+// Bookkeeping columns left out of trigger row snapshots, as AuditService does
+const SKIPPED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+const CSV_HEADERS = [
+  'seq',
+  'txId',
+  'at',
+  'actorEmail',
+  'action',
+  'table',
+  'recordId',
+  'field',
+  'oldValue',
+  'newValue',
+  'reason',
+  'hash',
+];
+
+/**
+ * Field-level changes of an entry. AuditService stores {field: {old, new}};
+ * audit triggers store whole rows as {old, new}.
+ */
+export function flattenChanges(changes: unknown): FieldChange[] {
+  if (!changes || typeof changes !== 'object') return [];
+  const entries = changes as Record<string, any>;
+
+  if (isRowSnapshot(entries)) {
+    const oldRow: Record<string, unknown> = entries.old ?? {};
+    const newRow: Record<string, unknown> = entries.new ?? {};
+    const fields = new Set([...Object.keys(oldRow), ...Object.keys(newRow)]);
+
+    return [...fields]
+      .filter((field) => !SKIPPED_FIELDS.includes(field))
+      .filter(
+        (field) =>
+          JSON.stringify(oldRow[field]) !== JSON.stringify(newRow[field]),
+      )
+      .map((field) => ({
+        field,
+        old: oldRow[field] ?? null,
+        new: newRow[field] ?? null,
+      }));
+  }
+
+  return Object.entries(entries).map(([field, change]) => ({
+    field,
+    old: change?.old ?? null,
+    new: change?.new ?? null,
+  }));
+}
+
+/**
+ * Group entries by txId in the order they were written; entries without a
+ * txId stand alone
+ */
+export function groupByTransaction(entries: AuditLog[]): AuditTransaction[] {
+  const transactions = new Map<string, AuditTransaction>();
+
+  for (const entry of entries) {
+    const txId = entry.txId || entry.id;
+    let transaction = transactions.get(txId);
+    if (!transaction) {
+      transaction = {
+        txId,
+        at: entry.at,
+        actorEmail: entry.actorEmail,
+        ip: entry.ip,
+        entries: [],
+      };
+      transactions.set(txId, transaction);
+    }
+    transaction.entries.push(entry);
+  }
+
+  return Array.from(transactions.values());
+}
+
+/**
+ * CSV with one row per changed field, so the export can be filtered and
+ * sorted in a spreadsheet
+ */
+export function renderAuditExportCsv(entries: AuditLog[]): string {
+  const rows = [CSV_HEADERS];
+
+  for (const entry of entries) {
+    const changes = flattenChanges(entry.changes);
+    const base = [
+      entry.seq?.toString() ?? '',
+      entry.txId ?? '',
+      entry.at.toISOString(),
+      entry.actorEmail,
+      entry.action,
+      entry.table,
+      entry.recordId,
+    ];
+    const trailer = [entry.reason ?? '', entry.hash ?? ''];
+
+    if (changes.length === 0) {
+      rows.push([...base, '', '', '', ...trailer]);
+    }
+    for (const change of changes) {
+      rows.push([
+        ...base,
+        change.field,
+        formatValue(change.old),
+        formatValue(change.new),
+        ...trailer,
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Printable audit trail, grouped by transaction with field-level diffs
+ */
+export function renderAuditExportHtml(data: AuditExportData): string {
+  const transactions = groupByTransaction(data.entries);
+  const head = data.entries[data.entries.length - 1];
+
+  const transactionsHtml = transactions
+    .map(
+      (transaction) => `
+  <div class="transaction">
+    <div class="transaction-header">
+      <strong>${formatDate(transaction.at)}</strong>
+      &middot; ${escapeHtml(transaction.actorEmail)}
+      ${transaction.ip ? `&middot; ${escapeHtml(transaction.ip)}` : ''}
+      <span class="tx-id">${escapeHtml(transaction.txId)}</span>
+    </div>
+    ${transaction.entries.map(renderEntry).join('')}
+  </div>`,
+    )
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Audit Trail - ${escapeHtml(data.subject)}</title>
+  <style>
+    @page {
+      size: A4;
+      margin: 15mm;
+    }
+
+    body {
+      font-family: Arial, sans-serif;
+      font-size: 9pt;
+      margin: 0;
+      padding: 0;
+      line-height: 1.4;
+    }
+
+    .header {
+      border-bottom: 2px solid #2563eb;
+      padding-bottom: 10px;
+      margin-bottom: 15px;
+    }
+
+    .header h1 {
+      margin: 0 0 5px 0;
+      font-size: 1.5em;
+      color: #1e40af;
+    }
+
+    .summary td {
+      padding: 2px 10px 2px 0;
+    }
+
+    .mono {
+      font-family: 'Courier New', monospace;
+      font-size: 8pt;
+      word-break: break-all;
+    }
+
+    .transaction {
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+      margin-bottom: 10px;
+      page-break-inside: avoid;
+    }
+
+    .transaction-header {
+      background: #f3f4f6;
+      padding: 5px 8px;
+      border-bottom: 1px solid #d1d5db;
+    }
+
+    .tx-id {
+      float: right;
+      color: #6b7280;
+      font-family: 'Courier New', monospace;
+      font-size: 8pt;
+    }
+
+    .entry {
+      padding: 5px 8px;
+    }
+
+    .entry + .entry {
+      border-top: 1px dashed #e5e7eb;
+    }
+
+    .action {
+      font-weight: bold;
+    }
+
+    .action-CREATE { color: #047857; }
+    .action-UPDATE { color: #1d4ed8; }
+    .action-DELETE { color: #b91c1c; }
+
+    .reason {
+      margin: 3px 0;
+      padding: 3px 6px;
+      background: #fefce8;
+      border-left: 3px solid #eab308;
+    }
+
+    table.diff {
+      width: 100%;
+      border-collapse: collapse;
+      margin-top: 3px;
+    }
+
+    table.diff th, table.diff td {
+      border: 1px solid #e5e7eb;
+      padding: 2px 5px;
+      text-align: left;
+      vertical-align: top;
+      word-break: break-word;
+    }
+
+    table.diff th {
+      background: #f9fafb;
+      width: 20%;
+    }
+
+    .old { color: #b91c1c; }
+    .new { color: #047857; }
+
+    .footer {
+      margin-top: 15px;
+      padding-top: 8px;
+      border-top: 1px solid #d1d5db;
+      font-size: 8pt;
+      color: #6b7280;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Audit Trail</h1>
+    <table class="summary">
+      <tr><td><strong>Record</strong></td><td>${escapeHtml(data.subject)}</td></tr>
+      <tr><td><strong>Generated</strong></td><td>${formatDate(data.generatedAt)} by ${escapeHtml(data.generatedBy)}</td></tr>
+      <tr><td><strong>Entries</strong></td><td>${data.entries.length} in ${transactions.length} transaction(s)</td></tr>
+      ${
+        head?.seq
+          ? `<tr><td><strong>Last chain entry</strong></td><td>#${head.seq} <span class="mono">${escapeHtml(head.hash ?? '')}</span></td></tr>`
+          : ''
+      }
+    </table>
+  </div>
+
+  ${transactionsHtml || '<p><em>No audit entries recorded.</em></p>'}
+
+  <div class="footer">
+    Each entry shows its position (#) and hash in the audit log hash chain; they can be checked
+    against the live log with GET /audit/verify. The SHA-256 checksum of this document is recorded
+    with the export.
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+function renderEntry(entry: AuditLog): string {
+  const changes = flattenChanges(entry.changes);
+  const rows = changes
+    .map(
+      (change) => `
+        <tr>
+          <th>${escapeHtml(change.field)}</th>
+          <td class="old">${escapeHtml(formatValue(change.old))}</td>
+          <td class="new">${escapeHtml(formatValue(change.new))}</td>
+        </tr>`,
+    )
+    .join('');
+
+  return `
+    <div class="entry">
+      <span class="action action-${entry.action}">${actionLabel(entry.action)}</span>
+      ${escapeHtml(entry.table)} <span class="mono">${escapeHtml(entry.recordId)}</span>
+      ${entry.seq ? `<span class="tx-id">#${entry.seq} ${escapeHtml((entry.hash ?? '').slice(0, 16))}</span>` : ''}
+      ${entry.reason ? `<div class="reason"><strong>Reason:</strong> ${escapeHtml(entry.reason)}</div>` : ''}
+      ${rows ? `<table class="diff"><tr><th>Field</th><th>Old</th><th>New</th></tr>${rows}</table>` : ''}
+    </div>`;
+}
+
+function actionLabel(action: AuditAction): string {
+  switch (action) {
+    case AuditAction.CREATE:
+      return 'Created';
+    case AuditAction.UPDATE:
+      return 'Updated';
+    case AuditAction.DELETE:
+      return 'Deleted';
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,306 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { AuditAction } from '@prisma/client';
+import { AuditExportService } from './audit-export.service';
+import {
+  flattenChanges,
+  groupByTransaction,
+  renderAuditExportCsv,
+} from './audit-export.renderer';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('AuditExportService', () => {
+  let service: AuditExportService;
+
+  const mockPrismaService = {
+    job: { findUnique: jest.fn() },
+    sample: { findUnique: jest.fn() },
+    testAssignment: { findMany: jest.fn() },
+    cOAReport: { findMany: jest.fn() },
+    attachment: { findMany: jest.fn() },
+    oOSInvestigation: { findMany: jest.fn() },
+    electronicSignature: { findMany: jest.fn() },
+    auditLog: { findMany: jest.fn() },
+    auditExport: { create: jest.fn(), findUnique: jest.fn() },
+  };
+
+  const mockPdfService = {
+    generatePdfFromHtml: jest.fn(),
+  };
+
+  const mockStorageService = {
+    uploadFile: jest.fn((key: string) => Promise.resolve(key)),
+    getFile: jest.fn(),
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'qa@example.com',
+  };
+
+  const entry = (overrides: Record<string, unknown>) => ({
+    id: 'log-1',
+    actorId: 'user-123',
+    actorEmail: 'qa@example.com',
+    ip: null,
+    userAgent: null,
+    action: AuditAction.UPDATE,
+    table: 'Sample',
+    recordId: 'sample-1',
+    changes: null,
+    reason: null,
+    at: new Date('2025-11-26T10:00:00.000Z'),
+    txId: null,
+    seq: 1,
+    prevHash: null,
+    hash: 'h1',
+    ...overrides,
+  });
+
+  const sha256 = (buffer: Buffer) =>
+    createHash('sha256').update(buffer).digest('hex');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditExportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: PdfService, useValue: mockPdfService },
+        { provide: StorageService, useValue: mockStorageService },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditExportService>(AuditExportService);
+
+    mockPrismaService.testAssignment.findMany.mockResolvedValue([]);
+    mockPrismaService.cOAReport.findMany.mockResolvedValue([]);
+    mockPrismaService.attachment.findMany.mockResolvedValue([]);
+    mockPrismaService.oOSInvestigation.findMany.mockResolvedValue([]);
+    mockPrismaService.electronicSignature.findMany.mockResolvedValue([]);
+    mockPrismaService.auditLog.findMany.mockResolvedValue([]);
+    mockPrismaService.auditExport.create.mockImplementation((args) =>
+      Promise.resolve({ id: 'export-1', ...args.data }),
+    );
+    mockPdfService.generatePdfFromHtml.mockResolvedValue(Buffer.from('%PDF'));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createExport', () => {
+    it('should gather entries of the job, its samples and their children', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-1',
+        jobNumber: 'JOB-001',
+        samples: [{ id: 'sample-1' }, { id: 'sample-2' }],
+      });
+      mockPrismaService.testAssignment.findMany.mockResolvedValue([
+        { id: 'ta-1' },
+      ]);
+      mockPrismaService.cOAReport.findMany.mockResolvedValue([{ id: 'coa-1' }]);
+      mockPrismaService.electronicSignature.findMany.mockResolvedValue([
+        { id: 'sig-1' },
+      ]);
+
+      await service.createExport({ table: 'Job', recordId: 'job-1' }, context);
+
+      expect(
+        mockPrismaService.electronicSignature.findMany,
+      ).toHaveBeenCalledWith({
+        where: { recordId: { in: ['ta-1', 'coa-1'] } },
+        select: { id: true },
+      });
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { table: 'Job', recordId: { in: ['job-1'] } },
+            { table: 'Sample', recordId: { in: ['sample-1', 'sample-2'] } },
+            { table: 'TestAssignment', recordId: { in: ['ta-1'] } },
+            { table: 'COAReport', recordId: { in: ['coa-1'] } },
+            { table: 'ElectronicSignature', recordId: { in: ['sig-1'] } },
+          ],
+        },
+        orderBy: [{ seq: 'asc' }, { at: 'asc' }],
+      });
+    });
+
+    it('should include test assignments deleted since', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        id: 'sample-1',
+        sampleCode: 'S-001',
+      });
+      mockPrismaService.testAssignment.findMany.mockResolvedValue([
+        { id: 'ta-1' },
+      ]);
+      // Only the CREATE entries of the sample's test assignments
+      mockPrismaService.auditLog.findMany.mockResolvedValueOnce([
+        { recordId: 'ta-1' },
+        { recordId: 'ta-deleted' },
+      ]);
+
+      await service.createExport(
+        { table: 'Sample', recordId: 'sample-1' },
+        context,
+      );
+
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          table: 'TestAssignment',
+          action: AuditAction.CREATE,
+          OR: [
+            { changes: { path: ['sampleId', 'new'], equals: 'sample-1' } },
+            { changes: { path: ['new', 'sampleId'], equals: 'sample-1' } },
+          ],
+        },
+        select: { recordId: true },
+      });
+      expect(
+        mockPrismaService.electronicSignature.findMany,
+      ).toHaveBeenCalledWith({
+        where: { recordId: { in: ['ta-1', 'ta-deleted'] } },
+        select: { id: true },
+      });
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenLastCalledWith({
+        where: {
+          OR: [
+            { table: 'Sample', recordId: { in: ['sample-1'] } },
+            {
+              table: 'TestAssignment',
+              recordId: { in: ['ta-1', 'ta-deleted'] },
+            },
+          ],
+        },
+        orderBy: [{ seq: 'asc' }, { at: 'asc' }],
+      });
+    });
+
+    it('should store the PDF and CSV with their checksums', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        id: 'sample-1',
+        sampleCode: 'S-001',
+      });
+      mockPrismaService.auditLog.findMany.mockResolvedValue([
+        entry({ seq: 7 }),
+        entry({ id: 'log-2', seq: 9 }),
+      ]);
+
+      const result = await service.createExport(
+        { table: 'Sample', recordId: 'sample-1' },
+        context,
+      );
+
+      const [, csv] = mockStorageService.uploadFile.mock
+        .calls[1] as unknown as [string, Buffer];
+      expect(mockStorageService.uploadFile).toHaveBeenCalledWith(
+        expect.stringMatching(/^audit-exports\/Sample-sample-1-\d+\.pdf$/),
+        Buffer.from('%PDF'),
+        'application/pdf',
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          entryCount: 2,
+          lastSeq: 9,
+          pdfSha256: sha256(Buffer.from('%PDF')),
+          csvSha256: sha256(csv),
+          createdById: 'user-123',
+        }),
+      );
+    });
+
+    it('should reject an unknown record', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.createExport({ table: 'Sample', recordId: 'missing' }, context),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPdfService.generatePdfFromHtml).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExportFile', () => {
+    it('should refuse a stored file that no longer matches its checksum', async () => {
+      mockPrismaService.auditExport.findUnique.mockResolvedValue({
+        id: 'export-1',
+        csvKey: 'audit-exports/x.csv',
+        csvSha256: sha256(Buffer.from('original')),
+      });
+      mockStorageService.getFile.mockResolvedValue(Buffer.from('edited'));
+
+      await expect(service.getExportFile('export-1', 'csv')).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+});
+
+describe('Audit export rendering', () => {
+  it('should flatten field changes written by AuditService', () => {
+    expect(flattenChanges({ result: { old: '1.0', new: '1.2' } })).toEqual([
+      { field: 'result', old: '1.0', new: '1.2' },
+    ]);
+  });
+
+  it('should diff row snapshots written by audit triggers', () => {
+    expect(
+      flattenChanges({
+        old: { id: 'c-1', name: 'Acme', email: null, updatedAt: 'a' },
+        new: { id: 'c-1', name: 'Acme Ltd', email: null, updatedAt: 'b' },
+      }),
+    ).toEqual([{ field: 'name', old: 'Acme', new: 'Acme Ltd' }]);
+  });
+
+  it('should group entries by txId in the order they were written', () => {
+    const groups = groupByTransaction([
+      { id: 'log-1', txId: 'tx-a', at: new Date() },
+      { id: 'log-2', txId: 'tx-b', at: new Date() },
+      { id: 'log-3', txId: 'tx-a', at: new Date() },
+      { id: 'log-4', txId: null, at: new Date() },
+    ] as any);
+
+    expect(
+      groups.map((group) => [
+        group.txId,
+        group.entries.map((entry) => entry.id),
+      ]),
+    ).toEqual([
+      ['tx-a', ['log-1', 'log-3']],
+      ['tx-b', ['log-2']],
+      ['log-4', ['log-4']],
+    ]);
+  });
+
+  it('should quote CSV values with commas, quotes and line breaks', () => {
+    const csv = renderAuditExportCsv([
+      {
+        id: 'log-1',
+        seq: 3,
+        txId: 'tx-1',
+        at: new Date('2025-11-26T10:00:00.000Z'),
+        actorEmail: 'qa@example.com',
+        action: AuditAction.UPDATE,
+        table: 'Sample',
+        recordId: 'sample-1',
+        changes: { comments: { old: null, new: 'Seal "broken",\nresampled' } },
+        reason: 'Late observation',
+        hash: 'h3',
+      },
+    ] as any);
+
+    expect(csv.split('\r\n')[1]).toBe(
+      '3,tx-1,2025-11-26T10:00:00.000Z,qa@example.com,UPDATE,Sample,sample-1,' +
+        'comments,,"Seal ""broken"",\nresampled",Late observation,h3',
+    );
+  });
+});
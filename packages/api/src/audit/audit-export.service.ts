@@ -0,0 +1,293 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { AuditAction, AuditExport, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PdfService } from '../pdf/pdf.service';
+import { StorageService } from '../storage/storage.service';
+import { AuditContext } from './audit.service';
+import {
+  renderAuditExportCsv,
+  renderAuditExportHtml,
+} from './audit-export.renderer';
+
+export const AUDIT_EXPORT_TABLES = ['Sample', 'Job'] as const;
+export type AuditExportTable = (typeof AUDIT_EXPORT_TABLES)[number];
+
+export interface CreateAuditExportDto {
+  table: AuditExportTable;
+  recordId: string;
+}
+
+export type AuditExportFormat = 'pdf' | 'csv';
+
+interface RelatedRecords {
+  subject: string;
+  records: { table: string; ids: string[] }[];
+}
+
+/**
+ * Audit trail export for inspections
+ *
+ * Gathers every AuditLog entry of a sample or job and of its child records
+ * (test assignments, attachments, COA reports, OOS investigations and
+ * signatures), renders them as PDF and CSV and stores both in MinIO with
+ * their SHA-256 checksums.
+ */
+@Injectable()
+export class AuditExportService {
+  constructor(
+    private prisma: PrismaService,
+    private pdfService: PdfService,
+    private storageService: StorageService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Export the audit trail of a sample or job
+   */
+  async createExport(
+    dto: CreateAuditExportDto,
+    context: AuditContext,
+  ): Promise<AuditExport> {
+    if (!AUDIT_EXPORT_TABLES.includes(dto.table)) {
+      throw new BadRequestException(
+        `table must be one of: ${AUDIT_EXPORT_TABLES.join(', ')}`,
+      );
+    }
+
+    const { subject, records } = await this.collectRecords(dto);
+    const entries = await this.prisma.auditLog.findMany({
+      where: {
+        OR: records
+          .filter((record) => record.ids.length > 0)
+          .map((record) => ({
+            table: record.table,
+            recordId: { in: record.ids },
+          })),
+      },
+      orderBy: [{ seq: 'asc' }, { at: 'asc' }],
+    });
+
+    const generatedAt = new Date();
+    const html = renderAuditExportHtml({
+      subject,
+      generatedAt,
+      generatedBy: context.actorEmail,
+      entries,
+    });
+    const pdf = await this.pdfService.generatePdfFromHtml(html);
+    const csv = Buffer.from(renderAuditExportCsv(entries), 'utf8');
+
+    const storagePath = this.configService.get<string>(
+      'AUDIT_EXPORT_STORAGE_PATH',
+      'audit-exports',
+    );
+    const baseKey = `${storagePath}/${dto.table}-${dto.recordId}-${generatedAt.getTime()}`;
+    const pdfKey = await this.storageService.uploadFile(
+      `${baseKey}.pdf`,
+      pdf,
+      'application/pdf',
+    );
+    const csvKey = await this.storageService.uploadFile(
+      `${baseKey}.csv`,
+      csv,
+      'text/csv',
+    );
+
+    return this.prisma.auditExport.create({
+      data: {
+        table: dto.table,
+        recordId: dto.recordId,
+        entryCount: entries.length,
+        lastSeq: entries.reduce<number | null>(
+          (max, entry) =>
+            entry.seq !== null && (max === null || entry.seq > max)
+              ? entry.seq
+              : max,
+          null,
+        ),
+        pdfKey,
+        pdfSha256: sha256(pdf),
+        csvKey,
+        csvSha256: sha256(csv),
+        createdById: context.actorId,
+      },
+    });
+  }
+
+  /**
+   * List exports, newest first
+   */
+  async listExports(filters?: { table?: string; recordId?: string }) {
+    const where: Prisma.AuditExportWhereInput = {};
+    if (filters?.table) where.table = filters.table;
+    if (filters?.recordId) where.recordId = filters.recordId;
+
+    return this.prisma.auditExport.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        createdBy: { select: { id: true, email: true, name: true } },
+      },
+    });
+  }
+
+  /**
+   * Fetch a stored export file, checking it still matches its checksum
+   * @throws InternalServerErrorException if the stored file was altered
+   */
+  async getExportFile(id: string, format: AuditExportFormat) {
+    const auditExport = await this.prisma.auditExport.findUnique({
+      where: { id },
+    });
+
+    if (!auditExport) {
+      throw new NotFoundException(`AuditExport with ID '${id}' not found`);
+    }
+
+    const key = format === 'pdf' ? auditExport.pdfKey : auditExport.csvKey;
+    const checksum =
+      format === 'pdf' ? auditExport.pdfSha256 : auditExport.csvSha256;
+    const buffer = await this.storageService.getFile(key);
+
+    if (sha256(buffer) !== checksum) {
+      throw new InternalServerErrorException(
+        `Stored ${format.toUpperCase()} of audit export '${id}' does not match its checksum`,
+      );
+    }
+
+    return {
+      buffer,
+      checksum,
+      contentType: format === 'pdf' ? 'application/pdf' : 'text/csv',
+      fileName: `audit-trail-${auditExport.table}-${auditExport.recordId}.${format}`,
+    };
+  }
+
+  /**
+   * The exported record and its child records, by table. Soft-deleted
+   * samples of a job are included, since their history is part of the job's,
+   * and so are deleted test assignments.
+   */
+  private async collectRecords(
+    dto: CreateAuditExportDto,
+  ): Promise<RelatedRecords> {
+    let subject: string;
+    let sampleIds: string[];
+    const records: RelatedRecords['records'] = [];
+
+    if (dto.table === 'Job') {
+      const job = await this.prisma.job.findUnique({
+        where: { id: dto.recordId },
+        select: {
+          id: true,
+          jobNumber: true,
+          samples: { select: { id: true } },
+        },
+      });
+      if (!job) {
+        throw new NotFoundException(`Job with ID '${dto.recordId}' not found`);
+      }
+      subject = `Job ${job.jobNumber}`;
+      sampleIds = job.samples.map((sample) => sample.id);
+      records.push({ table: 'Job', ids: [job.id] });
+    } else {
+      const sample = await this.prisma.sample.findUnique({
+        where: { id: dto.recordId },
+        select: { id: true, sampleCode: true },
+      });
+      if (!sample) {
+        throw new NotFoundException(
+          `Sample with ID '${dto.recordId}' not found`,
+        );
+      }
+      subject = `Sample ${sample.sampleCode}`;
+      sampleIds = [sample.id];
+    }
+
+    const inSamples = { in: sampleIds };
+    const [testAssignmentIds, coaReports, attachments, investigations] =
+      await Promise.all([
+        this.findTestAssignmentIds(sampleIds),
+        this.prisma.cOAReport.findMany({
+          where: { sampleId: inSamples },
+          select: { id: true },
+        }),
+        this.prisma.attachment.findMany({
+          where: {
+            OR: [
+              { sampleId: inSamples },
+              { testAssignment: { sampleId: inSamples } },
+            ],
+          },
+          select: { id: true },
+        }),
+        this.prisma.oOSInvestigation.findMany({
+          where: { sampleId: inSamples },
+          select: { id: true },
+        }),
+      ]);
+
+    const signedIds = [
+      ...testAssignmentIds,
+      ...coaReports.map((report) => report.id),
+    ];
+    const signatures = await this.prisma.electronicSignature.findMany({
+      where: { recordId: { in: signedIds } },
+      select: { id: true },
+    });
+
+    const ids = (rows: { id: string }[]) => rows.map((row) => row.id);
+    records.push(
+      { table: 'Sample', ids: sampleIds },
+      { table: 'TestAssignment', ids: testAssignmentIds },
+      { table: 'Attachment', ids: ids(attachments) },
+      { table: 'COAReport', ids: ids(coaReports) },
+      { table: 'OOSInvestigation', ids: ids(investigations) },
+      { table: 'ElectronicSignature', ids: ids(signatures) },
+    );
+
+    return { subject, records };
+  }
+
+  /**
+   * Current test assignments of the samples and those since deleted, found
+   * through the sample recorded on their creation
+   */
+  private async findTestAssignmentIds(sampleIds: string[]): Promise<string[]> {
+    const [current, created] = await Promise.all([
+      this.prisma.testAssignment.findMany({
+        where: { sampleId: { in: sampleIds } },
+        select: { id: true },
+      }),
+      this.prisma.auditLog.findMany({
+        where: {
+          table: 'TestAssignment',
+          action: AuditAction.CREATE,
+          OR: sampleIds.flatMap((sampleId) => [
+            { changes: { path: ['sampleId', 'new'], equals: sampleId } },
+            { changes: { path: ['new', 'sampleId'], equals: sampleId } },
+          ]),
+        },
+        select: { recordId: true },
+      }),
+    ]);
+
+    return [
+      ...new Set([
+        ...current.map((row) => row.id),
+        ...created.map((row) => row.recordId),
+      ]),
+    ];
+  }
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { AuditAction } from '@prisma/client';
+import {
+  AuditReconstructionService,
+  ReconstructedSample,
+} from './audit-reconstruction.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AuditReconstructionService', () => {
+  let service: AuditReconstructionService;
+
+  const mockPrismaService = {
+    auditLog: { findMany: jest.fn() },
+    testAssignment: { findMany: jest.fn() },
+    electronicSignature: { findUnique: jest.fn() },
+  };
+
+  const entry = (overrides: Record<string, unknown>) => ({
+    id: 'log-1',
+    actorId: 'user-123',
+    actorEmail: 'analyst@example.com',
+    ip: null,
+    userAgent: null,
+    action: AuditAction.UPDATE,
+    table: 'Sample',
+    recordId: 'sample-1',
+    changes: null,
+    reason: null,
+    at: new Date('2025-11-27T10:00:00.000Z'),
+    txId: null,
+    seq: 1,
+    prevHash: null,
+    hash: 'h1',
+    ...overrides,
+  });
+
+  const sampleHistory = [
+    entry({
+      id: 'log-1',
+      action: AuditAction.CREATE,
+      changes: {
+        sampleCode: { old: null, new: 'S-001' },
+        status: { old: null, new: 'RECEIVED' },
+      },
+      at: new Date('2025-11-27T09:00:00.000Z'),
+    }),
+    entry({
+      id: 'log-2',
+      changes: { status: { old: 'RECEIVED', new: 'REVIEWED' } },
+      at: new Date('2025-11-27T10:00:00.000Z'),
+    }),
+    entry({
+      id: 'log-3',
+      changes: { status: { old: 'REVIEWED', new: 'RELEASED' } },
+      reason: 'Released to client',
+      at: new Date('2025-11-27T11:00:00.000Z'),
+    }),
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditReconstructionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<AuditReconstructionService>(
+      AuditReconstructionService,
+    );
+
+    mockPrismaService.testAssignment.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('reconstruct', () => {
+    it('should replay field changes up to the requested time', async () => {
+      mockPrismaService.auditLog.findMany
+        .mockResolvedValueOnce(sampleHistory)
+        .mockResolvedValueOnce([]);
+
+      const result = (await service.reconstruct(
+        'Sample',
+        'sample-1',
+        new Date('2025-11-27T10:30:00.000Z'),
+      )) as ReconstructedSample;
+
+      expect(result.state).toEqual({
+        id: 'sample-1',
+        sampleCode: 'S-001',
+        status: 'REVIEWED',
+      });
+      expect(result.entriesApplied).toBe(2);
+      expect(result.lastEntry?.id).toBe('log-2');
+      expect(result.testAssignments).toEqual([]);
+    });
+
+    it('should report a record that did not exist yet', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue(sampleHistory);
+
+      const result = await service.reconstruct(
+        'Job',
+        'job-1',
+        new Date('2025-11-27T08:00:00.000Z'),
+      );
+
+      expect(result.exists).toBe(false);
+      expect(result.state).toBeNull();
+    });
+
+    it('should replay row snapshots written by audit triggers', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([
+        entry({
+          action: AuditAction.CREATE,
+          table: 'Specification',
+          recordId: 'spec-1',
+          changes: { new: { id: 'spec-1', name: 'pH', max: 7 } },
+          at: new Date('2025-11-27T09:00:00.000Z'),
+        }),
+        entry({
+          table: 'Specification',
+          recordId: 'spec-1',
+          changes: {
+            old: { id: 'spec-1', name: 'pH', max: 7 },
+            new: { id: 'spec-1', name: 'pH', max: 7.5 },
+          },
+          at: new Date('2025-11-27T12:00:00.000Z'),
+        }),
+      ]);
+
+      const before = await service.reconstruct(
+        'Specification',
+        'spec-1',
+        new Date('2025-11-27T10:00:00.000Z'),
+      );
+      const after = await service.reconstruct(
+        'Specification',
+        'spec-1',
+        new Date('2025-11-27T13:00:00.000Z'),
+      );
+
+      expect(before.state).toEqual({ id: 'spec-1', name: 'pH', max: 7 });
+      expect(after.state).toEqual({ id: 'spec-1', name: 'pH', max: 7.5 });
+    });
+
+    it('should keep the last state of a deleted record', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([
+        entry({
+          action: AuditAction.CREATE,
+          table: 'Method',
+          recordId: 'method-1',
+          changes: { new: { id: 'method-1', code: 'M-01' } },
+        }),
+        entry({
+          action: AuditAction.DELETE,
+          table: 'Method',
+          recordId: 'method-1',
+          changes: { old: { id: 'method-1', code: 'M-01' } },
+        }),
+      ]);
+
+      const result = await service.reconstruct(
+        'Method',
+        'method-1',
+        new Date('2025-11-28T00:00:00.000Z'),
+      );
+
+      expect(result.deleted).toBe(true);
+      expect(result.state).toEqual({ id: 'method-1', code: 'M-01' });
+    });
+
+    it('should include the test assignments of a sample as of the same time', async () => {
+      mockPrismaService.testAssignment.findMany.mockResolvedValue([
+        { id: 'ta-1' },
+        { id: 'ta-2' },
+      ]);
+      mockPrismaService.auditLog.findMany.mockImplementation(
+        ({ where }: { where: Record<string, any> }) => {
+          if (where.action === AuditAction.CREATE) return Promise.resolve([]);
+          if (where.recordId === 'sample-1') {
+            return Promise.resolve(sampleHistory);
+          }
+          const at =
+            where.recordId === 'ta-1'
+              ? '2025-11-27T09:30:00.000Z'
+              : '2025-11-27T12:00:00.000Z';
+          return Promise.resolve([
+            entry({
+              action: AuditAction.CREATE,
+              table: 'TestAssignment',
+              recordId: where.recordId,
+              changes: {
+                sampleId: { old: null, new: 'sample-1' },
+                result: { old: null, new: '6.8' },
+              },
+              at: new Date(at),
+            }),
+          ]);
+        },
+      );
+
+      const result = (await service.reconstruct(
+        'Sample',
+        'sample-1',
+        new Date('2025-11-27T10:30:00.000Z'),
+      )) as ReconstructedSample;
+
+      expect(result.testAssignments.map((ta) => ta.recordId)).toEqual(['ta-1']);
+    });
+
+    it('should refuse tables outside the allowlist', async () => {
+      await expect(
+        service.reconstruct('User', 'user-1', new Date()),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.auditLog.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a record without entries', async () => {
+      mockPrismaService.auditLog.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.reconstruct('Job', 'missing', new Date()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('reconstructAtSignature', () => {
+    it('should reconstruct the signed record at the signing time', async () => {
+      mockPrismaService.electronicSignature.findUnique.mockResolvedValue({
+        id: 'sig-1',
+        recordTable: 'Sample',
+        recordId: 'sample-1',
+        signedAt: new Date('2025-11-27T10:00:00.000Z'),
+      });
+      mockPrismaService.auditLog.findMany
+        .mockResolvedValueOnce(sampleHistory)
+        .mockResolvedValueOnce([]);
+
+      const result = await service.reconstructAtSignature('sig-1');
+
+      expect(result.record.state?.status).toBe('REVIEWED');
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuditAction, AuditLog } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { isRowSnapshot } from './audit-changes';
+
+// Business tables whose history can be replayed. User is left out so that
+// password hashes never leave the audit log.
+export const RECONSTRUCTABLE_TABLES = [
+  'Client',
+  'Method',
+  'Specification',
+  'TestDefinition',
+  'Job',
+  'Sample',
+  'TestAssignment',
+  'Attachment',
+  'COAReport',
+  'OOSInvestigation',
+] as const;
+export type ReconstructableTable = (typeof RECONSTRUCTABLE_TABLES)[number];
+
+export interface ReconstructedRecord {
+  table: string;
+  recordId: string;
+  at: Date;
+  exists: boolean; // False if the record was created after `at`
+  deleted: boolean; // Hard- or soft-deleted as of `at`
+  state: Record<string, unknown> | null;
+  entriesApplied: number;
+  lastEntry: {
+    id: string;
+    seq: number | null;
+    action: AuditAction;
+    at: Date;
+    actorEmail: string;
+    reason: string | null;
+  } | null;
+}
+
+export interface ReconstructedSample extends ReconstructedRecord {
+  testAssignments: ReconstructedRecord[];
+}
+
+export interface RecordHistoryEntry {
+  id: string;
+  seq: number | null;
+  table: string;
+  recordId: string;
+  action: AuditAction;
+  at: Date;
+  actorEmail: string;
+  reason: string | null;
+}
+
+/**
+ * Point-in-time reconstruction
+ *
+ * Rebuilds what a record looked like at a given moment by replaying its
+ * AuditLog entries up to that moment, so QA can see exactly what a reviewer
+ * saw when they signed. Both entry formats are replayed: field changes
+ * written by AuditService and whole rows written by the audit triggers.
+ */
+@Injectable()
+export class AuditReconstructionService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * State of a record at the given time. For samples, the sample's test
+   * assignments are reconstructed as of the same time.
+   * @throws NotFoundException if the record has no audit entries
+   */
+  async reconstruct(
+    table: string,
+    recordId: string,
+    at: Date,
+  ): Promise<ReconstructedRecord | ReconstructedSample> {
+    const record = await this.reconstructRecord(
+      this.assertTable(table),
+      recordId,
+      at,
+    );
+    if (table !== 'Sample') return record;
+
+    const testAssignmentIds = await this.findTestAssignmentIds(recordId);
+    const testAssignments = await Promise.all(
+      testAssignmentIds.map((id) =>
+        this.reconstructRecord('TestAssignment', id, at),
+      ),
+    );
+
+    return {
+      ...record,
+      testAssignments: testAssignments.filter(
+        (testAssignment) =>
+          testAssignment.exists &&
+          !testAssignment.deleted &&
+          testAssignment.state?.sampleId === recordId,
+      ),
+    };
+  }
+
+  /**
+   * Reconstruct the signed record as of the moment it was signed
+   */
+  async reconstructAtSignature(signatureId: string) {
+    const signature = await this.prisma.electronicSignature.findUnique({
+      where: { id: signatureId },
+    });
+
+    if (!signature) {
+      throw new NotFoundException(
+        `ElectronicSignature with ID '${signatureId}' not found`,
+      );
+    }
+
+    return {
+      signature,
+      record: await this.reconstruct(
+        signature.recordTable,
+        signature.recordId,
+        signature.signedAt,
+      ),
+    };
+  }
+
+  /**
+   * Every audit entry of a record in the order it is replayed, for a time
+   * slider. A sample's history includes its test assignments.
+   */
+  async getHistory(
+    table: string,
+    recordId: string,
+  ): Promise<RecordHistoryEntry[]> {
+    this.assertTable(table);
+
+    const records = [{ table, recordId: { in: [recordId] } }];
+    if (table === 'Sample') {
+      records.push({
+        table: 'TestAssignment',
+        recordId: { in: await this.findTestAssignmentIds(recordId) },
+      });
+    }
+
+    return this.prisma.auditLog.findMany({
+      where: { OR: records },
+      orderBy: [{ seq: 'asc' }, { at: 'asc' }],
+      select: {
+        id: true,
+        seq: true,
+        table: true,
+        recordId: true,
+        action: true,
+        at: true,
+        actorEmail: true,
+        reason: true,
+      },
+    });
+  }
+
+  private async reconstructRecord(
+    table: string,
+    recordId: string,
+    at: Date,
+  ): Promise<ReconstructedRecord> {
+    const entries = await this.prisma.auditLog.findMany({
+      where: { table, recordId },
+      orderBy: [{ seq: 'asc' }, { at: 'asc' }],
+    });
+
+    if (entries.length === 0) {
+      throw new NotFoundException(
+        `No audit entries found for ${table} with ID '${recordId}'`,
+      );
+    }
+
+    const applied = entries.filter((entry) => entry.at <= at);
+    let state: Record<string, unknown> | null = null;
+    for (const entry of applied) {
+      state = applyEntry(state, entry);
+    }
+
+    const last = applied[applied.length - 1];
+    const deleted =
+      last?.action === AuditAction.DELETE || Boolean(state?.deletedAt);
+    return {
+      table,
+      recordId,
+      at,
+      exists: state !== null,
+      deleted,
+      state,
+      entriesApplied: applied.length,
+      lastEntry: last
+        ? {
+            id: last.id,
+            seq: last.seq,
+            action: last.action,
+            at: last.at,
+            actorEmail: last.actorEmail,
+            reason: last.reason,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Test assignments that belong to a sample, including soft-deleted ones.
+   * Hard-deleted rows are found through their CREATE entries.
+   */
+  private async findTestAssignmentIds(sampleId: string): Promise<string[]> {
+    const [current, created] = await Promise.all([
+      this.prisma.testAssignment.findMany({
+        where: { sampleId },
+        select: { id: true },
+      }),
+      this.prisma.auditLog.findMany({
+        where: {
+          table: 'TestAssignment',
+          action: AuditAction.CREATE,
+          OR: [
+            { changes: { path: ['sampleId', 'new'], equals: sampleId } },
+            { changes: { path: ['new', 'sampleId'], equals: sampleId } },
+          ],
+        },
+        select: { recordId: true },
+      }),
+    ]);
+
+    return [
+      ...new Set([
+        ...current.map((row) => row.id),
+        ...created.map((row) => row.recordId),
+      ]),
+    ];
+  }
+
+  private assertTable(table: string): ReconstructableTable {
+    if (!RECONSTRUCTABLE_TABLES.includes(table as ReconstructableTable)) {
+      throw new BadRequestException(
+        `table must be one of: ${RECONSTRUCTABLE_TABLES.join(', ')}`,
+      );
+    }
+    return table as ReconstructableTable;
+  }
+}
+
+/**
+ * Apply one audit entry to the state rebuilt so far. A DELETE keeps the last
+ * known state so the deleted record can still be shown.
+ */
+function applyEntry(
+  state: Record<string, unknown> | null,
+  entry: AuditLog,
+): Record<string, unknown> | null {
+  const changes = entry.changes as Record<string, any> | null;
+  if (!changes || typeof changes !== 'object') return state;
+
+  const rowSnapshot = isRowSnapshot(changes);
+
+  if (entry.action === AuditAction.DELETE) {
+    if (state) return state;
+    return rowSnapshot ? { ...changes.old } : fieldValues(entry, 'old');
+  }
+
+  if (rowSnapshot) return { ...changes.new };
+  return { ...state, ...fieldValues(entry, 'new') };
+}
+
+function fieldValues(
+  entry: AuditLog,
+  side: 'old' | 'new',
+): Record<string, unknown> {
+  const values: Record<string, unknown> = { id: entry.recordId };
+  for (const [field, change] of Object.entries(
+    entry.changes as Record<string, any>,
+  )) {
+    values[field] = change?.[side] ?? null;
+  }
+  return values;
+}
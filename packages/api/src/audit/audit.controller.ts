@@ -1,4 +1,14 @@
-import { Controller, Get, Query, Param } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Param,
+  Req,
+  Res,
+  BadRequestException,
+} from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -6,15 +16,25 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { AuditService } from './audit.service';
+import { AuditChainService } from './audit-chain.service';
+import { AuditExportService } from './audit-export.service';
+import type { CreateAuditExportDto } from './audit-export.service';
+import { AuditReconstructionService } from './audit-reconstruction.service';
 import { Roles } from '../auth/roles.decorator';
 import { Role, AuditAction } from '@prisma/client';
+import type { Request, Response } from 'express';
 
 @ApiTags('audit')
 @ApiBearerAuth()
 @Controller('audit')
 @Roles(Role.ADMIN, Role.LAB_MANAGER)
 export class AuditController {
-  constructor(private auditService: AuditService) {}
+  constructor(
+    private auditService: AuditService,
+    private auditChainService: AuditChainService,
+    private auditExportService: AuditExportService,
+    private auditReconstructionService: AuditReconstructionService,
+  ) {}
 
   @Get()
   @ApiOperation({
@@ -50,6 +70,119 @@ export class AuditController {
     });
   }
 
+  @Get('verify')
+  @ApiOperation({
+    summary: 'Verify the audit log hash chain',
+    description:
+      'Walks the chain from the first entry, checks every link and daily anchor, and reports the first broken link.',
+  })
+  @ApiResponse({ status: 200, description: 'Verification result' })
+  async verifyChain() {
+    return this.auditChainService.verifyChain();
+  }
+
+  @Post('exports')
+  @ApiOperation({
+    summary: 'Export the audit trail of a sample or job',
+    description:
+      'Gathers every audit entry of the record and its child records, grouped by txId, and stores it as PDF and CSV with SHA-256 checksums.',
+  })
+  @ApiResponse({ status: 201, description: 'Export created successfully' })
+  @ApiResponse({ status: 404, description: 'Sample or job not found' })
+  async createExport(@Body() dto: CreateAuditExportDto, @Req() req: Request) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.auditExportService.createExport(dto, context);
+  }
+
+  @Get('exports')
+  @ApiOperation({ summary: 'List audit trail exports' })
+  @ApiResponse({ status: 200, description: 'Exports retrieved successfully' })
+  async listExports(
+    @Query('table') table?: string,
+    @Query('recordId') recordId?: string,
+  ) {
+    return this.auditExportService.listExports({ table, recordId });
+  }
+
+  @Get('exports/:id/:format')
+  @ApiOperation({
+    summary: 'Download an audit trail export as pdf or csv',
+    description:
+      'The file is checked against its stored checksum, which is returned in the X-Checksum-SHA256 header.',
+  })
+  @ApiResponse({ status: 200, description: 'Export downloaded successfully' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  async downloadExport(
+    @Param('id') id: string,
+    @Param('format') format: string,
+    @Res() res: Response,
+  ) {
+    if (format !== 'pdf' && format !== 'csv') {
+      throw new BadRequestException('format must be pdf or csv');
+    }
+
+    const file = await this.auditExportService.getExportFile(id, format);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+    res.setHeader('X-Checksum-SHA256', file.checksum);
+    return res.send(file.buffer);
+  }
+
+  @Get('records/:table/:recordId')
+  @ApiOperation({
+    summary: 'Reconstruct a record as it was at a point in time',
+    description:
+      'Replays the audit entries of the record up to `at` (ISO timestamp, default now). Samples include their test assignments as of the same time.',
+  })
+  @ApiResponse({ status: 200, description: 'Record reconstructed' })
+  @ApiResponse({ status: 404, description: 'Record has no audit entries' })
+  async reconstructRecord(
+    @Param('table') table: string,
+    @Param('recordId') recordId: string,
+    @Query('at') at?: string,
+  ) {
+    const timestamp = at ? new Date(at) : new Date();
+    if (isNaN(timestamp.getTime())) {
+      throw new BadRequestException('at must be an ISO timestamp');
+    }
+    return this.auditReconstructionService.reconstruct(
+      table,
+      recordId,
+      timestamp,
+    );
+  }
+
+  @Get('records/:table/:recordId/history')
+  @ApiOperation({
+    summary: 'List the audit entries a record can be reconstructed at',
+  })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  async getRecordHistory(
+    @Param('table') table: string,
+    @Param('recordId') recordId: string,
+  ) {
+    return this.auditReconstructionService.getHistory(table, recordId);
+  }
+
+  @Get('signatures/:signatureId/record')
+  @ApiOperation({
+    summary: 'Reconstruct a signed record as the signer saw it',
+  })
+  @ApiResponse({ status: 200, description: 'Record reconstructed' })
+  @ApiResponse({ status: 404, description: 'Signature not found' })
+  async reconstructSignedRecord(@Param('signatureId') signatureId: string) {
+    return this.auditReconstructionService.reconstructAtSignature(signatureId);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get audit log by ID' })
   @ApiResponse({ status: 200, description: 'Audit log retrieved successfully' })
@@ -1,13 +1,22 @@
 import { Module } from '@nestjs/common';
 import { AuditService } from './audit.service';
+import { AuditChainService } from './audit-chain.service';
 import { AuditController } from './audit.controller';
-import { AuditContextMiddleware } from './audit-context.middleware';
+import { AuditExportService } from './audit-export.service';
+import { AuditReconstructionService } from './audit-reconstruction.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
-  imports: [PrismaModule],
-  providers: [AuditService, AuditContextMiddleware],
+  imports: [PrismaModule, PdfModule, StorageModule],
+  providers: [
+    AuditService,
+    AuditChainService,
+    AuditExportService,
+    AuditReconstructionService,
+  ],
   controllers: [AuditController],
-  exports: [AuditService, AuditContextMiddleware],
+  exports: [AuditService],
 })
 export class AuditModule {}
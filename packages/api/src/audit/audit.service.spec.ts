@@ -7,12 +7,20 @@ describe('AuditService', () => {
   let service: AuditService;
   let prismaService: PrismaService;
 
+  const mockTx = {
+    $executeRaw: jest.fn(),
+  };
+
   const mockPrismaService = {
     auditLog: {
       create: jest.fn(),
       findMany: jest.fn(),
       count: jest.fn(),
     },
+    withAuditContext: jest.fn(
+      (_settings: unknown, fn: (tx: typeof mockTx) => Promise<unknown>) =>
+        fn(mockTx),
+    ),
   };
 
   beforeEach(async () => {
@@ -38,135 +46,43 @@ describe('AuditService', () => {
     expect(service).toBeDefined();
   });
 
-  describe('logCreate', () => {
-    it('should log a create action with full field set', async () => {
-      const context = {
-        actorId: 'user-123',
-        actorEmail: 'test@example.com',
-        ip: '127.0.0.1',
-        userAgent: 'jest',
-      };
-
-      const newValues = {
-        id: 'record-123',
-        name: 'Test Record',
-        status: 'active',
-      };
-
-      mockPrismaService.auditLog.create.mockResolvedValue({});
-
-      await service.logCreate(context, 'TestTable', 'record-123', newValues);
-
-      expect(mockPrismaService.auditLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          actorId: 'user-123',
-          actorEmail: 'test@example.com',
-          action: AuditAction.CREATE,
-          table: 'TestTable',
-          recordId: 'record-123',
-          changes: expect.objectContaining({
-            name: { old: null, new: 'Test Record' },
-            status: { old: null, new: 'active' },
-          }),
-        }),
-      });
-    });
-  });
-
-  describe('logUpdate', () => {
-    it('should log an update action with field-level diffs', async () => {
-      const context = {
-        actorId: 'user-123',
-        actorEmail: 'test@example.com',
-      };
-
-      const oldValues = {
-        id: 'record-123',
-        name: 'Old Name',
-        status: 'active',
-      };
-
-      const newValues = {
-        id: 'record-123',
-        name: 'New Name',
-        status: 'active',
-      };
+  describe('withContext', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      ip: '127.0.0.1',
+      userAgent: 'jest',
+    };
 
-      mockPrismaService.auditLog.create.mockResolvedValue({});
+    it('should run the writes in an audit transaction with the reason', async () => {
+      const write = jest.fn().mockResolvedValue({ id: 'record-123' });
 
-      await service.logUpdate(
+      const result = await service.withContext(
         context,
-        'TestTable',
-        'record-123',
-        oldValues,
-        newValues,
+        write,
+        'Corrected transcription error',
       );
 
-      expect(mockPrismaService.auditLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          action: AuditAction.UPDATE,
-          changes: expect.objectContaining({
-            name: { old: 'Old Name', new: 'New Name' },
-          }),
-        }),
-      });
-
-      // Should not include unchanged fields
-      const changes =
-        mockPrismaService.auditLog.create.mock.calls[0][0].data.changes;
-      expect(changes).not.toHaveProperty('status');
+      expect(result).toEqual({ id: 'record-123' });
+      expect(mockPrismaService.withAuditContext).toHaveBeenCalledWith(
+        { ...context, reason: 'Corrected transcription error' },
+        write,
+      );
+      expect(write).toHaveBeenCalledWith(mockTx);
     });
 
-    it('should not log if there are no changes', async () => {
-      const context = {
-        actorId: 'user-123',
-        actorEmail: 'test@example.com',
-      };
-
-      const values = {
-        id: 'record-123',
-        name: 'Same Name',
-        status: 'active',
-      };
-
-      await service.logUpdate(
-        context,
-        'TestTable',
-        'record-123',
-        values,
-        values,
-      );
+    it('should not write audit entries itself', async () => {
+      await service.withContext(context, jest.fn());
 
       expect(mockPrismaService.auditLog.create).not.toHaveBeenCalled();
     });
-  });
-
-  describe('logDelete', () => {
-    it('should log a delete action with old values', async () => {
-      const context = {
-        actorId: 'user-123',
-        actorEmail: 'test@example.com',
-      };
-
-      const oldValues = {
-        id: 'record-123',
-        name: 'Deleted Record',
-        status: 'active',
-      };
 
-      mockPrismaService.auditLog.create.mockResolvedValue({});
+    it('should propagate errors so the transaction rolls back', async () => {
+      const write = jest.fn().mockRejectedValue(new Error('constraint'));
 
-      await service.logDelete(context, 'TestTable', 'record-123', oldValues);
-
-      expect(mockPrismaService.auditLog.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          action: AuditAction.DELETE,
-          changes: expect.objectContaining({
-            name: { old: 'Deleted Record', new: null },
-            status: { old: 'active', new: null },
-          }),
-        }),
-      });
+      await expect(service.withContext(context, write)).rejects.toThrow(
+        'constraint',
+      );
     });
   });
 
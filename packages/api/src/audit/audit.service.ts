@@ -28,93 +28,20 @@ export class AuditService {
   constructor(private prisma: PrismaService) {}
 
   /**
-   * Log an audit entry for a create operation
+   * Run database writes in one transaction with the audit context attached
+   *
+   * Changes to audited tables are logged by the audit triggers, which read
+   * the actor, IP, user agent, txId and reason from transaction-local
+   * settings (see PrismaService.withAuditContext). The writes of `fn` commit
+   * together; keep slow work such as PDF rendering and uploads outside it.
+   * Writes must go through `tx` to be attributed.
    */
-  async logCreate(
+  async withContext<T>(
     context: AuditContext,
-    table: string,
-    recordId: string,
-    newValues: Record<string, any>,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
     reason?: string,
-  ): Promise<void> {
-    const changes = this.buildChangesForCreate(newValues);
-
-    await this.prisma.auditLog.create({
-      data: {
-        actorId: context.actorId,
-        actorEmail: context.actorEmail,
-        ip: context.ip,
-        userAgent: context.userAgent,
-        action: AuditAction.CREATE,
-        table,
-        recordId,
-        changes,
-        reason,
-        txId: context.txId,
-      },
-    });
-  }
-
-  /**
-   * Log an audit entry for an update operation
-   */
-  async logUpdate(
-    context: AuditContext,
-    table: string,
-    recordId: string,
-    oldValues: Record<string, any>,
-    newValues: Record<string, any>,
-    reason?: string,
-  ): Promise<void> {
-    const changes = this.buildChangesForUpdate(oldValues, newValues);
-
-    // Only log if there are actual changes
-    if (Object.keys(changes).length === 0) {
-      return;
-    }
-
-    await this.prisma.auditLog.create({
-      data: {
-        actorId: context.actorId,
-        actorEmail: context.actorEmail,
-        ip: context.ip,
-        userAgent: context.userAgent,
-        action: AuditAction.UPDATE,
-        table,
-        recordId,
-        changes,
-        reason,
-        txId: context.txId,
-      },
-    });
-  }
-
-  /**
-   * Log an audit entry for a delete operation
-   */
-  async logDelete(
-    context: AuditContext,
-    table: string,
-    recordId: string,
-    oldValues: Record<string, any>,
-    reason?: string,
-  ): Promise<void> {
-    const changes = this.buildChangesForDelete(oldValues);
-
-    await this.prisma.auditLog.create({
-      data: {
-        actorId: context.actorId,
-        actorEmail: context.actorEmail,
-        ip: context.ip,
-        userAgent: context.userAgent,
-        action: AuditAction.DELETE,
-        table,
-        recordId,
-        changes,
-        reason,
-        txId: context.txId,
-      },
-    });
+  ): Promise<T> {
+    return this.prisma.withAuditContext({ ...context, reason }, fn);
   }
 
   /**
@@ -194,131 +121,6 @@ export class AuditService {
     return `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  /**
-   * Build changes object for CREATE action
-   * Each field shows null -> newValue
-   */
-  private buildChangesForCreate(
-    newValues: Record<string, any>,
-  ): Record<string, any> {
-    const changes: Record<string, any> = {};
-
-    for (const [key, value] of Object.entries(newValues)) {
-      // Skip system fields that are auto-generated
-      if (['id', 'createdAt', 'updatedAt'].includes(key)) continue;
-
-      changes[key] = {
-        old: null,
-        new: this.serializeValue(value),
-      };
-    }
-
-    return changes;
-  }
-
-  /**
-   * Build changes object for UPDATE action
-   * Only includes fields that actually changed
-   */
-  private buildChangesForUpdate(
-    oldValues: Record<string, any>,
-    newValues: Record<string, any>,
-  ): Record<string, any> {
-    const changes: Record<string, any> = {};
-
-    for (const [key, newValue] of Object.entries(newValues)) {
-      // Skip system fields that are auto-updated
-      if (['updatedAt'].includes(key)) continue;
-
-      const oldValue = oldValues[key];
-
-      // Check if value actually changed
-      if (this.hasValueChanged(oldValue, newValue)) {
-        changes[key] = {
-          old: this.serializeValue(oldValue),
-          new: this.serializeValue(newValue),
-        };
-      }
-    }
-
-    return changes;
-  }
-
-  /**
-   * Build changes object for DELETE action
-   * Each field shows oldValue -> null
-   */
-  private buildChangesForDelete(
-    oldValues: Record<string, any>,
-  ): Record<string, any> {
-    const changes: Record<string, any> = {};
-
-    for (const [key, value] of Object.entries(oldValues)) {
-      // Skip system fields
-      if (['createdAt', 'updatedAt'].includes(key)) continue;
-
-      changes[key] = {
-        old: this.serializeValue(value),
-        new: null,
-      };
-    }
-
-    return changes;
-  }
-
-  /**
-   * Check if a value has changed
-   */
-  private hasValueChanged(oldValue: any, newValue: any): boolean {
-    // Handle null/undefined
-    if (oldValue === null && newValue === null) return false;
-    if (oldValue === undefined && newValue === undefined) return false;
-    if (
-      (oldValue === null || oldValue === undefined) &&
-      newValue !== null &&
-      newValue !== undefined
-    )
-      return true;
-    if (
-      (newValue === null || newValue === undefined) &&
-      oldValue !== null &&
-      oldValue !== undefined
-    )
-      return true;
-
-    // Handle dates
-    if (oldValue instanceof Date && newValue instanceof Date) {
-      return oldValue.getTime() !== newValue.getTime();
-    }
-
-    // Handle objects (deep comparison for simple objects)
-    if (typeof oldValue === 'object' && typeof newValue === 'object') {
-      return JSON.stringify(oldValue) !== JSON.stringify(newValue);
-    }
-
-    // Simple value comparison
-    return oldValue !== newValue;
-  }
-
-  /**
-   * Serialize a value for storage in audit log
-   */
-  private serializeValue(value: any): any {
-    if (value === null || value === undefined) {
-      return null;
-    }
-
-    if (value instanceof Date) {
-      return value.toISOString();
-    }
-
-    if (typeof value === 'object') {
-      return JSON.parse(JSON.stringify(value));
-    }
-
-    return value;
-  }
-
   /**
    * Group audit logs by transaction ID
    * Groups related changes that happened in the same transaction
@@ -0,0 +1,20 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * GMP: data changed after review or release must be justified. The reason
+ * is passed on to AuditService and stored in AuditLog.reason.
+ *
+ * @param lockedRecord Describes the record if it is locked (e.g. 'a REVIEWED
+ *   TestAssignment'), or null if it can be edited without a reason
+ * @throws BadRequestException if the record is locked and no reason is given
+ */
+export function assertChangeReason(
+  lockedRecord: string | null,
+  reason?: string,
+) {
+  if (lockedRecord && !reason?.trim()) {
+    throw new BadRequestException(
+      `A reason is required to change ${lockedRecord}`,
+    );
+  }
+}
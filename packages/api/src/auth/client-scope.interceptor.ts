@@ -0,0 +1,43 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { from, lastValueFrom, Observable } from 'rxjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionUser } from './permissions.types';
+
+/**
+ * Narrows every query of a CLIENT user's request to the clients the user is
+ * linked to
+ *
+ * The client IDs are loaded by JwtStrategy. Samples, jobs, tests,
+ * attachments and COAs of other clients are invisible to the handler, as
+ * are tests that are not released and draft COAs (see
+ * prisma/client-scope.ts). Staff requests are not scoped.
+ */
+@Injectable()
+export class ClientScopeInterceptor implements NestInterceptor {
+  constructor(private prisma: PrismaService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const user = context
+      .switchToHttp()
+      .getRequest<{ user?: PermissionUser }>().user;
+    if (user?.role !== Role.CLIENT) {
+      return next.handle();
+    }
+
+    return from(
+      this.prisma.withClientScope(user.clientIds ?? [], () =>
+        lastValueFrom(next.handle(), { defaultValue: undefined }),
+      ),
+    );
+  }
+}
@@ -10,3 +10,4 @@ export * from './roles.guard';
 export * from './public.decorator';
 export * from './jwt-auth.guard';
 export * from './current-user.decorator';
+export * from './client-scope.interceptor';
@@ -23,13 +23,24 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   async validate(payload: JwtPayload) {
     const user = await this.prisma.user.findUnique({
       where: { id: payload.sub },
-      select: { id: true, email: true, name: true, role: true },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        clients: { select: { clientId: true } },
+      },
     });
 
     if (!user) {
       throw new UnauthorizedException();
     }
 
-    return user;
+    const { clients, ...profile } = user;
+    return {
+      ...profile,
+      userId: user.id, // Controllers build the audit context from userId
+      clientIds: clients.map((link) => link.clientId), // Client portal scope
+    };
   }
 }
@@ -30,7 +30,11 @@ describe('Permissions Helper', () => {
     id: 'sales-1',
     role: Role.SALES_ACCOUNTING,
   };
-  const client: PermissionUser = { id: 'client-1', role: Role.CLIENT };
+  const client: PermissionUser = {
+    id: 'client-user-1',
+    role: Role.CLIENT,
+    clientIds: ['client-1', 'client-2'],
+  };
 
   describe('can() - Basic role permissions', () => {
     it('should allow ADMIN to perform any action on any resource', () => {
@@ -133,6 +137,15 @@ describe('Permissions Helper', () => {
       );
     });
 
+    it('should allow CLIENT to access samples of every linked client', () => {
+      const context: PermissionContext = {
+        clientId: 'client-2',
+      };
+      expect(can(client, Action.READ, Resource.SAMPLE, context).allowed).toBe(
+        true,
+      );
+    });
+
     it('should not allow CLIENT to access other clients samples', () => {
       const context: PermissionContext = {
         clientId: 'other-client',
@@ -142,10 +155,10 @@ describe('Permissions Helper', () => {
       );
     });
 
-    it('should allow CLIENT to view only released reports', () => {
+    it('should allow CLIENT to view only final reports', () => {
       const context: PermissionContext = {
         clientId: 'client-1',
-        status: 'RELEASED',
+        status: 'FINAL',
       };
       expect(can(client, Action.READ, Resource.REPORT, context).allowed).toBe(
         true,
@@ -162,6 +175,26 @@ describe('Permissions Helper', () => {
       );
     });
 
+    it('should allow CLIENT to view superseded reports', () => {
+      const context: PermissionContext = {
+        clientId: 'client-1',
+        status: 'SUPERSEDED',
+      };
+      expect(can(client, Action.READ, Resource.REPORT, context).allowed).toBe(
+        true,
+      );
+    });
+
+    it('should not allow CLIENT to view reports of other clients', () => {
+      const context: PermissionContext = {
+        clientId: 'other-client',
+        status: 'FINAL',
+      };
+      expect(can(client, Action.READ, Resource.REPORT, context).allowed).toBe(
+        false,
+      );
+    });
+
     it('should not allow SALES_ACCOUNTING to modify finalized accounting fields', () => {
       const context: PermissionContext = {
         status: 'FINALIZED',
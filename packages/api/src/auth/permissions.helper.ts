@@ -237,7 +237,7 @@ export function can(
     // CLIENT: Can only view their own samples and released reports
     if (user.role === Role.CLIENT) {
       if (resource === Resource.SAMPLE || resource === Resource.TEST) {
-        if (context.clientId && context.clientId !== user.id) {
+        if (context.clientId && !user.clientIds?.includes(context.clientId)) {
           return {
             allowed: false,
             reason: 'Client can only access their own samples',
@@ -246,8 +246,8 @@ export function can(
       }
 
       if (resource === Resource.REPORT) {
-        // Clients can only view released reports
-        if (context.status !== 'RELEASED') {
+        // Clients can only view issued reports, including superseded ones
+        if (context.status !== 'FINAL' && context.status !== 'SUPERSEDED') {
           return {
             allowed: false,
             reason: 'Client can only view released reports',
@@ -255,7 +255,7 @@ export function can(
         }
 
         // Must be their sample
-        if (context.clientId && context.clientId !== user.id) {
+        if (context.clientId && !user.clientIds?.includes(context.clientId)) {
           return {
             allowed: false,
             reason: 'Client can only view their own reports',
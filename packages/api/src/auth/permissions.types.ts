@@ -57,4 +57,5 @@ export interface PermissionUser {
   id: string;
   role: Role;
   email?: string;
+  clientIds?: string[]; // Clients a CLIENT user is linked to
 }
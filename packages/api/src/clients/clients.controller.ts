@@ -20,6 +20,10 @@ import type { CreateClientDto, UpdateClientDto } from './clients.service';
 import { Roles } from '../auth/roles.decorator';
 import { Role } from '@prisma/client';
 import type { Request } from 'express';
+import {
+  parseIncludeDeleted,
+  type DeleteDto,
+} from '../soft-delete/soft-delete';
 
 @ApiTags('clients')
 @ApiBearerAuth()
@@ -47,14 +51,18 @@ export class ClientsController {
   @ApiOperation({ summary: 'List all clients' })
   @ApiResponse({ status: 200, description: 'Clients retrieved successfully' })
   async listClients(
+    @Req() req: Request,
     @Query('name') name?: string,
     @Query('email') email?: string,
+    @Query('includeDeleted') includeDeleted?: string,
     @Query('page') page?: string,
     @Query('perPage') perPage?: string,
   ) {
+    const user = (req as any).user;
     return this.clientsService.listClients({
       name,
       email,
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
       page: page ? parseInt(page, 10) : undefined,
       perPage: perPage ? parseInt(perPage, 10) : undefined,
     });
@@ -65,8 +73,15 @@ export class ClientsController {
   @ApiOperation({ summary: 'Get client by ID' })
   @ApiResponse({ status: 200, description: 'Client retrieved successfully' })
   @ApiResponse({ status: 404, description: 'Client not found' })
-  async getClient(@Param('id') id: string) {
-    return this.clientsService.getClient(id);
+  async getClient(
+    @Param('id') id: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.clientsService.getClient(id, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Put(':id')
@@ -94,7 +109,27 @@ export class ClientsController {
   @ApiOperation({ summary: 'Delete client' })
   @ApiResponse({ status: 200, description: 'Client deleted successfully' })
   @ApiResponse({ status: 404, description: 'Client not found' })
-  async deleteClient(@Param('id') id: string, @Req() req: Request) {
+  async deleteClient(
+    @Param('id') id: string,
+    @Body() dto: DeleteDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.clientsService.deleteClient(id, dto, context);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Restore a deleted client' })
+  @ApiResponse({ status: 201, description: 'Client restored successfully' })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  async restoreClient(@Param('id') id: string, @Req() req: Request) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -102,6 +137,6 @@ export class ClientsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.clientsService.deleteClient(id, context);
+    return this.clientsService.restoreClient(id, context);
   }
 }
@@ -1,5 +1,16 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  DeleteDto,
+  SoftDeleteFilter,
+  excludeDeleted,
+  restoreData,
+  softDeleteData,
+} from '../soft-delete/soft-delete';
 
 export interface CreateClientDto {
   name: string;
@@ -7,6 +18,7 @@ export interface CreateClientDto {
   email?: string;
   phone?: string;
   address?: string;
+  coaTemplateId?: string;
 }
 
 export interface UpdateClientDto {
@@ -15,6 +27,7 @@ export interface UpdateClientDto {
   email?: string;
   phone?: string;
   address?: string;
+  coaTemplateId?: string | null; // null uses the lab-wide COA settings
 }
 
 export interface AuditContext {
@@ -36,6 +49,7 @@ export class ClientsService {
         email: dto.email,
         phone: dto.phone,
         address: dto.address,
+        coaTemplateId: dto.coaTemplateId,
         createdById: context.actorId,
         updatedById: context.actorId,
       },
@@ -47,6 +61,7 @@ export class ClientsService {
   async listClients(filters?: {
     name?: string;
     email?: string;
+    includeDeleted?: boolean;
     page?: number;
     perPage?: number;
   }) {
@@ -54,7 +69,7 @@ export class ClientsService {
     const perPage = filters?.perPage || 50;
     const skip = (page - 1) * perPage;
 
-    const where: any = {};
+    const where: any = excludeDeleted(filters?.includeDeleted);
     if (filters?.name) {
       where.name = { contains: filters.name, mode: 'insensitive' };
     }
@@ -91,9 +106,9 @@ export class ClientsService {
     };
   }
 
-  async getClient(id: string) {
-    const client = await this.prisma.client.findUnique({
-      where: { id },
+  async getClient(id: string, filters?: SoftDeleteFilter) {
+    const client = await this.prisma.client.findFirst({
+      where: { id, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         createdBy: {
           select: { id: true, email: true, name: true },
@@ -116,7 +131,7 @@ export class ClientsService {
       where: { id },
     });
 
-    if (!existingClient) {
+    if (!existingClient || existingClient.deletedAt) {
       throw new NotFoundException(`Client with ID ${id} not found`);
     }
 
@@ -139,19 +154,52 @@ export class ClientsService {
     return client;
   }
 
-  async deleteClient(id: string, context: AuditContext) {
+  /**
+   * Soft delete: the row is kept for existing references and hidden from
+   * lists. The audit trigger records the change with its deleteReason.
+   */
+  async deleteClient(id: string, dto: DeleteDto, context: AuditContext) {
     const client = await this.prisma.client.findUnique({
       where: { id },
     });
 
-    if (!client) {
+    if (!client || client.deletedAt) {
       throw new NotFoundException(`Client with ID ${id} not found`);
     }
 
-    await this.prisma.client.delete({
+    const liveJobs = await this.prisma.job.count({
+      where: { clientId: id, deletedAt: null },
+    });
+    if (liveJobs > 0) {
+      throw new BadRequestException(
+        `Client has ${liveJobs} job(s) that must be deleted first`,
+      );
+    }
+
+    await this.prisma.client.update({
       where: { id },
+      data: softDeleteData(dto, context.actorId),
     });
 
     return { message: 'Client deleted successfully' };
   }
+
+  async restoreClient(id: string, context: AuditContext) {
+    const client = await this.prisma.client.findUnique({
+      where: { id },
+    });
+
+    if (!client) {
+      throw new NotFoundException(`Client with ID ${id} not found`);
+    }
+
+    if (!client.deletedAt) {
+      throw new BadRequestException(`Client with ID ${id} is not deleted`);
+    }
+
+    return this.prisma.client.update({
+      where: { id },
+      data: restoreData(context.actorId),
+    });
+  }
 }
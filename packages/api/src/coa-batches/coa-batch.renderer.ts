@@ -0,0 +1,189 @@
+/**
+ * COA Batch Summary Renderer
+ * Builds the cover summary HTML placed in the ZIP of a job's COAs
+ */
+
+import type { COABatchResult } from './coa-batches.service';
+
+export interface COABatchSummaryFile {
+  sampleCode: string;
+  version: number;
+  fileName: string;
+  pdfSha256: string | null;
+}
+
+export interface COABatchSummaryData {
+  jobNumber: string;
+  clientName: string;
+  generatedAt: Date;
+  generatedBy: string;
+  results: COABatchResult[];
+  files: COABatchSummaryFile[]; // PDFs in the ZIP, one per current COA
+}
+
+const OUTCOME_LABELS: Record<COABatchResult['outcome'], string> = {
+  GENERATED: 'Issued',
+  FINALIZED: 'Draft finalized',
+  EXISTING: 'Already issued',
+  SKIPPED: 'Skipped',
+  FAILED: 'Failed',
+};
+
+/**
+ * Cover summary: what happened to each sample and the checksum of every PDF
+ * in the archive
+ */
+export function renderCOABatchSummaryHtml(data: COABatchSummaryData): string {
+  const counts = Object.entries(OUTCOME_LABELS)
+    .map(([outcome, label]) => ({
+      label,
+      count: data.results.filter((result) => result.outcome === outcome).length,
+    }))
+    .filter((entry) => entry.count > 0)
+    .map((entry) => `${entry.count} ${entry.label.toLowerCase()}`)
+    .join(', ');
+
+  const resultRows = data.results
+    .map(
+      (result) => `
+      <tr>
+        <td>${escapeHtml(result.sampleCode)}</td>
+        <td class="outcome-${result.outcome}">${OUTCOME_LABELS[result.outcome]}</td>
+        <td>${result.version ? `v${result.version}` : ''}</td>
+        <td>${escapeHtml(result.message ?? '')}</td>
+      </tr>`,
+    )
+    .join('');
+
+  const fileRows = data.files
+    .map(
+      (file) => `
+      <tr>
+        <td>${escapeHtml(file.fileName)}</td>
+        <td class="mono">${escapeHtml(file.pdfSha256 ?? 'N/A')}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>COA Summary - ${escapeHtml(data.jobNumber)}</title>
+  <style>
+    @page {
+      size: A4;
+      margin: 15mm;
+    }
+
+    body {
+      font-family: Arial, sans-serif;
+      font-size: 9pt;
+      margin: 0;
+      padding: 0;
+      line-height: 1.4;
+    }
+
+    .header {
+      border-bottom: 2px solid #2563eb;
+      padding-bottom: 10px;
+      margin-bottom: 15px;
+    }
+
+    .header h1 {
+      margin: 0 0 5px 0;
+      font-size: 1.5em;
+      color: #1e40af;
+    }
+
+    .summary td {
+      padding: 2px 10px 2px 0;
+    }
+
+    h2 {
+      font-size: 1.1em;
+      margin: 15px 0 5px 0;
+    }
+
+    table.list {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    table.list th, table.list td {
+      border: 1px solid #e5e7eb;
+      padding: 3px 5px;
+      text-align: left;
+      vertical-align: top;
+      word-break: break-word;
+    }
+
+    table.list th {
+      background: #f9fafb;
+    }
+
+    .mono {
+      font-family: 'Courier New', monospace;
+      font-size: 8pt;
+      word-break: break-all;
+    }
+
+    .outcome-GENERATED, .outcome-FINALIZED { color: #047857; }
+    .outcome-SKIPPED { color: #6b7280; }
+    .outcome-FAILED { color: #b91c1c; }
+
+    .footer {
+      margin-top: 15px;
+      padding-top: 8px;
+      border-top: 1px solid #d1d5db;
+      font-size: 8pt;
+      color: #6b7280;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Certificates of Analysis</h1>
+    <table class="summary">
+      <tr><td><strong>Job</strong></td><td>${escapeHtml(data.jobNumber)}</td></tr>
+      <tr><td><strong>Client</strong></td><td>${escapeHtml(data.clientName)}</td></tr>
+      <tr><td><strong>Generated</strong></td><td>${formatDate(data.generatedAt)} by ${escapeHtml(data.generatedBy)}</td></tr>
+      <tr><td><strong>Samples</strong></td><td>${data.results.length}${counts ? ` (${counts})` : ''}</td></tr>
+    </table>
+  </div>
+
+  <h2>Samples</h2>
+  ${
+    resultRows
+      ? `<table class="list"><tr><th>Sample</th><th>Outcome</th><th>Version</th><th>Notes</th></tr>${resultRows}</table>`
+      : '<p><em>The job has no samples.</em></p>'
+  }
+
+  <h2>Certificates in this archive</h2>
+  ${
+    fileRows
+      ? `<table class="list"><tr><th>File</th><th>SHA-256</th></tr>${fileRows}</table>`
+      : '<p><em>No certificate has been issued for this job.</em></p>'
+  }
+
+  <div class="footer">
+    Each certificate is a signed PDF; its SHA-256 checksum can be checked against the issued COA on
+    the public verification page linked from its QR code.
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
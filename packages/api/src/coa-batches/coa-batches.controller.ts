@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { COABatchesService } from './coa-batches.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '@prisma/client';
+import type { Request, Response } from 'express';
+
+@ApiTags('reports')
+@ApiBearerAuth()
+@Controller()
+@Roles(Role.ADMIN, Role.LAB_MANAGER)
+export class COABatchesController {
+  constructor(private coaBatchesService: COABatchesService) {}
+
+  @Post('jobs/:id/coa-batches')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Generate the COAs of every sample in a job',
+    description:
+      'Runs in the background: released samples without a COA get one issued and DRAFT COAs are finalized. Poll GET /coa-batches/:id for progress, then download the ZIP of PDFs with a cover summary.',
+  })
+  @ApiResponse({ status: 202, description: 'Batch started' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'A batch is already running for the job',
+  })
+  async startBatch(@Param('id') jobId: string, @Req() req: Request) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.coaBatchesService.startBatch(jobId, context);
+  }
+
+  @Get('jobs/:id/coa-batches')
+  @ApiOperation({ summary: 'List the COA batches of a job' })
+  @ApiResponse({ status: 200, description: 'Batches retrieved successfully' })
+  async listBatches(@Param('id') jobId: string) {
+    return this.coaBatchesService.listBatches(jobId);
+  }
+
+  @Get('coa-batches/:id')
+  @ApiOperation({
+    summary: 'Get the progress and per-sample results of a COA batch',
+  })
+  @ApiResponse({ status: 200, description: 'Batch retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  async getBatch(@Param('id') id: string) {
+    return this.coaBatchesService.getBatch(id);
+  }
+
+  @Get('coa-batches/:id/download')
+  @ApiOperation({
+    summary: 'Download the ZIP of a completed COA batch',
+    description:
+      'The file is checked against its stored checksum, which is returned in the X-Checksum-SHA256 header.',
+  })
+  @ApiResponse({ status: 200, description: 'ZIP downloaded successfully' })
+  @ApiResponse({
+    status: 404,
+    description: 'Batch not found or not completed',
+  })
+  async downloadBatch(@Param('id') id: string, @Res() res: Response) {
+    const file = await this.coaBatchesService.getBatchArchive(id);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+    res.setHeader('X-Checksum-SHA256', file.checksum);
+    return res.send(file.buffer);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { COABatchesService } from './coa-batches.service';
+import { COABatchesController } from './coa-batches.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+import { PdfModule } from '../pdf/pdf.module';
+import { StorageModule } from '../storage/storage.module';
+import { COAReportsModule } from '../coa-reports/coa-reports.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    AuditModule,
+    PdfModule,
+    StorageModule,
+    COAReportsModule,
+  ],
+  providers: [COABatchesService],
+  controllers: [COABatchesController],
+})
+export class COABatchesModule {}
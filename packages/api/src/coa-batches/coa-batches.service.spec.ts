@@ -0,0 +1,346 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import { COABatchStatus, COAReportStatus } from '@prisma/client';
+import { COABatchesService } from './coa-batches.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { PdfService } from '../pdf/pdf.service';
+import { StorageService } from '../storage/storage.service';
+import { COAReportsService } from '../coa-reports/coa-reports.service';
+
+jest.mock('bcrypt', () => ({ compare: jest.fn() }));
+
+describe('COABatchesService', () => {
+  let service: COABatchesService;
+
+  // Background work started by the service, awaited by the tests
+  let detached: Promise<unknown>[];
+
+  const mockPrismaService = {
+    job: { findUnique: jest.fn() },
+    cOABatch: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    cOAReport: { findMany: jest.fn() },
+    $queryRaw: jest.fn(),
+    runDetached: jest.fn((fn: () => Promise<unknown>) => {
+      const promise = fn();
+      detached.push(promise);
+      return promise;
+    }),
+  };
+
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => Promise<unknown>) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const mockPdfService = {
+    generatePdfFromHtml: jest.fn(),
+  };
+
+  const mockStorageService = {
+    uploadFile: jest.fn((key: string) => Promise.resolve(key)),
+    getFile: jest.fn(),
+  };
+
+  const mockCOAReportsService = {
+    getLatestCOAReport: jest.fn(),
+    finalizeCOA: jest.fn(),
+    exportCOA: jest.fn(),
+    downloadCOAPdf: jest.fn(),
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'manager@example.com',
+  };
+
+  const job = {
+    id: 'job-1',
+    jobNumber: 'JOB-001',
+    client: { name: 'Acme Corporation' },
+    samples: [
+      { id: 'sample-1', sampleCode: 'S-001', released: true },
+      { id: 'sample-2', sampleCode: 'S-002', released: true },
+      { id: 'sample-3', sampleCode: 'S-003', released: true },
+      { id: 'sample-4', sampleCode: 'S-004', released: true },
+      { id: 'sample-5', sampleCode: 'S-005', released: false },
+    ],
+  };
+
+  const sha256 = (buffer: Buffer) =>
+    createHash('sha256').update(buffer).digest('hex');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        COABatchesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: PdfService, useValue: mockPdfService },
+        { provide: StorageService, useValue: mockStorageService },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: string) => fallback },
+        },
+        { provide: COAReportsService, useValue: mockCOAReportsService },
+      ],
+    }).compile();
+
+    service = module.get<COABatchesService>(COABatchesService);
+
+    detached = [];
+    mockPrismaService.job.findUnique.mockResolvedValue(job);
+    mockPrismaService.cOABatch.findFirst.mockResolvedValue(null);
+    mockPrismaService.cOABatch.create.mockImplementation(
+      (args: { data: object }) =>
+        Promise.resolve({
+          id: 'batch-1',
+          status: COABatchStatus.RUNNING,
+          processed: 0,
+          ...args.data,
+        }),
+    );
+    mockPrismaService.cOABatch.update.mockResolvedValue({});
+    mockPdfService.generatePdfFromHtml.mockResolvedValue(
+      Buffer.from('%PDF summary'),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startBatch', () => {
+    it('should issue, finalize or keep the COA of each sample and store a ZIP', async () => {
+      // S-001 has no COA, S-002 a DRAFT, S-003 an issued COA and S-004 an
+      // open investigation; S-005 is not released
+      mockCOAReportsService.getLatestCOAReport.mockImplementation(
+        (sampleId: string) =>
+          Promise.resolve(
+            {
+              'sample-2': {
+                id: 'coa-2',
+                version: 1,
+                status: COAReportStatus.DRAFT,
+              },
+              'sample-3': {
+                id: 'coa-3',
+                version: 2,
+                status: COAReportStatus.FINAL,
+              },
+            }[sampleId] ?? null,
+          ),
+      );
+      mockCOAReportsService.exportCOA.mockImplementation((sampleId: string) =>
+        sampleId === 'sample-4'
+          ? Promise.reject(
+              new BadRequestException('Sample has 1 open OOS investigation'),
+            )
+          : Promise.resolve({ version: 1 }),
+      );
+      mockCOAReportsService.finalizeCOA.mockResolvedValue({ version: 1 });
+      mockPrismaService.cOAReport.findMany.mockResolvedValue([
+        {
+          version: 1,
+          pdfKey: 'coa-reports/S-001-v1.pdf',
+          pdfSha256: 'abc123',
+          sample: { sampleCode: 'S-001' },
+        },
+      ]);
+      mockCOAReportsService.downloadCOAPdf.mockResolvedValue(
+        Buffer.from('%PDF S-001'),
+      );
+
+      const batch = await service.startBatch('job-1', context);
+      expect(batch).toEqual(
+        expect.objectContaining({
+          id: 'batch-1',
+          status: COABatchStatus.RUNNING,
+          total: 5,
+        }),
+      );
+      await Promise.all(detached);
+
+      expect(mockCOAReportsService.exportCOA).toHaveBeenCalledTimes(2);
+      expect(mockCOAReportsService.exportCOA).toHaveBeenCalledWith(
+        'sample-1',
+        context,
+      );
+      expect(mockCOAReportsService.finalizeCOA).toHaveBeenCalledWith(
+        'coa-2',
+        context,
+      );
+
+      const updates = mockPrismaService.cOABatch.update.mock
+        .calls as unknown as [{ data: Record<string, unknown> }][];
+      const progress = updates
+        .map(([args]) => args.data)
+        .filter((data) => data.processed !== undefined);
+      expect(progress.map((data) => data.processed)).toEqual([1, 2, 3, 4, 5]);
+      expect(progress[4].results).toEqual([
+        {
+          sampleId: 'sample-1',
+          sampleCode: 'S-001',
+          outcome: 'GENERATED',
+          version: 1,
+        },
+        {
+          sampleId: 'sample-2',
+          sampleCode: 'S-002',
+          outcome: 'FINALIZED',
+          version: 1,
+        },
+        {
+          sampleId: 'sample-3',
+          sampleCode: 'S-003',
+          outcome: 'EXISTING',
+          version: 2,
+        },
+        {
+          sampleId: 'sample-4',
+          sampleCode: 'S-004',
+          outcome: 'FAILED',
+          message: 'Sample has 1 open OOS investigation',
+        },
+        {
+          sampleId: 'sample-5',
+          sampleCode: 'S-005',
+          outcome: 'SKIPPED',
+          message: 'Sample not released',
+        },
+      ]);
+
+      const [zipKey, archive] = mockStorageService.uploadFile.mock
+        .calls[0] as unknown as [string, Buffer, string];
+      expect(zipKey).toBe('coa-batches/JOB-001-batch-1.zip');
+      const zip = await JSZip.loadAsync(archive);
+      expect(Object.keys(zip.files)).toEqual([
+        'COA-Summary-JOB-001.pdf',
+        'COA-S-001-v1.pdf',
+      ]);
+      expect(await zip.file('COA-S-001-v1.pdf')!.async('nodebuffer')).toEqual(
+        Buffer.from('%PDF S-001'),
+      );
+
+      const [summaryHtml] = mockPdfService.generatePdfFromHtml.mock
+        .calls[0] as [string];
+      expect(summaryHtml).toContain('5 (1 issued, 1 draft finalized');
+      expect(summaryHtml).toContain('abc123');
+
+      expect(mockPrismaService.cOABatch.update).toHaveBeenLastCalledWith({
+        where: { id: 'batch-1' },
+        data: expect.objectContaining({
+          status: COABatchStatus.COMPLETED,
+          zipKey,
+          zipSha256: sha256(archive),
+        }),
+      });
+    });
+
+    it('should mark the batch failed when the archive cannot be stored', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        ...job,
+        samples: [],
+      });
+      mockPrismaService.cOAReport.findMany.mockResolvedValue([]);
+      mockStorageService.uploadFile.mockRejectedValueOnce(
+        new Error('MinIO unavailable'),
+      );
+
+      await service.startBatch('job-1', context);
+      await Promise.all(detached);
+
+      expect(mockPrismaService.cOABatch.update).toHaveBeenLastCalledWith({
+        where: { id: 'batch-1' },
+        data: expect.objectContaining({
+          status: COABatchStatus.FAILED,
+          error: 'MinIO unavailable',
+        }),
+      });
+    });
+
+    it('should refuse a second batch while one is running for the job', async () => {
+      mockPrismaService.cOABatch.findFirst.mockResolvedValue({ id: 'batch-0' });
+
+      await expect(service.startBatch('job-1', context)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.cOABatch.create).not.toHaveBeenCalled();
+    });
+
+    it('should lock the job before checking for a running batch', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        ...job,
+        samples: [],
+      });
+      mockPrismaService.cOAReport.findMany.mockResolvedValue([]);
+
+      await service.startBatch('job-1', context);
+      await Promise.all(detached);
+
+      const [sql] = mockPrismaService.$queryRaw.mock.calls[0] as [
+        TemplateStringsArray,
+      ];
+      expect(sql.join('?')).toContain('FOR UPDATE');
+      expect(
+        mockPrismaService.$queryRaw.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockPrismaService.cOABatch.findFirst.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject an unknown job', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue(null);
+
+      await expect(service.startBatch('missing', context)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getBatchArchive', () => {
+    it('should refuse a stored ZIP that no longer matches its checksum', async () => {
+      mockPrismaService.cOABatch.findUnique.mockResolvedValue({
+        id: 'batch-1',
+        status: COABatchStatus.COMPLETED,
+        zipKey: 'coa-batches/JOB-001-batch-1.zip',
+        zipSha256: sha256(Buffer.from('original')),
+        job: { id: 'job-1', jobNumber: 'JOB-001' },
+      });
+      mockStorageService.getFile.mockResolvedValue(Buffer.from('edited'));
+
+      await expect(service.getBatchArchive('batch-1')).rejects.toThrow(
+        InternalServerErrorException,
+      );
+    });
+
+    it('should report a batch without an archive as not found', async () => {
+      mockPrismaService.cOABatch.findUnique.mockResolvedValue({
+        id: 'batch-1',
+        status: COABatchStatus.RUNNING,
+        zipKey: null,
+        zipSha256: null,
+        job: { id: 'job-1', jobNumber: 'JOB-001' },
+      });
+
+      await expect(service.getBatchArchive('batch-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
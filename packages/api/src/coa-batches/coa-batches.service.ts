@@ -0,0 +1,365 @@
+import {
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import {
+  COABatch,
+  COABatchStatus,
+  COAReportStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import type { AuditContext } from '../audit/audit.service';
+import { PdfService } from '../pdf/pdf.service';
+import { StorageService } from '../storage/storage.service';
+import { COAReportsService } from '../coa-reports/coa-reports.service';
+import {
+  COABatchSummaryFile,
+  renderCOABatchSummaryHtml,
+} from './coa-batch.renderer';
+
+export type COABatchOutcome =
+  | 'GENERATED' // First version issued
+  | 'FINALIZED' // Latest DRAFT finalized
+  | 'EXISTING' // Already issued; amendments need a reason and stay per sample
+  | 'SKIPPED' // Not released
+  | 'FAILED';
+
+export interface COABatchResult {
+  sampleId: string;
+  sampleCode: string;
+  outcome: COABatchOutcome;
+  version?: number;
+  message?: string;
+}
+
+interface BatchJob {
+  id: string;
+  jobNumber: string;
+  client: { name: string };
+  samples: { id: string; sampleCode: string; released: boolean }[];
+}
+
+/**
+ * Batch COA generation for a job
+ *
+ * Issues or finalizes the COA of every released sample in a job in the
+ * background, recording progress on a COABatch, then stores a ZIP of the
+ * current PDFs with a cover summary in MinIO.
+ */
+@Injectable()
+export class COABatchesService implements OnModuleInit {
+  private readonly logger = new Logger(COABatchesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private pdfService: PdfService,
+    private storageService: StorageService,
+    private configService: ConfigService,
+    private coaReportsService: COAReportsService,
+  ) {}
+
+  async onModuleInit() {
+    // A batch runs in this process; one still RUNNING was cut off by a restart
+    const { count } = await this.prisma.cOABatch.updateMany({
+      where: { status: COABatchStatus.RUNNING },
+      data: {
+        status: COABatchStatus.FAILED,
+        error: 'Interrupted by an API restart',
+        completedAt: new Date(),
+      },
+    });
+    if (count > 0) {
+      this.logger.warn(`Marked ${count} interrupted COA batch(es) as failed`);
+    }
+  }
+
+  /**
+   * Start generating the COAs of a job
+   * Returns at once with the RUNNING batch; poll getBatch for progress
+   * @throws ConflictException if a batch is already running for the job
+   */
+  async startBatch(jobId: string, context: AuditContext): Promise<COABatch> {
+    const job = await this.prisma.job.findUnique({
+      where: { id: jobId },
+      select: {
+        id: true,
+        jobNumber: true,
+        client: { select: { name: true } },
+        samples: {
+          where: { deletedAt: null },
+          select: { id: true, sampleCode: true, released: true },
+          orderBy: { sampleCode: 'asc' },
+        },
+      },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job with ID '${jobId}' not found`);
+    }
+
+    const batch = await this.auditService.withContext(context, async (tx) => {
+      // The job's row lock makes concurrent starts check one after the other
+      await tx.$queryRaw`SELECT "id" FROM "Job" WHERE "id" = ${jobId}::uuid FOR UPDATE`;
+
+      const running = await tx.cOABatch.findFirst({
+        where: { jobId, status: COABatchStatus.RUNNING },
+        select: { id: true },
+      });
+      if (running) {
+        throw new ConflictException(
+          `COA batch '${running.id}' is already running for job ${job.jobNumber}`,
+        );
+      }
+
+      return tx.cOABatch.create({
+        data: {
+          jobId,
+          total: job.samples.length,
+          createdById: context.actorId,
+        },
+      });
+    });
+
+    void this.prisma.runDetached(() => this.runBatch(batch.id, job, context));
+
+    return batch;
+  }
+
+  /**
+   * List the batches of a job, newest first
+   */
+  async listBatches(jobId: string) {
+    return this.prisma.cOABatch.findMany({
+      where: { jobId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        createdBy: { select: { id: true, email: true, name: true } },
+      },
+    });
+  }
+
+  /**
+   * Get a batch with its progress and per-sample results
+   */
+  async getBatch(id: string) {
+    const batch = await this.prisma.cOABatch.findUnique({
+      where: { id },
+      include: {
+        job: { select: { id: true, jobNumber: true } },
+        createdBy: { select: { id: true, email: true, name: true } },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(`COABatch with ID '${id}' not found`);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Fetch the ZIP of a completed batch, checking it still matches its checksum
+   * @throws NotFoundException if the batch has no ZIP (yet)
+   * @throws InternalServerErrorException if the stored ZIP was altered
+   */
+  async getBatchArchive(id: string) {
+    const batch = await this.getBatch(id);
+
+    if (!batch.zipKey || !batch.zipSha256) {
+      throw new NotFoundException(
+        `COA batch '${id}' has no archive (status ${batch.status})`,
+      );
+    }
+
+    const buffer = await this.storageService.getFile(batch.zipKey);
+
+    if (sha256(buffer) !== batch.zipSha256) {
+      throw new InternalServerErrorException(
+        `Stored ZIP of COA batch '${id}' does not match its checksum`,
+      );
+    }
+
+    return {
+      buffer,
+      checksum: batch.zipSha256,
+      fileName: `COAs-${batch.job.jobNumber}.zip`,
+    };
+  }
+
+  /**
+   * Process the samples one at a time, recording progress after each, then
+   * store the archive. Failures of a sample are recorded and the batch
+   * carries on; anything else fails the batch.
+   */
+  private async runBatch(
+    batchId: string,
+    job: BatchJob,
+    context: AuditContext,
+  ): Promise<void> {
+    try {
+      const results: COABatchResult[] = [];
+
+      for (const sample of job.samples) {
+        results.push(await this.processSample(sample, context));
+        await this.auditService.withContext(context, (tx) =>
+          tx.cOABatch.update({
+            where: { id: batchId },
+            data: {
+              processed: results.length,
+              results: results as unknown as Prisma.InputJsonValue,
+            },
+          }),
+        );
+      }
+
+      const archive = await this.buildArchive(job, results, context);
+      const storagePath = this.configService.get<string>(
+        'COA_BATCH_STORAGE_PATH',
+        'coa-batches',
+      );
+      const zipKey = await this.storageService.uploadFile(
+        `${storagePath}/${job.jobNumber}-${batchId}.zip`,
+        archive,
+        'application/zip',
+      );
+
+      await this.auditService.withContext(context, (tx) =>
+        tx.cOABatch.update({
+          where: { id: batchId },
+          data: {
+            status: COABatchStatus.COMPLETED,
+            zipKey,
+            zipSha256: sha256(archive),
+            completedAt: new Date(),
+          },
+        }),
+      );
+      this.logger.log(
+        `COA batch ${batchId} for job ${job.jobNumber} completed (${results.length} sample(s))`,
+      );
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`COA batch ${batchId} failed: ${message}`);
+      await this.auditService
+        .withContext(context, (tx) =>
+          tx.cOABatch.update({
+            where: { id: batchId },
+            data: {
+              status: COABatchStatus.FAILED,
+              error: message,
+              completedAt: new Date(),
+            },
+          }),
+        )
+        .catch((updateError: Error) =>
+          this.logger.error(
+            `Failed to record failure of COA batch ${batchId}: ${updateError.message}`,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Issue or finalize the COA of one sample, as the single-sample endpoints
+   * would. An issued COA is left as is, since amending it needs a reason.
+   */
+  private async processSample(
+    sample: BatchJob['samples'][number],
+    context: AuditContext,
+  ): Promise<COABatchResult> {
+    const base = { sampleId: sample.id, sampleCode: sample.sampleCode };
+
+    if (!sample.released) {
+      return { ...base, outcome: 'SKIPPED', message: 'Sample not released' };
+    }
+
+    try {
+      const latest = await this.coaReportsService.getLatestCOAReport(sample.id);
+
+      if (latest?.status === COAReportStatus.DRAFT) {
+        const report = await this.coaReportsService.finalizeCOA(
+          latest.id,
+          context,
+        );
+        return { ...base, outcome: 'FINALIZED', version: report.version };
+      }
+
+      if (latest) {
+        return { ...base, outcome: 'EXISTING', version: latest.version };
+      }
+
+      const report = await this.coaReportsService.exportCOA(sample.id, context);
+      return { ...base, outcome: 'GENERATED', version: report.version };
+    } catch (error) {
+      return { ...base, outcome: 'FAILED', message: (error as Error).message };
+    }
+  }
+
+  /**
+   * ZIP of the current FINAL PDF of every sample in the job, with the cover
+   * summary first
+   */
+  private async buildArchive(
+    job: BatchJob,
+    results: COABatchResult[],
+    context: AuditContext,
+  ): Promise<Buffer> {
+    const reports = await this.prisma.cOAReport.findMany({
+      where: {
+        sampleId: { in: job.samples.map((sample) => sample.id) },
+        status: COAReportStatus.FINAL,
+        pdfKey: { not: null },
+      },
+      select: {
+        version: true,
+        pdfKey: true,
+        pdfSha256: true,
+        sample: { select: { sampleCode: true } },
+      },
+      orderBy: { sample: { sampleCode: 'asc' } },
+    });
+
+    const files: (COABatchSummaryFile & { pdf: Buffer })[] = [];
+    for (const report of reports) {
+      files.push({
+        sampleCode: report.sample.sampleCode,
+        version: report.version,
+        fileName: `COA-${report.sample.sampleCode}-v${report.version}.pdf`,
+        pdfSha256: report.pdfSha256,
+        pdf: await this.coaReportsService.downloadCOAPdf(report.pdfKey!),
+      });
+    }
+
+    const summary = await this.pdfService.generatePdfFromHtml(
+      renderCOABatchSummaryHtml({
+        jobNumber: job.jobNumber,
+        clientName: job.client.name,
+        generatedAt: new Date(),
+        generatedBy: context.actorEmail,
+        results,
+        files,
+      }),
+    );
+
+    const zip = new JSZip();
+    zip.file(`COA-Summary-${job.jobNumber}.pdf`, summary);
+    for (const file of files) {
+      zip.file(file.fileName, file.pdf);
+    }
+    return zip.generateAsync({ type: 'nodebuffer' });
+  }
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
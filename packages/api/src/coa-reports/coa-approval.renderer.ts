@@ -0,0 +1,146 @@
+/**
+ * COA Approval Manifest Renderer
+ * Builds the approval page issued alongside a COA, so the issued PDF itself
+ * never changes after it was signed
+ */
+
+import type { COASignature } from '../modules/coa/renderer';
+
+export interface COAApprovalManifestData {
+  reportId: string;
+  sampleCode: string;
+  version: number;
+  labName?: string;
+  issuedAt: Date | null;
+  pdfSha256: string | null; // Of the issued COA the approval applies to
+  signature: COASignature;
+}
+
+/**
+ * Approval manifest: the printed name, date/time and meaning of the approval
+ * signature (21 CFR 11.50) and the checksum of the approved COA
+ */
+export function renderCOAApprovalManifestHtml(
+  data: COAApprovalManifestData,
+): string {
+  const { signature } = data;
+  const meaning =
+    signature.meaning.charAt(0) + signature.meaning.slice(1).toLowerCase();
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>COA Approval - ${escapeHtml(data.sampleCode)} v${data.version}</title>
+  <style>
+    @page {
+      size: A4;
+      margin: 15mm;
+    }
+
+    body {
+      font-family: Arial, sans-serif;
+      font-size: 9pt;
+      margin: 0;
+      padding: 0;
+      line-height: 1.4;
+    }
+
+    .header {
+      border-bottom: 2px solid #2563eb;
+      padding-bottom: 10px;
+      margin-bottom: 15px;
+    }
+
+    .header h1 {
+      margin: 0 0 5px 0;
+      font-size: 1.5em;
+      color: #1e40af;
+    }
+
+    .summary td {
+      padding: 2px 10px 2px 0;
+      vertical-align: top;
+    }
+
+    h2 {
+      font-size: 1.1em;
+      margin: 15px 0 5px 0;
+    }
+
+    table.list {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    table.list th, table.list td {
+      border: 1px solid #e5e7eb;
+      padding: 3px 5px;
+      text-align: left;
+    }
+
+    table.list th {
+      background: #f9fafb;
+    }
+
+    .mono {
+      font-family: 'Courier New', monospace;
+      font-size: 8pt;
+      word-break: break-all;
+    }
+
+    .footer {
+      margin-top: 15px;
+      padding-top: 8px;
+      border-top: 1px solid #d1d5db;
+      font-size: 8pt;
+      color: #6b7280;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Approval of Certificate of Analysis</h1>
+    ${data.labName ? `<div>${escapeHtml(data.labName)}</div>` : ''}
+  </div>
+
+  <table class="summary">
+    <tr><td><strong>Sample</strong></td><td>${escapeHtml(data.sampleCode)}</td></tr>
+    <tr><td><strong>Version</strong></td><td>v${data.version}</td></tr>
+    <tr><td><strong>Report ID</strong></td><td class="mono">${escapeHtml(data.reportId)}</td></tr>
+    <tr><td><strong>Issued</strong></td><td>${data.issuedAt ? formatDate(data.issuedAt) : 'N/A'}</td></tr>
+    <tr><td><strong>COA SHA-256</strong></td><td class="mono">${escapeHtml(data.pdfSha256 ?? 'N/A')}</td></tr>
+  </table>
+
+  <h2>Electronic Signatures</h2>
+  <table class="list">
+    <tr><th>Signed By</th><th>Meaning</th><th>Date/Time</th><th>Applies To</th></tr>
+    <tr>
+      <td>${escapeHtml(signature.name)}</td>
+      <td>${meaning}</td>
+      <td>${formatDate(new Date(signature.signedAt))}</td>
+      <td>${escapeHtml(signature.subject)}</td>
+    </tr>
+  </table>
+
+  <div class="footer">
+    This approval applies to the certificate with the SHA-256 checksum above, as issued; the
+    certificate itself is not re-issued.
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
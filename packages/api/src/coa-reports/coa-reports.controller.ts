@@ -1,13 +1,34 @@
-import { Controller, Get, Post, Body, Param, Req, Res } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { COAReportsService } from './coa-reports.service';
-import type { BuildCOADto } from './coa-reports.service';
+import type {
+  BuildCOADto,
+  ExportCOADto,
+  PreviewCOADto,
+  VerifyCOADto,
+} from './coa-reports.service';
+import type { SignatureDto } from '../signatures/signatures.service';
 import { Roles } from '../auth/roles.decorator';
+import { Public } from '../auth/public.decorator';
 import { Role } from '@prisma/client';
 import type { Request, Response } from 'express';
 
@@ -27,7 +48,12 @@ export class COAReportsController {
     status: 200,
     description: 'COA preview generated successfully',
   })
-  async previewCOA(@Param('id') sampleId: string, @Req() req: Request) {
+  @ApiResponse({ status: 400, description: 'The HTML template is invalid' })
+  async previewCOA(
+    @Param('id') sampleId: string,
+    @Body() dto: PreviewCOADto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -35,7 +61,7 @@ export class COAReportsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.coaReportsService.previewCOA(sampleId, context);
+    return this.coaReportsService.previewCOA(sampleId, context, dto);
   }
 
   @Post('samples/:id/coa/export')
@@ -45,7 +71,15 @@ export class COAReportsController {
       'Export COA for sample (creates/increments version; returns PDF URL)',
   })
   @ApiResponse({ status: 201, description: 'COA exported successfully' })
-  async exportCOA(@Param('id') sampleId: string, @Req() req: Request) {
+  @ApiResponse({
+    status: 400,
+    description: 'A version was already issued and no amendment reason given',
+  })
+  async exportCOA(
+    @Param('id') sampleId: string,
+    @Body() dto: ExportCOADto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -53,11 +87,17 @@ export class COAReportsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.coaReportsService.exportCOA(sampleId, context);
+    return this.coaReportsService.exportCOA(sampleId, context, dto);
   }
 
   @Get('samples/:id/coa')
-  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @Roles(
+    Role.ADMIN,
+    Role.LAB_MANAGER,
+    Role.ANALYST,
+    Role.SALES_ACCOUNTING,
+    Role.CLIENT,
+  )
   @ApiOperation({ summary: 'List all COA versions for a sample' })
   @ApiResponse({ status: 200, description: 'COA versions retrieved' })
   async listCOAVersions(@Param('id') sampleId: string) {
@@ -66,7 +106,13 @@ export class COAReportsController {
 
   // COA report endpoints
   @Get('coa/:id')
-  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @Roles(
+    Role.ADMIN,
+    Role.LAB_MANAGER,
+    Role.ANALYST,
+    Role.SALES_ACCOUNTING,
+    Role.CLIENT,
+  )
   @ApiOperation({ summary: 'Get COA report metadata by ID' })
   @ApiResponse({
     status: 200,
@@ -127,6 +173,43 @@ export class COAReportsController {
     }
   }
 
+  @Get('coa/:id/approval/download')
+  @Roles(
+    Role.ADMIN,
+    Role.LAB_MANAGER,
+    Role.ANALYST,
+    Role.SALES_ACCOUNTING,
+    Role.CLIENT,
+  )
+  @ApiOperation({ summary: 'Download the signed approval manifest of a COA' })
+  @ApiResponse({ status: 200, description: 'Approval manifest downloaded' })
+  async downloadApprovalPdf(@Param('id') id: string, @Res() res: Response) {
+    const report = await this.coaReportsService.getCOAReport(id);
+    if (!report?.approvalPdfKey) {
+      return res
+        .status(404)
+        .json({ message: 'COA Report has no approval manifest' });
+    }
+
+    try {
+      const pdfBuffer = await this.coaReportsService.downloadCOAPdf(
+        report.approvalPdfKey,
+      );
+      const sampleCode = (report as any).sample?.sampleCode || report.sampleId;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="COA-${sampleCode}-v${report.version}-approval.pdf"`,
+      );
+      return res.send(pdfBuffer);
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ message: 'Failed to download PDF', error: error.message });
+    }
+  }
+
   // Legacy endpoints for backward compatibility
   @Post('coa-reports/build')
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
@@ -159,7 +242,16 @@ export class COAReportsController {
   @Post('coa-reports/:id/approve')
   @Roles(Role.ADMIN, Role.LAB_MANAGER)
   @ApiOperation({ summary: 'Approve COA (legacy endpoint)' })
-  async approveCOA(@Param('id') id: string, @Req() req: Request) {
+  @ApiResponse({ status: 401, description: 'Signature password is incorrect' })
+  @ApiResponse({
+    status: 403,
+    description: 'The COA was built by the same user (four-eyes rule)',
+  })
+  async approveCOA(
+    @Param('id') id: string,
+    @Body() dto: SignatureDto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -167,18 +259,30 @@ export class COAReportsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.coaReportsService.approveCOA(id, context);
+    return this.coaReportsService.approveCOA(id, dto, context);
   }
 
   @Get('coa-reports/:id')
-  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @Roles(
+    Role.ADMIN,
+    Role.LAB_MANAGER,
+    Role.ANALYST,
+    Role.SALES_ACCOUNTING,
+    Role.CLIENT,
+  )
   @ApiOperation({ summary: 'Get COA report by ID (legacy endpoint)' })
   async getCOAReport(@Param('id') id: string) {
     return this.coaReportsService.getCOAReport(id);
   }
 
   @Get('coa-reports/sample/:sampleId')
-  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @Roles(
+    Role.ADMIN,
+    Role.LAB_MANAGER,
+    Role.ANALYST,
+    Role.SALES_ACCOUNTING,
+    Role.CLIENT,
+  )
   @ApiOperation({
     summary: 'List COA reports for sample (legacy endpoint)',
   })
@@ -187,11 +291,51 @@ export class COAReportsController {
   }
 
   @Get('coa-reports/sample/:sampleId/latest')
-  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @Roles(
+    Role.ADMIN,
+    Role.LAB_MANAGER,
+    Role.ANALYST,
+    Role.SALES_ACCOUNTING,
+    Role.CLIENT,
+  )
   @ApiOperation({
     summary: 'Get latest COA report for sample (legacy endpoint)',
   })
   async getLatestCOAReport(@Param('sampleId') sampleId: string) {
     return this.coaReportsService.getLatestCOAReport(sampleId);
   }
+
+  // Public verification of issued COAs, e.g. by a client's customer
+  @Public()
+  @Get('coa-reports/verify/:id')
+  @ApiOperation({
+    summary: 'Public summary of an issued COA, as opened from its QR code',
+  })
+  @ApiResponse({ status: 404, description: 'No COA with this ID was issued' })
+  async getVerificationSummary(@Param('id') id: string) {
+    return this.coaReportsService.getVerificationSummary(id);
+  }
+
+  @Public()
+  @Post('coa-reports/verify')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 20 * 1024 * 1024 } }),
+  )
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiOperation({
+    summary:
+      'Check a COA PDF (uploaded as file, or its sha256 with the reportId) against the issued certificates',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Verdict; valid only for a FINAL, non-superseded COA',
+  })
+  @ApiResponse({ status: 400, description: 'No file or SHA-256 given' })
+  async verifyCOA(
+    @Body() dto: VerifyCOADto,
+    @UploadedFile() file?: { buffer: Buffer },
+  ) {
+    return this.coaReportsService.verifyCOA(dto ?? {}, file?.buffer);
+  }
 }
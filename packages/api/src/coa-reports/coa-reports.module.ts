@@ -6,6 +6,11 @@ import { AuditModule } from '../audit/audit.module';
 import { PdfModule } from '../pdf/pdf.module';
 import { StorageModule } from '../storage/storage.module';
 import { LabSettingsModule } from '../lab-settings/lab-settings.module';
+import { OOSInvestigationsModule } from '../oos-investigations/oos-investigations.module';
+import { SegregationOfDutiesModule } from '../segregation-of-duties/segregation-of-duties.module';
+import { SignaturesModule } from '../signatures/signatures.module';
+import { COATemplatesModule } from '../coa-templates/coa-templates.module';
+import { COASigningService } from '../modules/coa/signing';
 
 @Module({
   imports: [
@@ -14,8 +19,12 @@ import { LabSettingsModule } from '../lab-settings/lab-settings.module';
     PdfModule,
     StorageModule,
     LabSettingsModule,
+    OOSInvestigationsModule,
+    SegregationOfDutiesModule,
+    SignaturesModule,
+    COATemplatesModule,
   ],
-  providers: [COAReportsService],
+  providers: [COAReportsService, COASigningService],
   controllers: [COAReportsController],
   exports: [COAReportsService],
 })
@@ -5,9 +5,20 @@ import { AuditService } from '../audit/audit.service';
 import { PdfService } from '../pdf/pdf.service';
 import { StorageService } from '../storage/storage.service';
 import { LabSettingsService } from '../lab-settings/lab-settings.service';
+import { OOSInvestigationsService } from '../oos-investigations/oos-investigations.service';
+import { SegregationOfDutiesService } from '../segregation-of-duties/segregation-of-duties.service';
+import { SignaturesService } from '../signatures/signatures.service';
+import { COATemplatesService } from '../coa-templates/coa-templates.service';
+import { COASigningService, sha256Hex } from '../modules/coa/signing';
 import { ConfigService } from '@nestjs/config';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
-import { COAReportStatus } from '@prisma/client';
+import {
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { COAReportStatus, SignatureMeaning } from '@prisma/client';
+
+jest.mock('bcrypt', () => ({ compare: jest.fn() }));
 
 describe('COAReportsService - Versioning', () => {
   let service: COAReportsService;
@@ -27,14 +38,20 @@ describe('COAReportsService - Versioning', () => {
       findFirst: jest.fn(),
       findMany: jest.fn(),
       create: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
       update: jest.fn(),
       updateMany: jest.fn(),
     },
+    labSettings: {
+      findFirst: jest.fn(),
+    },
   };
 
+  // Runs the writes against the mocked client, as the transaction would
   const mockAuditService = {
-    logCreate: jest.fn(),
-    logUpdate: jest.fn(),
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
   };
 
   const mockPdfService = {
@@ -54,6 +71,10 @@ describe('COAReportsService - Versioning', () => {
   };
 
   const mockLabSettingsService = {
+    getSettings: jest.fn().mockResolvedValue({
+      id: 'settings-123',
+      labLogoUrl: 'https://assets.example.com/logo.png',
+    }),
     getOrCreateSettings: jest.fn().mockResolvedValue({
       id: 'settings-123',
       labName: 'Laboratory LIMS Pro',
@@ -68,6 +89,33 @@ describe('COAReportsService - Versioning', () => {
     }),
   };
 
+  const mockSignaturesService = {
+    listValidSignatures: jest.fn().mockResolvedValue([]),
+    verifySigner: jest.fn().mockResolvedValue({
+      id: 'user-123',
+      name: 'Test User',
+      email: 'test@example.com',
+    }),
+    recordSignature: jest.fn(),
+  };
+
+  // No template assigned unless a test says otherwise
+  const mockCOATemplatesService = {
+    resolveTemplate: jest.fn().mockResolvedValue(null),
+  };
+
+  // Passes the rendered PDF through as if signed
+  const signedSha256 = 'a'.repeat(64);
+  const mockCOASigningService = {
+    signPdf: jest.fn((pdf: Buffer) =>
+      Promise.resolve({ pdf, sha256: signedSha256, signed: true }),
+    ),
+  };
+
+  const mockOOSInvestigationsService = {
+    assertNoOpenInvestigation: jest.fn(),
+  };
+
   const mockContext = {
     actorId: 'user-123',
     actorEmail: 'test@example.com',
@@ -167,6 +215,23 @@ describe('COAReportsService - Versioning', () => {
           provide: LabSettingsService,
           useValue: mockLabSettingsService,
         },
+        {
+          provide: OOSInvestigationsService,
+          useValue: mockOOSInvestigationsService,
+        },
+        {
+          provide: SignaturesService,
+          useValue: mockSignaturesService,
+        },
+        {
+          provide: COATemplatesService,
+          useValue: mockCOATemplatesService,
+        },
+        {
+          provide: COASigningService,
+          useValue: mockCOASigningService,
+        },
+        SegregationOfDutiesService,
       ],
     }).compile();
 
@@ -188,6 +253,22 @@ describe('COAReportsService - Versioning', () => {
   });
 
   describe('exportCOA', () => {
+    // The dataSnapshot of a version exported from mockSample, as stored
+    const exportSnapshot = async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.create.mockImplementation(({ data }) =>
+        Promise.resolve(data),
+      );
+      await service.exportCOA('sample-123', mockContext);
+      const { data } = mockPrismaService.cOAReport.create.mock.calls.at(-1)[0];
+      jest.clearAllMocks();
+      return JSON.parse(JSON.stringify(data.dataSnapshot));
+    };
+
     it('should create version 1 for a new sample', async () => {
       mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
       mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
@@ -222,15 +303,197 @@ describe('COAReportsService - Versioning', () => {
         expect.any(Buffer),
         'application/pdf',
       );
-      expect(mockAuditService.logCreate).toHaveBeenCalled();
+      expect(mockAuditService.withContext).toHaveBeenCalled();
+    });
+
+    it('should sign the PDF with a QR code for the new report ID and store its hash', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.create.mockImplementation(({ data }) =>
+        Promise.resolve({ ...data, status: COAReportStatus.FINAL }),
+      );
+
+      const result = await service.exportCOA('sample-123', mockContext);
+
+      const { data } = mockPrismaService.cOAReport.create.mock.calls[0][0];
+      expect(mockCOASigningService.signPdf).toHaveBeenCalledWith(
+        Buffer.from('pdf-content'),
+        data.id,
+        'Certificate of Analysis SAMPLE-001 v1',
+      );
+      expect(result.id).toBe(data.id);
+      expect(data.pdfSha256).toBe(signedSha256);
+    });
+
+    it("should render with the job's template and record its version", async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        job: { ...mockSample.job, coaTemplateId: 'template-job' },
+        client: { ...mockSample.client, coaTemplateId: 'template-client' },
+      });
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.cOAReport.create.mockResolvedValue({
+        id: 'coa-123',
+        version: 1,
+        status: COAReportStatus.FINAL,
+      });
+      mockCOATemplatesService.resolveTemplate.mockResolvedValueOnce({
+        id: 'template-job',
+        name: 'Short form',
+        version: 3,
+        layout: {
+          sectionOrder: ['testResults', 'sampleInformation'],
+          columnOrder: ['test', 'result'],
+        },
+      });
+
+      await service.exportCOA('sample-123', mockContext);
+
+      expect(mockCOATemplatesService.resolveTemplate).toHaveBeenCalledWith(
+        'template-job',
+      );
+      const { data } = mockPrismaService.cOAReport.create.mock.calls[0][0];
+      expect(data.dataSnapshot.reportMetadata.template).toEqual({
+        id: 'template-job',
+        name: 'Short form',
+        version: 3,
+      });
+      const html: string = data.htmlSnapshot;
+      expect(html).not.toContain('Client Information');
+      expect(html).not.toContain('Prepared By');
+      expect(html).not.toContain('<th>Method</th>');
+      expect(html.indexOf('Test Results')).toBeLessThan(
+        html.indexOf('Sample Information'),
+      );
+    });
+
+    it("should fall back to the client's template", async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        client: { ...mockSample.client, coaTemplateId: 'template-client' },
+      });
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.create.mockResolvedValue({
+        id: 'coa-123',
+        version: 1,
+        status: COAReportStatus.FINAL,
+      });
+
+      await service.exportCOA('sample-123', mockContext);
+
+      expect(mockCOATemplatesService.resolveTemplate).toHaveBeenCalledWith(
+        'template-client',
+      );
+      const { data } = mockPrismaService.cOAReport.create.mock.calls[0][0];
+      expect(data.dataSnapshot.reportMetadata.template).toBeUndefined();
+      expect(data.htmlSnapshot).toContain('Client Information');
+    });
+
+    it('should report results below the method LOQ as <LOQ', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        testAssignments: [
+          {
+            ...mockSample.testAssignments[0],
+            method: { ...mockSample.testAssignments[0].method, loq: 10 },
+            result: '2.5',
+          },
+        ],
+      });
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.cOAReport.create.mockResolvedValue({
+        id: 'coa-123',
+        version: 1,
+        status: COAReportStatus.FINAL,
+      });
+
+      await service.exportCOA('sample-123', mockContext);
+
+      const { data } = mockPrismaService.cOAReport.create.mock.calls[0][0];
+      // Raw result is kept for the audit trail; the reported value is printed
+      expect(data.dataSnapshot.tests[0].result).toBe('2.5');
+      expect(data.dataSnapshot.tests[0].reportedResult).toBe('<LOQ');
+      expect(data.htmlSnapshot).toContain('&lt;LOQ');
+      expect(data.htmlSnapshot).not.toContain('>2.5<');
+    });
+
+    it('should report only the reportable attempt and list the retest chain', async () => {
+      const original = {
+        ...mockSample.testAssignments[0],
+        id: 'test-1',
+        result: '94.2',
+        oos: true,
+        attempt: 1,
+        reportable: false,
+        retestOfId: null,
+      };
+      const retest = {
+        ...mockSample.testAssignments[0],
+        id: 'test-2',
+        result: '99.1',
+        attempt: 2,
+        reportable: true,
+        retestOfId: 'test-1',
+        retestReason: 'LAB_ERROR',
+      };
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        testAssignments: [original, retest],
+      });
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(null);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.cOAReport.create.mockResolvedValue({
+        id: 'coa-123',
+        version: 1,
+        status: COAReportStatus.FINAL,
+      });
+
+      await service.exportCOA('sample-123', mockContext);
+
+      const { data } = mockPrismaService.cOAReport.create.mock.calls[0][0];
+      expect(data.dataSnapshot.tests).toHaveLength(1);
+      expect(data.dataSnapshot.tests[0].result).toBe('99.1');
+      expect(data.dataSnapshot.tests[0].retestChain).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          result: '94.2',
+          reportable: false,
+        }),
+        expect.objectContaining({
+          attempt: 2,
+          result: '99.1',
+          retestReason: 'LAB_ERROR',
+          reportable: true,
+        }),
+      ]);
+      expect(data.htmlSnapshot).toContain('Retest History');
     });
 
     it('should increment version for existing sample', async () => {
+      const dataSnapshot = await exportSnapshot();
       mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
       mockPrismaService.cOAReport.findFirst.mockResolvedValue({
         id: 'coa-old',
         version: 2,
         status: COAReportStatus.FINAL,
+        dataSnapshot,
       });
       mockPdfService.generatePdfFromHtml.mockResolvedValue(
         Buffer.from('pdf-content'),
@@ -253,7 +516,9 @@ describe('COAReportsService - Versioning', () => {
         reportedById: mockContext.actorId,
       });
 
-      const result = await service.exportCOA('sample-123', mockContext);
+      const result = await service.exportCOA('sample-123', mockContext, {
+        reason: 'Results re-checked',
+      });
 
       expect(result.version).toBe(3);
       expect(mockPrismaService.cOAReport.updateMany).toHaveBeenCalledWith({
@@ -268,10 +533,12 @@ describe('COAReportsService - Versioning', () => {
     });
 
     it('should mark previous FINAL reports as SUPERSEDED', async () => {
+      const dataSnapshot = await exportSnapshot();
       mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
       mockPrismaService.cOAReport.findFirst.mockResolvedValue({
         version: 1,
         status: COAReportStatus.FINAL,
+        dataSnapshot,
       });
       mockPdfService.generatePdfFromHtml.mockResolvedValue(
         Buffer.from('pdf-content'),
@@ -287,7 +554,9 @@ describe('COAReportsService - Versioning', () => {
         pdfKey: 'coa-reports/SAMPLE-001-v2-12345.pdf',
       } as any);
 
-      await service.exportCOA('sample-123', mockContext);
+      await service.exportCOA('sample-123', mockContext, {
+        reason: 'Results re-checked',
+      });
 
       expect(mockPrismaService.cOAReport.updateMany).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -309,6 +578,146 @@ describe('COAReportsService - Versioning', () => {
         service.exportCOA('non-existent', mockContext),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should require a reason to amend an issued COA', async () => {
+      const dataSnapshot = await exportSnapshot();
+      mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue({
+        version: 1,
+        status: COAReportStatus.FINAL,
+        dataSnapshot,
+      });
+
+      await expect(
+        service.exportCOA('sample-123', mockContext, { reason: ' ' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPdfService.generatePdfFromHtml).not.toHaveBeenCalled();
+      expect(mockPrismaService.cOAReport.create).not.toHaveBeenCalled();
+    });
+
+    it('should print the reason and the changes on the amended COA', async () => {
+      const dataSnapshot = await exportSnapshot();
+      dataSnapshot.reportMetadata.amendments = [
+        {
+          version: 2,
+          previousVersion: 1,
+          amendedAt: '2024-11-10T00:00:00.000Z',
+          amendedBy: 'manager@test.com',
+          reason: 'Client address corrected',
+          changes: {
+            header: [],
+            results: [],
+            addedTests: [],
+            removedTests: [],
+          },
+          summary: ['Address: (blank) → 1 Lab Street'],
+        },
+      ];
+      const [test] = mockSample.testAssignments;
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        sampleBatch: 'BATCH-002',
+        testAssignments: [
+          { ...test, result: '55' },
+          {
+            ...test,
+            id: 'test-2',
+            testDefinition: { name: 'Test 2' },
+            result: '7',
+          },
+        ],
+      });
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue({
+        version: 2,
+        status: COAReportStatus.FINAL,
+        dataSnapshot,
+      });
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockPrismaService.cOAReport.create.mockImplementation(({ data }) =>
+        Promise.resolve(data),
+      );
+
+      const result = await service.exportCOA('sample-123', mockContext, {
+        reason: 'Transcription error in the Test 1 result',
+      });
+
+      const { data } = mockPrismaService.cOAReport.create.mock.calls[0][0];
+      expect(data.amendmentReason).toBe(
+        'Transcription error in the Test 1 result',
+      );
+      expect(data.amendmentChanges).toEqual({
+        header: [
+          {
+            field: 'sampleBatch',
+            label: 'Batch',
+            from: mockSample.sampleBatch,
+            to: 'BATCH-002',
+          },
+        ],
+        results: [
+          {
+            section: 'Chemistry',
+            testName: 'Test 1',
+            method: 'M001',
+            changes: [
+              { field: 'result', label: 'Result', from: '50', to: '55' },
+            ],
+          },
+        ],
+        addedTests: [
+          { section: 'Chemistry', testName: 'Test 2', method: 'M001' },
+        ],
+        removedTests: [],
+      });
+      expect(
+        data.dataSnapshot.reportMetadata.amendments.map(
+          (amendment: any) => amendment.reason,
+        ),
+      ).toEqual([
+        'Client address corrected',
+        'Transcription error in the Test 1 result',
+      ]);
+      expect(data.htmlSnapshot).toContain('Amendment History');
+      expect(data.htmlSnapshot).toContain('Test 1 (Chemistry) Result: 50 → 55');
+      expect(data.htmlSnapshot).toContain('Test added: Test 2 (Chemistry)');
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        mockContext,
+        expect.any(Function),
+        'Transcription error in the Test 1 result',
+      );
+      expect(result.amendment?.previousVersion).toBe(2);
+    });
+
+    it('should not issue a COA for a deleted sample', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.exportCOA('sample-123', mockContext),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.cOAReport.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to issue while the sample has an open OOS investigation', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
+      mockOOSInvestigationsService.assertNoOpenInvestigation.mockRejectedValueOnce(
+        new BadRequestException('Sample has 1 open OOS investigation(s)'),
+      );
+
+      await expect(
+        service.exportCOA('sample-123', mockContext),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockOOSInvestigationsService.assertNoOpenInvestigation,
+      ).toHaveBeenCalledWith('sample-123');
+      expect(mockPdfService.generatePdfFromHtml).not.toHaveBeenCalled();
+      expect(mockPrismaService.cOAReport.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('finalizeCOA', () => {
@@ -345,11 +754,13 @@ describe('COAReportsService - Versioning', () => {
       const result = await service.finalizeCOA('coa-draft', mockContext);
 
       expect(result.status).toBe(COAReportStatus.FINAL);
+      // The lab logo's origin stays reachable while everything else is blocked
       expect(mockPdfService.generatePdfFromHtml).toHaveBeenCalledWith(
         draftReport.htmlSnapshot,
+        { allowedOrigins: ['https://assets.example.com/logo.png'] },
       );
       expect(mockStorageService.uploadFile).toHaveBeenCalled();
-      expect(mockAuditService.logUpdate).toHaveBeenCalled();
+      expect(mockAuditService.withContext).toHaveBeenCalled();
     });
 
     it('should throw BadRequestException if report is not DRAFT', async () => {
@@ -371,6 +782,429 @@ describe('COAReportsService - Versioning', () => {
         service.finalizeCOA('non-existent', mockContext),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should refuse to finalize while the sample has an open OOS investigation', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue({
+        id: 'coa-draft',
+        sampleId: 'sample-123',
+        status: COAReportStatus.DRAFT,
+        sample: {},
+      });
+      mockOOSInvestigationsService.assertNoOpenInvestigation.mockRejectedValueOnce(
+        new BadRequestException('Sample has 1 open OOS investigation(s)'),
+      );
+
+      await expect(
+        service.finalizeCOA('coa-draft', mockContext),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockOOSInvestigationsService.assertNoOpenInvestigation,
+      ).toHaveBeenCalledWith('sample-123');
+      expect(mockPdfService.generatePdfFromHtml).not.toHaveBeenCalled();
+    });
+
+    it('should check again for an investigation opened while the PDF rendered', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue({
+        id: 'coa-draft',
+        sampleId: 'sample-123',
+        version: 1,
+        status: COAReportStatus.DRAFT,
+        htmlSnapshot: '<html>Draft COA</html>',
+        pdfKey: null,
+        sample: { sampleCode: 'SAMPLE-001' },
+      });
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(
+        Buffer.from('pdf-content'),
+      );
+      mockOOSInvestigationsService.assertNoOpenInvestigation
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(
+          new BadRequestException('Sample has 1 open OOS investigation(s)'),
+        );
+
+      await expect(
+        service.finalizeCOA('coa-draft', mockContext),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockOOSInvestigationsService.assertNoOpenInvestigation,
+      ).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.cOAReport.updateMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.cOAReport.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveCOA', () => {
+    const finalReport = {
+      id: 'coa-123',
+      version: 2,
+      status: COAReportStatus.FINAL,
+      createdById: 'user-456',
+      reportedById: 'user-456',
+      approvedById: null,
+      reportedAt: new Date('2025-12-03T09:00:00Z'),
+      pdfKey: 'coa-reports/SAMPLE-001-v2.pdf',
+      pdfSha256: 'b'.repeat(64),
+      htmlSnapshot: '<html></html>',
+      dataSnapshot: { reportMetadata: { labName: 'Test Lab' } },
+      sample: { sampleCode: 'SAMPLE-001' },
+    };
+    const signature = {
+      password: 'secret',
+      meaning: SignatureMeaning.APPROVED,
+    };
+
+    beforeEach(() => {
+      let approval = {};
+      mockPrismaService.cOAReport.updateMany.mockImplementation((args) => {
+        approval = args.data;
+        return Promise.resolve({ count: 1 });
+      });
+      mockPrismaService.cOAReport.findUniqueOrThrow.mockImplementation(() =>
+        Promise.resolve({ ...finalReport, ...approval }),
+      );
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(Buffer.from('pdf'));
+    });
+
+    it('should record a different user as the approver', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue(finalReport);
+
+      const result = await service.approveCOA(
+        'coa-123',
+        signature,
+        mockContext,
+      );
+
+      expect(result.approvedById).toBe('user-123');
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        mockContext,
+        expect.any(Function),
+        undefined,
+      );
+    });
+
+    it('should not let the person who built the COA approve it', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue({
+        ...finalReport,
+        createdById: 'user-123',
+      });
+      mockPrismaService.labSettings.findFirst.mockResolvedValue({
+        allowSegregationExceptions: false,
+      });
+
+      await expect(
+        service.approveCOA('coa-123', signature, mockContext),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.cOAReport.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should allow a justified exception when the lab permits it', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue({
+        ...finalReport,
+        reportedById: 'user-123',
+      });
+      mockPrismaService.labSettings.findFirst.mockResolvedValue({
+        allowSegregationExceptions: true,
+      });
+
+      await service.approveCOA(
+        'coa-123',
+        { ...signature, justification: 'Sole QA manager on site this week' },
+        mockContext,
+      );
+
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        mockContext,
+        expect.any(Function),
+        'Segregation-of-duties exception: Sole QA manager on site this week',
+      );
+    });
+
+    it('should sign the approval in its own manifest and keep the issued PDF', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue(finalReport);
+
+      // Whether the signature is written in the approval's transaction
+      let inTransaction = false;
+      let signedInTransaction = false;
+      mockAuditService.withContext.mockImplementationOnce(
+        async (_context, fn: (tx: unknown) => unknown) => {
+          inTransaction = true;
+          try {
+            return await fn(mockPrismaService);
+          } finally {
+            inTransaction = false;
+          }
+        },
+      );
+      mockSignaturesService.recordSignature.mockImplementationOnce(() => {
+        signedInTransaction = inTransaction;
+        return Promise.resolve({});
+      });
+
+      const result = await service.approveCOA(
+        'coa-123',
+        signature,
+        mockContext,
+      );
+
+      expect(mockSignaturesService.verifySigner).toHaveBeenCalledWith(
+        mockContext,
+        signature,
+        'approve',
+      );
+      const [manifestHtml] = mockPdfService.generatePdfFromHtml.mock
+        .calls[0] as [string];
+      expect(manifestHtml).toContain('Approval of Certificate of Analysis');
+      expect(manifestHtml).toContain('Certificate of Analysis v2');
+      expect(manifestHtml).toContain(finalReport.pdfSha256);
+
+      const [{ where, data }] =
+        mockPrismaService.cOAReport.updateMany.mock.calls[0];
+      expect(where).toEqual({ id: 'coa-123', approvedById: null });
+      expect(data.approvalPdfKey).toMatch(
+        /^coa-reports\/SAMPLE-001-v2-approval-\d+\.pdf$/,
+      );
+      expect(data.approvalPdfSha256).toBe(signedSha256);
+      expect(data).not.toHaveProperty('htmlSnapshot');
+      expect(data).not.toHaveProperty('pdfKey');
+      expect(data).not.toHaveProperty('pdfSha256');
+      expect(result.pdfSha256).toBe(finalReport.pdfSha256);
+
+      expect(mockSignaturesService.recordSignature).toHaveBeenCalledWith(
+        mockContext,
+        expect.objectContaining({ id: 'user-123' }),
+        'COAReport',
+        result,
+        SignatureMeaning.APPROVED,
+        expect.any(Date),
+      );
+      expect(signedInTransaction).toBe(true);
+    });
+
+    it('should refuse to approve a report twice', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue({
+        ...finalReport,
+        approvedById: 'user-789',
+      });
+
+      await expect(
+        service.approveCOA('coa-123', signature, mockContext),
+      ).rejects.toThrow('COA report has already been approved');
+      expect(mockPdfService.generatePdfFromHtml).not.toHaveBeenCalled();
+      expect(mockPrismaService.cOAReport.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an approval that lost the race to a concurrent one', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue(finalReport);
+      mockPrismaService.cOAReport.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.approveCOA('coa-123', signature, mockContext),
+      ).rejects.toThrow('COA report has already been approved');
+      expect(mockSignaturesService.recordSignature).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('previewCOA', () => {
+    it('should render unsaved HTML source against the sample', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
+      mockCOATemplatesService.resolveTemplate.mockResolvedValueOnce({
+        id: 'template-1',
+        name: 'Pharma',
+        version: 1,
+        layout: {},
+        source: '<p>Saved</p>',
+      });
+
+      const result = await service.previewCOA('sample-123', mockContext, {
+        templateId: 'template-1',
+        source:
+          '<h1>{{sample.sampleCode}}</h1>{{#each tests}}<td>{{reportedResult}}</td>{{/each}}',
+      });
+
+      expect(mockCOATemplatesService.resolveTemplate).toHaveBeenCalledWith(
+        'template-1',
+      );
+      expect(result.htmlSnapshot).toBe('<h1>SAMPLE-001</h1><td>50</td>');
+      expect(mockAuditService.withContext).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a deleted sample', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        ...mockSample,
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.previewCOA('sample-123', mockContext),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCOATemplatesService.resolveTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown template', async () => {
+      mockPrismaService.sample.findUnique.mockResolvedValue(mockSample);
+
+      await expect(
+        service.previewCOA('sample-123', mockContext, {
+          templateId: 'missing',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('verifyCOA', () => {
+    const reportId = '6f1c2a4e-8b0d-4c3e-9a7f-1d2e3f4a5b6c';
+    const pdf = Buffer.from('signed-pdf');
+    const issued = {
+      id: reportId,
+      sampleId: 'sample-123',
+      version: 1,
+      status: COAReportStatus.FINAL,
+      pdfSha256: sha256Hex(pdf),
+      reportedAt: new Date('2025-12-03T09:00:00Z'),
+      approvedById: 'user-456',
+      dataSnapshot: { reportMetadata: { labName: 'Laboratory LIMS Pro' } },
+      sample: { sampleCode: 'SAMPLE-001' },
+    };
+
+    it('should accept the uploaded PDF of a FINAL COA', async () => {
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue(issued);
+
+      const result = await service.verifyCOA({}, pdf);
+
+      expect(mockPrismaService.cOAReport.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            pdfSha256: sha256Hex(pdf),
+            status: { not: COAReportStatus.DRAFT },
+          },
+        }),
+      );
+      expect(result.valid).toBe(true);
+      expect(result.report).toMatchObject({
+        sampleCode: 'SAMPLE-001',
+        version: 1,
+        approved: true,
+        labName: 'Laboratory LIMS Pro',
+      });
+    });
+
+    it('should reject a hash that differs from the issued PDF', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue(issued);
+
+      const result = await service.verifyCOA({
+        reportId,
+        sha256: 'B'.repeat(64),
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toContain('may have been altered');
+      expect(result.report?.id).toBe(reportId);
+    });
+
+    it('should reject a superseded COA and name the current version', async () => {
+      mockPrismaService.cOAReport.findUnique.mockResolvedValue({
+        ...issued,
+        status: COAReportStatus.SUPERSEDED,
+      });
+      mockPrismaService.cOAReport.findFirst.mockResolvedValue({ version: 2 });
+
+      const result = await service.verifyCOA({
+        reportId,
+        sha256: issued.pdfSha256.toUpperCase(),
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.message).toBe('COA SAMPLE-001 v1 was superseded by v2');
+      expect(result.report?.supersededByVersion).toBe(2);
+    });
+
+    it('should not look up report IDs that are not UUIDs', async () => {
+      const result = await service.verifyCOA({
+        reportId: 'not-a-uuid',
+        sha256: issued.pdfSha256,
+      });
+
+      expect(result).toMatchObject({ valid: false, report: null });
+      expect(mockPrismaService.cOAReport.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should require the PDF or a SHA-256', async () => {
+      await expect(service.verifyCOA({ reportId })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.verifyCOA({ reportId, sha256: 'abc' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should still verify a copy downloaded before the COA was approved', async () => {
+      // Storage, the report row and signing behave as in production, so the
+      // hash is that of the bytes handed out
+      const files = new Map<string, Buffer>();
+      mockStorageService.uploadFile.mockImplementation(
+        (key: string, file: Buffer) => {
+          files.set(key, file);
+          return Promise.resolve(key);
+        },
+      );
+      mockStorageService.getFile.mockImplementation((key: string) =>
+        Promise.resolve(files.get(key)),
+      );
+      mockPdfService.generatePdfFromHtml.mockImplementation((html: string) =>
+        Promise.resolve(Buffer.from(html)),
+      );
+      mockCOASigningService.signPdf.mockImplementation((file: Buffer) =>
+        Promise.resolve({ pdf: file, sha256: sha256Hex(file), signed: true }),
+      );
+
+      let report: Record<string, unknown> = {
+        ...issued,
+        status: COAReportStatus.DRAFT,
+        pdfKey: null,
+        pdfSha256: null,
+        approvedById: null,
+        createdById: 'user-456',
+        reportedById: 'user-456',
+        htmlSnapshot: '<html>COA SAMPLE-001 v1</html>',
+      };
+      const save = (data: Record<string, unknown>) => {
+        report = { ...report, ...data };
+        return Promise.resolve(report);
+      };
+      mockPrismaService.cOAReport.findUnique.mockImplementation(() =>
+        Promise.resolve(report),
+      );
+      mockPrismaService.cOAReport.findUniqueOrThrow.mockImplementation(() =>
+        Promise.resolve(report),
+      );
+      mockPrismaService.cOAReport.update.mockImplementation(({ data }) =>
+        save(data),
+      );
+      mockPrismaService.cOAReport.updateMany.mockImplementation(
+        async ({ where, data }) => {
+          if (where.id !== reportId) return { count: 0 };
+          await save(data);
+          return { count: 1 };
+        },
+      );
+
+      await service.finalizeCOA(reportId, {
+        ...mockContext,
+        actorId: 'user-456',
+      });
+      const downloaded = await service.downloadCOAPdf(report.pdfKey as string);
+      await service.approveCOA(
+        reportId,
+        { password: 'secret', meaning: SignatureMeaning.APPROVED },
+        mockContext,
+      );
+
+      expect(report.approvedById).toBe('user-123');
+      const result = await service.verifyCOA({ reportId }, downloaded);
+      expect(result).toMatchObject({ valid: true, report: { approved: true } });
+    });
   });
 
   describe('downloadCOAPdf', () => {
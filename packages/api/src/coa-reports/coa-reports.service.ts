@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import {
   Injectable,
   NotFoundException,
@@ -6,22 +7,78 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService, AuditContext } from '../audit/audit.service';
+import { assertChangeReason } from '../audit/change-reason';
 import { PdfService } from '../pdf/pdf.service';
 import { StorageService } from '../storage/storage.service';
 import { LabSettingsService } from '../lab-settings/lab-settings.service';
+import { OOSInvestigationsService } from '../oos-investigations/oos-investigations.service';
+import { SegregationOfDutiesService } from '../segregation-of-duties/segregation-of-duties.service';
+import {
+  SignatureDto,
+  SignaturesService,
+} from '../signatures/signatures.service';
+import { COATemplatesService } from '../coa-templates/coa-templates.service';
 import { COAReport, COAReportStatus } from '@prisma/client';
 import {
   renderCOATemplate,
+  COAAmendment,
   COADataSnapshot,
+  COARetestAttempt,
+  COASignature,
   COATemplateSettings,
 } from '../modules/coa/renderer';
+import { renderCustomCOATemplate } from '../modules/coa/template-engine';
+import { COASigningService, sha256Hex } from '../modules/coa/signing';
+import { renderCOAApprovalManifestHtml } from './coa-approval.renderer';
+import {
+  diffCOASnapshots,
+  summarizeCOAChanges,
+} from '../modules/coa/amendment';
+import { getReportedResult, ReportingRule } from '@lims/shared';
 
 export interface BuildCOADto {
   sampleId: string;
   notes?: string;
   includeFields?: string[]; // Optional: specify which fields to include
+  reason?: string; // Amendment reason; required once a version has been issued
+}
+
+export interface ExportCOADto {
+  reason?: string; // Amendment reason; required once a version has been issued
+}
+
+export interface PreviewCOADto {
+  templateId?: string; // Preview with this template instead of the assigned one
+  source?: string; // Unsaved HTML template from the editor; empty for the built-in layout
+}
+
+export interface VerifyCOADto {
+  reportId?: string; // From the QR code; optional when a PDF is uploaded
+  sha256?: string; // Hex SHA-256 of the PDF; not needed when it is uploaded
+}
+
+// What the public verification shows of an issued COA
+export interface VerifiedCOA {
+  id: string;
+  sampleCode: string;
+  version: number;
+  status: COAReportStatus;
+  issuedAt: Date | null;
+  approved: boolean;
+  labName?: string;
+  pdfSha256: string | null;
+  supersededByVersion?: number;
+}
+
+export interface COAVerificationResult {
+  valid: boolean; // The file is the PDF of a FINAL, non-superseded COA
+  message: string;
+  report: VerifiedCOA | null;
 }
 
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Re-export for backward compatibility
 export type { COADataSnapshot, COATemplateSettings };
 
@@ -41,6 +98,11 @@ export class COAReportsService {
     private storageService: StorageService,
     private configService: ConfigService,
     private labSettingsService: LabSettingsService,
+    private oosInvestigationsService: OOSInvestigationsService,
+    private segregationOfDutiesService: SegregationOfDutiesService,
+    private signaturesService: SignaturesService,
+    private coaTemplatesService: COATemplatesService,
+    private coaSigningService: COASigningService,
   ) {}
 
   /**
@@ -67,7 +129,7 @@ export class COAReportsService {
       },
     });
 
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${dto.sampleId}' not found`);
     }
 
@@ -85,34 +147,40 @@ export class COAReportsService {
       context,
     );
 
+    const amendment = await this.amendSnapshot(
+      dto.sampleId,
+      dataSnapshot,
+      dto.reason,
+      context,
+    );
+
     // Build HTML snapshot
     const htmlSnapshot = this.buildHTMLSnapshot(dataSnapshot);
 
     // Create the COA report
-    const coaReport = await this.prisma.cOAReport.create({
-      data: {
-        sampleId: dto.sampleId,
-        version: nextVersion,
-        status: COAReportStatus.DRAFT,
-        dataSnapshot: dataSnapshot as any,
-        htmlSnapshot,
-        notes: dto.notes,
-        createdById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
-    });
-
-    // Log audit entry
-    await this.auditService.logCreate(
+    const coaReport = await this.auditService.withContext(
       context,
-      'COAReport',
-      coaReport.id,
-      coaReport,
+      (tx) =>
+        tx.cOAReport.create({
+          data: {
+            sampleId: dto.sampleId,
+            version: nextVersion,
+            status: COAReportStatus.DRAFT,
+            dataSnapshot: dataSnapshot as any,
+            htmlSnapshot,
+            amendmentReason: amendment?.reason,
+            amendmentChanges: amendment?.changes as any,
+            notes: dto.notes,
+            createdById: context.actorId,
+            updatedById: context.actorId,
+          },
+          include: {
+            sample: true,
+            createdBy: { select: { id: true, email: true, name: true } },
+            updatedBy: { select: { id: true, email: true, name: true } },
+          },
+        }),
+      amendment?.reason,
     );
 
     return coaReport;
@@ -121,6 +189,7 @@ export class COAReportsService {
   /**
    * Finalize COA (marks as FINAL, generates PDF, stores it, marks previous versions as SUPERSEDED)
    * AC: Each finalization generates PDF and marks previous FINAL as SUPERSEDED
+   * AC: Blocked while the sample has an open OOS investigation
    */
   async finalizeCOA(id: string, context: AuditContext): Promise<COAReport> {
     const oldReport = await this.prisma.cOAReport.findUnique({
@@ -136,68 +205,70 @@ export class COAReportsService {
       throw new BadRequestException('Only DRAFT reports can be finalized');
     }
 
-    // Generate PDF if not already present
-    let pdfKey = oldReport.pdfKey;
-    if (!pdfKey && oldReport.htmlSnapshot) {
-      const pdfBuffer = await this.pdfService.generatePdfFromHtml(
-        oldReport.htmlSnapshot,
+    if (oldReport.sample.deletedAt) {
+      throw new NotFoundException(
+        `Sample with ID '${oldReport.sampleId}' not found`,
       );
+    }
 
-      const pdfStoragePath = this.configService.get<string>(
-        'PDF_STORAGE_PATH',
-        'coa-reports',
-      );
+    // Checked before the PDF is rendered, and again under the sample's lock
+    await this.oosInvestigationsService.assertNoOpenInvestigation(
+      oldReport.sampleId,
+    );
+
+    // Generate the signed PDF if not already present
+    let { pdfKey, pdfSha256 } = oldReport;
+    if ((!pdfKey || !pdfSha256) && oldReport.htmlSnapshot) {
       const sampleCode =
         (oldReport.sample as any)?.sampleCode || oldReport.sampleId;
-      pdfKey = `${pdfStoragePath}/${sampleCode}-v${oldReport.version}-${Date.now()}.pdf`;
-
-      await this.storageService.uploadFile(
-        pdfKey,
-        pdfBuffer,
-        'application/pdf',
-      );
+      ({ pdfKey, pdfSha256 } = await this.issuePdf(
+        id,
+        sampleCode,
+        oldReport.version,
+        oldReport.htmlSnapshot,
+      ));
     }
 
-    // Mark all previous FINAL reports for this sample as SUPERSEDED
-    await this.prisma.cOAReport.updateMany({
-      where: {
-        sampleId: oldReport.sampleId,
-        version: { lt: oldReport.version },
-        status: COAReportStatus.FINAL,
-      },
-      data: {
-        status: COAReportStatus.SUPERSEDED,
-      },
-    });
+    return this.auditService.withContext(
+      context,
+      async (tx) => {
+        await this.oosInvestigationsService.assertNoOpenInvestigation(
+          oldReport.sampleId,
+        );
 
-    // Finalize this report
-    const coaReport = await this.prisma.cOAReport.update({
-      where: { id },
-      data: {
-        status: COAReportStatus.FINAL,
-        pdfKey,
-        reportedAt: new Date(),
-        reportedById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        reportedBy: { select: { id: true, email: true, name: true } },
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
-    });
+        // Mark all previous FINAL reports for this sample as SUPERSEDED
+        await tx.cOAReport.updateMany({
+          where: {
+            sampleId: oldReport.sampleId,
+            version: { lt: oldReport.version },
+            status: COAReportStatus.FINAL,
+          },
+          data: {
+            status: COAReportStatus.SUPERSEDED,
+          },
+        });
 
-    // Log audit entry
-    await this.auditService.logUpdate(
-      context,
-      'COAReport',
-      coaReport.id,
-      oldReport,
-      coaReport,
+        // Finalize this report
+        return tx.cOAReport.update({
+          where: { id },
+          data: {
+            status: COAReportStatus.FINAL,
+            pdfKey,
+            pdfSha256,
+            reportedAt: new Date(),
+            reportedById: context.actorId,
+            updatedById: context.actorId,
+          },
+          include: {
+            sample: true,
+            reportedBy: { select: { id: true, email: true, name: true } },
+            createdBy: { select: { id: true, email: true, name: true } },
+            updatedBy: { select: { id: true, email: true, name: true } },
+          },
+        });
+      },
+      oldReport.amendmentReason ?? undefined,
     );
-
-    return coaReport;
   }
 
   /**
@@ -253,6 +324,41 @@ export class COAReportsService {
     });
   }
 
+  /**
+   * Render a COA to PDF, stamp its verification QR code, sign it with the lab
+   * certificate and store it
+   * @param suffix Added to the file name after the version, e.g. -approval
+   * @returns Storage key and SHA-256 of the signed PDF
+   */
+  private async issuePdf(
+    reportId: string,
+    sampleCode: string,
+    version: number,
+    htmlSnapshot: string,
+    suffix = '',
+    title = 'Certificate of Analysis',
+  ): Promise<{ pdfKey: string; pdfSha256: string }> {
+    // The built-in layout loads the configured lab logo from its URL
+    const labSettings = await this.labSettingsService.getSettings();
+    const rendered = await this.pdfService.generatePdfFromHtml(htmlSnapshot, {
+      allowedOrigins: labSettings?.labLogoUrl ? [labSettings.labLogoUrl] : [],
+    });
+    const { pdf, sha256 } = await this.coaSigningService.signPdf(
+      rendered,
+      reportId,
+      `${title} ${sampleCode} v${version}`,
+    );
+
+    const pdfStoragePath = this.configService.get<string>(
+      'PDF_STORAGE_PATH',
+      'coa-reports',
+    );
+    const pdfKey = `${pdfStoragePath}/${sampleCode}-v${version}${suffix}-${Date.now()}.pdf`;
+    await this.storageService.uploadFile(pdfKey, pdf, 'application/pdf');
+
+    return { pdfKey, pdfSha256: sha256 };
+  }
+
   /**
    * Download COA PDF from storage
    * @param pdfKey Storage key for the PDF file
@@ -262,12 +368,133 @@ export class COAReportsService {
     return this.storageService.getFile(pdfKey);
   }
 
+  /**
+   * Public summary of an issued COA, as opened from its QR code
+   */
+  async getVerificationSummary(id: string): Promise<VerifiedCOA> {
+    const report = UUID.test(id)
+      ? await this.prisma.cOAReport.findUnique({
+          where: { id },
+          include: { sample: { select: { sampleCode: true } } },
+        })
+      : null;
+
+    if (!report || report.status === COAReportStatus.DRAFT) {
+      throw new NotFoundException(`No COA with ID '${id}' was issued`);
+    }
+
+    return this.toVerifiedCOA(report);
+  }
+
+  /**
+   * Check a COA PDF against the issued certificates, by its SHA-256 or the
+   * uploaded file, with or without the report ID from the QR code
+   * AC: Only the PDF of a FINAL, non-superseded COA is valid
+   */
+  async verifyCOA(
+    dto: VerifyCOADto,
+    file?: Buffer,
+  ): Promise<COAVerificationResult> {
+    const sha256 = file ? sha256Hex(file) : dto.sha256?.trim().toLowerCase();
+    if (!sha256) {
+      throw new BadRequestException(
+        'Upload the PDF or give its SHA-256 to verify a COA',
+      );
+    }
+    if (!SHA256_HEX.test(sha256)) {
+      throw new BadRequestException('sha256 must be 64 hexadecimal digits');
+    }
+
+    const include = { sample: { select: { sampleCode: true } } };
+    const reportId = dto.reportId?.trim();
+    const report = reportId
+      ? UUID.test(reportId)
+        ? await this.prisma.cOAReport.findUnique({
+            where: { id: reportId },
+            include,
+          })
+        : null
+      : await this.prisma.cOAReport.findFirst({
+          where: { pdfSha256: sha256, status: { not: COAReportStatus.DRAFT } },
+          include,
+        });
+
+    if (!report || report.status === COAReportStatus.DRAFT) {
+      return {
+        valid: false,
+        message: reportId
+          ? `No COA with ID '${reportId}' was issued`
+          : 'This file does not match any COA issued by the laboratory',
+        report: null,
+      };
+    }
+
+    const verified = await this.toVerifiedCOA(report);
+    if (report.pdfSha256 !== sha256) {
+      return {
+        valid: false,
+        message: `This file does not match COA ${verified.sampleCode} v${verified.version} as issued; it may have been altered`,
+        report: verified,
+      };
+    }
+    if (report.status === COAReportStatus.SUPERSEDED) {
+      return {
+        valid: false,
+        message: verified.supersededByVersion
+          ? `COA ${verified.sampleCode} v${verified.version} was superseded by v${verified.supersededByVersion}`
+          : `COA ${verified.sampleCode} v${verified.version} was superseded`,
+        report: verified,
+      };
+    }
+
+    return {
+      valid: true,
+      message: `This file is COA ${verified.sampleCode} v${verified.version} as issued by the laboratory`,
+      report: verified,
+    };
+  }
+
+  private async toVerifiedCOA(
+    report: COAReport & { sample: { sampleCode: string } },
+  ): Promise<VerifiedCOA> {
+    const dataSnapshot = report.dataSnapshot as unknown as COADataSnapshot;
+    const current =
+      report.status === COAReportStatus.SUPERSEDED
+        ? await this.prisma.cOAReport.findFirst({
+            where: { sampleId: report.sampleId, status: COAReportStatus.FINAL },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          })
+        : null;
+
+    return {
+      id: report.id,
+      sampleCode: report.sample.sampleCode,
+      version: report.version,
+      status: report.status,
+      issuedAt: report.reportedAt,
+      approved: !!report.approvedById,
+      labName: dataSnapshot?.reportMetadata?.labName,
+      pdfSha256: report.pdfSha256,
+      supersededByVersion: current?.version,
+    };
+  }
+
   /**
    * Approve a COA report (Lab Manager only)
+   * AC: The approver must differ from whoever built or finalized the COA
+   * AC: Approval is e-signed and bound to the dataSnapshot. The issued PDF
+   * keeps its hash; the signature manifest of the approval is issued as a
+   * separate signed PDF.
    */
-  async approveCOA(id: string, context: AuditContext): Promise<COAReport> {
+  async approveCOA(
+    id: string,
+    dto: SignatureDto,
+    context: AuditContext,
+  ): Promise<COAReport> {
     const oldReport = await this.prisma.cOAReport.findUnique({
       where: { id },
+      include: { sample: true },
     });
 
     if (!oldReport) {
@@ -278,44 +505,203 @@ export class COAReportsService {
       throw new BadRequestException('Only FINAL reports can be approved');
     }
 
-    const coaReport = await this.prisma.cOAReport.update({
-      where: { id },
-      data: {
-        approvedById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        reportedBy: { select: { id: true, email: true, name: true } },
-        approvedBy: { select: { id: true, email: true, name: true } },
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
+    if (oldReport.approvedById) {
+      throw new BadRequestException('COA report has already been approved');
+    }
+
+    const exception = await this.segregationOfDutiesService.assertFourEyes(
+      context,
+      {
+        action: 'approve',
+        subject: 'a COA you built',
+        performedBy: [oldReport.createdById, oldReport.reportedById],
+        justification: dto.justification,
       },
-    });
+    );
+    const signer = await this.signaturesService.verifySigner(
+      context,
+      dto,
+      'approve',
+    );
+    const signedAt = new Date();
+
+    // The issued PDF is left as signed, so copies already handed out still
+    // verify; the approval gets its own signed manifest
+    const dataSnapshot = oldReport.dataSnapshot as unknown as COADataSnapshot;
+    const { pdfKey: approvalPdfKey, pdfSha256: approvalPdfSha256 } =
+      await this.issuePdf(
+        id,
+        oldReport.sample.sampleCode,
+        oldReport.version,
+        renderCOAApprovalManifestHtml({
+          reportId: id,
+          sampleCode: oldReport.sample.sampleCode,
+          version: oldReport.version,
+          labName: dataSnapshot?.reportMetadata?.labName,
+          issuedAt: oldReport.reportedAt,
+          pdfSha256: oldReport.pdfSha256,
+          signature: {
+            name: signer.name,
+            email: signer.email,
+            meaning: dto.meaning,
+            signedAt,
+            subject: `Certificate of Analysis v${oldReport.version}`,
+          },
+        }),
+        '-approval',
+        'Approval of Certificate of Analysis',
+      );
 
-    // Log audit entry
-    await this.auditService.logUpdate(
+    // The approval and its signature record commit together
+    return this.auditService.withContext(
       context,
-      'COAReport',
-      coaReport.id,
-      oldReport,
-      coaReport,
+      async (tx) => {
+        // Conditional, so a concurrent approval cannot sign it a second time
+        const { count } = await tx.cOAReport.updateMany({
+          where: { id, approvedById: null },
+          data: {
+            approvedById: context.actorId,
+            approvalPdfKey,
+            approvalPdfSha256,
+            updatedById: context.actorId,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException('COA report has already been approved');
+        }
+
+        const coaReport = await tx.cOAReport.findUniqueOrThrow({
+          where: { id },
+          include: {
+            sample: true,
+            reportedBy: { select: { id: true, email: true, name: true } },
+            approvedBy: { select: { id: true, email: true, name: true } },
+            createdBy: { select: { id: true, email: true, name: true } },
+            updatedBy: { select: { id: true, email: true, name: true } },
+          },
+        });
+
+        await this.signaturesService.recordSignature(
+          context,
+          signer,
+          'COAReport',
+          coaReport,
+          dto.meaning,
+          signedAt,
+        );
+
+        return coaReport;
+      },
+      exception,
     );
+  }
 
-    return coaReport;
+  /**
+   * Get a result as printed on the COA: the value rounded at entry time,
+   * or derived from the method for results entered before rounding existed
+   * The raw result is kept alongside it in the snapshot
+   */
+  private formatReportedResult(ta: {
+    result: string | null;
+    reportedResult: string | null;
+    method: ReportingRule;
+  }): string | undefined {
+    if (!ta.result) return undefined;
+    return ta.reportedResult ?? getReportedResult(ta.result, ta.method);
+  }
+
+  /**
+   * Collect the attempts linked to a test through retests, original first
+   * @returns The chain, or undefined for a test that was never retested
+   */
+  private buildRetestChain(
+    ta: any,
+    testAssignments: any[],
+  ): COARetestAttempt[] | undefined {
+    const byId = new Map(testAssignments.map((t) => [t.id, t]));
+    let root = ta;
+    while (root.retestOfId && byId.has(root.retestOfId)) {
+      root = byId.get(root.retestOfId);
+    }
+
+    const chain = [root];
+    for (;;) {
+      const last = chain[chain.length - 1];
+      const next = testAssignments.find((t) => t.retestOfId === last.id);
+      if (!next) break;
+      chain.push(next);
+    }
+
+    if (chain.length < 2) return undefined;
+
+    return chain.map((attempt) => ({
+      attempt: attempt.attempt,
+      result: attempt.result,
+      reportedResult: this.formatReportedResult(attempt),
+      status: attempt.status,
+      testDate: attempt.testDate,
+      retestReason: attempt.retestReason,
+      reportable: attempt.reportable,
+      oos: attempt.oos,
+    }));
+  }
+
+  /**
+   * Signature manifest for the reported tests: who signed, when, and with
+   * what meaning (21 CFR 11.50); invalidated signatures are left out
+   */
+  private async buildSignatureManifest(
+    testAssignments: any[],
+  ): Promise<COASignature[]> {
+    const signatures = await this.signaturesService.listValidSignatures(
+      'TestAssignment',
+      testAssignments,
+    );
+    const testNames = new Map(
+      testAssignments.map((ta) => [
+        ta.id,
+        ta.customTestName || ta.testDefinition?.name || 'Unnamed Test',
+      ]),
+    );
+
+    return signatures.map((signature) => ({
+      name: signature.signerName,
+      email: signature.signerEmail,
+      meaning: signature.meaning,
+      signedAt: signature.signedAt,
+      subject: testNames.get(signature.recordId) ?? 'Unnamed Test',
+    }));
   }
 
   /**
    * Build data snapshot from sample data
+   * AC: The layout comes from the job's COA template, else the client's, else
+   * the lab settings; the template version used is recorded in the snapshot
+   * @param templateId Use this template instead of the assigned one (preview)
    */
   private async buildDataSnapshot(
     sample: any,
     version: number,
     context: AuditContext,
+    templateId?: string,
   ): Promise<COADataSnapshot> {
     // Get lab settings
     const labSettings =
       await this.labSettingsService.getOrCreateSettings(context);
+    const template = await this.coaTemplatesService.resolveTemplate(
+      templateId ?? sample.job.coaTemplateId ?? sample.client.coaTemplateId,
+    );
+    if (templateId && !template) {
+      throw new NotFoundException(
+        `COATemplate with ID '${templateId}' not found`,
+      );
+    }
+
+    // Only the reportable attempt of a retested test is reported; the
+    // others appear in its retest chain
+    const reportedTests = sample.testAssignments.filter(
+      (ta: any) => ta.reportable !== false,
+    );
 
     return {
       sample: {
@@ -351,7 +737,7 @@ export class COAReportsService {
           retest: sample.retest,
         },
       },
-      tests: sample.testAssignments.map((ta: any) => ({
+      tests: reportedTests.map((ta: any) => ({
         section: { name: ta.section.name },
         method: {
           code: ta.method.code,
@@ -377,6 +763,8 @@ export class COAReportsService {
         status: ta.status,
         testDate: ta.testDate,
         result: ta.result,
+        reportedResult: this.formatReportedResult(ta),
+        detectionState: ta.detectionState,
         resultUnit: ta.resultUnit,
         checker: ta.checker
           ? { name: ta.checker.name, email: ta.checker.email }
@@ -387,7 +775,10 @@ export class COAReportsService {
         invoiceNote: ta.invoiceNote,
         precision: ta.precision,
         linearity: ta.linearity,
+        attempt: ta.attempt,
+        retestChain: this.buildRetestChain(ta, sample.testAssignments),
       })),
+      signatures: await this.buildSignatureManifest(reportedTests),
       reportMetadata: {
         version,
         generatedAt: new Date(),
@@ -397,21 +788,79 @@ export class COAReportsService {
         disclaimerText:
           labSettings?.disclaimerText ||
           'This Certificate of Analysis is for the sample as received and tested. Results apply only to the sample tested.',
-        templateSettings:
-          (labSettings?.coaTemplateSettings as COATemplateSettings) ||
-          undefined,
+        templateSettings: template
+          ? template.layout
+          : (labSettings?.coaTemplateSettings as COATemplateSettings) ||
+            undefined,
+        template: template
+          ? { id: template.id, name: template.name, version: template.version }
+          : undefined,
+        templateSource: template?.source,
       },
     };
   }
 
+  /**
+   * Record an amendment when the sample already has an issued COA: the
+   * reason and the changes against the latest issued version are added to the
+   * snapshot's amendment history, which is printed on the new COA
+   * AC: Amending an issued COA requires a reason
+   * @returns The amendment, or undefined for the first issued version
+   */
+  private async amendSnapshot(
+    sampleId: string,
+    dataSnapshot: COADataSnapshot,
+    reason: string | undefined,
+    context: AuditContext,
+  ): Promise<COAAmendment | undefined> {
+    const previous = await this.prisma.cOAReport.findFirst({
+      where: { sampleId, status: { not: COAReportStatus.DRAFT } },
+      orderBy: { version: 'desc' },
+    });
+    if (!previous) return undefined;
+
+    assertChangeReason(`the issued COA version ${previous.version}`, reason);
+
+    const previousSnapshot =
+      previous.dataSnapshot as unknown as COADataSnapshot;
+    const changes = diffCOASnapshots(previousSnapshot, dataSnapshot);
+    const amendment: COAAmendment = {
+      version: dataSnapshot.reportMetadata.version,
+      previousVersion: previous.version,
+      amendedAt: dataSnapshot.reportMetadata.generatedAt,
+      amendedBy: context.actorEmail,
+      reason: reason?.trim() ?? '',
+      changes,
+      summary: summarizeCOAChanges(changes),
+    };
+    dataSnapshot.reportMetadata.amendments = [
+      ...(previousSnapshot.reportMetadata?.amendments ?? []),
+      amendment,
+    ];
+
+    return amendment;
+  }
+
   /**
    * Build HTML snapshot for PDF generation
    * AC: PDF includes all required fields in structured format
    */
   private buildHTMLSnapshot(dataSnapshot: COADataSnapshot): string {
-    return renderCOATemplate(dataSnapshot);
+    const source = dataSnapshot.reportMetadata.templateSource;
+    return source
+      ? renderCustomCOATemplate(source, dataSnapshot)
+      : renderCOATemplate(dataSnapshot);
   }
-  async previewCOA(sampleId: string, context: AuditContext) {
+
+  /**
+   * Preview the COA of a sample without saving a version
+   * AC: The template editor previews unsaved HTML against a real sample
+   */
+  async previewCOA(
+    sampleId: string,
+    context: AuditContext,
+    dto: PreviewCOADto = {},
+  ) {
     const sample = await this.prisma.sample.findUnique({
       where: { id: sampleId },
       include: {
@@ -428,15 +877,21 @@ export class COAReportsService {
       },
     });
 
-    if (!sample) {
-      throw new Error(`Sample with ID '${sampleId}' not found`);
+    if (!sample || sample.deletedAt) {
+      throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
     }
 
     const dataSnapshot = await this.buildDataSnapshot(
       sample as any,
       0,
       context,
+      dto.templateId,
     );
+    if (dto.source !== undefined) {
+      dataSnapshot.reportMetadata.templateSource = dto.source.trim()
+        ? dto.source
+        : undefined;
+    }
     const htmlSnapshot = this.buildHTMLSnapshot(dataSnapshot);
 
     const jsonSnapshot = {
@@ -455,10 +910,13 @@ export class COAReportsService {
         section: ta.section.name,
         method: ta.method.name,
         result: ta.result,
+        reportedResult: this.formatReportedResult(ta),
         unit: ta.method.unit,
         specification: ta.specification?.name,
         status: ta.status,
         oos: ta.oos,
+        attempt: ta.attempt,
+        reportable: ta.reportable,
       })),
     };
 
@@ -473,8 +931,13 @@ export class COAReportsService {
   /**
    * Export COA for a sample (creates/increments version; returns PDF URL)
    * AC: Every export creates a new version, generates PDF, stores in MinIO, and marks previous FINAL as SUPERSEDED
+   * AC: Exporting again amends the issued COA and requires a reason
    */
-  async exportCOA(sampleId: string, context: AuditContext) {
+  async exportCOA(
+    sampleId: string,
+    context: AuditContext,
+    dto: ExportCOADto = {},
+  ) {
     const sample = await this.prisma.sample.findUnique({
       where: { id: sampleId },
       include: {
@@ -493,10 +956,14 @@ export class COAReportsService {
       },
     });
 
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
     }
 
+    // An exported version is issued at once, as finalizeCOA does; checked
+    // before the PDF is rendered, and again under the sample's lock
+    await this.oosInvestigationsService.assertNoOpenInvestigation(sampleId);
+
     // Get the latest version number for this sample
     const latestReport = await this.prisma.cOAReport.findFirst({
       where: { sampleId },
@@ -511,52 +978,64 @@ export class COAReportsService {
       newVersion,
       context,
     );
+    const amendment = await this.amendSnapshot(
+      sampleId,
+      dataSnapshot,
+      dto.reason,
+      context,
+    );
 
     // Step 2: Render HTML using the active template and snapshot; store htmlSnapshot
     const htmlSnapshot = this.buildHTMLSnapshot(dataSnapshot);
 
-    // Step 3: Convert to PDF; store files in admin defined location as per env file
-    const pdfBuffer = await this.pdfService.generatePdfFromHtml(htmlSnapshot);
-
-    // Generate storage key for PDF
-    const pdfStoragePath = this.configService.get<string>(
-      'PDF_STORAGE_PATH',
-      'coa-reports',
+    // Step 3: Convert to a signed PDF; store files in admin defined location as per env file
+    // The ID is chosen up front for the verification QR code on the PDF
+    const reportId = randomUUID();
+    const { pdfKey, pdfSha256 } = await this.issuePdf(
+      reportId,
+      sample.sampleCode,
+      newVersion,
+      htmlSnapshot,
     );
-    const pdfKey = `${pdfStoragePath}/${sample.sampleCode}-v${newVersion}-${Date.now()}.pdf`;
 
-    // Upload PDF to storage
-    await this.storageService.uploadFile(pdfKey, pdfBuffer, 'application/pdf');
+    const report = await this.auditService.withContext(
+      context,
+      async (tx) => {
+        await this.oosInvestigationsService.assertNoOpenInvestigation(sampleId);
 
-    // Step 5: Mark previous final as superseded if applicable
-    await this.prisma.cOAReport.updateMany({
-      where: {
-        sampleId,
-        status: COAReportStatus.FINAL,
-      },
-      data: {
-        status: COAReportStatus.SUPERSEDED,
-      },
-    });
+        // Step 5: Mark previous final as superseded if applicable
+        await tx.cOAReport.updateMany({
+          where: {
+            sampleId,
+            status: COAReportStatus.FINAL,
+          },
+          data: {
+            status: COAReportStatus.SUPERSEDED,
+          },
+        });
 
-    // Step 4: Increment version for (sampleId) and persist COAReport row
-    const report = await this.prisma.cOAReport.create({
-      data: {
-        sampleId,
-        version: newVersion,
-        status: COAReportStatus.FINAL,
-        htmlSnapshot,
-        dataSnapshot: dataSnapshot as any,
-        pdfKey,
-        reportedAt: new Date(),
-        createdById: context.actorId,
-        updatedById: context.actorId,
-        reportedById: context.actorId,
+        // Step 4: Increment version for (sampleId) and persist COAReport row
+        return tx.cOAReport.create({
+          data: {
+            id: reportId,
+            sampleId,
+            version: newVersion,
+            status: COAReportStatus.FINAL,
+            htmlSnapshot,
+            dataSnapshot: dataSnapshot as any,
+            pdfKey,
+            pdfSha256,
+            amendmentReason: amendment?.reason,
+            amendmentChanges: amendment?.changes as any,
+            reportedAt: new Date(),
+            createdById: context.actorId,
+            updatedById: context.actorId,
+            reportedById: context.actorId,
+          },
+        });
       },
-    });
-
-    // Log audit entry
-    await this.auditService.logCreate(context, 'COAReport', report.id, report);
+      amendment?.reason,
+    );
 
     return {
       id: report.id,
@@ -564,7 +1043,16 @@ export class COAReportsService {
       pdfUrl: `/api/coa/${report.id}/download`,
       pdfKey: report.pdfKey,
       status: report.status,
-      message: `COA version ${newVersion} created and finalized successfully`,
+      amendment: amendment
+        ? {
+            previousVersion: amendment.previousVersion,
+            reason: amendment.reason,
+            summary: amendment.summary,
+          }
+        : undefined,
+      message: amendment
+        ? `COA version ${newVersion} issued, amending version ${amendment.previousVersion}`
+        : `COA version ${newVersion} created and finalized successfully`,
     };
   }
 }
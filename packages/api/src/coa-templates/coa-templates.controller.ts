@@ -0,0 +1,77 @@
+import { Controller, Get, Post, Put, Body, Param, Req } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { COATemplatesService } from './coa-templates.service';
+import type {
+  CreateCOATemplateDto,
+  UpdateCOATemplateDto,
+} from './coa-templates.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '@prisma/client';
+import type { Request } from 'express';
+
+@ApiTags('reports')
+@ApiBearerAuth()
+@Controller('coa-templates')
+export class COATemplatesController {
+  constructor(private coaTemplatesService: COATemplatesService) {}
+
+  @Post()
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({ summary: 'Create a COA template' })
+  @ApiResponse({ status: 201, description: 'COA template created' })
+  @ApiResponse({ status: 409, description: 'Template name already in use' })
+  async createTemplate(@Body() dto: CreateCOATemplateDto, @Req() req: Request) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.coaTemplatesService.createTemplate(dto, context);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @ApiOperation({ summary: 'List COA templates with their current layout' })
+  @ApiResponse({ status: 200, description: 'COA templates retrieved' })
+  async listTemplates() {
+    return this.coaTemplatesService.listTemplates();
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
+  @ApiOperation({ summary: 'Get a COA template with all its versions' })
+  @ApiResponse({ status: 200, description: 'COA template retrieved' })
+  @ApiResponse({ status: 404, description: 'COA template not found' })
+  async getTemplate(@Param('id') id: string) {
+    return this.coaTemplatesService.getTemplate(id);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({
+    summary: 'Update a COA template (a changed layout adds a version)',
+  })
+  @ApiResponse({ status: 200, description: 'COA template updated' })
+  @ApiResponse({ status: 404, description: 'COA template not found' })
+  async updateTemplate(
+    @Param('id') id: string,
+    @Body() dto: UpdateCOATemplateDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.coaTemplatesService.updateTemplate(id, dto, context);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { COATemplatesController } from './coa-templates.controller';
+import { COATemplatesService } from './coa-templates.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [PrismaModule, AuditModule],
+  controllers: [COATemplatesController],
+  providers: [COATemplatesService],
+  exports: [COATemplatesService],
+})
+export class COATemplatesModule {}
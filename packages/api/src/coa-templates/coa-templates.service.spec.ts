@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { COATemplatesService } from './coa-templates.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+
+describe('COATemplatesService', () => {
+  let service: COATemplatesService;
+
+  const mockPrismaService = {
+    cOATemplate: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  // Runs the writes against the mocked client, as the transaction would
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const context = { actorId: 'user-1', actorEmail: 'manager@lab.com' };
+
+  const pharmaLayout = {
+    sectionOrder: ['sampleInformation', 'testResults', 'electronicSignatures'],
+    columnOrder: ['test', 'specification', 'result'],
+  };
+
+  const existingTemplate = {
+    id: 'template-1',
+    name: 'Pharma',
+    currentVersion: 2,
+    versions: [{ version: 2, layout: pharmaLayout }],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        COATemplatesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+      ],
+    }).compile();
+
+    service = module.get<COATemplatesService>(COATemplatesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTemplate', () => {
+    it('should create the template with layout version 1', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(null);
+
+      await service.createTemplate(
+        { name: ' Pharma ', layout: pharmaLayout },
+        context,
+      );
+
+      const { data } = mockPrismaService.cOATemplate.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        name: 'Pharma',
+        currentVersion: 1,
+        versions: {
+          create: { version: 1, layout: pharmaLayout, createdById: 'user-1' },
+        },
+      });
+    });
+
+    it('should reject a name already in use', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(
+        existingTemplate,
+      );
+
+      await expect(
+        service.createTemplate({ name: 'Pharma' }, context),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject sections and columns the renderer does not know', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.createTemplate(
+          { name: 'Food', layout: { sectionOrder: ['microTables'] } },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createTemplate(
+          { name: 'Food', layout: { columnOrder: ['test', 'test'] } },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.cOATemplate.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should add a version when the layout changes', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(
+        existingTemplate,
+      );
+      const layout = { ...pharmaLayout, visibleFields: ['sampleCode'] };
+
+      await service.updateTemplate('template-1', { layout }, context);
+
+      const { data } = mockPrismaService.cOATemplate.update.mock.calls[0][0];
+      expect(data.currentVersion).toBe(3);
+      expect(data.versions.create).toMatchObject({ version: 3, layout });
+    });
+
+    it('should keep the version when the layout is unchanged', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue({
+        ...existingTemplate,
+        // Stored as JSONB, which reorders keys
+        versions: [
+          {
+            version: 2,
+            layout: {
+              columnOrder: pharmaLayout.columnOrder,
+              sectionOrder: pharmaLayout.sectionOrder,
+            },
+          },
+        ],
+      });
+
+      await service.updateTemplate(
+        'template-1',
+        { description: 'For pharma clients', layout: pharmaLayout },
+        context,
+      );
+
+      const { data } = mockPrismaService.cOATemplate.update.mock.calls[0][0];
+      expect(data.description).toBe('For pharma clients');
+      expect(data.currentVersion).toBeUndefined();
+      expect(data.versions).toBeUndefined();
+    });
+
+    it('should add a version when the HTML source changes', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(
+        existingTemplate,
+      );
+      const source = '<h1>{{sample.sampleCode}}</h1>';
+
+      await service.updateTemplate('template-1', { source }, context);
+
+      const { data } = mockPrismaService.cOATemplate.update.mock.calls[0][0];
+      expect(data.currentVersion).toBe(3);
+      expect(data.versions.create).toMatchObject({
+        version: 3,
+        layout: pharmaLayout,
+        source,
+      });
+    });
+
+    it('should reject HTML sources that break the sandbox rules', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(
+        existingTemplate,
+      );
+
+      await expect(
+        service.updateTemplate(
+          'template-1',
+          { source: '<h1>{{{sample.sampleCode}}}</h1>' },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.cOATemplate.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown templates', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateTemplate('missing', { name: 'Food' }, context),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('resolveTemplate', () => {
+    it('should return the current version with its layout', async () => {
+      mockPrismaService.cOATemplate.findUnique.mockResolvedValue(
+        existingTemplate,
+      );
+
+      await expect(service.resolveTemplate('template-1')).resolves.toEqual({
+        id: 'template-1',
+        name: 'Pharma',
+        version: 2,
+        layout: pharmaLayout,
+      });
+    });
+
+    it('should return null when no template is assigned', async () => {
+      await expect(service.resolveTemplate(null)).resolves.toBeNull();
+      expect(mockPrismaService.cOATemplate.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService, AuditContext } from '../audit/audit.service';
+import {
+  COA_COLUMNS,
+  COA_SAMPLE_FIELDS,
+  COA_SECTIONS,
+  COATemplateReference,
+  COATemplateSettings,
+} from '../modules/coa/renderer';
+import { validateCOATemplateSource } from '../modules/coa/template-engine';
+
+export interface CreateCOATemplateDto {
+  name: string;
+  description?: string;
+  layout?: COATemplateSettings;
+  source?: string; // HTML/CSS Handlebars template replacing the built-in layout
+}
+
+export interface UpdateCOATemplateDto {
+  name?: string;
+  description?: string;
+  // A changed layout or source becomes a new version
+  layout?: COATemplateSettings;
+  source?: string | null; // Empty or null returns to the built-in layout
+}
+
+// The current version of a template, as used for a new COA
+export interface ResolvedCOATemplate extends COATemplateReference {
+  layout: COATemplateSettings;
+  source?: string;
+}
+
+const userSelect = { select: { id: true, email: true, name: true } };
+
+/**
+ * Layout as a string for comparison; JSONB does not keep key order
+ */
+function canonicalLayout(layout: COATemplateSettings | undefined): string {
+  return JSON.stringify([
+    layout?.sectionOrder ?? null,
+    layout?.visibleFields ?? null,
+    layout?.columnOrder ?? null,
+    Object.entries(layout?.labelOverrides ?? {}).sort(([a], [b]) =>
+      a.localeCompare(b),
+    ),
+  ]);
+}
+
+@Injectable()
+export class COATemplatesService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Create a template with its first layout version
+   */
+  async createTemplate(dto: CreateCOATemplateDto, context: AuditContext) {
+    const name = dto.name?.trim();
+    if (!name) {
+      throw new BadRequestException('Template name is required');
+    }
+    await this.assertNameAvailable(name);
+    const layout = this.validateLayout(dto.layout ?? {});
+    const source = this.validateSource(dto.source);
+
+    return this.auditService.withContext(context, (tx) =>
+      tx.cOATemplate.create({
+        data: {
+          name,
+          description: dto.description,
+          currentVersion: 1,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+          versions: {
+            create: {
+              version: 1,
+              layout: layout as any,
+              source,
+              createdById: context.actorId,
+            },
+          },
+        },
+        include: { versions: true },
+      }),
+    );
+  }
+
+  /**
+   * List templates with their current layout and how many clients and jobs
+   * use them
+   */
+  async listTemplates() {
+    return this.prisma.cOATemplate.findMany({
+      include: {
+        versions: { orderBy: { version: 'desc' }, take: 1 },
+        _count: { select: { clients: true, jobs: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get a template with every version, newest first
+   */
+  async getTemplate(id: string) {
+    const template = await this.prisma.cOATemplate.findUnique({
+      where: { id },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          include: { createdBy: userSelect },
+        },
+        clients: {
+          where: { deletedAt: null },
+          select: { id: true, name: true },
+        },
+        createdBy: userSelect,
+        updatedBy: userSelect,
+      },
+    });
+
+    if (!template) {
+      throw new NotFoundException(`COATemplate with ID '${id}' not found`);
+    }
+
+    return template;
+  }
+
+  /**
+   * Update a template. Versions are never changed, so COAs rendered with an
+   * earlier layout keep pointing at it; a changed layout or source is added as
+   * the next version and used from then on.
+   */
+  async updateTemplate(
+    id: string,
+    dto: UpdateCOATemplateDto,
+    context: AuditContext,
+  ) {
+    const existing = await this.prisma.cOATemplate.findUnique({
+      where: { id },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+    });
+
+    if (!existing) {
+      throw new NotFoundException(`COATemplate with ID '${id}' not found`);
+    }
+
+    const name = dto.name?.trim();
+    if (dto.name !== undefined && !name) {
+      throw new BadRequestException('Template name is required');
+    }
+    if (name && name !== existing.name) {
+      await this.assertNameAvailable(name);
+    }
+
+    const current = existing.versions[0];
+    const layout = dto.layout
+      ? this.validateLayout(dto.layout)
+      : (current?.layout as COATemplateSettings);
+    const source =
+      dto.source !== undefined
+        ? this.validateSource(dto.source)
+        : (current?.source ?? undefined);
+    const versionChanged =
+      canonicalLayout(layout) !==
+        canonicalLayout(current?.layout as COATemplateSettings) ||
+      (source ?? null) !== (current?.source ?? null);
+    const nextVersion = existing.currentVersion + 1;
+
+    return this.auditService.withContext(context, (tx) =>
+      tx.cOATemplate.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(dto.description !== undefined && {
+            description: dto.description,
+          }),
+          ...(versionChanged && {
+            currentVersion: nextVersion,
+            versions: {
+              create: {
+                version: nextVersion,
+                layout: layout as any,
+                source,
+                createdById: context.actorId,
+              },
+            },
+          }),
+          updatedById: context.actorId,
+        },
+        include: { versions: { orderBy: { version: 'desc' } } },
+      }),
+    );
+  }
+
+  /**
+   * Get the current version of a template for a new COA
+   * @returns null when no template is given, so that the lab-wide settings apply
+   */
+  async resolveTemplate(
+    templateId: string | null | undefined,
+  ): Promise<ResolvedCOATemplate | null> {
+    if (!templateId) return null;
+
+    const template = await this.prisma.cOATemplate.findUnique({
+      where: { id: templateId },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+    });
+    const current = template?.versions[0];
+    if (!template || !current) return null;
+
+    return {
+      id: template.id,
+      name: template.name,
+      version: current.version,
+      layout: current.layout as COATemplateSettings,
+      source: current.source ?? undefined,
+    };
+  }
+
+  private async assertNameAvailable(name: string): Promise<void> {
+    const existing = await this.prisma.cOATemplate.findUnique({
+      where: { name },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `COATemplate with name '${name}' already exists`,
+      );
+    }
+  }
+
+  /**
+   * Check an HTML template against the sandbox rules
+   * @returns undefined for an empty template, which means the built-in layout
+   */
+  private validateSource(source?: string | null): string | undefined {
+    if (!source?.trim()) return undefined;
+    validateCOATemplateSource(source);
+    return source;
+  }
+
+  /**
+   * Check a layout against the sections, fields and columns the renderer
+   * knows, and keep only the settings it reads
+   */
+  private validateLayout(layout: COATemplateSettings): COATemplateSettings {
+    const checkList = (
+      setting: string,
+      values: unknown,
+      allowed: string[],
+    ): string[] | undefined => {
+      if (values === undefined || values === null) return undefined;
+      if (
+        !Array.isArray(values) ||
+        values.some((value) => typeof value !== 'string')
+      ) {
+        throw new BadRequestException(`${setting} must be a list of names`);
+      }
+      const unknown = values.filter((value) => !allowed.includes(value));
+      if (unknown.length > 0) {
+        throw new BadRequestException(
+          `Unknown ${setting} entries: ${unknown.join(', ')}`,
+        );
+      }
+      if (new Set(values).size !== values.length) {
+        throw new BadRequestException(`${setting} lists an entry twice`);
+      }
+      return values as string[];
+    };
+
+    const labelOverrides = layout.labelOverrides;
+    if (
+      labelOverrides !== undefined &&
+      labelOverrides !== null &&
+      (typeof labelOverrides !== 'object' ||
+        Array.isArray(labelOverrides) ||
+        Object.values(labelOverrides).some(
+          (label) => typeof label !== 'string',
+        ))
+    ) {
+      throw new BadRequestException('labelOverrides must map names to labels');
+    }
+
+    return {
+      sectionOrder: checkList(
+        'sectionOrder',
+        layout.sectionOrder,
+        COA_SECTIONS,
+      ),
+      visibleFields: checkList('visibleFields', layout.visibleFields, [
+        ...COA_SAMPLE_FIELDS,
+        ...COA_COLUMNS,
+      ]),
+      columnOrder: checkList('columnOrder', layout.columnOrder, COA_COLUMNS),
+      labelOverrides: labelOverrides ?? undefined,
+    };
+  }
+}
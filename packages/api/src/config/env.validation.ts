@@ -58,11 +58,36 @@ export class EnvironmentVariables {
   @IsString()
   CHROME_WS_ENDPOINT?: string;
 
+  @IsOptional()
+  @IsString()
+  PDF_ALLOWED_ORIGINS?: string;
+
   // PDF Storage
   @IsOptional()
   @IsString()
   PDF_STORAGE_PATH?: string = 'coa-reports';
 
+  @IsOptional()
+  @IsString()
+  AUDIT_EXPORT_STORAGE_PATH?: string = 'audit-exports';
+
+  @IsOptional()
+  @IsString()
+  COA_BATCH_STORAGE_PATH?: string = 'coa-batches';
+
+  // COA signing (PKCS#12 lab certificate)
+  @IsOptional()
+  @IsString()
+  COA_SIGNING_CERT_PATH?: string;
+
+  @IsOptional()
+  @IsString()
+  COA_SIGNING_CERT_PASSPHRASE?: string;
+
+  @IsOptional()
+  @IsString()
+  COA_VERIFY_URL?: string;
+
   // Server Configuration
   @IsOptional()
   @IsPort()
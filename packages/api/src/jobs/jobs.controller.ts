@@ -20,6 +20,11 @@ import type { CreateJobDto, UpdateJobDto } from './jobs.service';
 import { Roles } from '../auth/roles.decorator';
 import { Role, JobStatus } from '@prisma/client';
 import type { Request } from 'express';
+import {
+  parseIncludeDeleted,
+  type DeleteDto,
+  type RestoreDto,
+} from '../soft-delete/soft-delete';
 
 @ApiTags('jobs')
 @ApiBearerAuth()
@@ -43,14 +48,18 @@ export class JobsController {
   @Get()
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
   async listJobs(
+    @Req() req: Request,
     @Query('clientId') clientId?: string,
     @Query('status') status?: JobStatus,
+    @Query('includeDeleted') includeDeleted?: string,
     @Query('page') page?: string,
     @Query('perPage') perPage?: string,
   ) {
+    const user = (req as any).user;
     return this.jobsService.listJobs({
       clientId,
       status,
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
       page: page ? parseInt(page, 10) : undefined,
       perPage: perPage ? parseInt(perPage, 10) : undefined,
     });
@@ -58,14 +67,28 @@ export class JobsController {
 
   @Get(':id')
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
-  async getJob(@Param('id') id: string) {
-    return this.jobsService.getJob(id);
+  async getJob(
+    @Param('id') id: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.jobsService.getJob(id, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Get('by-number/:jobNumber')
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
-  async getJobByNumber(@Param('jobNumber') jobNumber: string) {
-    return this.jobsService.getJobByNumber(jobNumber);
+  async getJobByNumber(
+    @Param('jobNumber') jobNumber: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.jobsService.getJobByNumber(jobNumber, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Put(':id')
@@ -87,7 +110,28 @@ export class JobsController {
 
   @Delete(':id')
   @Roles(Role.ADMIN, Role.LAB_MANAGER)
-  async deleteJob(@Param('id') id: string, @Req() req: Request) {
+  async deleteJob(
+    @Param('id') id: string,
+    @Body() dto: DeleteDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.jobsService.deleteJob(id, dto, context);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  async restoreJob(
+    @Param('id') id: string,
+    @Body() dto: RestoreDto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -95,7 +139,7 @@ export class JobsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.jobsService.deleteJob(id, context);
+    return this.jobsService.restoreJob(id, dto, context);
   }
 
   @Post(':id/samples')
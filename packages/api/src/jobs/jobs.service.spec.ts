@@ -2,7 +2,11 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JobsService } from './jobs.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
-import { ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { JobStatus } from '@prisma/client';
 
 describe('JobsService', () => {
@@ -18,12 +22,16 @@ describe('JobsService', () => {
       findMany: jest.fn(),
       count: jest.fn(),
     },
+    sample: {
+      count: jest.fn(),
+    },
   };
 
+  // Runs the writes against the mocked client, as the transaction would
   const mockAuditService = {
-    logCreate: jest.fn(),
-    logUpdate: jest.fn(),
-    logDelete: jest.fn(),
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
   };
 
   beforeEach(async () => {
@@ -79,11 +87,9 @@ describe('JobsService', () => {
 
       expect(result).toBeDefined();
       expect(result.jobNumber).toBe('JOB-001');
-      expect(mockAuditService.logCreate).toHaveBeenCalledWith(
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
         context,
-        'Job',
-        'job-123',
-        expect.any(Object),
+        expect.any(Function),
       );
     });
 
@@ -140,12 +146,46 @@ describe('JobsService', () => {
       const result = await service.updateJob(jobId, dto, context);
 
       expect(result.status).toBe(JobStatus.ACTIVE);
-      expect(mockAuditService.logUpdate).toHaveBeenCalledWith(
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+        undefined,
+      );
+    });
+
+    it('should require a reason once a sample of the job is released', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+      };
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-123',
+        deletedAt: null,
+      });
+      mockPrismaService.sample.count.mockResolvedValue(1);
+
+      await expect(
+        service.updateJob('job-123', { poNumber: 'PO-2' }, context),
+      ).rejects.toThrow(
+        'A reason is required to change a Job with released samples',
+      );
+      expect(mockPrismaService.job.update).not.toHaveBeenCalled();
+
+      mockPrismaService.job.update.mockResolvedValue({ id: 'job-123' });
+      await service.updateJob(
+        'job-123',
+        { poNumber: 'PO-2', reason: 'PO reissued by client' },
+        context,
+      );
+      expect(mockPrismaService.job.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.not.objectContaining({ reason: expect.anything() }),
+        }),
+      );
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
         context,
-        'Job',
-        jobId,
-        oldJob,
-        updatedJob,
+        expect.any(Function),
+        'PO reissued by client',
       );
     });
 
@@ -184,4 +224,132 @@ describe('JobsService', () => {
       expect(result.totalPages).toBe(1);
     });
   });
+
+  describe('deleteJob', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+    };
+
+    it('should mark the job deleted and log the reason', async () => {
+      const oldJob = { id: 'job-123', jobNumber: 'JOB-001', deletedAt: null };
+      mockPrismaService.job.findUnique.mockResolvedValue(oldJob);
+      mockPrismaService.sample.count.mockResolvedValue(0);
+      mockPrismaService.job.update.mockImplementation((args) =>
+        Promise.resolve({ ...oldJob, ...args.data }),
+      );
+
+      const result = await service.deleteJob(
+        'job-123',
+        { reason: 'Duplicate registration' },
+        context,
+      );
+
+      expect(result.deletedAt).toBeInstanceOf(Date);
+      expect(result.deletedById).toBe('user-123');
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+        'Duplicate registration',
+      );
+    });
+
+    it('should require a reason', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-123',
+        deletedAt: null,
+      });
+      mockPrismaService.sample.count.mockResolvedValue(0);
+
+      await expect(
+        service.deleteJob('job-123', { reason: '  ' }, context),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.job.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a job that still has samples', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-123',
+        deletedAt: null,
+      });
+      mockPrismaService.sample.count.mockResolvedValue(2);
+
+      await expect(
+        service.deleteJob('job-123', { reason: 'Duplicate' }, context),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should treat an already deleted job as not found', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-123',
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.deleteJob('job-123', { reason: 'Duplicate' }, context),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('restoreJob', () => {
+    const context = {
+      actorId: 'admin-1',
+      actorEmail: 'admin@example.com',
+    };
+
+    it('should clear the deletion and log an update', async () => {
+      const oldJob = {
+        id: 'job-123',
+        deletedAt: new Date(),
+        deletedById: 'user-123',
+        deleteReason: 'Duplicate',
+      };
+      mockPrismaService.job.findUnique.mockResolvedValue(oldJob);
+      mockPrismaService.job.update.mockImplementation((args) =>
+        Promise.resolve({ ...oldJob, ...args.data }),
+      );
+
+      const result = await service.restoreJob(
+        'job-123',
+        { reason: 'Deleted in error' },
+        context,
+      );
+
+      expect(result.deletedAt).toBeNull();
+      expect(result.deleteReason).toBeNull();
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+        'Deleted in error',
+      );
+    });
+
+    it('should reject a job that is not deleted', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-123',
+        deletedAt: null,
+      });
+
+      await expect(service.restoreJob('job-123', {}, context)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('listJobs', () => {
+    it('should hide deleted jobs unless asked for', async () => {
+      mockPrismaService.job.findMany.mockResolvedValue([]);
+      mockPrismaService.job.count.mockResolvedValue(0);
+
+      await service.listJobs({});
+      expect(mockPrismaService.job.count).toHaveBeenLastCalledWith({
+        where: { deletedAt: null },
+      });
+
+      await service.listJobs({ includeDeleted: true });
+      expect(mockPrismaService.job.count).toHaveBeenLastCalledWith({
+        where: {},
+      });
+    });
+  });
 });
@@ -1,11 +1,21 @@
 import {
   Injectable,
+  BadRequestException,
   ConflictException,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService, AuditContext } from '../audit/audit.service';
+import { assertChangeReason } from '../audit/change-reason';
 import { Job, JobStatus } from '@prisma/client';
+import {
+  DeleteDto,
+  RestoreDto,
+  SoftDeleteFilter,
+  excludeDeleted,
+  restoreData,
+  softDeleteData,
+} from '../soft-delete/soft-delete';
 
 export interface CreateJobDto {
   jobNumber: string;
@@ -18,6 +28,7 @@ export interface CreateJobDto {
   soNumber?: string;
   amountExTax?: number;
   invoiced?: boolean;
+  coaTemplateId?: string; // Overrides the client's COA template
 }
 
 export interface UpdateJobDto {
@@ -29,6 +40,8 @@ export interface UpdateJobDto {
   soNumber?: string;
   amountExTax?: number;
   invoiced?: boolean;
+  coaTemplateId?: string | null; // null falls back to the client's template
+  reason?: string; // Required once any sample of the job is released
 }
 
 @Injectable()
@@ -54,43 +67,43 @@ export class JobsService {
     }
 
     // Create the job
-    const job = await this.prisma.job.create({
-      data: {
-        jobNumber: dto.jobNumber,
-        clientId: dto.clientId,
-        needByDate: dto.needByDate,
-        mcdDate: dto.mcdDate,
-        status: dto.status || JobStatus.DRAFT,
-        quoteNumber: dto.quoteNumber,
-        poNumber: dto.poNumber,
-        soNumber: dto.soNumber,
-        amountExTax: dto.amountExTax,
-        invoiced: dto.invoiced || false,
-        createdById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        client: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
-    });
-
-    // Log audit entry for job creation
-    await this.auditService.logCreate(context, 'Job', job.id, job);
+    const job = await this.auditService.withContext(context, (tx) =>
+      tx.job.create({
+        data: {
+          jobNumber: dto.jobNumber,
+          clientId: dto.clientId,
+          needByDate: dto.needByDate,
+          mcdDate: dto.mcdDate,
+          status: dto.status || JobStatus.DRAFT,
+          quoteNumber: dto.quoteNumber,
+          poNumber: dto.poNumber,
+          soNumber: dto.soNumber,
+          amountExTax: dto.amountExTax,
+          invoiced: dto.invoiced || false,
+          coaTemplateId: dto.coaTemplateId,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: {
+          client: true,
+          createdBy: { select: { id: true, email: true, name: true } },
+          updatedBy: { select: { id: true, email: true, name: true } },
+        },
+      }),
+    );
 
     return job;
   }
 
   /**
-   * Get a job by ID
+   * Get a job by ID; deleted jobs and samples only with includeDeleted
    */
-  async getJob(id: string): Promise<Job | null> {
-    return this.prisma.job.findUnique({
-      where: { id },
+  async getJob(id: string, filters?: SoftDeleteFilter): Promise<Job | null> {
+    return this.prisma.job.findFirst({
+      where: { id, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         client: true,
-        samples: true,
+        samples: { where: excludeDeleted(filters?.includeDeleted) },
         createdBy: { select: { id: true, email: true, name: true } },
         updatedBy: { select: { id: true, email: true, name: true } },
       },
@@ -98,14 +111,17 @@ export class JobsService {
   }
 
   /**
-   * Get a job by jobNumber
+   * Get a job by jobNumber; deleted jobs and samples only with includeDeleted
    */
-  async getJobByNumber(jobNumber: string): Promise<Job | null> {
-    return this.prisma.job.findUnique({
-      where: { jobNumber },
+  async getJobByNumber(
+    jobNumber: string,
+    filters?: SoftDeleteFilter,
+  ): Promise<Job | null> {
+    return this.prisma.job.findFirst({
+      where: { jobNumber, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         client: true,
-        samples: true,
+        samples: { where: excludeDeleted(filters?.includeDeleted) },
         createdBy: { select: { id: true, email: true, name: true } },
         updatedBy: { select: { id: true, email: true, name: true } },
       },
@@ -118,10 +134,11 @@ export class JobsService {
   async listJobs(filters?: {
     clientId?: string;
     status?: JobStatus;
+    includeDeleted?: boolean;
     page?: number;
     perPage?: number;
   }) {
-    const where: any = {};
+    const where: any = excludeDeleted(filters?.includeDeleted);
     if (filters?.clientId) where.clientId = filters.clientId;
     if (filters?.status) where.status = filters.status;
 
@@ -134,7 +151,10 @@ export class JobsService {
         where,
         include: {
           client: true,
-          samples: { select: { id: true, sampleCode: true } },
+          samples: {
+            where: excludeDeleted(filters?.includeDeleted),
+            select: { id: true, sampleCode: true },
+          },
           createdBy: { select: { id: true, email: true, name: true } },
           updatedBy: { select: { id: true, email: true, name: true } },
         },
@@ -165,57 +185,105 @@ export class JobsService {
     // Get the current job state for audit logging
     const oldJob = await this.prisma.job.findUnique({ where: { id } });
 
-    if (!oldJob) {
+    if (!oldJob || oldJob.deletedAt) {
       throw new NotFoundException(`Job with ID '${id}' not found`);
     }
 
+    const { reason, ...changes } = dto;
+    const releasedSamples = await this.prisma.sample.count({
+      where: { jobId: id, released: true, deletedAt: null },
+    });
+    assertChangeReason(
+      releasedSamples > 0 ? 'a Job with released samples' : null,
+      reason,
+    );
+
     // Update the job
-    const job = await this.prisma.job.update({
-      where: { id },
-      data: {
-        ...dto,
-        updatedById: context.actorId,
-      },
-      include: {
-        client: true,
-        samples: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
+    const job = await this.auditService.withContext(
+      context,
+      (tx) =>
+        tx.job.update({
+          where: { id },
+          data: {
+            ...changes,
+            updatedById: context.actorId,
+          },
+          include: {
+            client: true,
+            samples: true,
+            createdBy: { select: { id: true, email: true, name: true } },
+            updatedBy: { select: { id: true, email: true, name: true } },
+          },
+        }),
+      reason,
+    );
+
+    return job;
+  }
+
+  /**
+   * Delete a job (soft delete: the row is kept and hidden from lists)
+   * Its samples must be deleted first
+   */
+  async deleteJob(
+    id: string,
+    dto: DeleteDto,
+    context: AuditContext,
+  ): Promise<Job> {
+    const oldJob = await this.prisma.job.findUnique({ where: { id } });
+
+    if (!oldJob || oldJob.deletedAt) {
+      throw new NotFoundException(`Job with ID '${id}' not found`);
+    }
+
+    const liveSamples = await this.prisma.sample.count({
+      where: { jobId: id, deletedAt: null },
     });
+    if (liveSamples > 0) {
+      throw new BadRequestException(
+        `Job has ${liveSamples} sample(s) that must be deleted first`,
+      );
+    }
 
-    // Log audit entry for job update
-    await this.auditService.logUpdate(context, 'Job', job.id, oldJob, job);
+    const job = await this.auditService.withContext(
+      context,
+      (tx) =>
+        tx.job.update({
+          where: { id },
+          data: softDeleteData(dto, context.actorId),
+        }),
+      dto?.reason?.trim(),
+    );
 
     return job;
   }
 
   /**
-   * Delete a job (soft delete by setting status to CANCELLED)
+   * Restore a soft-deleted job
    */
-  async deleteJob(id: string, context: AuditContext): Promise<Job> {
+  async restoreJob(
+    id: string,
+    dto: RestoreDto,
+    context: AuditContext,
+  ): Promise<Job> {
     const oldJob = await this.prisma.job.findUnique({ where: { id } });
 
     if (!oldJob) {
       throw new NotFoundException(`Job with ID '${id}' not found`);
     }
 
-    // Update status to CANCELLED instead of hard delete
-    const job = await this.prisma.job.update({
-      where: { id },
-      data: {
-        status: JobStatus.CANCELLED,
-        updatedById: context.actorId,
-      },
-    });
+    if (!oldJob.deletedAt) {
+      throw new BadRequestException(`Job with ID '${id}' is not deleted`);
+    }
 
-    // Log audit entry for job deletion
-    await this.auditService.logDelete(
+    const job = await this.auditService.withContext(
       context,
-      'Job',
-      job.id,
-      oldJob,
-      'Job cancelled',
+      (tx) =>
+        tx.job.update({
+          where: { id },
+          data: restoreData(context.actorId),
+        }),
+      dto.reason,
     );
 
     return job;
@@ -227,7 +295,7 @@ export class JobsService {
   async createSampleForJob(jobId: string, dto: any, context: AuditContext) {
     // Verify job exists
     const job = await this.prisma.job.findUnique({ where: { id: jobId } });
-    if (!job) {
+    if (!job || job.deletedAt) {
       throw new NotFoundException(`Job with ID '${jobId}' not found`);
     }
 
@@ -243,24 +311,23 @@ export class JobsService {
     }
 
     // Create the sample
-    const sample = await this.prisma.sample.create({
-      data: {
-        ...dto,
-        jobId,
-        clientId: job.clientId,
-        createdById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        job: true,
-        client: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
-    });
-
-    // Log audit entry
-    await this.auditService.logCreate(context, 'Sample', sample.id, sample);
+    const sample = await this.auditService.withContext(context, (tx) =>
+      tx.sample.create({
+        data: {
+          ...dto,
+          jobId,
+          clientId: job.clientId,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: {
+          job: true,
+          client: true,
+          createdBy: { select: { id: true, email: true, name: true } },
+          updatedBy: { select: { id: true, email: true, name: true } },
+        },
+      }),
+    );
 
     return sample;
   }
@@ -12,6 +12,7 @@ export interface UpdateLabSettingsDto {
     labelOverrides?: Record<string, string>;
     columnOrder?: string[];
   };
+  allowSegregationExceptions?: boolean; // Self sign-off with a justification
 }
 
 @Injectable()
@@ -47,46 +48,39 @@ export class LabSettingsService {
 
     if (!existing) {
       // Create new settings if none exist
-      settings = await this.prisma.labSettings.create({
-        data: {
-          labName: dto.labName || 'Laboratory LIMS Pro',
-          labLogoUrl: dto.labLogoUrl,
-          disclaimerText: dto.disclaimerText,
-          coaTemplateSettings: dto.coaTemplateSettings as any,
-          createdById: context.actorId,
-          updatedById: context.actorId,
-        },
-      });
-
-      await this.auditService.logCreate(
-        context,
-        'LabSettings',
-        settings.id,
-        settings,
+      settings = await this.auditService.withContext(context, (tx) =>
+        tx.labSettings.create({
+          data: {
+            labName: dto.labName || 'Laboratory LIMS Pro',
+            labLogoUrl: dto.labLogoUrl,
+            disclaimerText: dto.disclaimerText,
+            coaTemplateSettings: dto.coaTemplateSettings as any,
+            allowSegregationExceptions: dto.allowSegregationExceptions,
+            createdById: context.actorId,
+            updatedById: context.actorId,
+          },
+        }),
       );
     } else {
       // Update existing settings
-      settings = await this.prisma.labSettings.update({
-        where: { id: existing.id },
-        data: {
-          ...(dto.labName !== undefined && { labName: dto.labName }),
-          ...(dto.labLogoUrl !== undefined && { labLogoUrl: dto.labLogoUrl }),
-          ...(dto.disclaimerText !== undefined && {
-            disclaimerText: dto.disclaimerText,
-          }),
-          ...(dto.coaTemplateSettings !== undefined && {
-            coaTemplateSettings: dto.coaTemplateSettings as any,
-          }),
-          updatedById: context.actorId,
-        },
-      });
-
-      await this.auditService.logUpdate(
-        context,
-        'LabSettings',
-        settings.id,
-        existing,
-        settings,
+      settings = await this.auditService.withContext(context, (tx) =>
+        tx.labSettings.update({
+          where: { id: existing.id },
+          data: {
+            ...(dto.labName !== undefined && { labName: dto.labName }),
+            ...(dto.labLogoUrl !== undefined && { labLogoUrl: dto.labLogoUrl }),
+            ...(dto.disclaimerText !== undefined && {
+              disclaimerText: dto.disclaimerText,
+            }),
+            ...(dto.coaTemplateSettings !== undefined && {
+              coaTemplateSettings: dto.coaTemplateSettings as any,
+            }),
+            ...(dto.allowSegregationExceptions !== undefined && {
+              allowSegregationExceptions: dto.allowSegregationExceptions,
+            }),
+            updatedById: context.actorId,
+          },
+        }),
       );
     }
 
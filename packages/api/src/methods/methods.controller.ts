@@ -20,6 +20,10 @@ import type { CreateMethodDto, UpdateMethodDto } from './methods.service';
 import { Roles } from '../auth/roles.decorator';
 import { Role } from '@prisma/client';
 import type { Request } from 'express';
+import {
+  parseIncludeDeleted,
+  type DeleteDto,
+} from '../soft-delete/soft-delete';
 
 @ApiTags('methods')
 @ApiBearerAuth()
@@ -47,14 +51,18 @@ export class MethodsController {
   @ApiOperation({ summary: 'List all methods' })
   @ApiResponse({ status: 200, description: 'Methods retrieved successfully' })
   async listMethods(
+    @Req() req: Request,
     @Query('code') code?: string,
     @Query('name') name?: string,
+    @Query('includeDeleted') includeDeleted?: string,
     @Query('page') page?: string,
     @Query('perPage') perPage?: string,
   ) {
+    const user = (req as any).user;
     return this.methodsService.listMethods({
       code,
       name,
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
       page: page ? parseInt(page, 10) : undefined,
       perPage: perPage ? parseInt(perPage, 10) : undefined,
     });
@@ -65,8 +73,15 @@ export class MethodsController {
   @ApiOperation({ summary: 'Get method by ID' })
   @ApiResponse({ status: 200, description: 'Method retrieved successfully' })
   @ApiResponse({ status: 404, description: 'Method not found' })
-  async getMethod(@Param('id') id: string) {
-    return this.methodsService.getMethod(id);
+  async getMethod(
+    @Param('id') id: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.methodsService.getMethod(id, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Put(':id')
@@ -94,7 +109,27 @@ export class MethodsController {
   @ApiOperation({ summary: 'Delete method' })
   @ApiResponse({ status: 200, description: 'Method deleted successfully' })
   @ApiResponse({ status: 404, description: 'Method not found' })
-  async deleteMethod(@Param('id') id: string, @Req() req: Request) {
+  async deleteMethod(
+    @Param('id') id: string,
+    @Body() dto: DeleteDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.methodsService.deleteMethod(id, dto, context);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Restore a deleted method' })
+  @ApiResponse({ status: 201, description: 'Method restored successfully' })
+  @ApiResponse({ status: 404, description: 'Method not found' })
+  async restoreMethod(@Param('id') id: string, @Req() req: Request) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -102,6 +137,6 @@ export class MethodsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.methodsService.deleteMethod(id, context);
+    return this.methodsService.restoreMethod(id, context);
   }
 }
@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { MethodsService } from './methods.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('MethodsService', () => {
+  let service: MethodsService;
+
+  const mockPrismaService = {
+    method: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'test@example.com',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MethodsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MethodsService>(MethodsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createMethod', () => {
+    it('should accept a rounding configuration', async () => {
+      mockPrismaService.method.create.mockResolvedValue({ id: 'method-1' });
+
+      await service.createMethod(
+        {
+          code: 'HPLC-01',
+          name: 'Assay by HPLC',
+          decimalPlaces: 1,
+          roundingMode: 'HALF_EVEN',
+          oosBasis: 'ROUNDED',
+        },
+        context,
+      );
+
+      expect(mockPrismaService.method.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          decimalPlaces: 1,
+          roundingMode: 'HALF_EVEN',
+        }),
+      });
+    });
+
+    it('should reject both decimal places and significant figures', async () => {
+      await expect(
+        service.createMethod(
+          {
+            code: 'HPLC-01',
+            name: 'Assay by HPLC',
+            decimalPlaces: 1,
+            significantFigures: 3,
+          },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.method.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a negative number of decimal places', async () => {
+      await expect(
+        service.createMethod(
+          { code: 'HPLC-01', name: 'Assay by HPLC', decimalPlaces: -1 },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateMethod', () => {
+    it('should reject significant figures when decimal places are already set', async () => {
+      mockPrismaService.method.findUnique.mockResolvedValue({
+        id: 'method-1',
+        decimalPlaces: 2,
+        significantFigures: null,
+      });
+
+      await expect(
+        service.updateMethod('method-1', { significantFigures: 3 }, context),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.method.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow switching to significant figures when clearing decimal places', async () => {
+      mockPrismaService.method.findUnique.mockResolvedValue({
+        id: 'method-1',
+        decimalPlaces: 2,
+        significantFigures: null,
+      });
+      mockPrismaService.method.update.mockResolvedValue({ id: 'method-1' });
+
+      await service.updateMethod(
+        'method-1',
+        { decimalPlaces: null, significantFigures: 3 },
+        context,
+      );
+
+      expect(mockPrismaService.method.update).toHaveBeenCalled();
+    });
+
+    it('should treat a deleted method as not found', async () => {
+      mockPrismaService.method.findUnique.mockResolvedValue({
+        id: 'method-1',
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.updateMethod('method-1', { name: 'Renamed' }, context),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteMethod', () => {
+    it('should soft delete with the reason instead of removing the row', async () => {
+      mockPrismaService.method.findUnique.mockResolvedValue({
+        id: 'method-1',
+        deletedAt: null,
+      });
+      mockPrismaService.method.update.mockResolvedValue({ id: 'method-1' });
+
+      await service.deleteMethod(
+        'method-1',
+        { reason: 'Superseded by HPLC-02' },
+        context,
+      );
+
+      expect(mockPrismaService.method.update).toHaveBeenCalledWith({
+        where: { id: 'method-1' },
+        data: expect.objectContaining({
+          deletedAt: expect.any(Date),
+          deletedById: 'user-123',
+          deleteReason: 'Superseded by HPLC-02',
+        }),
+      });
+    });
+  });
+
+  describe('restoreMethod', () => {
+    it('should reject a method that is not deleted', async () => {
+      mockPrismaService.method.findUnique.mockResolvedValue({
+        id: 'method-1',
+        deletedAt: null,
+      });
+
+      await expect(service.restoreMethod('method-1', context)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.method.update).not.toHaveBeenCalled();
+    });
+  });
+});
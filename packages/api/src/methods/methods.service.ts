@@ -1,5 +1,21 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  DeleteDto,
+  SoftDeleteFilter,
+  excludeDeleted,
+  restoreData,
+  softDeleteData,
+} from '../soft-delete/soft-delete';
+import {
+  OOSEvaluationBasis,
+  ReportableRule,
+  RoundingMode,
+} from '@prisma/client';
 
 export interface CreateMethodDto {
   code: string;
@@ -8,6 +24,12 @@ export interface CreateMethodDto {
   unit?: string;
   lod?: number;
   loq?: number;
+  decimalPlaces?: number | null;
+  significantFigures?: number | null;
+  roundingMode?: RoundingMode;
+  oosBasis?: OOSEvaluationBasis;
+  rsdLimit?: number | null;
+  reportableRule?: ReportableRule;
 }
 
 export interface UpdateMethodDto {
@@ -17,6 +39,12 @@ export interface UpdateMethodDto {
   unit?: string;
   lod?: number;
   loq?: number;
+  decimalPlaces?: number | null;
+  significantFigures?: number | null;
+  roundingMode?: RoundingMode;
+  oosBasis?: OOSEvaluationBasis;
+  rsdLimit?: number | null;
+  reportableRule?: ReportableRule;
 }
 
 export interface AuditContext {
@@ -31,6 +59,9 @@ export class MethodsService {
   constructor(private prisma: PrismaService) {}
 
   async createMethod(dto: CreateMethodDto, context: AuditContext) {
+    this.validateRounding(dto.decimalPlaces, dto.significantFigures);
+    this.validateRsdLimit(dto.rsdLimit);
+
     const method = await this.prisma.method.create({
       data: {
         ...dto,
@@ -45,6 +76,7 @@ export class MethodsService {
   async listMethods(filters?: {
     code?: string;
     name?: string;
+    includeDeleted?: boolean;
     page?: number;
     perPage?: number;
   }) {
@@ -52,7 +84,7 @@ export class MethodsService {
     const perPage = filters?.perPage || 50;
     const skip = (page - 1) * perPage;
 
-    const where: any = {};
+    const where: any = excludeDeleted(filters?.includeDeleted);
     if (filters?.code) {
       where.code = { contains: filters.code, mode: 'insensitive' };
     }
@@ -89,9 +121,9 @@ export class MethodsService {
     };
   }
 
-  async getMethod(id: string) {
-    const method = await this.prisma.method.findUnique({
-      where: { id },
+  async getMethod(id: string, filters?: SoftDeleteFilter) {
+    const method = await this.prisma.method.findFirst({
+      where: { id, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         createdBy: {
           select: { id: true, email: true, name: true },
@@ -114,10 +146,20 @@ export class MethodsService {
       where: { id },
     });
 
-    if (!existingMethod) {
+    if (!existingMethod || existingMethod.deletedAt) {
       throw new NotFoundException(`Method with ID ${id} not found`);
     }
 
+    this.validateRounding(
+      dto.decimalPlaces !== undefined
+        ? dto.decimalPlaces
+        : existingMethod.decimalPlaces,
+      dto.significantFigures !== undefined
+        ? dto.significantFigures
+        : existingMethod.significantFigures,
+    );
+    this.validateRsdLimit(dto.rsdLimit);
+
     const method = await this.prisma.method.update({
       where: { id },
       data: {
@@ -137,19 +179,96 @@ export class MethodsService {
     return method;
   }
 
-  async deleteMethod(id: string, context: AuditContext) {
+  /**
+   * Soft delete: the row is kept for existing references and hidden from
+   * lists. The audit trigger records the change with its deleteReason.
+   */
+  async deleteMethod(id: string, dto: DeleteDto, context: AuditContext) {
     const method = await this.prisma.method.findUnique({
       where: { id },
     });
 
-    if (!method) {
+    if (!method || method.deletedAt) {
       throw new NotFoundException(`Method with ID ${id} not found`);
     }
 
-    await this.prisma.method.delete({
+    await this.prisma.method.update({
       where: { id },
+      data: softDeleteData(dto, context.actorId),
     });
 
     return { message: 'Method deleted successfully' };
   }
+
+  async restoreMethod(id: string, context: AuditContext) {
+    const method = await this.prisma.method.findUnique({
+      where: { id },
+    });
+
+    if (!method) {
+      throw new NotFoundException(`Method with ID ${id} not found`);
+    }
+
+    if (!method.deletedAt) {
+      throw new BadRequestException(`Method with ID ${id} is not deleted`);
+    }
+
+    return this.prisma.method.update({
+      where: { id },
+      data: restoreData(context.actorId),
+    });
+  }
+
+  /**
+   * Validate reported-result rounding: decimal places or significant
+   * figures, not both, since they can disagree on the same value
+   */
+  private validateRounding(
+    decimalPlaces?: number | null,
+    significantFigures?: number | null,
+  ) {
+    if (
+      decimalPlaces !== null &&
+      decimalPlaces !== undefined &&
+      (!Number.isInteger(decimalPlaces) || decimalPlaces < 0)
+    ) {
+      throw new BadRequestException(
+        'decimalPlaces must be a non-negative integer',
+      );
+    }
+
+    if (
+      significantFigures !== null &&
+      significantFigures !== undefined &&
+      (!Number.isInteger(significantFigures) || significantFigures < 1)
+    ) {
+      throw new BadRequestException(
+        'significantFigures must be a positive integer',
+      );
+    }
+
+    if (
+      decimalPlaces !== null &&
+      decimalPlaces !== undefined &&
+      significantFigures !== null &&
+      significantFigures !== undefined
+    ) {
+      throw new BadRequestException(
+        'Specify either decimalPlaces or significantFigures, not both',
+      );
+    }
+  }
+
+  /**
+   * Validate the replicate %RSD limit, e.g. 2 for 2%
+   */
+  private validateRsdLimit(rsdLimit?: number | null) {
+    if (
+      rsdLimit !== null &&
+      rsdLimit !== undefined &&
+      !(Number.isFinite(rsdLimit) && rsdLimit > 0)
+    ) {
+      throw new BadRequestException('rsdLimit must be a positive percentage');
+    }
+  }
 }
@@ -0,0 +1,98 @@
+import { diffCOASnapshots, summarizeCOAChanges } from './amendment';
+import type { COADataSnapshot } from './renderer';
+
+describe('COA amendments', () => {
+  const test = (testName: string, result: string, oos = false) => ({
+    section: { name: 'Chemistry' },
+    method: { code: 'M001', name: 'Assay by HPLC', unit: '%' },
+    specification: { code: 'S001', name: 'Assay', min: 95, max: 105 },
+    testName,
+    status: 'COMPLETED',
+    result,
+    oos,
+  });
+
+  const snapshot = (
+    tests: COADataSnapshot['tests'],
+    sample: Partial<COADataSnapshot['sample']> = {},
+  ): COADataSnapshot => ({
+    sample: {
+      jobNumber: 'JOB-001',
+      dateReceived: new Date('2024-11-01T09:30:00Z'),
+      client: { name: 'Acme Corporation' },
+      sampleCode: 'SAMPLE-001',
+      sampleBatch: 'BATCH-001',
+      statusFlags: {
+        expiredRawMaterial: false,
+        postIrradiatedRawMaterial: false,
+        stabilityStudy: false,
+        urgent: false,
+        allMicroTestsAssigned: true,
+        allChemistryTestsAssigned: true,
+        released: true,
+        retest: false,
+      },
+      ...sample,
+    },
+    tests,
+    reportMetadata: {
+      version: 1,
+      generatedAt: new Date(),
+      generatedBy: 'manager@test.com',
+    },
+  });
+
+  it('should find no changes against the same data read back from the database', () => {
+    const issued = snapshot([test('Assay', '99.1')]);
+    const stored = JSON.parse(JSON.stringify(issued)) as COADataSnapshot;
+
+    const changes = diffCOASnapshots(stored, issued);
+
+    expect(changes).toEqual({
+      header: [],
+      results: [],
+      addedTests: [],
+      removedTests: [],
+    });
+    expect(summarizeCOAChanges(changes)).toEqual([]);
+  });
+
+  it('should list changed header fields and results', () => {
+    const changes = diffCOASnapshots(
+      snapshot([test('Assay', '94.2', true)]),
+      snapshot([test('Assay', '99.1')], {
+        sampleBatch: 'BATCH-002',
+        dateReceived: new Date('2024-10-31T09:30:00Z'),
+        client: { name: 'Acme Corporation', contactName: 'J. Smith' },
+      }),
+    );
+
+    expect(summarizeCOAChanges(changes)).toEqual([
+      'Batch: BATCH-001 → BATCH-002',
+      'Date Received: 2024-11-01 → 2024-10-31',
+      'Contact: (blank) → J. Smith',
+      'Assay (Chemistry) Result: 94.2 → 99.1',
+      'Assay (Chemistry) OOS: YES → NO',
+    ]);
+  });
+
+  it('should match a test reported twice by position and list added and removed tests', () => {
+    const changes = diffCOASnapshots(
+      snapshot([
+        test('Assay', '99.1'),
+        test('Assay', '98.7'),
+        test('pH', '6.5'),
+      ]),
+      snapshot([test('Assay', '99.1'), test('Water', '0.4')]),
+    );
+
+    expect(changes.results).toEqual([]);
+    expect(changes.addedTests).toEqual([
+      { section: 'Chemistry', testName: 'Water', method: 'M001' },
+    ]);
+    expect(changes.removedTests).toEqual([
+      { section: 'Chemistry', testName: 'Assay', method: 'M001' },
+      { section: 'Chemistry', testName: 'pH', method: 'M001' },
+    ]);
+  });
+});
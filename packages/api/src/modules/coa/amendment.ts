@@ -0,0 +1,195 @@
+/**
+ * COA Amendment Module
+ * Compares the dataSnapshot of an issued COA with the one replacing it and
+ * describes what changed, for the amendment history printed on the new COA
+ */
+
+import type {
+  COAAmendmentChanges,
+  COADataSnapshot,
+  COAFieldChange,
+  COATestReference,
+} from './renderer';
+
+type COATest = COADataSnapshot['tests'][number];
+
+// Header fields compared between versions, with the labels printed on the COA
+const SAMPLE_FIELDS: Array<[keyof COADataSnapshot['sample'], string]> = [
+  ['jobNumber', 'Job Number'],
+  ['sampleCode', 'Sample Code'],
+  ['sampleDescription', 'Description'],
+  ['uinCode', 'UIN Code'],
+  ['sampleBatch', 'Batch'],
+  ['rmSupplier', 'RM Supplier'],
+  ['temperatureOnReceiptC', 'Temperature on Receipt'],
+  ['storageConditions', 'Storage Conditions'],
+  ['comments', 'Comments'],
+];
+
+const SAMPLE_DATE_FIELDS: Array<[keyof COADataSnapshot['sample'], string]> = [
+  ['dateReceived', 'Date Received'],
+  ['dateDue', 'Date Due'],
+  ['needByDate', 'Need By Date'],
+  ['mcdDate', 'MCD Date'],
+  ['releaseDate', 'Release Date'],
+];
+
+const CLIENT_FIELDS: Array<
+  [keyof COADataSnapshot['sample']['client'], string]
+> = [
+  ['name', 'Client'],
+  ['contactName', 'Contact'],
+  ['email', 'Email'],
+  ['phone', 'Phone'],
+  ['address', 'Address'],
+];
+
+// Columns of a reported test compared between versions
+const TEST_FIELDS: Array<[string, string, (test: COATest) => unknown]> = [
+  ['result', 'Result', (test) => test.reportedResult || test.result],
+  ['unit', 'Unit', (test) => test.resultUnit || test.method.unit],
+  ['specification', 'Specification', (test) => formatSpecification(test)],
+  ['oos', 'OOS', (test) => (test.oos ? 'YES' : 'NO')],
+];
+
+/**
+ * Compare the snapshot of the previous issued version with the new one
+ * Dates are compared by day, as printed; a previous snapshot read back from
+ * the database holds them as ISO strings
+ */
+export function diffCOASnapshots(
+  previous: COADataSnapshot,
+  next: COADataSnapshot,
+): COAAmendmentChanges {
+  const header: COAFieldChange[] = [
+    ...SAMPLE_FIELDS.map(([field, label]) =>
+      fieldChange(field, label, previous.sample[field], next.sample[field]),
+    ),
+    ...SAMPLE_DATE_FIELDS.map(([field, label]) =>
+      fieldChange(
+        field,
+        label,
+        formatDate(previous.sample[field]),
+        formatDate(next.sample[field]),
+      ),
+    ),
+    ...CLIENT_FIELDS.map(([field, label]) =>
+      fieldChange(
+        `client.${field}`,
+        label,
+        previous.sample.client[field],
+        next.sample.client[field],
+      ),
+    ),
+  ].filter((change): change is COAFieldChange => !!change);
+
+  const previousTests = groupTests(previous.tests);
+  const results: COAAmendmentChanges['results'] = [];
+  const addedTests: COATestReference[] = [];
+  const removedTests: COATestReference[] = [];
+
+  for (const [key, tests] of groupTests(next.tests)) {
+    const before = previousTests.get(key) ?? [];
+    tests.forEach((test, index) => {
+      const old = before[index];
+      if (!old) {
+        addedTests.push(testReference(test));
+        return;
+      }
+      const changes = TEST_FIELDS.map(([field, label, getValue]) =>
+        fieldChange(field, label, getValue(old), getValue(test)),
+      ).filter((change): change is COAFieldChange => !!change);
+      if (changes.length > 0) {
+        results.push({ ...testReference(test), changes });
+      }
+    });
+    previousTests.set(key, before.slice(tests.length));
+  }
+  for (const tests of previousTests.values()) {
+    removedTests.push(...tests.map(testReference));
+  }
+
+  return { header, results, addedTests, removedTests };
+}
+
+/**
+ * One line per change, as printed in the amendment history
+ */
+export function summarizeCOAChanges(changes: COAAmendmentChanges): string[] {
+  const describe = (change: COAFieldChange) =>
+    `${change.from ?? '(blank)'} → ${change.to ?? '(blank)'}`;
+  const name = (test: COATestReference) => `${test.testName} (${test.section})`;
+
+  return [
+    ...changes.header.map((change) => `${change.label}: ${describe(change)}`),
+    ...changes.results.flatMap((test) =>
+      test.changes.map(
+        (change) => `${name(test)} ${change.label}: ${describe(change)}`,
+      ),
+    ),
+    ...changes.addedTests.map((test) => `Test added: ${name(test)}`),
+    ...changes.removedTests.map((test) => `Test removed: ${name(test)}`),
+  ];
+}
+
+/**
+ * Tests keyed by section, name and method, in report order; a test reported
+ * twice is matched by position
+ */
+function groupTests(tests: COATest[]): Map<string, COATest[]> {
+  const groups = new Map<string, COATest[]>();
+  for (const test of tests) {
+    const key = [test.section.name, test.testName, test.method.code].join(
+      '\u0000',
+    );
+    groups.set(key, [...(groups.get(key) ?? []), test]);
+  }
+  return groups;
+}
+
+function testReference(test: COATest): COATestReference {
+  return {
+    section: test.section.name,
+    testName: test.testName,
+    method: test.method.code,
+  };
+}
+
+function fieldChange(
+  field: string,
+  label: string,
+  from: unknown,
+  to: unknown,
+): COAFieldChange | null {
+  const before = formatValue(from);
+  const after = formatValue(to);
+  return before === after ? null : { field, label, from: before, to: after };
+}
+
+function formatValue(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatDate(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime())
+    ? formatValue(value)
+    : date.toISOString().slice(0, 10);
+}
+
+function formatSpecification(test: COATest): string | undefined {
+  const spec = test.specification;
+  if (!spec) return undefined;
+  const unit = spec.unit ? ` ${spec.unit}` : '';
+  const hasMin = spec.min !== null && spec.min !== undefined;
+  const hasMax = spec.max !== null && spec.max !== undefined;
+
+  if (spec.target) return `${spec.code} (target ${spec.target})`;
+  if (hasMin && hasMax)
+    return `${spec.code} (${spec.min} - ${spec.max}${unit})`;
+  if (hasMin) return `${spec.code} (≥ ${spec.min}${unit})`;
+  if (hasMax) return `${spec.code} (≤ ${spec.max}${unit})`;
+  return spec.code;
+}
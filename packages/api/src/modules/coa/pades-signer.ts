@@ -0,0 +1,184 @@
+/**
+ * PAdES Signer
+ * Builds the CMS signature for a PDF signature field with the SubFilter
+ * ETSI.CAdES.detached (PAdES baseline B-B): SHA-256, the signer certificate
+ * bound through the ESS signing-certificate-v2 attribute, and no signing-time
+ * attribute, since the signing time is carried in the signature dictionary
+ */
+
+import forge from 'node-forge';
+import { Signer } from '@signpdf/utils';
+
+const { asn1, pki } = forge;
+
+const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+
+const sequence = (value: forge.asn1.Asn1[]) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, value);
+const set = (value: forge.asn1.Asn1[]) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, value);
+const oid = (value: string) =>
+  asn1.create(
+    asn1.Class.UNIVERSAL,
+    asn1.Type.OID,
+    false,
+    asn1.oidToDer(value).getBytes(),
+  );
+const octetString = (bytes: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes);
+const integer = (bytes: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, bytes);
+const algorithm = (value: string) =>
+  sequence([
+    oid(value),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ''),
+  ]);
+const attribute = (type: string, value: forge.asn1.Asn1) =>
+  sequence([oid(type), set([value])]);
+const der = (value: forge.asn1.Asn1) => asn1.toDer(value).getBytes();
+
+/**
+ * Signs with the RSA key and certificate of a PKCS#12 file, such as the lab
+ * certificate exported from a CA as .p12 or .pfx
+ */
+export class PAdESSigner extends Signer {
+  private readonly key: forge.pki.rsa.PrivateKey;
+  private readonly certificate: forge.pki.Certificate;
+  private readonly chain: forge.pki.Certificate[];
+
+  /**
+   * @throws Error when the file cannot be read with the passphrase or has no
+   * certificate for its key
+   */
+  constructor(p12: Buffer, passphrase = '') {
+    super();
+    const store = forge.pkcs12.pkcs12FromAsn1(
+      asn1.fromDer(p12.toString('binary')),
+      false,
+      passphrase,
+    );
+    const keyBag = [
+      ...(store.getBags({ bagType: pki.oids.pkcs8ShroudedKeyBag })[
+        pki.oids.pkcs8ShroudedKeyBag
+      ] ?? []),
+      ...(store.getBags({ bagType: pki.oids.keyBag })[pki.oids.keyBag] ?? []),
+    ][0];
+    const certificates = (
+      store.getBags({ bagType: pki.oids.certBag })[pki.oids.certBag] ?? []
+    )
+      .map((bag) => bag.cert)
+      .filter((cert): cert is forge.pki.Certificate => !!cert);
+
+    const key = keyBag?.key;
+    if (!key?.n) {
+      throw new Error('The signing certificate file has no RSA private key');
+    }
+    const certificate = certificates.find((cert) => {
+      const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+      return (
+        publicKey.n?.compareTo(key.n) === 0 &&
+        publicKey.e?.compareTo(key.e) === 0
+      );
+    });
+    if (!certificate) {
+      throw new Error(
+        'The signing certificate file has no certificate for its private key',
+      );
+    }
+
+    this.key = key;
+    this.certificate = certificate;
+    this.chain = certificates;
+  }
+
+  /**
+   * Common name of the certificate, shown as the signer in PDF readers
+   */
+  get signerName(): string {
+    const commonName = this.certificate.subject.getField('CN') as {
+      value: string;
+    } | null;
+    return commonName?.value ?? 'Laboratory';
+  }
+
+  get validTo(): Date {
+    return this.certificate.validity.notAfter;
+  }
+
+  /**
+   * @param pdfBuffer The PDF without the signature contents, as given by
+   * @signpdf/signpdf for the byte range
+   * @returns DER-encoded CMS SignedData, detached
+   */
+  sign(pdfBuffer: Buffer): Promise<Buffer> {
+    const sha256 = (bytes: string) =>
+      forge.md.sha256.create().update(bytes).digest().getBytes();
+    const certificateDer = der(pki.certificateToAsn1(this.certificate));
+    const issuer = pki.distinguishedNameToAsn1(this.certificate.issuer);
+    const serialNumber = integer(
+      forge.util.hexToBytes(this.certificate.serialNumber),
+    );
+
+    // ESSCertIDv2 with the default SHA-256 hash and the issuer and serial
+    const signingCertificate = sequence([
+      sequence([
+        sequence([
+          octetString(sha256(certificateDer)),
+          sequence([
+            sequence([
+              asn1.create(asn1.Class.CONTEXT_SPECIFIC, 4, true, [issuer]),
+            ]),
+            serialNumber,
+          ]),
+        ]),
+      ]),
+    ]);
+
+    // DER sorts a SET OF by the encoded elements
+    const signedAttributes = [
+      attribute(pki.oids.contentType, oid(pki.oids.data)),
+      attribute(
+        pki.oids.messageDigest,
+        octetString(sha256(pdfBuffer.toString('binary'))),
+      ),
+      attribute(OID_SIGNING_CERTIFICATE_V2, signingCertificate),
+    ].sort((a, b) => (der(a) < der(b) ? -1 : 1));
+
+    // The signature covers the attributes encoded as a SET
+    const digest = forge.md.sha256.create();
+    digest.update(der(set(signedAttributes)));
+    const signature = this.key.sign(digest);
+
+    const signerInfo = sequence([
+      integer(String.fromCharCode(1)),
+      sequence([
+        pki.distinguishedNameToAsn1(this.certificate.issuer),
+        serialNumber,
+      ]),
+      algorithm(pki.oids.sha256),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, signedAttributes),
+      algorithm(pki.oids.rsaEncryption),
+      octetString(signature),
+    ]);
+
+    const signedData = sequence([
+      integer(String.fromCharCode(1)),
+      set([algorithm(pki.oids.sha256)]),
+      sequence([oid(pki.oids.data)]),
+      asn1.create(
+        asn1.Class.CONTEXT_SPECIFIC,
+        0,
+        true,
+        this.chain.map((cert) => pki.certificateToAsn1(cert)),
+      ),
+      set([signerInfo]),
+    ]);
+
+    const contentInfo = sequence([
+      oid(pki.oids.signedData),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [signedData]),
+    ]);
+
+    return Promise.resolve(Buffer.from(der(contentInfo), 'binary'));
+  }
+}
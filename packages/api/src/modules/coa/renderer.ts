@@ -7,8 +7,61 @@ export interface COATemplateSettings {
   visibleFields?: string[];
   labelOverrides?: Record<string, string>;
   columnOrder?: string[];
+  sectionOrder?: string[]; // Sections in print order; sections left out are not printed
 }
 
+// The COATemplate version a COA was rendered with
+export interface COATemplateReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// Sections of the COA body, in their default order
+export const COA_SECTIONS = [
+  'clientInformation',
+  'sampleInformation',
+  'testResults',
+  'retestHistory',
+  'amendmentHistory',
+  'electronicSignatures',
+  'signatureBlock',
+];
+
+// Sample information fields that can be hidden
+export const COA_SAMPLE_FIELDS = [
+  'jobNumber',
+  'sampleCode',
+  'sampleDescription',
+  'uinCode',
+  'sampleBatch',
+  'dateReceived',
+  'dateDue',
+  'needByDate',
+  'mcdDate',
+  'releaseDate',
+  'rmSupplier',
+  'temperatureOnReceiptC',
+  'storageConditions',
+  'comments',
+];
+
+// Columns of the test results table, in their default order
+export const COA_COLUMNS = [
+  'section',
+  'test',
+  'method',
+  'specification',
+  'result',
+  'unit',
+  'testDate',
+  'analyst',
+  'checkedBy',
+  'checkedDate',
+  'oos',
+  'comments',
+];
+
 export interface COADataSnapshot {
   sample: {
     jobNumber: string;
@@ -60,6 +113,8 @@ export interface COADataSnapshot {
     status: string;
     testDate?: Date;
     result?: string;
+    reportedResult?: string; // Result as printed, e.g. <LOQ for values below LOQ
+    detectionState?: string;
     resultUnit?: string;
     checker?: { name?: string; email: string };
     chkDate?: Date;
@@ -68,7 +123,10 @@ export interface COADataSnapshot {
     invoiceNote?: string;
     precision?: string;
     linearity?: string;
+    attempt?: number; // 1 for the original test, 2+ for retests
+    retestChain?: COARetestAttempt[]; // Every attempt, original first; only for retested tests
   }>;
+  signatures?: COASignature[]; // Electronic signature manifest
   reportMetadata: {
     version: number;
     generatedAt: Date;
@@ -77,16 +135,70 @@ export interface COADataSnapshot {
     labLogoUrl?: string;
     disclaimerText?: string;
     templateSettings?: COATemplateSettings;
+    template?: COATemplateReference; // Unset when the lab-wide settings were used
+    templateSource?: string; // Lab-edited HTML template; see template-engine.ts
+    amendments?: COAAmendment[]; // Every amendment up to this version, oldest first
   };
 }
 
+export interface COARetestAttempt {
+  attempt: number;
+  result?: string;
+  reportedResult?: string;
+  status: string;
+  testDate?: Date;
+  retestReason?: string;
+  reportable: boolean;
+  oos: boolean;
+}
+
+export interface COASignature {
+  name: string;
+  email?: string;
+  meaning: string; // REVIEWED, APPROVED or RELEASED
+  signedAt: Date;
+  subject: string; // What was signed, e.g. the test name
+}
+
+// A field that differs between two versions of a COA
+export interface COAFieldChange {
+  field: string;
+  label: string;
+  from?: string; // Unset when the field was blank
+  to?: string;
+}
+
+export interface COATestReference {
+  section: string;
+  testName: string;
+  method: string; // Method code
+}
+
+// What changed against the previous issued version; see amendment.ts
+export interface COAAmendmentChanges {
+  header: COAFieldChange[]; // Sample and client fields
+  results: Array<COATestReference & { changes: COAFieldChange[] }>;
+  addedTests: COATestReference[];
+  removedTests: COATestReference[];
+}
+
+export interface COAAmendment {
+  version: number; // The version issued by this amendment
+  previousVersion: number;
+  amendedAt: Date;
+  amendedBy: string;
+  reason: string;
+  changes: COAAmendmentChanges;
+  summary: string[]; // One line per change, as printed
+}
+
 /**
  * Renders a COA data snapshot into an HTML string
  * @param dataSnapshot - The COA data to render
  * @returns HTML string ready for PDF conversion
  */
 export function renderCOATemplate(dataSnapshot: COADataSnapshot): string {
-  const { sample, tests, reportMetadata } = dataSnapshot;
+  const { sample, tests, signatures, reportMetadata } = dataSnapshot;
 
   // Helper function to get label with override support
   const getLabel = (field: string, defaultLabel: string): string => {
@@ -105,22 +217,7 @@ export function renderCOATemplate(dataSnapshot: COADataSnapshot): string {
 
   // Helper function to get column order
   const getColumnOrder = (): string[] => {
-    return (
-      reportMetadata.templateSettings?.columnOrder || [
-        'section',
-        'test',
-        'method',
-        'specification',
-        'result',
-        'unit',
-        'testDate',
-        'analyst',
-        'checkedBy',
-        'checkedDate',
-        'oos',
-        'comments',
-      ]
-    );
+    return reportMetadata.templateSettings?.columnOrder || COA_COLUMNS;
   };
 
   // Build client info
@@ -199,7 +296,8 @@ export function renderCOATemplate(dataSnapshot: COADataSnapshot): string {
     },
     result: {
       header: getLabel('result', 'Result'),
-      getValue: (test) => test.result || 'N/A',
+      getValue: (test) =>
+        escapeHtml(test.reportedResult || test.result || 'N/A'),
     },
     unit: {
       header: getLabel('unit', 'Unit'),
@@ -255,6 +353,190 @@ export function renderCOATemplate(dataSnapshot: COADataSnapshot): string {
     })
     .join('');
 
+  // Every attempt of retested tests, so superseded results stay visible
+  const retestHistoryRows = tests
+    .filter((test) => (test.retestChain?.length ?? 0) > 1)
+    .flatMap((test) =>
+      (test.retestChain ?? []).map(
+        (attempt) => `
+          <tr>
+            <td>${test.testName}</td>
+            <td>${attempt.attempt}</td>
+            <td>${escapeHtml(attempt.reportedResult || attempt.result || 'N/A')}</td>
+            <td>${attempt.retestReason ? attempt.retestReason.replace(/_/g, ' ') : 'Original'}</td>
+            <td>${attempt.testDate ? new Date(attempt.testDate).toLocaleDateString() : 'N/A'}</td>
+            <td>${attempt.oos ? '<span class="oos-yes">YES</span>' : 'NO'}</td>
+            <td>${attempt.reportable ? 'Reported' : ''}</td>
+          </tr>`,
+      ),
+    )
+    .join('');
+
+  const retestHistoryHTML = retestHistoryRows
+    ? `
+  <div class="section">
+    <h2>${getLabel('retestHistory', 'Retest History')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>Test</th>
+          <th>Attempt</th>
+          <th>Result</th>
+          <th>Reason</th>
+          <th>Test Date</th>
+          <th>OOS</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${retestHistoryRows}
+      </tbody>
+    </table>
+  </div>`
+    : '';
+
+  // Why each version replaced the one before it, and what changed
+  const amendmentHistoryRows = (reportMetadata.amendments ?? [])
+    .map(
+      (amendment) => `
+          <tr>
+            <td>${amendment.previousVersion} &rarr; ${amendment.version}</td>
+            <td>${new Date(amendment.amendedAt).toLocaleDateString()}</td>
+            <td>${escapeHtml(amendment.amendedBy)}</td>
+            <td>${escapeHtml(amendment.reason)}</td>
+            <td>${amendment.summary.length > 0 ? amendment.summary.map(escapeHtml).join('<br/>') : 'No change to the reported data'}</td>
+          </tr>`,
+    )
+    .join('');
+
+  const amendmentHistoryHTML = amendmentHistoryRows
+    ? `
+  <div class="section">
+    <h2>${getLabel('amendmentHistory', 'Amendment History')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>Version</th>
+          <th>Date</th>
+          <th>Amended By</th>
+          <th>Reason</th>
+          <th>Changes</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${amendmentHistoryRows}
+      </tbody>
+    </table>
+  </div>`
+    : '';
+
+  // Printed name, date/time and meaning of each signature (21 CFR 11.50)
+  const signatureManifestRows = (signatures ?? [])
+    .map(
+      (signature) => `
+          <tr>
+            <td>${escapeHtml(signature.name)}</td>
+            <td>${signature.meaning.charAt(0) + signature.meaning.slice(1).toLowerCase()}</td>
+            <td>${new Date(signature.signedAt).toISOString().replace('T', ' ').slice(0, 19)} UTC</td>
+            <td>${escapeHtml(signature.subject)}</td>
+          </tr>`,
+    )
+    .join('');
+
+  const signatureManifestHTML = signatureManifestRows
+    ? `
+  <div class="section">
+    <h2>${getLabel('electronicSignatures', 'Electronic Signatures')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>Signed By</th>
+          <th>Meaning</th>
+          <th>Date/Time</th>
+          <th>Applies To</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${signatureManifestRows}
+      </tbody>
+    </table>
+  </div>`
+    : '';
+
+  // Body sections, printed in the template's order
+  const sectionHTML: Record<string, string> = {
+    clientInformation: `
+  <div class="section">
+    <h2>Client Information</h2>
+    <div class="info-grid">
+      ${clientInfo}
+    </div>
+  </div>`,
+    sampleInformation: `
+  <div class="section">
+    <h2>${getLabel('sampleInformation', 'Sample Information')}</h2>
+    <div class="info-grid">
+      ${isVisible('jobNumber') ? `<div class="info-label">${getLabel('jobNumber', 'Job Number')}:</div><div>${sample.jobNumber}</div>` : ''}
+      ${isVisible('sampleCode') ? `<div class="info-label">${getLabel('sampleCode', 'Sample Code')}:</div><div>${sample.sampleCode}</div>` : ''}
+      ${isVisible('sampleDescription') ? `<div class="info-label">${getLabel('sampleDescription', 'Description')}:</div><div>${sample.sampleDescription || 'N/A'}</div>` : ''}
+      ${isVisible('uinCode') ? `<div class="info-label">${getLabel('uinCode', 'UIN Code')}:</div><div>${sample.uinCode || 'N/A'}</div>` : ''}
+      ${isVisible('sampleBatch') ? `<div class="info-label">${getLabel('sampleBatch', 'Batch')}:</div><div>${sample.sampleBatch || 'N/A'}</div>` : ''}
+      ${isVisible('dateReceived') ? `<div class="info-label">${getLabel('dateReceived', 'Date Received')}:</div><div>${new Date(sample.dateReceived).toLocaleDateString()}</div>` : ''}
+      ${isVisible('dateDue') ? `<div class="info-label">${getLabel('dateDue', 'Date Due')}:</div><div>${sample.dateDue ? new Date(sample.dateDue).toLocaleDateString() : 'N/A'}</div>` : ''}
+      ${isVisible('needByDate') ? `<div class="info-label">${getLabel('needByDate', 'Need By Date')}:</div><div>${sample.needByDate ? new Date(sample.needByDate).toLocaleDateString() : 'N/A'}</div>` : ''}
+      ${isVisible('mcdDate') ? `<div class="info-label">${getLabel('mcdDate', 'MCD Date')}:</div><div>${sample.mcdDate ? new Date(sample.mcdDate).toLocaleDateString() : 'N/A'}</div>` : ''}
+      ${isVisible('releaseDate') ? `<div class="info-label">${getLabel('releaseDate', 'Release Date')}:</div><div>${sample.releaseDate ? new Date(sample.releaseDate).toLocaleDateString() : 'N/A'}</div>` : ''}
+      ${isVisible('rmSupplier') ? `<div class="info-label">${getLabel('rmSupplier', 'RM Supplier')}:</div><div>${sample.rmSupplier || 'N/A'}</div>` : ''}
+      ${isVisible('temperatureOnReceiptC') ? `<div class="info-label">${getLabel('temperatureOnReceiptC', 'Temperature on Receipt')}:</div><div>${sample.temperatureOnReceiptC ? sample.temperatureOnReceiptC + '°C' : 'N/A'}</div>` : ''}
+      ${isVisible('storageConditions') ? `<div class="info-label">${getLabel('storageConditions', 'Storage Conditions')}:</div><div>${sample.storageConditions || 'N/A'}</div>` : ''}
+      ${isVisible('comments') && sample.comments ? `<div class="info-label">${getLabel('comments', 'Comments')}:</div><div>${sample.comments}</div>` : ''}
+    </div>
+    ${statusFlagsHTML}
+  </div>`,
+    testResults: `
+  <div class="section">
+    <h2>${getLabel('testResults', 'Test Results')}</h2>
+    <table>
+      <thead>
+        <tr>
+          ${tableHeaders}
+        </tr>
+      </thead>
+      <tbody>
+        ${testsTableRows}
+      </tbody>
+    </table>
+  </div>`,
+    retestHistory: retestHistoryHTML,
+    amendmentHistory: amendmentHistoryHTML,
+    electronicSignatures: signatureManifestHTML,
+    signatureBlock: `
+  <div class="signatures">
+    <div class="signature">
+      <div class="signature-line">Prepared By</div>
+      <div>${reportMetadata.generatedBy}</div>
+      <div>${new Date(reportMetadata.generatedAt).toLocaleDateString()}</div>
+    </div>
+    <div class="signature">
+      <div class="signature-line">Reviewed By</div>
+      <div>&nbsp;</div>
+      <div>Date: _______________</div>
+    </div>
+  </div>`,
+  };
+
+  // An amended COA always states why; a layout can move the history but
+  // not leave it out
+  const sectionOrder =
+    reportMetadata.templateSettings?.sectionOrder || COA_SECTIONS;
+  const bodyHTML = (
+    sectionOrder.includes('amendmentHistory')
+      ? sectionOrder
+      : [...sectionOrder, 'amendmentHistory']
+  )
+    .map((section) => sectionHTML[section] ?? '')
+    .join('\n');
+
   return `
 <!DOCTYPE html>
 <html>
@@ -466,60 +748,7 @@ export function renderCOATemplate(dataSnapshot: COADataSnapshot): string {
     <div class="meta">Report Date: ${new Date(reportMetadata.generatedAt).toLocaleDateString()}</div>
   </div>
 
-  <div class="section">
-    <h2>Client Information</h2>
-    <div class="info-grid">
-      ${clientInfo}
-    </div>
-  </div>
-
-  <div class="section">
-    <h2>${getLabel('sampleInformation', 'Sample Information')}</h2>
-    <div class="info-grid">
-      ${isVisible('jobNumber') ? `<div class="info-label">${getLabel('jobNumber', 'Job Number')}:</div><div>${sample.jobNumber}</div>` : ''}
-      ${isVisible('sampleCode') ? `<div class="info-label">${getLabel('sampleCode', 'Sample Code')}:</div><div>${sample.sampleCode}</div>` : ''}
-      ${isVisible('sampleDescription') ? `<div class="info-label">${getLabel('sampleDescription', 'Description')}:</div><div>${sample.sampleDescription || 'N/A'}</div>` : ''}
-      ${isVisible('uinCode') ? `<div class="info-label">${getLabel('uinCode', 'UIN Code')}:</div><div>${sample.uinCode || 'N/A'}</div>` : ''}
-      ${isVisible('sampleBatch') ? `<div class="info-label">${getLabel('sampleBatch', 'Batch')}:</div><div>${sample.sampleBatch || 'N/A'}</div>` : ''}
-      ${isVisible('dateReceived') ? `<div class="info-label">${getLabel('dateReceived', 'Date Received')}:</div><div>${new Date(sample.dateReceived).toLocaleDateString()}</div>` : ''}
-      ${isVisible('dateDue') ? `<div class="info-label">${getLabel('dateDue', 'Date Due')}:</div><div>${sample.dateDue ? new Date(sample.dateDue).toLocaleDateString() : 'N/A'}</div>` : ''}
-      ${isVisible('needByDate') ? `<div class="info-label">${getLabel('needByDate', 'Need By Date')}:</div><div>${sample.needByDate ? new Date(sample.needByDate).toLocaleDateString() : 'N/A'}</div>` : ''}
-      ${isVisible('mcdDate') ? `<div class="info-label">${getLabel('mcdDate', 'MCD Date')}:</div><div>${sample.mcdDate ? new Date(sample.mcdDate).toLocaleDateString() : 'N/A'}</div>` : ''}
-      ${isVisible('releaseDate') ? `<div class="info-label">${getLabel('releaseDate', 'Release Date')}:</div><div>${sample.releaseDate ? new Date(sample.releaseDate).toLocaleDateString() : 'N/A'}</div>` : ''}
-      ${isVisible('rmSupplier') ? `<div class="info-label">${getLabel('rmSupplier', 'RM Supplier')}:</div><div>${sample.rmSupplier || 'N/A'}</div>` : ''}
-      ${isVisible('temperatureOnReceiptC') ? `<div class="info-label">${getLabel('temperatureOnReceiptC', 'Temperature on Receipt')}:</div><div>${sample.temperatureOnReceiptC ? sample.temperatureOnReceiptC + '°C' : 'N/A'}</div>` : ''}
-      ${isVisible('storageConditions') ? `<div class="info-label">${getLabel('storageConditions', 'Storage Conditions')}:</div><div>${sample.storageConditions || 'N/A'}</div>` : ''}
-      ${isVisible('comments') && sample.comments ? `<div class="info-label">${getLabel('comments', 'Comments')}:</div><div>${sample.comments}</div>` : ''}
-    </div>
-    ${statusFlagsHTML}
-  </div>
-
-  <div class="section">
-    <h2>${getLabel('testResults', 'Test Results')}</h2>
-    <table>
-      <thead>
-        <tr>
-          ${tableHeaders}
-        </tr>
-      </thead>
-      <tbody>
-        ${testsTableRows}
-      </tbody>
-    </table>
-  </div>
-
-  <div class="signatures">
-    <div class="signature">
-      <div class="signature-line">Prepared By</div>
-      <div>${reportMetadata.generatedBy}</div>
-      <div>${new Date(reportMetadata.generatedAt).toLocaleDateString()}</div>
-    </div>
-    <div class="signature">
-      <div class="signature-line">Reviewed By</div>
-      <div>&nbsp;</div>
-      <div>Date: _______________</div>
-    </div>
-  </div>
+  ${bodyHTML}
 
   <div class="footer">
     <div class="disclaimer">
@@ -531,3 +760,15 @@ export function renderCOATemplate(dataSnapshot: COADataSnapshot): string {
 </html>
     `.trim();
 }
+
+/**
+ * Escape text for HTML output; censored results such as <LOQ would
+ * otherwise be parsed as tags
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
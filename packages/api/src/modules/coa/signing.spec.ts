@@ -0,0 +1,200 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import forge from 'node-forge';
+import { PDFDocument } from 'pdf-lib';
+import { COASigningService, sha256Hex } from './signing';
+
+/**
+ * Self-signed lab certificate as a PKCS#12 file
+ */
+function createLabCertificate(passphrase: string): string {
+  const keys = forge.pki.rsa.generateKeyPair(1024);
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date();
+  cert.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const name = [{ name: 'commonName', value: 'Test Lab COA Signing' }];
+  cert.setSubject(name);
+  cert.setIssuer(name);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [cert], passphrase, {
+    algorithm: '3des',
+  });
+  const path = join(mkdtempSync(join(tmpdir(), 'coa-signing-')), 'lab.p12');
+  writeFileSync(path, Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary'));
+  return path;
+}
+
+describe('COASigningService', () => {
+  const reportId = '6f1c2a4e-8b0d-4c3e-9a7f-1d2e3f4a5b6c';
+  let certPath: string;
+  let renderedPdf: Buffer;
+
+  const createService = (env: Record<string, string>) => {
+    const service = new COASigningService({
+      get: (key: string, defaultValue?: string) => env[key] ?? defaultValue,
+    } as any);
+    service.onModuleInit();
+    return service;
+  };
+
+  beforeAll(async () => {
+    certPath = createLabCertificate('secret');
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage().drawText('Certificate of Analysis');
+    pdfDoc.addPage();
+    renderedPdf = Buffer.from(await pdfDoc.save());
+  });
+
+  it('should sign the PDF as PAdES with the lab certificate', async () => {
+    const service = createService({
+      COA_SIGNING_CERT_PATH: certPath,
+      COA_SIGNING_CERT_PASSPHRASE: 'secret',
+    });
+
+    const result = await service.signPdf(
+      renderedPdf,
+      reportId,
+      'Certificate of Analysis SAMPLE-001 v1',
+    );
+    const pdf = result.pdf.toString('latin1');
+
+    expect(result.signed).toBe(true);
+    expect(result.sha256).toBe(sha256Hex(result.pdf));
+    expect(pdf).toContain('/SubFilter /ETSI.CAdES.detached');
+    expect(pdf).toContain('/Name (Test Lab COA Signing)');
+
+    // The signature covers the whole file except its own contents
+    const [start, length, offset, rest] =
+      /\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/.exec(pdf)!.slice(1).map(Number);
+    expect(start).toBe(0);
+    expect(offset + rest).toBe(result.pdf.length);
+
+    const contents = pdf.slice(start + length + 1, offset - 1);
+    const cms = forge.asn1.fromDer(
+      forge.util.hexToBytes(contents.replace(/(00)+$/, '')),
+    );
+    const signedData = forge.pkcs7.messageFromAsn1(
+      cms,
+    ) as forge.pkcs7.PkcsSignedData & {
+      rawCapture: { authenticatedAttributes: forge.asn1.Asn1[] };
+    };
+    const signedAttributes = signedData.rawCapture.authenticatedAttributes.map(
+      (attribute: forge.asn1.Asn1) =>
+        forge.asn1.derToOid(
+          (attribute.value[0] as forge.asn1.Asn1).value as string,
+        ),
+    );
+    expect(signedAttributes).toEqual(
+      expect.arrayContaining([
+        forge.pki.oids.contentType,
+        forge.pki.oids.messageDigest,
+        '1.2.840.113549.1.9.16.2.47', // signing-certificate-v2
+      ]),
+    );
+    expect(signedAttributes).not.toContain(forge.pki.oids.signingTime);
+  });
+
+  it('should sign the digest of the byte range with the certificate key', async () => {
+    const service = createService({
+      COA_SIGNING_CERT_PATH: certPath,
+      COA_SIGNING_CERT_PASSPHRASE: 'secret',
+    });
+
+    const result = await service.signPdf(renderedPdf, reportId, 'COA');
+    const pdf = result.pdf.toString('latin1');
+
+    const [start, length, offset, rest] =
+      /\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/.exec(pdf)!.slice(1).map(Number);
+    const signedBytes = Buffer.concat([
+      result.pdf.subarray(start, start + length),
+      result.pdf.subarray(offset, offset + rest),
+    ]);
+    const contents = pdf.slice(start + length + 1, offset - 1);
+    const signedData = forge.pkcs7.messageFromAsn1(
+      forge.asn1.fromDer(forge.util.hexToBytes(contents.replace(/(00)+$/, ''))),
+    ) as forge.pkcs7.PkcsSignedData & {
+      rawCapture: {
+        authenticatedAttributes: forge.asn1.Asn1[];
+        signature: string;
+      };
+    };
+    const { authenticatedAttributes, signature } = signedData.rawCapture;
+
+    // messageDigest is the SHA-256 of exactly the bytes the range covers
+    const messageDigest = authenticatedAttributes.find(
+      (attribute) =>
+        forge.asn1.derToOid(
+          (attribute.value[0] as forge.asn1.Asn1).value as string,
+        ) === forge.pki.oids.messageDigest,
+    )!;
+    const [digestValue] = (messageDigest.value[1] as forge.asn1.Asn1)
+      .value as forge.asn1.Asn1[];
+    expect(forge.util.bytesToHex(digestValue.value as string)).toBe(
+      sha256Hex(signedBytes),
+    );
+
+    // The RSA signature over the DER of the signed attributes verifies
+    // against the certificate's public key
+    const [certificate] = signedData.certificates;
+    const attributesDigest = forge.md.sha256
+      .create()
+      .update(
+        forge.asn1
+          .toDer(
+            forge.asn1.create(
+              forge.asn1.Class.UNIVERSAL,
+              forge.asn1.Type.SET,
+              true,
+              authenticatedAttributes,
+            ),
+          )
+          .getBytes(),
+      );
+    expect(certificate.subject.attributes).toContainEqual(
+      expect.objectContaining({
+        shortName: 'CN',
+        value: 'Test Lab COA Signing',
+      }),
+    );
+    expect(
+      (certificate.publicKey as forge.pki.rsa.PublicKey).verify(
+        attributesDigest.digest().getBytes(),
+        signature,
+      ),
+    ).toBe(true);
+  });
+
+  it('should stamp the verification QR code on every page', async () => {
+    const service = createService({ WEB_URL: 'https://lims.example.com/' });
+
+    const result = await service.signPdf(renderedPdf, reportId, 'COA');
+    const pdfDoc = await PDFDocument.load(result.pdf);
+
+    expect(service.verificationUrl(reportId)).toBe(
+      `https://lims.example.com/verify/coa/${reportId}`,
+    );
+    expect(pdfDoc.getPageCount()).toBe(2);
+    expect(result.pdf.length).toBeGreaterThan(renderedPdf.length);
+    expect(result.signed).toBe(false);
+    expect(result.sha256).toBe(sha256Hex(result.pdf));
+  });
+
+  it('should refuse to start in production without a certificate', () => {
+    expect(() => createService({ NODE_ENV: 'production' })).toThrow(
+      'COA_SIGNING_CERT_PATH',
+    );
+  });
+
+  it('should reject a wrong passphrase', () => {
+    expect(() =>
+      createService({
+        COA_SIGNING_CERT_PATH: certPath,
+        COA_SIGNING_CERT_PASSPHRASE: 'wrong',
+      }),
+    ).toThrow();
+  });
+});
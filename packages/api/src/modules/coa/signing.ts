@@ -0,0 +1,142 @@
+/**
+ * COA Signing Module
+ * Stamps the verification QR code on a rendered COA PDF, signs it with the lab
+ * certificate (PAdES) and returns it with its SHA-256
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { pdflibAddPlaceholder } from '@signpdf/placeholder-pdf-lib';
+import signpdf from '@signpdf/signpdf';
+import { SUBFILTER_ETSI_CADES_DETACHED } from '@signpdf/utils';
+import * as QRCode from 'qrcode';
+import { PAdESSigner } from './pades-signer';
+
+export interface SignedCOAPdf {
+  pdf: Buffer;
+  sha256: string; // Hex digest of the signed file
+  signed: boolean; // False when no signing certificate is configured
+}
+
+// Room for the CMS signature with a certificate chain, in bytes
+const SIGNATURE_LENGTH = 16384;
+
+/**
+ * SHA-256 of a file as lowercase hex, as stored on COAReport.pdfSha256
+ */
+export function sha256Hex(file: Buffer): string {
+  return createHash('sha256').update(file).digest('hex');
+}
+
+@Injectable()
+export class COASigningService implements OnModuleInit {
+  private readonly logger = new Logger(COASigningService.name);
+  private signer: PAdESSigner | null = null;
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Load the lab certificate. Production refuses to start without one, so
+   * that no FINAL COA is issued unsigned.
+   */
+  onModuleInit() {
+    const certPath = this.configService.get<string>('COA_SIGNING_CERT_PATH');
+    if (!certPath) {
+      if (this.configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error(
+          'COA_SIGNING_CERT_PATH must be set in production: FINAL COAs are signed with the lab certificate',
+        );
+      }
+      this.logger.warn(
+        'COA_SIGNING_CERT_PATH is not set; COA PDFs are issued unsigned',
+      );
+      return;
+    }
+
+    this.signer = new PAdESSigner(
+      readFileSync(certPath),
+      this.configService.get<string>('COA_SIGNING_CERT_PASSPHRASE', ''),
+    );
+    this.logger.log(
+      `COA PDFs are signed as '${this.signer.signerName}' (certificate valid until ${this.signer.validTo.toISOString()})`,
+    );
+  }
+
+  /**
+   * Public page where a COA can be checked, printed as the QR code
+   */
+  verificationUrl(reportId: string): string {
+    const trim = (url: string) => url.replace(/\/+$/, '');
+    const base =
+      this.configService.get<string>('COA_VERIFY_URL') ||
+      `${trim(this.configService.get<string>('WEB_URL', 'http://localhost:3002'))}/verify/coa`;
+    return `${trim(base)}/${reportId}`;
+  }
+
+  /**
+   * Stamp the verification QR code on every page and sign the PDF
+   * @param pdf PDF as rendered from the htmlSnapshot
+   * @param reason Shown as the signature's reason in PDF readers
+   */
+  async signPdf(
+    pdf: Buffer,
+    reportId: string,
+    reason: string,
+  ): Promise<SignedCOAPdf> {
+    const pdfDoc = await PDFDocument.load(pdf);
+    await this.stampVerificationCode(pdfDoc, this.verificationUrl(reportId));
+
+    if (!this.signer) {
+      const unsigned = Buffer.from(await pdfDoc.save());
+      return { pdf: unsigned, sha256: sha256Hex(unsigned), signed: false };
+    }
+
+    const signingTime = new Date();
+    pdflibAddPlaceholder({
+      pdfDoc,
+      reason,
+      contactInfo: '',
+      name: this.signer.signerName,
+      location: '',
+      signingTime,
+      signatureLength: SIGNATURE_LENGTH,
+      subFilter: SUBFILTER_ETSI_CADES_DETACHED,
+    });
+    const signed = await signpdf.sign(
+      Buffer.from(await pdfDoc.save({ useObjectStreams: false })),
+      this.signer,
+      signingTime,
+    );
+
+    return { pdf: signed, sha256: sha256Hex(signed), signed: true };
+  }
+
+  /**
+   * Draw the QR code and URL in the bottom margin, right-aligned
+   */
+  private async stampVerificationCode(pdfDoc: PDFDocument, url: string) {
+    const qrCode = await pdfDoc.embedPng(
+      await QRCode.toBuffer(url, { type: 'png', margin: 0, width: 240 }),
+    );
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const size = 42;
+    const fontSize = 6;
+    const label = `Verify this certificate: ${url}`;
+
+    for (const page of pdfDoc.getPages()) {
+      const { width } = page.getSize();
+      const x = width - 42 - size;
+      page.drawImage(qrCode, { x, y: 8, width: size, height: size });
+      page.drawText(label, {
+        x: x - 6 - font.widthOfTextAtSize(label, fontSize),
+        y: 10,
+        size: fontSize,
+        font,
+        color: rgb(0.4, 0.4, 0.4),
+      });
+    }
+  }
+}
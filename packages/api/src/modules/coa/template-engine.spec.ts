@@ -0,0 +1,142 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  renderCustomCOATemplate,
+  validateCOATemplateSource,
+} from './template-engine';
+import type { COADataSnapshot } from './renderer';
+
+describe('COA template engine', () => {
+  const snapshot = {
+    sample: {
+      sampleCode: 'S-001 <A&B>',
+      dateReceived: new Date('2025-11-20T10:00:00Z'),
+      client: { name: 'Acme' },
+      statusFlags: { urgent: true, retest: false },
+    },
+    tests: [
+      { testName: 'Assay', reportedResult: '<LOQ', oos: false },
+      { testName: 'Water', reportedResult: '0.4', oos: true },
+    ],
+    reportMetadata: { version: 2 },
+  } as unknown as COADataSnapshot;
+
+  it('should fill placeholders, loops and conditionals with escaped values', () => {
+    const html = renderCustomCOATemplate(
+      `<h1>{{sample.sampleCode}} v{{reportMetadata.version}}</h1>
+      {{#if sample.statusFlags.urgent}}<p>URGENT</p>{{/if}}
+      {{#unless sample.statusFlags.retest}}<p>First test</p>{{/unless}}
+      <table>{{#each tests}}<tr><td>{{testName}}</td><td>{{reportedResult}}</td>{{#if oos}}<td>OOS</td>{{/if}}</tr>{{/each}}</table>`,
+      snapshot,
+    );
+
+    expect(html).toContain('<h1>S-001 &lt;A&amp;B&gt; v2</h1>');
+    expect(html).toContain('<p>URGENT</p>');
+    expect(html).toContain('<p>First test</p>');
+    expect(html).toContain('<td>Assay</td><td>&lt;LOQ</td></tr>');
+    expect(html).toContain('<td>Water</td><td>0.4</td><td>OOS</td>');
+  });
+
+  it('should list the amendment history with its summary lines', () => {
+    const html = renderCustomCOATemplate(
+      `{{#each reportMetadata.amendments}}<p>v{{version}}: {{reason}}</p><ul>{{#each summary}}<li>{{this}}</li>{{/each}}</ul>{{/each}}`,
+      {
+        ...snapshot,
+        reportMetadata: {
+          ...snapshot.reportMetadata,
+          amendments: [
+            {
+              version: 2,
+              reason: 'Result <LOQ> corrected',
+              summary: ['Assay (Chemistry) Result: 0.1 → <LOQ'],
+            },
+          ],
+        },
+      } as unknown as COADataSnapshot,
+    );
+
+    expect(html).toBe(
+      '<p>v2: Result &lt;LOQ&gt; corrected</p><ul><li>Assay (Chemistry) Result: 0.1 → &lt;LOQ</li></ul>',
+    );
+  });
+
+  it('should format dates, also after the snapshot was stored as JSON', () => {
+    const stored = JSON.parse(JSON.stringify(snapshot)) as COADataSnapshot;
+
+    expect(
+      renderCustomCOATemplate('{{formatDateTime sample.dateReceived}}', stored),
+    ).toBe('2025-11-20 10:00:00 UTC');
+    expect(
+      renderCustomCOATemplate('{{formatDate sample.dateDue}}', stored),
+    ).toBe('N/A');
+  });
+
+  it.each([
+    ['unescaped output', '{{{sample.sampleCode}}}'],
+    ['unescaped output with &', '{{& sample.sampleCode}}'],
+    ['script elements', '<script>alert(1)</script>'],
+    ['iframes', '<iframe src="https://example.com"></iframe>'],
+    ['event handlers', '<img src="logo.png" onerror="alert(1)">'],
+    ['script URLs', '<a href="javascript:alert(1)">x</a>'],
+    ['entity-encoded script URLs', '<a href="&#106;avascript:alert(1)">x</a>'],
+    ['external images', '<img src="http://169.254.169.254/latest">'],
+    ['forms', '<form action="https://example.com"><input></form>'],
+    ['partials', '{{> header}}'],
+    ['unknown helpers', '{{log sample}}'],
+    ['other block helpers', '{{#raw}}x{{/raw}}'],
+    ['syntax errors', '{{#each tests}}'],
+  ])('should reject %s', (_case, source) => {
+    expect(() => validateCOATemplateSource(source)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should remove script assembled around a placeholder', () => {
+    const html = renderCustomCOATemplate(
+      '<p>Result</p><scr{{missing}}ipt>alert(1)</script>',
+      snapshot,
+    );
+
+    expect(html).toBe('<p>Result</p>');
+  });
+
+  it('should remove script URLs and external resources from the rendered HTML', () => {
+    const html = renderCustomCOATemplate(
+      `<a href="{{link}}">Lab</a><img src="{{logo}}" alt="Logo"><img src="{{chart}}">
+      <p style="{{css}}">x</p>`,
+      {
+        ...snapshot,
+        link: ' javascript:alert(1)',
+        logo: 'data:image/png;base64,iVBORw0KGgo=',
+        chart: 'https://169.254.169.254/latest/meta-data',
+        css: 'background: url(https://example.com/track)',
+      } as unknown as COADataSnapshot,
+    );
+
+    expect(html).not.toContain('javascript');
+    expect(html).toContain('<a>Lab</a>');
+    expect(html).toContain(
+      '<img src="data:image/png;base64,iVBORw0KGgo=" alt="Logo" />',
+    );
+    expect(html).not.toContain('169.254.169.254');
+    expect(html).toContain('<p>x</p>');
+  });
+
+  it('should keep a full document with its styles, without imported CSS', () => {
+    const html = renderCustomCOATemplate(
+      `<!DOCTYPE html>
+<html><head><style>td { color: red; }</style><style>@import "https://example.com/a.css";</style></head>
+<body><table><tr><td class="oos">{{sample.sampleCode}}</td></tr></table></body></html>`,
+      snapshot,
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>\n<html><head><style>td/);
+    expect(html).not.toContain('@import');
+    expect(html).toContain('<td class="oos">S-001 &lt;A&amp;B&gt;</td>');
+  });
+
+  it('should not expose prototype properties', () => {
+    expect(
+      renderCustomCOATemplate('[{{sample.constructor.name}}]', snapshot),
+    ).toBe('[]');
+  });
+});
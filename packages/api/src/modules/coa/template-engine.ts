@@ -0,0 +1,265 @@
+/**
+ * COA Template Engine
+ * Renders lab-edited Handlebars templates against a dataSnapshot, sandboxed:
+ * values are always HTML-escaped, only the helpers below can be called, and
+ * the rendered HTML is cut down to an allowlist of elements and attributes
+ */
+
+import Handlebars from 'handlebars';
+import sanitizeHtml from 'sanitize-html';
+import { BadRequestException } from '@nestjs/common';
+import type { COADataSnapshot } from './renderer';
+
+// Block helpers built into Handlebars that templates may use
+const BLOCK_HELPERS = ['if', 'unless', 'each', 'with'];
+
+// Elements a COA layout may use; script, frames, forms, links to other
+// documents and the like are not among them
+const ALLOWED_TAGS = [
+  ...['html', 'head', 'title', 'style', 'body'],
+  ...['div', 'span', 'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+  ...['header', 'footer', 'section', 'main', 'article'],
+  ...['strong', 'b', 'em', 'i', 'u', 's', 'small', 'sub', 'sup', 'mark'],
+  ...['ul', 'ol', 'li', 'dl', 'dt', 'dd', 'blockquote', 'pre', 'code'],
+  ...['table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot'],
+  ...['tr', 'th', 'td', 'img', 'a'],
+];
+
+// CSS that fetches another resource; data: URLs are kept
+const EXTERNAL_CSS = /@import|url\(\s*['"]?\s*(?!data:)/i;
+
+// Links may point elsewhere; images must be embedded
+const LINK_SCHEMES = ['http', 'https', 'mailto'];
+const IMAGE_SCHEMES = ['data'];
+
+const COA_HTML: sanitizeHtml.IOptions = {
+  allowedTags: ALLOWED_TAGS,
+  // <style> is needed for layouts; its external resources are dropped below
+  allowVulnerableTags: true,
+  allowedAttributes: {
+    '*': ['class', 'id', 'style', 'title', 'align', 'valign', 'width'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan', 'scope'],
+    col: ['span'],
+    colgroup: ['span'],
+    ol: ['start', 'type'],
+    a: ['href', 'name'],
+    img: ['src', 'alt', 'height'],
+  },
+  // Entities are decoded before the scheme is checked
+  allowedSchemes: LINK_SCHEMES,
+  allowedSchemesByTag: { img: IMAGE_SCHEMES },
+  allowProtocolRelative: false,
+  exclusiveFilter: (frame) =>
+    frame.tag === 'style' && EXTERNAL_CSS.test(frame.text),
+  transformTags: {
+    '*': (tagName, attribs) => ({
+      tagName,
+      attribs: Object.fromEntries(
+        Object.entries(attribs).filter(
+          ([name, value]) => name !== 'style' || !EXTERNAL_CSS.test(value),
+        ),
+      ),
+    }),
+  },
+};
+
+const sandbox = Handlebars.create();
+
+const toDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Same formats as the built-in renderer
+sandbox.registerHelper('formatDate', (value: unknown) => {
+  const date = toDate(value);
+  return date ? date.toLocaleDateString() : 'N/A';
+});
+sandbox.registerHelper('formatDateTime', (value: unknown) => {
+  const date = toDate(value);
+  return date
+    ? `${date.toISOString().replace('T', ' ').slice(0, 19)} UTC`
+    : 'N/A';
+});
+sandbox.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+
+const HELPERS = ['formatDate', 'formatDateTime', 'eq'];
+
+type Call = hbs.AST.MustacheStatement | hbs.AST.SubExpression;
+
+/**
+ * Walk the template's syntax tree and reject what the sandbox does not allow
+ */
+function checkNode(node: hbs.AST.Node | undefined | null): void {
+  if (!node) return;
+  const line = node.loc ? ` (line ${node.loc.start.line})` : '';
+
+  switch (node.type) {
+    case 'Program':
+      (node as hbs.AST.Program).body.forEach(checkNode);
+      return;
+    case 'ContentStatement':
+      assertAllowedMarkup((node as hbs.AST.ContentStatement).value, line);
+      return;
+    case 'CommentStatement':
+      return;
+    case 'MustacheStatement':
+      if (!(node as hbs.AST.MustacheStatement).escaped) {
+        throw new BadRequestException(
+          `Unescaped output ({{{ }}} or {{& }}) is not allowed${line}`,
+        );
+      }
+      checkCall(node as Call, line);
+      return;
+    case 'BlockStatement': {
+      const block = node as hbs.AST.BlockStatement;
+      if (
+        block.path.type !== 'PathExpression' ||
+        !BLOCK_HELPERS.includes(block.path.original)
+      ) {
+        throw new BadRequestException(
+          `Only ${BLOCK_HELPERS.map((helper) => `#${helper}`).join(', ')} blocks are allowed${line}`,
+        );
+      }
+      block.params.forEach(checkNode);
+      checkNode(block.hash);
+      checkNode(block.program);
+      checkNode(block.inverse);
+      return;
+    }
+    case 'SubExpression':
+      checkCall(node as Call, line);
+      return;
+    case 'Hash':
+      (node as hbs.AST.Hash).pairs.forEach((pair) => checkNode(pair.value));
+      return;
+    case 'PartialStatement':
+    case 'PartialBlockStatement':
+      throw new BadRequestException(`Partials are not allowed${line}`);
+    case 'Decorator':
+    case 'DecoratorBlock':
+      throw new BadRequestException(`Decorators are not allowed${line}`);
+    default:
+      // Paths and literals
+      return;
+  }
+}
+
+/**
+ * A mustache with parameters calls a helper, which must be one of ours
+ */
+function checkCall(node: Call, line: string): void {
+  const path = node.path as hbs.AST.PathExpression;
+  const hasArguments = node.params.length > 0 || node.hash;
+  if (
+    hasArguments &&
+    (path.type !== 'PathExpression' || !HELPERS.includes(path.original))
+  ) {
+    throw new BadRequestException(
+      `Unknown helper '${path.original}'${line}; available helpers: ${HELPERS.join(', ')}`,
+    );
+  }
+  node.params.forEach(checkNode);
+  checkNode(node.hash);
+}
+
+/**
+ * Reject elements and event handlers the rendered COA would lose, so the
+ * author finds out when saving. Attribute values may still hold
+ * placeholders here; the rendered HTML is sanitized in any case.
+ */
+function assertAllowedMarkup(html: string, line: string): void {
+  const problems: string[] = [];
+  sanitizeHtml(html, {
+    ...COA_HTML,
+    onOpenTag: (name, attribs) => {
+      if (!ALLOWED_TAGS.includes(name)) {
+        problems.push(`<${name}> elements`);
+      }
+      const handler = Object.keys(attribs).find((attribute) =>
+        /^on/i.test(attribute),
+      );
+      if (handler) {
+        problems.push(`event handler attributes (${handler})`);
+      }
+      const url = attribs.href ?? attribs.src;
+      if (url !== undefined && !isAllowedUrl(name, url)) {
+        problems.push(`URLs such as '${url.slice(0, 60)}'`);
+      }
+    },
+  });
+
+  if (problems.length > 0) {
+    throw new BadRequestException(
+      `The template${line} contains ${problems[0]}, which are not allowed in a COA`,
+    );
+  }
+}
+
+/**
+ * Whether a (parsed, so entity-decoded) URL has no scheme or an allowed one
+ */
+function isAllowedUrl(tagName: string, url: string): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const compact = [...url].filter((char) => char.charCodeAt(0) > 0x20);
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact.join(''));
+  if (!scheme) return !url.trim().startsWith('//');
+
+  const schemes = tagName === 'img' ? IMAGE_SCHEMES : LINK_SCHEMES;
+  return schemes.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Parse and check a template, e.g. before it is saved
+ * @throws BadRequestException with the line of the first problem
+ */
+export function validateCOATemplateSource(
+  source: string,
+): HandlebarsTemplateDelegate {
+  let program: hbs.AST.Program;
+  try {
+    program = sandbox.parse(source);
+  } catch (error) {
+    throw new BadRequestException(
+      `Template syntax error: ${(error as Error).message}`,
+    );
+  }
+  checkNode(program);
+
+  return sandbox.compile(source, {
+    knownHelpers: Object.fromEntries(HELPERS.map((helper) => [helper, true])),
+    knownHelpersOnly: true,
+  });
+}
+
+/**
+ * Renders a COA data snapshot with a lab-edited template
+ * The rendered HTML is sanitized, since placeholders between pieces of
+ * markup could complete a tag or URL the source check did not see
+ * @returns HTML string ready for PDF conversion
+ */
+export function renderCustomCOATemplate(
+  source: string,
+  dataSnapshot: COADataSnapshot,
+): string {
+  const template = validateCOATemplateSource(source);
+
+  let html: string;
+  try {
+    html = template(dataSnapshot, {
+      allowProtoPropertiesByDefault: false,
+      allowProtoMethodsByDefault: false,
+    });
+  } catch (error) {
+    throw new BadRequestException(
+      `Template error: ${(error as Error).message}`,
+    );
+  }
+
+  const sanitized = sanitizeHtml(html, COA_HTML);
+  return /^\s*<!DOCTYPE html>/i.test(html)
+    ? `<!DOCTYPE html>\n${sanitized.trimStart()}`
+    : sanitized;
+}
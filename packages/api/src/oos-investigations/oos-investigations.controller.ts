@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OOSInvestigationsService } from './oos-investigations.service';
+import type {
+  UpdateOOSInvestigationDto,
+  CompletePhaseIDto,
+  CloseOOSInvestigationDto,
+} from './oos-investigations.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role, OOSInvestigationStatus } from '@prisma/client';
+import type { Request } from 'express';
+
+@ApiTags('oos-investigations')
+@ApiBearerAuth()
+@Controller('oos-investigations')
+export class OOSInvestigationsController {
+  constructor(private oosInvestigationsService: OOSInvestigationsService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({ summary: 'List OOS investigations' })
+  @ApiResponse({
+    status: 200,
+    description: 'OOS investigations retrieved successfully',
+  })
+  async listInvestigations(
+    @Query('sampleId') sampleId?: string,
+    @Query('testAssignmentId') testAssignmentId?: string,
+    @Query('status') status?: OOSInvestigationStatus,
+    @Query('open') open?: string,
+    @Query('page') page?: string,
+    @Query('perPage') perPage?: string,
+  ) {
+    return this.oosInvestigationsService.listInvestigations({
+      sampleId,
+      testAssignmentId,
+      status,
+      open: open === 'true',
+      page: page ? parseInt(page, 10) : undefined,
+      perPage: perPage ? parseInt(perPage, 10) : undefined,
+    });
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({ summary: 'Get OOS investigation by ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'OOS investigation retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'OOS investigation not found' })
+  async getInvestigation(@Param('id') id: string) {
+    return this.oosInvestigationsService.getInvestigation(id);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({ summary: 'Record findings on an open OOS investigation' })
+  @ApiResponse({
+    status: 200,
+    description: 'OOS investigation updated successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Investigation is closed' })
+  @ApiResponse({ status: 404, description: 'OOS investigation not found' })
+  async updateInvestigation(
+    @Param('id') id: string,
+    @Body() dto: UpdateOOSInvestigationDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.oosInvestigationsService.updateInvestigation(id, dto, context);
+  }
+
+  @Post(':id/complete-phase-i')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({
+    summary:
+      'Complete Phase I: a lab error closes the investigation, otherwise it escalates to Phase II',
+  })
+  @ApiResponse({ status: 200, description: 'Phase I completed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid Phase I outcome' })
+  @ApiResponse({ status: 404, description: 'OOS investigation not found' })
+  async completePhaseI(
+    @Param('id') id: string,
+    @Body() dto: CompletePhaseIDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.oosInvestigationsService.completePhaseI(id, dto, context);
+  }
+
+  @Post(':id/close')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({ summary: 'Close a Phase II OOS investigation' })
+  @ApiResponse({
+    status: 200,
+    description: 'OOS investigation closed successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid conclusion' })
+  @ApiResponse({ status: 404, description: 'OOS investigation not found' })
+  async closeInvestigation(
+    @Param('id') id: string,
+    @Body() dto: CloseOOSInvestigationDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.oosInvestigationsService.closeInvestigation(id, dto, context);
+  }
+}
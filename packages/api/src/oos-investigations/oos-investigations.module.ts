@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { OOSInvestigationsService } from './oos-investigations.service';
+import { OOSInvestigationsController } from './oos-investigations.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [PrismaModule, AuditModule],
+  providers: [OOSInvestigationsService],
+  controllers: [OOSInvestigationsController],
+  exports: [OOSInvestigationsService],
+})
+export class OOSInvestigationsModule {}
@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { OOSConclusion, OOSInvestigationStatus } from '@prisma/client';
+import { OOSInvestigationsService } from './oos-investigations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('OOSInvestigationsService', () => {
+  let service: OOSInvestigationsService;
+
+  const mockPrismaService = {
+    oOSInvestigation: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  // Runs the writes against the mocked client, as the transaction would
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'test@example.com',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OOSInvestigationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OOSInvestigationsService>(OOSInvestigationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('openInvestigation', () => {
+    it('should open a Phase I investigation for the test and its sample', async () => {
+      mockPrismaService.oOSInvestigation.findFirst.mockResolvedValue(null);
+      mockPrismaService.oOSInvestigation.create.mockResolvedValue({
+        id: 'oos-1',
+      });
+
+      await service.openInvestigation(
+        { id: 'ta-123', sampleId: 'sample-123' },
+        context,
+      );
+
+      expect(mockPrismaService.oOSInvestigation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          testAssignmentId: 'ta-123',
+          sampleId: 'sample-123',
+          status: OOSInvestigationStatus.PHASE_I,
+        }),
+      });
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+      );
+    });
+
+    it('should reuse an investigation that is still open', async () => {
+      const open = { id: 'oos-1', status: OOSInvestigationStatus.PHASE_II };
+      mockPrismaService.oOSInvestigation.findFirst.mockResolvedValue(open);
+
+      const investigation = await service.openInvestigation(
+        { id: 'ta-123', sampleId: 'sample-123' },
+        context,
+      );
+
+      expect(investigation).toBe(open);
+      expect(mockPrismaService.oOSInvestigation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertNoOpenInvestigation', () => {
+    it('should throw while the sample has an open investigation', async () => {
+      mockPrismaService.oOSInvestigation.findMany.mockResolvedValue([
+        { id: 'oos-1' },
+      ]);
+
+      await expect(
+        service.assertNoOpenInvestigation('sample-123'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should pass when every investigation is closed', async () => {
+      mockPrismaService.oOSInvestigation.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.assertNoOpenInvestigation('sample-123'),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should lock the sample before looking for open investigations', async () => {
+      mockPrismaService.oOSInvestigation.findMany.mockResolvedValue([]);
+
+      await service.assertNoOpenInvestigation('sample-123');
+
+      const [sql, sampleId] = mockPrismaService.$queryRaw.mock.calls[0] as [
+        TemplateStringsArray,
+        string,
+      ];
+      expect(sql.join('?')).toContain('FROM "Sample"');
+      expect(sql.join('?')).toContain('FOR UPDATE');
+      expect(sampleId).toBe('sample-123');
+      expect(
+        mockPrismaService.$queryRaw.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockPrismaService.oOSInvestigation.findMany.mock.invocationCallOrder[0],
+      );
+    });
+  });
+
+  describe('assertNotInvalidated', () => {
+    it('should throw when the latest investigation invalidated the result', async () => {
+      mockPrismaService.oOSInvestigation.findFirst.mockResolvedValue({
+        id: 'oos-1',
+        conclusion: OOSConclusion.INVALIDATED,
+      });
+
+      await expect(service.assertNotInvalidated('ta-123')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.oOSInvestigation.findFirst).toHaveBeenCalledWith(
+        {
+          where: { testAssignmentId: 'ta-123' },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, conclusion: true },
+        },
+      );
+    });
+
+    it('should pass for a confirmed result or one never investigated', async () => {
+      mockPrismaService.oOSInvestigation.findFirst.mockResolvedValueOnce({
+        id: 'oos-1',
+        conclusion: OOSConclusion.CONFIRMED,
+      });
+      await expect(
+        service.assertNotInvalidated('ta-123'),
+      ).resolves.toBeUndefined();
+
+      mockPrismaService.oOSInvestigation.findFirst.mockResolvedValueOnce(null);
+      await expect(
+        service.assertNotInvalidated('ta-123'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('completePhaseI', () => {
+    beforeEach(() => {
+      mockPrismaService.oOSInvestigation.findUnique.mockResolvedValue({
+        id: 'oos-1',
+        status: OOSInvestigationStatus.PHASE_I,
+        rootCause: null,
+      });
+      mockPrismaService.oOSInvestigation.update.mockResolvedValue({
+        id: 'oos-1',
+      });
+    });
+
+    it('should invalidate the result and close when a lab error is found', async () => {
+      await service.completePhaseI(
+        'oos-1',
+        {
+          phaseIFindings: 'Wrong dilution used for the standard',
+          labErrorFound: true,
+          rootCause: 'Analyst error in standard preparation',
+        },
+        context,
+      );
+
+      const { data } =
+        mockPrismaService.oOSInvestigation.update.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({
+          status: OOSInvestigationStatus.CLOSED,
+          conclusion: OOSConclusion.INVALIDATED,
+          closedById: 'user-123',
+        }),
+      );
+      expect(mockAuditService.withContext).toHaveBeenCalled();
+    });
+
+    it('should escalate to Phase II when no lab error is found', async () => {
+      await service.completePhaseI(
+        'oos-1',
+        { phaseIFindings: 'No assignable cause', labErrorFound: false },
+        context,
+      );
+
+      const { data } =
+        mockPrismaService.oOSInvestigation.update.mock.calls[0][0];
+      expect(data.status).toBe(OOSInvestigationStatus.PHASE_II);
+      expect(data.conclusion).toBeUndefined();
+    });
+
+    it('should require a root cause when a lab error is found', async () => {
+      await expect(
+        service.completePhaseI(
+          'oos-1',
+          { phaseIFindings: 'Pipette out of calibration', labErrorFound: true },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.oOSInvestigation.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeInvestigation', () => {
+    it('should not close an investigation that is still in Phase I', async () => {
+      mockPrismaService.oOSInvestigation.findUnique.mockResolvedValue({
+        id: 'oos-1',
+        status: OOSInvestigationStatus.PHASE_I,
+      });
+
+      await expect(
+        service.closeInvestigation(
+          'oos-1',
+          {
+            phaseIIFindings: 'Batch record review',
+            conclusion: OOSConclusion.CONFIRMED,
+            rootCause: 'Raw material out of specification',
+          },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should record the conclusion, root cause and CAPA reference', async () => {
+      mockPrismaService.oOSInvestigation.findUnique.mockResolvedValue({
+        id: 'oos-1',
+        status: OOSInvestigationStatus.PHASE_II,
+        rootCause: null,
+      });
+      mockPrismaService.oOSInvestigation.update.mockResolvedValue({
+        id: 'oos-1',
+      });
+
+      await service.closeInvestigation(
+        'oos-1',
+        {
+          phaseIIFindings: 'Batch record review found a mixing deviation',
+          conclusion: OOSConclusion.CONFIRMED,
+          rootCause: 'Insufficient mixing time',
+          capaReference: 'CAPA-2025-014',
+        },
+        context,
+      );
+
+      const { data } =
+        mockPrismaService.oOSInvestigation.update.mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({
+          status: OOSInvestigationStatus.CLOSED,
+          conclusion: OOSConclusion.CONFIRMED,
+          rootCause: 'Insufficient mixing time',
+          capaReference: 'CAPA-2025-014',
+        }),
+      );
+    });
+
+    it('should require a root cause unless the conclusion is inconclusive', async () => {
+      mockPrismaService.oOSInvestigation.findUnique.mockResolvedValue({
+        id: 'oos-1',
+        status: OOSInvestigationStatus.PHASE_II,
+        rootCause: null,
+      });
+
+      await expect(
+        service.closeInvestigation(
+          'oos-1',
+          {
+            phaseIIFindings: 'Batch record review',
+            conclusion: OOSConclusion.CONFIRMED,
+          },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject changes to a closed investigation', async () => {
+      mockPrismaService.oOSInvestigation.findUnique.mockResolvedValue({
+        id: 'oos-1',
+        status: OOSInvestigationStatus.CLOSED,
+      });
+
+      await expect(
+        service.updateInvestigation(
+          'oos-1',
+          { capaReference: 'CAPA-2025-015' },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
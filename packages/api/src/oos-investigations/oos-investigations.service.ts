@@ -0,0 +1,379 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService, AuditContext } from '../audit/audit.service';
+import {
+  OOSConclusion,
+  OOSInvestigation,
+  OOSInvestigationStatus,
+  TestAssignment,
+} from '@prisma/client';
+
+export interface UpdateOOSInvestigationDto {
+  phaseIFindings?: string;
+  phaseIIFindings?: string;
+  rootCause?: string;
+  capaReference?: string;
+}
+
+export interface CompletePhaseIDto {
+  phaseIFindings: string;
+  labErrorFound: boolean;
+  rootCause?: string; // Required when a lab error is found
+  capaReference?: string;
+}
+
+export interface CloseOOSInvestigationDto {
+  phaseIIFindings: string;
+  conclusion: OOSConclusion;
+  rootCause?: string; // Required unless the conclusion is INCONCLUSIVE
+  capaReference?: string;
+  conclusionNotes?: string;
+}
+
+const OPEN_STATUSES = [
+  OOSInvestigationStatus.PHASE_I,
+  OOSInvestigationStatus.PHASE_II,
+];
+
+const INVESTIGATION_INCLUDE = {
+  testAssignment: {
+    select: {
+      id: true,
+      customTestName: true,
+      result: true,
+      reportedResult: true,
+      resultUnit: true,
+      testDefinition: { select: { id: true, name: true } },
+    },
+  },
+  sample: { select: { id: true, sampleCode: true } },
+  createdBy: { select: { id: true, email: true, name: true } },
+  updatedBy: { select: { id: true, email: true, name: true } },
+  closedBy: { select: { id: true, email: true, name: true } },
+};
+
+/**
+ * OOS investigations (FDA Guidance, Investigating OOS Test Results)
+ *
+ * Phase I checks for an assignable laboratory error. If one is found the
+ * OOS result is invalidated and the investigation closes; otherwise it
+ * escalates to a Phase II full-scale investigation. While an investigation
+ * is open, nothing on its sample can be released or reported, and an
+ * invalidated result is never released; a retest replaces it.
+ */
+@Injectable()
+export class OOSInvestigationsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Open an investigation for an OOS result
+   * AC: Every OOS result has an investigation; a test assignment has at
+   * most one open investigation at a time
+   */
+  async openInvestigation(
+    testAssignment: Pick<TestAssignment, 'id' | 'sampleId'>,
+    context: AuditContext,
+  ): Promise<OOSInvestigation> {
+    const existing = await this.prisma.oOSInvestigation.findFirst({
+      where: {
+        testAssignmentId: testAssignment.id,
+        status: { in: OPEN_STATUSES },
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const investigation = await this.auditService.withContext(context, (tx) =>
+      tx.oOSInvestigation.create({
+        data: {
+          testAssignmentId: testAssignment.id,
+          sampleId: testAssignment.sampleId,
+          status: OOSInvestigationStatus.PHASE_I,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+      }),
+    );
+
+    return investigation;
+  }
+
+  /**
+   * Refuse to proceed while the sample has an open investigation
+   * Used by test release, sample release and COA finalization, inside the
+   * transaction that writes. The sample's row lock holds off an investigation
+   * being opened, whose foreign key locks the same row, until that commits.
+   */
+  async assertNoOpenInvestigation(sampleId: string): Promise<void> {
+    await this.prisma
+      .$queryRaw`SELECT "id" FROM "Sample" WHERE "id" = ${sampleId}::uuid FOR UPDATE`;
+
+    const open = await this.prisma.oOSInvestigation.findMany({
+      where: { sampleId, status: { in: OPEN_STATUSES } },
+      select: { id: true },
+    });
+
+    if (open.length > 0) {
+      throw new BadRequestException(
+        `Sample has ${open.length} open OOS investigation(s) (${open
+          .map((investigation) => investigation.id)
+          .join(', ')}); close them before releasing or reporting`,
+      );
+    }
+  }
+
+  /**
+   * Refuse to release a result its latest investigation invalidated
+   * Used by test release; the retest attempt is released instead
+   */
+  async assertNotInvalidated(testAssignmentId: string): Promise<void> {
+    const latest = await this.prisma.oOSInvestigation.findFirst({
+      where: { testAssignmentId },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, conclusion: true },
+    });
+
+    if (latest?.conclusion === OOSConclusion.INVALIDATED) {
+      throw new BadRequestException(
+        `The result was invalidated by OOS investigation ${latest.id}; request a retest instead of releasing it`,
+      );
+    }
+  }
+
+  /**
+   * List investigations with filters
+   */
+  async listInvestigations(filters?: {
+    sampleId?: string;
+    testAssignmentId?: string;
+    status?: OOSInvestigationStatus;
+    open?: boolean;
+    page?: number;
+    perPage?: number;
+  }) {
+    const page = filters?.page || 1;
+    const perPage = filters?.perPage || 50;
+    const skip = (page - 1) * perPage;
+
+    const where: any = {};
+    if (filters?.sampleId) where.sampleId = filters.sampleId;
+    if (filters?.testAssignmentId) {
+      where.testAssignmentId = filters.testAssignmentId;
+    }
+    if (filters?.status) where.status = filters.status;
+    if (filters?.open) where.status = { in: OPEN_STATUSES };
+
+    const [investigations, total] = await Promise.all([
+      this.prisma.oOSInvestigation.findMany({
+        where,
+        include: INVESTIGATION_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: perPage,
+      }),
+      this.prisma.oOSInvestigation.count({ where }),
+    ]);
+
+    return {
+      data: investigations,
+      pagination: {
+        total,
+        page,
+        perPage,
+        totalPages: Math.ceil(total / perPage),
+      },
+    };
+  }
+
+  /**
+   * Get an investigation by ID
+   */
+  async getInvestigation(id: string) {
+    const investigation = await this.prisma.oOSInvestigation.findUnique({
+      where: { id },
+      include: INVESTIGATION_INCLUDE,
+    });
+
+    if (!investigation) {
+      throw new NotFoundException(`OOSInvestigation with ID '${id}' not found`);
+    }
+
+    return investigation;
+  }
+
+  /**
+   * Record findings, root cause or CAPA reference on an open investigation
+   */
+  async updateInvestigation(
+    id: string,
+    dto: UpdateOOSInvestigationDto,
+    context: AuditContext,
+  ): Promise<OOSInvestigation> {
+    const oldInvestigation = await this.findOpenInvestigation(id);
+
+    if (
+      dto.phaseIIFindings !== undefined &&
+      oldInvestigation.status !== OOSInvestigationStatus.PHASE_II
+    ) {
+      throw new BadRequestException(
+        'Phase II findings can only be recorded during Phase II',
+      );
+    }
+
+    const investigation = await this.auditService.withContext(context, (tx) =>
+      tx.oOSInvestigation.update({
+        where: { id },
+        data: {
+          phaseIFindings: dto.phaseIFindings,
+          phaseIIFindings: dto.phaseIIFindings,
+          rootCause: dto.rootCause,
+          capaReference: dto.capaReference,
+          updatedById: context.actorId,
+        },
+        include: INVESTIGATION_INCLUDE,
+      }),
+    );
+
+    return investigation;
+  }
+
+  /**
+   * Complete Phase I (laboratory investigation)
+   * A lab error invalidates the OOS result, which can then only be
+   * retested, and closes the investigation; without one the investigation
+   * escalates to Phase II
+   */
+  async completePhaseI(
+    id: string,
+    dto: CompletePhaseIDto,
+    context: AuditContext,
+  ): Promise<OOSInvestigation> {
+    const oldInvestigation = await this.findOpenInvestigation(id);
+
+    if (oldInvestigation.status !== OOSInvestigationStatus.PHASE_I) {
+      throw new BadRequestException('Phase I has already been completed');
+    }
+
+    if (!dto.phaseIFindings?.trim()) {
+      throw new BadRequestException('phaseIFindings is required');
+    }
+
+    if (typeof dto.labErrorFound !== 'boolean') {
+      throw new BadRequestException('labErrorFound is required');
+    }
+
+    const rootCause = dto.rootCause ?? oldInvestigation.rootCause;
+    if (dto.labErrorFound && !rootCause?.trim()) {
+      throw new BadRequestException(
+        'rootCause is required when a laboratory error is found',
+      );
+    }
+
+    const now = new Date();
+    const investigation = await this.auditService.withContext(context, (tx) =>
+      tx.oOSInvestigation.update({
+        where: { id },
+        data: {
+          phaseIFindings: dto.phaseIFindings,
+          labErrorFound: dto.labErrorFound,
+          phaseICompletedAt: now,
+          rootCause,
+          capaReference: dto.capaReference,
+          ...(dto.labErrorFound
+            ? {
+                status: OOSInvestigationStatus.CLOSED,
+                conclusion: OOSConclusion.INVALIDATED,
+                closedAt: now,
+                closedById: context.actorId,
+              }
+            : { status: OOSInvestigationStatus.PHASE_II }),
+          updatedById: context.actorId,
+        },
+        include: INVESTIGATION_INCLUDE,
+      }),
+    );
+
+    return investigation;
+  }
+
+  /**
+   * Close a Phase II (full-scale) investigation with its conclusion
+   */
+  async closeInvestigation(
+    id: string,
+    dto: CloseOOSInvestigationDto,
+    context: AuditContext,
+  ): Promise<OOSInvestigation> {
+    const oldInvestigation = await this.findOpenInvestigation(id);
+
+    if (oldInvestigation.status !== OOSInvestigationStatus.PHASE_II) {
+      throw new BadRequestException(
+        'Phase I must be completed before the investigation can be closed',
+      );
+    }
+
+    const phaseIIFindings =
+      dto.phaseIIFindings ?? oldInvestigation.phaseIIFindings;
+    if (!phaseIIFindings?.trim()) {
+      throw new BadRequestException('phaseIIFindings is required');
+    }
+
+    if (!Object.values(OOSConclusion).includes(dto.conclusion)) {
+      throw new BadRequestException(
+        `conclusion must be one of: ${Object.values(OOSConclusion).join(', ')}`,
+      );
+    }
+
+    const rootCause = dto.rootCause ?? oldInvestigation.rootCause;
+    if (dto.conclusion !== OOSConclusion.INCONCLUSIVE && !rootCause?.trim()) {
+      throw new BadRequestException(
+        `rootCause is required for a ${dto.conclusion} conclusion`,
+      );
+    }
+
+    const investigation = await this.auditService.withContext(context, (tx) =>
+      tx.oOSInvestigation.update({
+        where: { id },
+        data: {
+          phaseIIFindings,
+          rootCause,
+          capaReference: dto.capaReference,
+          conclusion: dto.conclusion,
+          conclusionNotes: dto.conclusionNotes,
+          status: OOSInvestigationStatus.CLOSED,
+          closedAt: new Date(),
+          closedById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: INVESTIGATION_INCLUDE,
+      }),
+    );
+
+    return investigation;
+  }
+
+  private async findOpenInvestigation(id: string) {
+    const investigation = await this.prisma.oOSInvestigation.findUnique({
+      where: { id },
+    });
+
+    if (!investigation) {
+      throw new NotFoundException(`OOSInvestigation with ID '${id}' not found`);
+    }
+
+    if (investigation.status === OOSInvestigationStatus.CLOSED) {
+      throw new BadRequestException('OOSInvestigation is already closed');
+    }
+
+    return investigation;
+  }
+}
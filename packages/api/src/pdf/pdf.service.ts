@@ -56,6 +56,7 @@ export class PdfService {
       format?: 'A4' | 'Letter';
       printBackground?: boolean;
       margin?: { top?: string; right?: string; bottom?: string; left?: string };
+      allowedOrigins?: string[]; // Added to PDF_ALLOWED_ORIGINS, e.g. the lab logo's
     },
   ): Promise<Buffer> {
     const browser = await this.getBrowser();
@@ -64,6 +65,26 @@ export class PdfService {
     try {
       page = await browser.newPage();
 
+      // Reports are static; lab-edited COA templates must not run script
+      await page.setJavaScriptEnabled(false);
+
+      // Nor fetch anything but embedded data and the allowed origins, so
+      // report HTML cannot reach internal services
+      const allowedOrigins = this.getAllowedOrigins(options?.allowedOrigins);
+      await page.setRequestInterception(true);
+      page.on('request', (request) => {
+        const url = request.url();
+        if (
+          /^(data|about):/.test(url) ||
+          allowedOrigins.includes(originOf(url))
+        ) {
+          void request.continue();
+        } else {
+          this.logger.warn(`Blocked request from PDF content: ${url}`);
+          void request.abort('blockedbyclient');
+        }
+      });
+
       // Set content with proper encoding
       await page.setContent(html, {
         waitUntil: 'networkidle0',
@@ -93,6 +114,18 @@ export class PdfService {
     }
   }
 
+  /**
+   * Origins PDF content may load resources from: those configured in
+   * PDF_ALLOWED_ORIGINS (comma-separated) and those of the given URLs
+   */
+  private getAllowedOrigins(urls: string[] = []): string[] {
+    return (this.configService.get<string>('PDF_ALLOWED_ORIGINS') ?? '')
+      .split(',')
+      .concat(urls)
+      .map((origin) => originOf(origin.trim()))
+      .filter((origin) => origin !== '');
+  }
+
   /**
    * Clean up browser connection
    */
@@ -103,3 +136,11 @@ export class PdfService {
     }
   }
 }
+
+function originOf(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,70 @@
+import { Controller, Get, Post, Body, Param, Req } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PortalService } from './portal.service';
+import type { SampleRequestDto } from './portal.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '@prisma/client';
+import type { Request } from 'express';
+
+/**
+ * Client portal endpoints. COA PDFs are downloaded with
+ * GET /coa/:id/download, which is scoped to the user's clients as well.
+ */
+@ApiTags('portal')
+@ApiBearerAuth()
+@Controller('portal')
+export class PortalController {
+  constructor(private portalService: PortalService) {}
+
+  @Get('overview')
+  @Roles(Role.CLIENT)
+  @ApiOperation({ summary: "List the client's jobs and samples with status" })
+  async getOverview() {
+    return this.portalService.getOverview();
+  }
+
+  @Get('samples/:id')
+  @Roles(Role.CLIENT)
+  @ApiOperation({
+    summary: 'Get released results and COA versions of a sample',
+  })
+  @ApiResponse({ status: 404, description: 'Sample not found' })
+  async getSample(@Param('id') id: string) {
+    return this.portalService.getSample(id);
+  }
+
+  @Get('test-packs')
+  @Roles(Role.CLIENT)
+  @ApiOperation({ summary: 'List test packs that can be requested' })
+  async listTestPacks() {
+    return this.portalService.listTestPacks();
+  }
+
+  @Post('sample-requests')
+  @Roles(Role.CLIENT)
+  @ApiOperation({ summary: 'Request a new job; arrives as a DRAFT job' })
+  @ApiResponse({ status: 201, description: 'Sample request submitted' })
+  @ApiResponse({ status: 403, description: 'Client not linked to the user' })
+  async createSampleRequest(
+    @Body() dto: SampleRequestDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.portalService.createSampleRequest(
+      dto,
+      user.clientIds ?? [],
+      context,
+    );
+  }
+}
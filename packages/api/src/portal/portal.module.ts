@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PortalService } from './portal.service';
+import { PortalController } from './portal.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [PrismaModule, AuditModule],
+  providers: [PortalService],
+  controllers: [PortalController],
+})
+export class PortalModule {}
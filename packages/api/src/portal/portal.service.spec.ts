@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PortalService } from './portal.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { COAReportStatus, JobStatus } from '@prisma/client';
+
+describe('PortalService', () => {
+  let service: PortalService;
+
+  const mockPrismaService = {
+    client: {
+      findMany: jest.fn(),
+    },
+    job: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    sample: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  // Runs the writes against the mocked client, as the transaction would
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const context = { actorId: 'user-1', actorEmail: 'client@example.com' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PortalService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+      ],
+    }).compile();
+
+    service = module.get<PortalService>(PortalService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getOverview', () => {
+    it('should summarise samples without staff-only fields', async () => {
+      mockPrismaService.client.findMany.mockResolvedValue([
+        { id: 'client-1', name: 'Acme' },
+      ]);
+      mockPrismaService.job.findMany.mockResolvedValue([
+        {
+          id: 'job-1',
+          jobNumber: 'JOB-001',
+          status: JobStatus.ACTIVE,
+          amountExTax: 1200,
+          client: { id: 'client-1', name: 'Acme' },
+          needByDate: null,
+          createdAt: new Date('2025-11-01'),
+          samples: [
+            {
+              id: 'sample-1',
+              sampleCode: 'S-001',
+              released: true,
+              releaseDate: new Date('2025-11-05'),
+              testAssignments: [{ id: 'ta-1' }, { id: 'ta-2' }],
+              coaReports: [{ id: 'coa-1' }],
+            },
+            {
+              id: 'sample-2',
+              sampleCode: 'S-002',
+              released: false,
+              releaseDate: null,
+              testAssignments: [],
+              coaReports: [],
+            },
+          ],
+        },
+      ]);
+
+      const { clients, jobs } = await service.getOverview();
+      const [job] = jobs;
+
+      expect(clients).toEqual([{ id: 'client-1', name: 'Acme' }]);
+      expect(job).not.toHaveProperty('amountExTax');
+      expect(job.samples[0]).toMatchObject({
+        status: 'RELEASED',
+        releasedTests: 2,
+        hasFinalCOA: true,
+      });
+      expect(job.samples[1]).toMatchObject({
+        status: 'IN_PROGRESS',
+        hasFinalCOA: false,
+      });
+    });
+  });
+
+  describe('getSample', () => {
+    it('should list results and mark superseded COA versions', async () => {
+      mockPrismaService.sample.findFirst.mockResolvedValue({
+        id: 'sample-1',
+        sampleCode: 'S-001',
+        released: true,
+        testAssignments: [
+          {
+            id: 'ta-1',
+            testDefinition: null,
+            customTestName: 'Moisture',
+            method: { code: 'M-1', name: 'Karl Fischer' },
+            result: '1.234',
+            reportedResult: '1.2',
+            resultUnit: null,
+            specification: { target: null, min: 0, max: 5, unit: '%' },
+            oos: false,
+            testDate: null,
+          },
+        ],
+        coaReports: [
+          { id: 'coa-2', version: 2, status: COAReportStatus.FINAL },
+          { id: 'coa-1', version: 1, status: COAReportStatus.SUPERSEDED },
+        ],
+      });
+
+      const sample = await service.getSample('sample-1');
+
+      expect(sample.results[0]).toMatchObject({
+        testName: 'Moisture',
+        result: '1.2',
+        unit: '%',
+      });
+      expect(sample.coaReports.map((r) => r.superseded)).toEqual([false, true]);
+    });
+
+    it('should throw NotFoundException for samples outside the scope', async () => {
+      mockPrismaService.sample.findFirst.mockResolvedValue(null);
+
+      await expect(service.getSample('other')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('createSampleRequest', () => {
+    beforeEach(() => {
+      mockPrismaService.job.create.mockImplementation(
+        ({ data }: { data: Record<string, unknown> }) => ({
+          id: 'job-1',
+          createdAt: new Date(),
+          ...data,
+        }),
+      );
+    });
+
+    it('should create a DRAFT job for the only linked client', async () => {
+      const result = await service.createSampleRequest(
+        { details: 'Two batches of tablets, assay', sampleCount: 2 },
+        ['client-1'],
+        context,
+      );
+
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+      );
+      const { data } = mockPrismaService.job.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        clientId: 'client-1',
+        status: JobStatus.DRAFT,
+        clientNotes: 'Samples: 2\nTwo batches of tablets, assay',
+        createdById: 'user-1',
+      });
+      expect(result.jobNumber).toMatch(/^REQ-\d{8}-[0-9A-F]{6}$/);
+    });
+
+    it('should require a client when the user has several', async () => {
+      await expect(
+        service.createSampleRequest(
+          { details: 'Tablets' },
+          ['client-1', 'client-2'],
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject clients the user is not linked to', async () => {
+      await expect(
+        service.createSampleRequest(
+          { clientId: 'client-3', details: 'Tablets' },
+          ['client-1'],
+          context,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.job.create).not.toHaveBeenCalled();
+    });
+
+    it('should require the request details', async () => {
+      await expect(
+        service.createSampleRequest({ details: '  ' }, ['client-1'], context),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { COAReportStatus, JobStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService, AuditContext } from '../audit/audit.service';
+
+export interface SampleRequestDto {
+  clientId?: string; // Required when the user is linked to several clients
+  details: string; // What is being sent and which tests are wanted
+  sampleCount?: number;
+  needByDate?: Date;
+  poNumber?: string;
+}
+
+export type PortalSampleStatus = 'IN_PROGRESS' | 'RELEASED';
+
+/**
+ * Client portal
+ *
+ * Read models shaped for CLIENT users, and the sample request form. The
+ * queries run under the client scope set by ClientScopeInterceptor, so they
+ * only ever see the user's own clients, released tests and issued COAs; the
+ * responses leave out staff-only fields such as pricing and analysts.
+ */
+@Injectable()
+export class PortalService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * The user's clients, and their jobs with samples and status, newest first
+   */
+  async getOverview() {
+    const clients = await this.prisma.client.findMany({
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true },
+    });
+
+    const jobs = await this.prisma.job.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        client: { select: { id: true, name: true } },
+        samples: {
+          orderBy: { sampleCode: 'asc' },
+          include: {
+            testAssignments: {
+              where: { reportable: true },
+              select: { id: true },
+            },
+            coaReports: {
+              where: { status: COAReportStatus.FINAL },
+              select: { id: true },
+            },
+          },
+        },
+      },
+    });
+
+    return {
+      clients,
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        jobNumber: job.jobNumber,
+        status: job.status,
+        client: job.client,
+        needByDate: job.needByDate,
+        createdAt: job.createdAt,
+        samples: job.samples.map((sample) => ({
+          id: sample.id,
+          sampleCode: sample.sampleCode,
+          sampleDescription: sample.sampleDescription,
+          sampleBatch: sample.sampleBatch,
+          dateReceived: sample.dateReceived,
+          dateDue: sample.dateDue,
+          status: sampleStatus(sample.released),
+          releaseDate: sample.releaseDate,
+          releasedTests: sample.testAssignments.length,
+          hasFinalCOA: sample.coaReports.length > 0,
+        })),
+      })),
+    };
+  }
+
+  /**
+   * A sample's released results and issued COA versions
+   * @throws NotFoundException if the sample is not one of the user's
+   */
+  async getSample(id: string) {
+    const sample = await this.prisma.sample.findFirst({
+      where: { id },
+      include: {
+        job: { select: { id: true, jobNumber: true } },
+        client: { select: { id: true, name: true } },
+        testAssignments: {
+          where: { reportable: true },
+          orderBy: { createdAt: 'asc' },
+          include: {
+            testDefinition: { select: { name: true } },
+            method: { select: { code: true, name: true } },
+            specification: {
+              select: { target: true, min: true, max: true, unit: true },
+            },
+          },
+        },
+        coaReports: { orderBy: { version: 'desc' } },
+      },
+    });
+
+    if (!sample) {
+      throw new NotFoundException(`Sample with ID '${id}' not found`);
+    }
+
+    return {
+      id: sample.id,
+      sampleCode: sample.sampleCode,
+      sampleDescription: sample.sampleDescription,
+      sampleBatch: sample.sampleBatch,
+      job: sample.job,
+      client: sample.client,
+      dateReceived: sample.dateReceived,
+      dateDue: sample.dateDue,
+      status: sampleStatus(sample.released),
+      releaseDate: sample.releaseDate,
+      results: sample.testAssignments.map((test) => ({
+        id: test.id,
+        testName: test.testDefinition?.name ?? test.customTestName,
+        method: test.method,
+        result: test.reportedResult ?? test.result,
+        unit: test.resultUnit ?? test.specification?.unit ?? null,
+        specification: test.specification,
+        oos: test.oos,
+        testDate: test.testDate,
+      })),
+      coaReports: sample.coaReports.map((report) => ({
+        id: report.id,
+        version: report.version,
+        status: report.status,
+        superseded: report.status === COAReportStatus.SUPERSEDED,
+        reportedAt: report.reportedAt,
+        amendmentReason: report.amendmentReason,
+      })),
+    };
+  }
+
+  /**
+   * Test packs a client can request when pre-registering samples
+   */
+  async listTestPacks() {
+    return this.prisma.testPack.findMany({
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true },
+    });
+  }
+
+  /**
+   * Submit a sample request. It arrives as a DRAFT job for reception staff,
+   * who add the samples once they are received.
+   * @throws ForbiddenException if the client is not one of the user's
+   */
+  async createSampleRequest(
+    dto: SampleRequestDto,
+    clientIds: string[],
+    context: AuditContext,
+  ) {
+    if (!dto.details?.trim()) {
+      throw new BadRequestException('Describe the samples being sent');
+    }
+
+    const clientId =
+      dto.clientId ?? (clientIds.length === 1 ? clientIds[0] : undefined);
+    if (!clientId) {
+      throw new BadRequestException('clientId is required');
+    }
+    if (!clientIds.includes(clientId)) {
+      throw new ForbiddenException(
+        'Sample requests can only be made for your own clients',
+      );
+    }
+
+    const lines = [dto.details.trim()];
+    if (dto.sampleCount) lines.unshift(`Samples: ${dto.sampleCount}`);
+
+    const job = await this.auditService.withContext(context, (tx) =>
+      tx.job.create({
+        data: {
+          jobNumber: requestJobNumber(),
+          clientId,
+          status: JobStatus.DRAFT,
+          needByDate: dto.needByDate && new Date(dto.needByDate),
+          poNumber: dto.poNumber,
+          clientNotes: lines.join('\n'),
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+      }),
+    );
+
+    return {
+      id: job.id,
+      jobNumber: job.jobNumber,
+      status: job.status,
+      createdAt: job.createdAt,
+    };
+  }
+}
+
+function sampleStatus(released: boolean): PortalSampleStatus {
+  return released ? 'RELEASED' : 'IN_PROGRESS';
+}
+
+// e.g. REQ-20251129-4F2A9C; reception renumbers the job if their scheme
+// differs
+function requestJobNumber(): string {
+  const day = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `REQ-${day}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
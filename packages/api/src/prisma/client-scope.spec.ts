@@ -0,0 +1,130 @@
+import { COAReportStatus, TestAssignmentStatus } from '@prisma/client';
+import { isScopedOperation, scopeArgs } from './client-scope';
+
+describe('client scope', () => {
+  const clientIds = ['client-1', 'client-2'];
+
+  describe('scopeArgs', () => {
+    it('should narrow samples to the linked clients', () => {
+      const args = scopeArgs(
+        'Sample',
+        { where: { jobId: 'job-1' }, take: 10 },
+        clientIds,
+      );
+
+      expect(args).toEqual({
+        where: {
+          jobId: 'job-1',
+          AND: [{ clientId: { in: clientIds }, deletedAt: null }],
+        },
+        take: 10,
+      });
+    });
+
+    it('should keep unique fields at the top level for findUnique', () => {
+      const args = scopeArgs(
+        'COAReport',
+        { where: { id: 'coa-1' } },
+        clientIds,
+      );
+
+      expect(args.where).toEqual({
+        id: 'coa-1',
+        AND: [
+          {
+            status: {
+              in: [COAReportStatus.FINAL, COAReportStatus.SUPERSEDED],
+            },
+            sample: { clientId: { in: clientIds }, deletedAt: null },
+          },
+        ],
+      });
+    });
+
+    it('should add to an existing AND rather than replace it', () => {
+      const args = scopeArgs(
+        'Job',
+        { where: { AND: [{ status: 'ACTIVE' }] } },
+        clientIds,
+      );
+
+      expect(args.where).toEqual({
+        AND: [
+          { status: 'ACTIVE' },
+          { clientId: { in: clientIds }, deletedAt: null },
+        ],
+      });
+    });
+
+    it('should scope queries without a where', () => {
+      expect(scopeArgs('Job', undefined, clientIds)).toEqual({
+        where: { clientId: { in: clientIds }, deletedAt: null },
+      });
+    });
+
+    it('should only show released tests and issued COAs in included relations', () => {
+      const args = scopeArgs(
+        'Sample',
+        {
+          where: { id: 'sample-1' },
+          include: {
+            client: true,
+            testAssignments: { include: { method: true } },
+            coaReports: { orderBy: { version: 'desc' } },
+            attachments: true,
+          },
+        },
+        clientIds,
+      );
+      const include = args.include as Record<string, any>;
+
+      expect(include.client).toBe(true);
+      expect(include.testAssignments.include).toEqual({ method: true });
+      expect(include.testAssignments.where.status).toBe(
+        TestAssignmentStatus.RELEASED,
+      );
+      expect(include.coaReports.orderBy).toEqual({ version: 'desc' });
+      expect(include.coaReports.where.status).toEqual({
+        in: [COAReportStatus.FINAL, COAReportStatus.SUPERSEDED],
+      });
+      expect(include.attachments.where.OR).toHaveLength(2);
+    });
+
+    it('should scope relations nested under a to-one relation and counts', () => {
+      const args = scopeArgs(
+        'TestAssignment',
+        {
+          include: {
+            sample: { include: { coaReports: true } },
+            _count: { select: { retests: true } },
+          },
+        },
+        clientIds,
+      );
+      const include = args.include as Record<string, any>;
+
+      expect(include.sample.include.coaReports.where.status.in).not.toContain(
+        COAReportStatus.DRAFT,
+      );
+      expect(include._count.select.retests.where.status).toBe(
+        TestAssignmentStatus.RELEASED,
+      );
+    });
+
+    it('should hide investigations entirely', () => {
+      expect(scopeArgs('OOSInvestigation', {}, clientIds).where).toEqual({
+        id: { in: [] },
+      });
+    });
+  });
+
+  describe('isScopedOperation', () => {
+    it('should scope reads, updates and deletes but not creates', () => {
+      expect(isScopedOperation('findMany')).toBe(true);
+      expect(isScopedOperation('findUnique')).toBe(true);
+      expect(isScopedOperation('count')).toBe(true);
+      expect(isScopedOperation('updateMany')).toBe(true);
+      expect(isScopedOperation('create')).toBe(false);
+    });
+  });
+});
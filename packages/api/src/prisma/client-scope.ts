@@ -0,0 +1,166 @@
+import { COAReportStatus, TestAssignmentStatus } from '@prisma/client';
+
+/**
+ * Client portal scoping
+ *
+ * While a CLIENT user's request is handled, PrismaService narrows every read
+ * of the models below to the clients the user is linked to (see
+ * PrismaService.withClientScope). The filters are added to the top-level
+ * `where` and to every to-many relation pulled in through `include`,
+ * `select` or `_count`, so a service cannot leak another client's data or
+ * unreleased results by forgetting a filter.
+ */
+
+type Args = Record<string, unknown>;
+
+// Filters per model for a user linked to `clientIds`
+const MODEL_SCOPES: Record<string, (clientIds: string[]) => Args> = {
+  Client: (clientIds) => ({ id: { in: clientIds }, deletedAt: null }),
+  Job: (clientIds) => ({ clientId: { in: clientIds }, deletedAt: null }),
+  Sample: (clientIds) => ({ clientId: { in: clientIds }, deletedAt: null }),
+  // Only released results are shown in the portal
+  TestAssignment: (clientIds) => ({
+    status: TestAssignmentStatus.RELEASED,
+    sample: { clientId: { in: clientIds }, deletedAt: null },
+  }),
+  // Issued COAs only: FINAL and the FINAL versions they superseded. Drafts
+  // stay internal.
+  COAReport: (clientIds) => ({
+    status: { in: [COAReportStatus.FINAL, COAReportStatus.SUPERSEDED] },
+    sample: { clientId: { in: clientIds }, deletedAt: null },
+  }),
+  // Sample attachments once the sample is released, test attachments once
+  // the test is released
+  Attachment: (clientIds) => ({
+    OR: [
+      {
+        testAssignmentId: null,
+        sample: {
+          clientId: { in: clientIds },
+          deletedAt: null,
+          released: true,
+        },
+      },
+      {
+        testAssignment: {
+          status: TestAssignmentStatus.RELEASED,
+          sample: { clientId: { in: clientIds }, deletedAt: null },
+        },
+      },
+    ],
+  }),
+  // Investigations are internal to the lab
+  OOSInvestigation: () => ({ id: { in: [] } }),
+  SampleSubmission: (clientIds) => ({ clientId: { in: clientIds } }),
+};
+
+// Delegate property on the client -> model
+export const SCOPED_DELEGATES: Record<string, string> = {
+  client: 'Client',
+  job: 'Job',
+  sample: 'Sample',
+  testAssignment: 'TestAssignment',
+  cOAReport: 'COAReport',
+  attachment: 'Attachment',
+  oOSInvestigation: 'OOSInvestigation',
+  sampleSubmission: 'SampleSubmission',
+};
+
+// To-many relation fields of the scoped models -> model
+const SCOPED_RELATIONS: Record<string, string> = {
+  jobs: 'Job',
+  samples: 'Sample',
+  testAssignments: 'TestAssignment',
+  retests: 'TestAssignment',
+  coaReports: 'COAReport',
+  attachments: 'Attachment',
+  oosInvestigations: 'OOSInvestigation',
+  sampleSubmissions: 'SampleSubmission',
+};
+
+// Operations whose `where` is narrowed. Creates are left to the services.
+const SCOPED_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+]);
+
+export function isScopedOperation(operation: string): boolean {
+  return SCOPED_OPERATIONS.has(operation);
+}
+
+/**
+ * Arguments of a query on `model`, narrowed to the given clients
+ */
+export function scopeArgs(
+  model: string,
+  args: Args | undefined,
+  clientIds: string[],
+): Args {
+  const scoped: Args = { ...args };
+  scoped.where = withScope(args?.where, MODEL_SCOPES[model](clientIds));
+  if (isArgs(args?.include)) {
+    scoped.include = scopeRelations(args.include, clientIds);
+  }
+  if (isArgs(args?.select)) {
+    scoped.select = scopeRelations(args.select, clientIds);
+  }
+  return scoped;
+}
+
+/**
+ * Narrow the to-many relations of an `include` or `select`, recursively
+ */
+function scopeRelations(fields: Args, clientIds: string[]): Args {
+  const scoped: Args = {};
+
+  for (const [field, value] of Object.entries(fields)) {
+    const model = SCOPED_RELATIONS[field];
+
+    if (field === '_count' && isArgs(value) && isArgs(value.select)) {
+      scoped[field] = {
+        ...value,
+        select: scopeRelations(value.select, clientIds),
+      };
+    } else if (model && value === true) {
+      scoped[field] = { where: MODEL_SCOPES[model](clientIds) };
+    } else if (model && isArgs(value)) {
+      scoped[field] = scopeArgs(model, value, clientIds);
+    } else if (isArgs(value)) {
+      // A to-one relation: its own to-many relations may still need scoping
+      scoped[field] = {
+        ...value,
+        ...(isArgs(value.include) && {
+          include: scopeRelations(value.include, clientIds),
+        }),
+        ...(isArgs(value.select) && {
+          select: scopeRelations(value.select, clientIds),
+        }),
+      };
+    } else {
+      scoped[field] = value;
+    }
+  }
+
+  return scoped;
+}
+
+// Keeps unique fields at the top level, as findUnique requires
+function withScope(where: unknown, scope: Args): Args {
+  if (!isArgs(where)) return scope;
+  const existing = ([] as unknown[]).concat(where.AND ?? []);
+  return { ...where, AND: [...existing, scope] };
+}
+
+function isArgs(value: unknown): value is Args {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
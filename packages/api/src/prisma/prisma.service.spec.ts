@@ -0,0 +1,278 @@
+import { PrismaService } from './prisma.service';
+
+// Stands in for the generated client so no query engine is loaded; the
+// transactions are replaced per test
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual<object>('@prisma/client'),
+  PrismaClient: class {
+    sample = { update: jest.fn(), findMany: jest.fn() };
+    $transaction = jest.fn();
+  },
+}));
+
+describe('PrismaService', () => {
+  let prisma: PrismaService;
+  let mockTx: {
+    $executeRaw: jest.Mock;
+    sample: { update: jest.Mock; findMany?: jest.Mock };
+  };
+
+  const settings = {
+    actorId: 'user-123',
+    actorEmail: 'analyst@example.com',
+    ip: '10.0.0.7',
+    userAgent: 'jest\'); DROP TABLE "AuditLog"; --',
+  };
+
+  // Values bound to the set_config() call of each $executeRaw
+  const boundValues = () =>
+    mockTx.$executeRaw.mock.calls.map((call: unknown[]) => call.slice(1));
+
+  beforeEach(() => {
+    prisma = new PrismaService();
+    mockTx = {
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      sample: { update: jest.fn().mockResolvedValue({ id: 'sample-1' }) },
+    };
+    jest
+      .spyOn(prisma, '$transaction')
+      .mockImplementation((fn: any) => fn(mockTx));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('withAuditContext', () => {
+    it('should set the audit settings in the transaction before running the writes', async () => {
+      const write = jest.fn().mockResolvedValue('done');
+
+      const result = await prisma.withAuditContext(settings, write);
+
+      expect(result).toBe('done');
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(write).toHaveBeenCalledWith(mockTx);
+      expect(mockTx.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        write.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should pass the settings as bound parameters', async () => {
+      await prisma.withAuditContext(
+        { ...settings, reason: 'Corrected transcription error' },
+        jest.fn(),
+      );
+
+      const [sql] = mockTx.$executeRaw.mock.calls[0] as [TemplateStringsArray];
+      expect(sql.join('?')).toContain("set_config('app.actor_id'");
+      expect(sql.join('?')).not.toContain('analyst@example.com');
+      expect(sql.join('?')).not.toContain('DROP TABLE');
+      expect(boundValues()[0]).toEqual([
+        'user-123',
+        'analyst@example.com',
+        '10.0.0.7',
+        settings.userAgent,
+        '',
+        'Corrected transcription error',
+      ]);
+    });
+
+    it('should clear optional settings left by an earlier transaction', async () => {
+      await prisma.withAuditContext(
+        { actorId: 'user-123', actorEmail: 'analyst@example.com' },
+        jest.fn(),
+      );
+
+      expect(boundValues()[0]).toEqual([
+        'user-123',
+        'analyst@example.com',
+        '',
+        '',
+        '',
+        '',
+      ]);
+    });
+
+    it('should route model writes made through the service into the transaction', async () => {
+      await prisma.withAuditContext(settings, () =>
+        prisma.sample.update({
+          where: { id: 'sample-1' },
+          data: { comments: 'Retested' },
+        }),
+      );
+
+      expect(mockTx.sample.update).toHaveBeenCalledWith({
+        where: { id: 'sample-1' },
+        data: { comments: 'Retested' },
+      });
+      expect(mockTx.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        mockTx.sample.update.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should not route queries made outside the transaction', async () => {
+      await prisma.withAuditContext(settings, jest.fn());
+
+      expect(prisma.sample).not.toBe(mockTx.sample);
+    });
+
+    it('should keep concurrent requests in their own transactions', async () => {
+      const otherTx = {
+        $executeRaw: jest.fn().mockResolvedValue(1),
+        sample: { update: jest.fn() },
+      };
+      jest
+        .spyOn(prisma, '$transaction')
+        .mockImplementationOnce((fn: any) => fn(mockTx))
+        .mockImplementationOnce((fn: any) => fn(otherTx));
+
+      await Promise.all([
+        prisma.withAuditContext(settings, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return prisma.sample.update({ where: { id: 'a' }, data: {} });
+        }),
+        prisma.withAuditContext(
+          { actorId: 'user-456', actorEmail: 'reviewer@example.com' },
+          () => prisma.sample.update({ where: { id: 'b' }, data: {} }),
+        ),
+      ]);
+
+      expect(mockTx.sample.update).toHaveBeenCalledWith({
+        where: { id: 'a' },
+        data: {},
+      });
+      expect(otherTx.sample.update).toHaveBeenCalledWith({
+        where: { id: 'b' },
+        data: {},
+      });
+    });
+
+    it('should reuse an open transaction and restore its settings afterwards', async () => {
+      await prisma.withAuditContext(settings, () =>
+        prisma.withAuditContext(
+          { ...settings, txId: undefined, reason: 'Reviewer request' },
+          jest.fn(),
+        ),
+      );
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(boundValues()).toEqual([
+        [
+          'user-123',
+          'analyst@example.com',
+          '10.0.0.7',
+          settings.userAgent,
+          '',
+          '',
+        ],
+        [
+          'user-123',
+          'analyst@example.com',
+          '10.0.0.7',
+          settings.userAgent,
+          '',
+          'Reviewer request',
+        ],
+        [
+          'user-123',
+          'analyst@example.com',
+          '10.0.0.7',
+          settings.userAgent,
+          '',
+          '',
+        ],
+      ]);
+    });
+
+    it('should propagate errors so the transaction rolls back', async () => {
+      const write = jest.fn().mockRejectedValue(new Error('constraint'));
+
+      await expect(prisma.withAuditContext(settings, write)).rejects.toThrow(
+        'constraint',
+      );
+    });
+  });
+
+  describe('withRequestAuditContext', () => {
+    it('should run each write in a transaction of its own with the request settings', async () => {
+      await prisma.withRequestAuditContext(settings, async () => {
+        await prisma.sample.update({ where: { id: 'a' }, data: {} });
+        await prisma.sample.update({ where: { id: 'b' }, data: {} });
+      });
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(mockTx.sample.update).toHaveBeenCalledTimes(2);
+      expect(boundValues()[1]).toEqual([
+        'user-123',
+        'analyst@example.com',
+        '10.0.0.7',
+        settings.userAgent,
+        '',
+        '',
+      ]);
+    });
+
+    it('should not open a transaction for reads', async () => {
+      await prisma.withRequestAuditContext(settings, async () =>
+        prisma.sample.findMany({ where: { jobId: 'job-1' } }),
+      );
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(prisma.sample.findMany).toHaveBeenCalledWith({
+        where: { jobId: 'job-1' },
+      });
+    });
+
+    it('should let writes join an open audit transaction', async () => {
+      await prisma.withRequestAuditContext(settings, () =>
+        prisma.withAuditContext(
+          { ...settings, reason: 'Reviewer request' },
+          async () => {
+            await prisma.sample.update({ where: { id: 'a' }, data: {} });
+            await prisma.sample.update({ where: { id: 'b' }, data: {} });
+          },
+        ),
+      );
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockTx.sample.update).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('withClientScope', () => {
+    it('should narrow reads to the linked clients', async () => {
+      await prisma.withClientScope(['client-1'], async () =>
+        prisma.sample.findMany({ where: { jobId: 'job-1' } }),
+      );
+
+      const [args] = (prisma.sample.findMany as unknown as jest.Mock).mock
+        .calls[0] as [Record<string, any>];
+      expect(args.where).toEqual({
+        jobId: 'job-1',
+        AND: [{ clientId: { in: ['client-1'] }, deletedAt: null }],
+      });
+    });
+
+    it('should narrow reads made inside an audit transaction', async () => {
+      mockTx.sample.findMany = jest.fn();
+
+      await prisma.withClientScope(['client-1'], () =>
+        prisma.withAuditContext(settings, async () =>
+          prisma.sample.findMany({}),
+        ),
+      );
+
+      expect(mockTx.sample.findMany).toHaveBeenCalledWith({
+        where: { clientId: { in: ['client-1'] }, deletedAt: null },
+      });
+    });
+
+    it('should leave queries outside the scope untouched', async () => {
+      await prisma.sample.findMany({ where: { jobId: 'job-1' } });
+
+      expect(prisma.sample.findMany).toHaveBeenCalledWith({
+        where: { jobId: 'job-1' },
+      });
+    });
+  });
+});
@@ -1,11 +1,129 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SCOPED_DELEGATES, isScopedOperation, scopeArgs } from './client-scope';
+
+/**
+ * Values the audit triggers read from transaction-local settings
+ * (see get_audit_context() in the audit migrations)
+ */
+export interface AuditSettings {
+  actorId: string;
+  actorEmail: string;
+  ip?: string;
+  userAgent?: string;
+  txId?: string;
+  reason?: string;
+}
+
+interface AuditTransaction {
+  tx: Prisma.TransactionClient;
+  settings: AuditSettings;
+}
+
+// Audit transactions wrap database writes only; PDFs are rendered and files
+// uploaded before they are opened, since the chain trigger's advisory lock
+// is held until commit and serializes every audited write
+const AUDIT_TRANSACTION_OPTIONS = { maxWait: 5_000, timeout: 10_000 };
+
+// Model delegate operations that write
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+// Model delegate properties on the client, e.g. COABatch -> cOABatch
+const MODEL_DELEGATES = new Set(
+  Object.values(Prisma.ModelName).map(
+    (model) => model.charAt(0).toLowerCase() + model.slice(1),
+  ),
+);
+
+// Client members that must keep acting on the root client
+const ROOT_CLIENT_MEMBERS = new Set([
+  '$transaction',
+  '$connect',
+  '$disconnect',
+  '$on',
+  '$extends',
+]);
+
+const auditTransaction = new AsyncLocalStorage<AuditTransaction>();
+
+// Actor of the current authenticated request
+const requestAuditSettings = new AsyncLocalStorage<AuditSettings>();
+
+// Clients whose data the current CLIENT user may see
+const clientScope = new AsyncLocalStorage<string[]>();
 
 @Injectable()
 export class PrismaService
   extends PrismaClient
   implements OnModuleInit, OnModuleDestroy
 {
+  constructor() {
+    super();
+
+    // Inside withAuditContext, model delegates and raw queries resolve to the
+    // open transaction, so services that write through `this.prisma` are
+    // attributed to the actor without passing the transaction around.
+    // Outside it, inside withRequestAuditContext, each model write runs in a
+    // transaction of its own with the request's actor.
+    // Inside withClientScope, the scoped model delegates are narrowed to the
+    // user's clients.
+    return new Proxy(this, {
+      get(target, property, receiver) {
+        const current = auditTransaction.getStore();
+        let value: unknown;
+        if (
+          current &&
+          typeof property === 'string' &&
+          !ROOT_CLIENT_MEMBERS.has(property) &&
+          property in current.tx
+        ) {
+          value = Reflect.get(current.tx, property);
+          if (typeof value === 'function') {
+            value = value.bind(current.tx) as unknown;
+          }
+        } else {
+          value = Reflect.get(target, property, receiver) as unknown;
+
+          const settings = requestAuditSettings.getStore();
+          if (
+            settings &&
+            typeof property === 'string' &&
+            MODEL_DELEGATES.has(property)
+          ) {
+            value = auditDelegate(value as object, property, (fn) =>
+              (receiver as PrismaService).withAuditContext(settings, fn),
+            );
+          }
+        }
+
+        const clientIds = clientScope.getStore();
+        if (
+          clientIds &&
+          typeof property === 'string' &&
+          Object.hasOwn(SCOPED_DELEGATES, property)
+        ) {
+          return scopeDelegate(
+            value as object,
+            SCOPED_DELEGATES[property],
+            clientIds,
+          );
+        }
+        return value;
+      },
+    });
+  }
+
   async onModuleInit() {
     await this.$connect();
   }
@@ -13,4 +131,156 @@ export class PrismaService
   async onModuleDestroy() {
     await this.$disconnect();
   }
+
+  /**
+   * Run `fn` in a transaction whose audit settings identify the actor
+   *
+   * The settings are passed to set_config() as bound parameters and are
+   * local to the transaction, so they reach the audit triggers of every
+   * write made in it and never leak to another request on the same pooled
+   * connection. When called inside an open audit transaction, the
+   * transaction is reused: the given settings (such as a reason) apply to
+   * the writes made by `fn` and the outer ones are restored afterwards.
+   */
+  async withAuditContext<T>(
+    settings: AuditSettings,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    const current = auditTransaction.getStore();
+
+    if (current) {
+      const merged: AuditSettings = {
+        actorId: settings.actorId,
+        actorEmail: settings.actorEmail,
+        ip: settings.ip ?? current.settings.ip,
+        userAgent: settings.userAgent ?? current.settings.userAgent,
+        txId: settings.txId ?? current.settings.txId,
+        reason: settings.reason ?? current.settings.reason,
+      };
+
+      await applyAuditSettings(current.tx, merged);
+      const result = await auditTransaction.run(
+        { tx: current.tx, settings: merged },
+        () => fn(current.tx),
+      );
+      await applyAuditSettings(current.tx, current.settings);
+      return result;
+    }
+
+    return this.$transaction(async (tx) => {
+      await applyAuditSettings(tx, settings);
+      return auditTransaction.run({ tx, settings }, () => fn(tx));
+    }, AUDIT_TRANSACTION_OPTIONS);
+  }
+
+  /**
+   * Run `fn` for an authenticated request, attributing its writes to the
+   * request's actor
+   *
+   * No transaction is opened for the request as a whole: each model write
+   * made outside withAuditContext runs in a short transaction of its own, so
+   * slow work in the handler never holds a connection or the audit chain
+   * lock.
+   */
+  async withRequestAuditContext<T>(
+    settings: AuditSettings,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return requestAuditSettings.run(settings, fn);
+  }
+
+  /**
+   * Run `fn` with every read of samples, jobs, tests, attachments and COAs
+   * narrowed to the given clients (see client-scope.ts). Used for CLIENT
+   * users; an empty list sees nothing.
+   */
+  async withClientScope<T>(
+    clientIds: string[],
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return clientScope.run(clientIds, fn);
+  }
+
+  /**
+   * Run `fn` outside any open audit transaction and client scope, for work
+   * that outlives the request that started it. Its writes commit on their
+   * own and are attributed with withAuditContext as usual.
+   */
+  async runDetached<T>(fn: () => Promise<T>): Promise<T> {
+    return auditTransaction.exit(() => clientScope.exit(fn));
+  }
+}
+
+/**
+ * A model delegate whose queries are narrowed to the given clients
+ */
+function scopeDelegate(
+  delegate: object,
+  model: string,
+  clientIds: string[],
+): object {
+  return new Proxy(delegate, {
+    get(target, operation) {
+      const method: unknown = Reflect.get(target, operation);
+      if (
+        typeof operation !== 'string' ||
+        typeof method !== 'function' ||
+        !isScopedOperation(operation)
+      ) {
+        return method;
+      }
+      return (args?: Record<string, unknown>): unknown =>
+        method.call(target, scopeArgs(model, args, clientIds));
+    },
+  });
+}
+
+/**
+ * A model delegate whose writes each run in an audit transaction
+ */
+function auditDelegate(
+  delegate: object,
+  property: string,
+  run: <T>(fn: (tx: Prisma.TransactionClient) => Promise<T>) => Promise<T>,
+): object {
+  return new Proxy(delegate, {
+    get(target, operation) {
+      const method: unknown = Reflect.get(target, operation);
+      if (
+        typeof operation !== 'string' ||
+        typeof method !== 'function' ||
+        !WRITE_OPERATIONS.has(operation)
+      ) {
+        return method;
+      }
+      return (args?: Record<string, unknown>): Promise<unknown> =>
+        run((tx) => {
+          const txDelegate = Reflect.get(tx, property) as Record<
+            string,
+            (args?: Record<string, unknown>) => Promise<unknown>
+          >;
+          return txDelegate[operation](args);
+        });
+    },
+  });
+}
+
+/**
+ * Set the audit settings for the rest of the transaction. Optional values
+ * default to '' so nothing is carried over from an earlier use of the
+ * connection; get_audit_context() treats '' as unset.
+ */
+async function applyAuditSettings(
+  tx: Prisma.TransactionClient,
+  settings: AuditSettings,
+): Promise<void> {
+  await tx.$executeRaw`
+    SELECT
+      set_config('app.actor_id', ${settings.actorId}, true),
+      set_config('app.actor_email', ${settings.actorEmail}, true),
+      set_config('app.ip', ${settings.ip ?? ''}, true),
+      set_config('app.user_agent', ${settings.userAgent ?? ''}, true),
+      set_config('app.tx_id', ${settings.txId ?? ''}, true),
+      set_config('app.reason', ${settings.reason ?? ''}, true)
+  `;
 }
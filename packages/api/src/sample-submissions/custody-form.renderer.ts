@@ -0,0 +1,235 @@
+/**
+ * Chain-of-Custody Form Renderer
+ * Builds the printable form that travels with a pre-registered shipment
+ */
+
+export interface CustodyFormData {
+  submissionNumber: string;
+  qrCodeDataUrl: string; // QR code of the submission number, scanned at reception
+  client: {
+    name: string;
+    contactName?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    address?: string | null;
+  };
+  jobNumber: string;
+  submittedAt: Date;
+  submittedBy: string;
+  notes?: string | null;
+  items: Array<{
+    position: number;
+    sampleDescription: string;
+    sampleBatch?: string | null;
+    rmSupplier?: string | null;
+    storageConditions?: string | null;
+    testPacks: string[];
+  }>;
+}
+
+// Hand-overs the form has room for: client, courier, lab
+const CUSTODY_ROWS = 3;
+
+export function renderCustodyForm(data: CustodyFormData): string {
+  const items = data.items
+    .map(
+      (item) => `
+      <tr>
+        <td>${item.position}</td>
+        <td>${escapeHtml(item.sampleDescription)}</td>
+        <td>${escapeHtml(item.sampleBatch ?? '')}</td>
+        <td>${escapeHtml(item.rmSupplier ?? '')}</td>
+        <td>${escapeHtml(item.storageConditions ?? '')}</td>
+        <td>${escapeHtml(item.testPacks.join(', '))}</td>
+      </tr>`,
+    )
+    .join('');
+
+  const custodyRows = Array.from(
+    { length: CUSTODY_ROWS },
+    () => `
+      <tr>
+        <td></td><td></td><td></td><td></td><td></td>
+      </tr>`,
+  ).join('');
+
+  const contact = [
+    data.client.contactName,
+    data.client.email,
+    data.client.phone,
+    data.client.address,
+  ]
+    .filter(Boolean)
+    .map((value) => escapeHtml(value as string))
+    .join(' &middot; ');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Chain of Custody - ${escapeHtml(data.submissionNumber)}</title>
+  <style>
+    @page {
+      size: A4;
+      margin: 15mm;
+    }
+
+    body {
+      font-family: Arial, sans-serif;
+      font-size: 9pt;
+      margin: 0;
+      padding: 0;
+      line-height: 1.4;
+    }
+
+    .header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-start;
+      border-bottom: 2px solid #2563eb;
+      padding-bottom: 10px;
+      margin-bottom: 15px;
+    }
+
+    .header h1 {
+      margin: 0 0 5px 0;
+      font-size: 1.5em;
+      color: #1e40af;
+    }
+
+    .submission-number {
+      font-family: 'Courier New', monospace;
+      font-size: 1.3em;
+      font-weight: bold;
+    }
+
+    .qr {
+      text-align: center;
+      font-size: 8pt;
+      color: #6b7280;
+    }
+
+    .qr img {
+      width: 30mm;
+      height: 30mm;
+      display: block;
+    }
+
+    h2 {
+      font-size: 1.1em;
+      color: #1e40af;
+      margin: 15px 0 5px 0;
+    }
+
+    .summary td {
+      padding: 2px 10px 2px 0;
+    }
+
+    table.grid {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    table.grid th,
+    table.grid td {
+      border: 1px solid #9ca3af;
+      padding: 5px;
+      text-align: left;
+      vertical-align: top;
+    }
+
+    table.grid th {
+      background: #f3f4f6;
+    }
+
+    table.custody td {
+      height: 10mm;
+    }
+
+    .reception {
+      border: 1px dashed #9ca3af;
+      padding: 8px;
+      margin-top: 15px;
+    }
+
+    .reception span {
+      display: inline-block;
+      min-width: 45mm;
+      border-bottom: 1px solid #000;
+      margin-right: 10mm;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Chain of Custody</h1>
+      <div class="submission-number">${escapeHtml(data.submissionNumber)}</div>
+    </div>
+    <div class="qr">
+      <img src="${data.qrCodeDataUrl}" alt="${escapeHtml(data.submissionNumber)}">
+      Scan at reception
+    </div>
+  </div>
+
+  <table class="summary">
+    <tr><td><strong>Client</strong></td><td>${escapeHtml(data.client.name)}</td></tr>
+    ${contact ? `<tr><td><strong>Contact</strong></td><td>${contact}</td></tr>` : ''}
+    <tr><td><strong>Job</strong></td><td>${escapeHtml(data.jobNumber)}</td></tr>
+    <tr><td><strong>Submitted</strong></td><td>${formatDate(data.submittedAt)} by ${escapeHtml(data.submittedBy)}</td></tr>
+    ${data.notes ? `<tr><td><strong>Notes</strong></td><td>${escapeHtml(data.notes)}</td></tr>` : ''}
+  </table>
+
+  <h2>Samples (${data.items.length})</h2>
+  <table class="grid">
+    <thead>
+      <tr>
+        <th>#</th>
+        <th>Description</th>
+        <th>Batch</th>
+        <th>Supplier</th>
+        <th>Storage</th>
+        <th>Requested Tests</th>
+      </tr>
+    </thead>
+    <tbody>${items}
+    </tbody>
+  </table>
+
+  <h2>Custody Transfers</h2>
+  <table class="grid custody">
+    <thead>
+      <tr>
+        <th>Relinquished By (name, signature)</th>
+        <th>Date / Time</th>
+        <th>Received By (name, signature)</th>
+        <th>Date / Time</th>
+        <th>Condition / Seal Intact</th>
+      </tr>
+    </thead>
+    <tbody>${custodyRows}
+    </tbody>
+  </table>
+
+  <div class="reception">
+    <strong>Laboratory reception</strong><br><br>
+    Temperature on receipt (&deg;C) <span>&nbsp;</span>
+    Received by <span>&nbsp;</span>
+  </div>
+</body>
+</html>
+    `.trim();
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
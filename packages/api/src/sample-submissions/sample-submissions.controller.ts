@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SampleSubmissionsService } from './sample-submissions.service';
+import type { CreateSampleSubmissionDto } from './sample-submissions.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role, SampleSubmissionStatus } from '@prisma/client';
+import type { Request, Response } from 'express';
+
+/**
+ * Pre-registered shipments. They are received with POST /samples/receive.
+ */
+@ApiTags('sample-submissions')
+@ApiBearerAuth()
+@Controller('sample-submissions')
+export class SampleSubmissionsController {
+  constructor(private sampleSubmissionsService: SampleSubmissionsService) {}
+
+  @Post()
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.CLIENT)
+  @ApiOperation({ summary: 'Pre-register a shipment of samples' })
+  @ApiResponse({ status: 201, description: 'Submission created' })
+  @ApiResponse({ status: 403, description: 'Client not linked to the user' })
+  async createSubmission(
+    @Body() dto: CreateSampleSubmissionDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.sampleSubmissionsService.createSubmission(dto, user, context);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.CLIENT)
+  @ApiOperation({ summary: 'List sample submissions' })
+  async listSubmissions(
+    @Query('clientId') clientId?: string,
+    @Query('status') status?: SampleSubmissionStatus,
+  ) {
+    return this.sampleSubmissionsService.listSubmissions({ clientId, status });
+  }
+
+  @Get('by-number/:submissionNumber')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({ summary: 'Look up a submission scanned at reception' })
+  @ApiResponse({ status: 404, description: 'Submission not found' })
+  async getSubmissionByNumber(
+    @Param('submissionNumber') submissionNumber: string,
+  ) {
+    return this.sampleSubmissionsService.getSubmissionByNumber(
+      submissionNumber,
+    );
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.CLIENT)
+  @ApiOperation({ summary: 'Get a sample submission with its samples' })
+  @ApiResponse({ status: 404, description: 'Submission not found' })
+  async getSubmission(@Param('id') id: string) {
+    return this.sampleSubmissionsService.getSubmission(id);
+  }
+
+  @Get(':id/custody-form')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.CLIENT)
+  @ApiOperation({ summary: 'Download the chain-of-custody form as PDF' })
+  @ApiResponse({ status: 200, description: 'Custody form downloaded' })
+  @ApiResponse({ status: 404, description: 'Submission not found' })
+  async downloadCustodyForm(@Param('id') id: string, @Res() res: Response) {
+    const form = await this.sampleSubmissionsService.generateCustodyForm(id);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="COC-${form.submissionNumber}.pdf"`,
+    );
+    return res.send(form.pdf);
+  }
+}
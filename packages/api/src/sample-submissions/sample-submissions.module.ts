@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { SampleSubmissionsService } from './sample-submissions.service';
+import { SampleSubmissionsController } from './sample-submissions.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+import { PdfModule } from '../pdf/pdf.module';
+
+@Module({
+  imports: [PrismaModule, AuditModule, PdfModule],
+  providers: [SampleSubmissionsService],
+  controllers: [SampleSubmissionsController],
+  exports: [SampleSubmissionsService],
+})
+export class SampleSubmissionsModule {}
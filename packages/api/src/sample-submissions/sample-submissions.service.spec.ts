@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SampleSubmissionsService } from './sample-submissions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { PdfService } from '../pdf/pdf.service';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { JobStatus, Role } from '@prisma/client';
+
+describe('SampleSubmissionsService', () => {
+  let service: SampleSubmissionsService;
+
+  const mockPrismaService = {
+    client: { findUnique: jest.fn() },
+    job: { findUnique: jest.fn(), create: jest.fn() },
+    testPack: { count: jest.fn(), findMany: jest.fn() },
+    sampleSubmission: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  // Runs the writes against the mocked client, as the transaction would
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const mockPdfService = {
+    generatePdfFromHtml: jest.fn(),
+  };
+
+  const context = { actorId: 'user-1', actorEmail: 'client@example.com' };
+  const clientUser = {
+    id: 'user-1',
+    role: Role.CLIENT,
+    clientIds: ['client-1'],
+  };
+  const staffUser = { id: 'user-2', role: Role.ANALYST };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SampleSubmissionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: PdfService, useValue: mockPdfService },
+      ],
+    }).compile();
+
+    service = module.get<SampleSubmissionsService>(SampleSubmissionsService);
+
+    mockPrismaService.client.findUnique.mockResolvedValue({
+      id: 'client-1',
+      deletedAt: null,
+    });
+    mockPrismaService.job.create.mockResolvedValue({ id: 'job-new' });
+    mockPrismaService.sampleSubmission.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => ({
+        id: 'sub-1',
+        ...data,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSubmission', () => {
+    const items = [
+      {
+        sampleDescription: 'Tablets',
+        sampleBatch: 'B-1',
+        testPackIds: ['p-1'],
+      },
+      { sampleDescription: 'Powder', testPackIds: ['p-1', 'p-2'] },
+    ];
+
+    it('should open a DRAFT job named after the submission', async () => {
+      mockPrismaService.testPack.count.mockResolvedValue(2);
+
+      const submission = await service.createSubmission(
+        { items, notes: 'Courier on Monday' },
+        clientUser,
+        context,
+      );
+
+      const { data: job } = mockPrismaService.job.create.mock.calls[0][0];
+      expect(job).toMatchObject({
+        clientId: 'client-1',
+        status: JobStatus.DRAFT,
+        jobNumber: submission.submissionNumber,
+      });
+      expect(submission.submissionNumber).toMatch(/^SUB-\d{8}-[0-9A-F]{6}$/);
+      expect(submission.jobId).toBe('job-new');
+      expect(mockPrismaService.testPack.count).toHaveBeenCalledWith({
+        where: { id: { in: ['p-1', 'p-2'] } },
+      });
+
+      const created = submission.items as unknown as {
+        create: Array<Record<string, unknown>>;
+      };
+      expect(created.create.map((item) => item.position)).toEqual([1, 2]);
+    });
+
+    it('should add to an existing job of the client', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-1',
+        clientId: 'client-1',
+        deletedAt: null,
+      });
+
+      const submission = await service.createSubmission(
+        {
+          clientId: 'client-1',
+          jobId: 'job-1',
+          items: [{ sampleDescription: 'Tablets' }],
+        },
+        staffUser,
+        context,
+      );
+
+      expect(mockPrismaService.job.create).not.toHaveBeenCalled();
+      expect(submission.jobId).toBe('job-1');
+    });
+
+    it('should reject a job of another client', async () => {
+      mockPrismaService.job.findUnique.mockResolvedValue({
+        id: 'job-2',
+        clientId: 'client-2',
+        deletedAt: null,
+      });
+
+      await expect(
+        service.createSubmission(
+          {
+            clientId: 'client-1',
+            jobId: 'job-2',
+            items: [{ sampleDescription: 'Tablets' }],
+          },
+          staffUser,
+          context,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject clients a CLIENT user is not linked to', async () => {
+      await expect(
+        service.createSubmission(
+          { clientId: 'client-2', items: [{ sampleDescription: 'Tablets' }] },
+          clientUser,
+          context,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should require a client for staff', async () => {
+      await expect(
+        service.createSubmission(
+          { items: [{ sampleDescription: 'Tablets' }] },
+          staffUser,
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject unknown test packs', async () => {
+      mockPrismaService.testPack.count.mockResolvedValue(1);
+
+      await expect(
+        service.createSubmission({ items }, clientUser, context),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.sampleSubmission.create).not.toHaveBeenCalled();
+    });
+
+    it('should require at least one described sample', async () => {
+      await expect(
+        service.createSubmission({ items: [] }, clientUser, context),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createSubmission(
+          { items: [{ sampleDescription: ' ' }] },
+          clientUser,
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('generateCustodyForm', () => {
+    it('should render the form with a QR code and the requested packs', async () => {
+      mockPrismaService.sampleSubmission.findUnique.mockResolvedValue({
+        id: 'sub-1',
+        submissionNumber: 'SUB-20251130-ABC123',
+        createdAt: new Date('2025-11-30T08:00:00Z'),
+        notes: null,
+        client: { name: 'Acme <Labs>' },
+        job: { jobNumber: 'SUB-20251130-ABC123' },
+        createdBy: { name: null, email: 'client@example.com' },
+        items: [
+          {
+            position: 1,
+            sampleDescription: 'Tablets',
+            testPackIds: ['p-1', 'p-missing'],
+          },
+        ],
+      });
+      mockPrismaService.testPack.findMany.mockResolvedValue([
+        { id: 'p-1', name: 'Assay' },
+      ]);
+      mockPdfService.generatePdfFromHtml.mockResolvedValue(Buffer.from('%PDF'));
+
+      const form = await service.generateCustodyForm('sub-1');
+
+      const html: string = mockPdfService.generatePdfFromHtml.mock.calls[0][0];
+      expect(html).toContain('src="data:image/png;base64,');
+      expect(html).toContain('SUB-20251130-ABC123');
+      expect(html).toContain('Acme &lt;Labs&gt;');
+      expect(html).toContain('<td>Assay</td>');
+      expect(form.pdf.toString()).toBe('%PDF');
+    });
+
+    it('should throw NotFoundException if the submission does not exist', async () => {
+      mockPrismaService.sampleSubmission.findUnique.mockResolvedValue(null);
+
+      await expect(service.generateCustodyForm('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import * as QRCode from 'qrcode';
+import { JobStatus, Role, SampleSubmissionStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService, AuditContext } from '../audit/audit.service';
+import { PdfService } from '../pdf/pdf.service';
+import { PermissionUser } from '../auth/permissions.types';
+import { renderCustodyForm } from './custody-form.renderer';
+
+export interface SampleSubmissionItemDto {
+  sampleDescription: string;
+  sampleBatch?: string;
+  rmSupplier?: string;
+  storageConditions?: string;
+  testPackIds?: string[];
+}
+
+export interface CreateSampleSubmissionDto {
+  clientId?: string; // Defaults to a CLIENT user's only client
+  jobId?: string; // Without one, a DRAFT job is opened for the shipment
+  notes?: string;
+  items: SampleSubmissionItemDto[];
+}
+
+const SUBMISSION_INCLUDE = {
+  client: { select: { id: true, name: true } },
+  job: { select: { id: true, jobNumber: true, status: true } },
+  items: { orderBy: { position: 'asc' as const } },
+};
+
+/**
+ * Sample submissions (pre-registered shipments)
+ *
+ * Clients, or staff on their behalf, register the samples of a shipment
+ * before sending it and print the chain-of-custody form, whose QR code
+ * carries the submission number. Reception scans it on arrival and
+ * SamplesService.receiveSubmission creates the samples.
+ */
+@Injectable()
+export class SampleSubmissionsService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private pdfService: PdfService,
+  ) {}
+
+  /**
+   * Pre-register a shipment
+   * @throws ForbiddenException if a CLIENT user names another client
+   */
+  async createSubmission(
+    dto: CreateSampleSubmissionDto,
+    user: PermissionUser,
+    context: AuditContext,
+  ) {
+    if (!dto.items?.length) {
+      throw new BadRequestException('A submission needs at least one sample');
+    }
+    if (dto.items.some((item) => !item.sampleDescription?.trim())) {
+      throw new BadRequestException('Every sample needs a description');
+    }
+
+    const clientId = this.resolveClientId(dto.clientId, user);
+    const client = await this.prisma.client.findUnique({
+      where: { id: clientId },
+    });
+    if (!client || client.deletedAt) {
+      throw new NotFoundException(`Client with ID '${clientId}' not found`);
+    }
+
+    if (dto.jobId) {
+      const job = await this.prisma.job.findUnique({
+        where: { id: dto.jobId },
+      });
+      if (!job || job.deletedAt || job.clientId !== clientId) {
+        throw new NotFoundException(`Job with ID '${dto.jobId}' not found`);
+      }
+    }
+
+    const testPackIds = [
+      ...new Set(dto.items.flatMap((item) => item.testPackIds ?? [])),
+    ];
+    if (testPackIds.length > 0) {
+      const found = await this.prisma.testPack.count({
+        where: { id: { in: testPackIds } },
+      });
+      if (found !== testPackIds.length) {
+        throw new NotFoundException('One or more test packs not found');
+      }
+    }
+
+    const submissionNumber = generateSubmissionNumber();
+
+    return this.auditService.withContext(context, async (tx) => {
+      // The shipment's own job; reception activates it on receipt
+      const jobId =
+        dto.jobId ??
+        (
+          await tx.job.create({
+            data: {
+              jobNumber: submissionNumber,
+              clientId,
+              status: JobStatus.DRAFT,
+              clientNotes: dto.notes,
+              createdById: context.actorId,
+              updatedById: context.actorId,
+            },
+          })
+        ).id;
+
+      return tx.sampleSubmission.create({
+        data: {
+          submissionNumber,
+          clientId,
+          jobId,
+          notes: dto.notes,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+          items: {
+            create: dto.items.map((item, index) => ({
+              position: index + 1,
+              sampleDescription: item.sampleDescription.trim(),
+              sampleBatch: item.sampleBatch,
+              rmSupplier: item.rmSupplier,
+              storageConditions: item.storageConditions,
+              testPackIds: item.testPackIds ?? [],
+            })),
+          },
+        },
+        include: SUBMISSION_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * List submissions, newest first. CLIENT users only see their own.
+   */
+  async listSubmissions(filters?: {
+    clientId?: string;
+    status?: SampleSubmissionStatus;
+  }) {
+    return this.prisma.sampleSubmission.findMany({
+      where: {
+        ...(filters?.clientId && { clientId: filters.clientId }),
+        ...(filters?.status && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        client: { select: { id: true, name: true } },
+        job: { select: { id: true, jobNumber: true, status: true } },
+        _count: { select: { items: true } },
+      },
+    });
+  }
+
+  /**
+   * Get a submission with its items
+   * @throws NotFoundException if not found
+   */
+  async getSubmission(id: string) {
+    const submission = await this.prisma.sampleSubmission.findUnique({
+      where: { id },
+      include: {
+        ...SUBMISSION_INCLUDE,
+        items: {
+          orderBy: { position: 'asc' },
+          include: {
+            sample: { select: { id: true, sampleCode: true } },
+          },
+        },
+      },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(
+        `Sample submission with ID '${id}' not found`,
+      );
+    }
+
+    return submission;
+  }
+
+  /**
+   * Look up a submission by the number scanned from its custody form
+   * @throws NotFoundException if not found
+   */
+  async getSubmissionByNumber(submissionNumber: string) {
+    const submission = await this.prisma.sampleSubmission.findUnique({
+      where: { submissionNumber: submissionNumber.trim() },
+      select: { id: true },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(
+        `Sample submission '${submissionNumber}' not found`,
+      );
+    }
+
+    return this.getSubmission(submission.id);
+  }
+
+  /**
+   * Render the printable chain-of-custody form as a PDF
+   */
+  async generateCustodyForm(
+    id: string,
+  ): Promise<{ submissionNumber: string; pdf: Buffer }> {
+    const submission = await this.prisma.sampleSubmission.findUnique({
+      where: { id },
+      include: {
+        client: true,
+        job: { select: { jobNumber: true } },
+        createdBy: { select: { email: true, name: true } },
+        items: { orderBy: { position: 'asc' } },
+      },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(
+        `Sample submission with ID '${id}' not found`,
+      );
+    }
+
+    const testPackIds = [
+      ...new Set(submission.items.flatMap((item) => item.testPackIds)),
+    ];
+    const testPacks = await this.prisma.testPack.findMany({
+      where: { id: { in: testPackIds } },
+      select: { id: true, name: true },
+    });
+    const packNames = new Map(testPacks.map((pack) => [pack.id, pack.name]));
+
+    const html = renderCustodyForm({
+      submissionNumber: submission.submissionNumber,
+      qrCodeDataUrl: await QRCode.toDataURL(submission.submissionNumber, {
+        errorCorrectionLevel: 'M',
+        margin: 1,
+      }),
+      client: submission.client,
+      jobNumber: submission.job.jobNumber,
+      submittedAt: submission.createdAt,
+      submittedBy: submission.createdBy.name ?? submission.createdBy.email,
+      notes: submission.notes,
+      items: submission.items.map((item) => ({
+        ...item,
+        testPacks: item.testPackIds.flatMap(
+          (packId) => packNames.get(packId) ?? [],
+        ),
+      })),
+    });
+
+    return {
+      submissionNumber: submission.submissionNumber,
+      pdf: await this.pdfService.generatePdfFromHtml(html),
+    };
+  }
+
+  private resolveClientId(
+    clientId: string | undefined,
+    user: PermissionUser,
+  ): string {
+    if (user.role !== Role.CLIENT) {
+      if (!clientId) throw new BadRequestException('clientId is required');
+      return clientId;
+    }
+
+    const clientIds = user.clientIds ?? [];
+    const resolved =
+      clientId ?? (clientIds.length === 1 ? clientIds[0] : undefined);
+    if (!resolved) {
+      throw new BadRequestException('clientId is required');
+    }
+    if (!clientIds.includes(resolved)) {
+      throw new ForbiddenException(
+        'Samples can only be submitted for your own clients',
+      );
+    }
+    return resolved;
+  }
+}
+
+// e.g. SUB-20251130-9A1F3C; also used as the number of the job opened for it
+function generateSubmissionNumber(): string {
+  const day = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `SUB-${day}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
@@ -137,11 +137,6 @@ export class CreateSampleDto {
   @IsBoolean()
   allChemistryTestsAssigned?: boolean;
 
-  @ApiPropertyOptional({ description: 'Released flag', default: false })
-  @IsOptional()
-  @IsBoolean()
-  released?: boolean;
-
   @ApiPropertyOptional({ description: 'Retest flag', default: false })
   @IsOptional()
   @IsBoolean()
@@ -1,2 +1,3 @@
 export * from './create-sample.dto';
 export * from './update-sample.dto';
+export * from './receive-submission.dto';
@@ -0,0 +1,52 @@
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsNumber,
+  IsArray,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReceiveSubmissionDto {
+  @ApiProperty({
+    description: 'Submission number, as scanned from the custody form QR code',
+    example: 'SUB-20251130-9A1F3C',
+  })
+  @IsString()
+  @MaxLength(255)
+  submissionNumber: string;
+
+  @ApiProperty({
+    description: 'Temperature of the shipment on receipt in Celsius',
+    minimum: -273.15,
+    maximum: 1000,
+  })
+  @IsNumber()
+  @Min(-273.15)
+  @Max(1000)
+  temperatureOnReceiptC: number;
+
+  @ApiPropertyOptional({ description: 'Date received; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  dateReceived?: string;
+
+  @ApiPropertyOptional({ description: 'Due date for sample testing' })
+  @IsOptional()
+  @IsDateString()
+  dateDue?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Sample codes in submission order; defaults to the submission number with the position, e.g. SUB-20251130-9A1F3C-01',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(255, { each: true })
+  sampleCodes?: string[];
+}
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import { CreateSampleDto } from './create-sample.dto';
 import { UpdateSampleDto } from './update-sample.dto';
+import { ReceiveSubmissionDto } from './receive-submission.dto';
 import { validate } from 'class-validator';
 import { plainToClass } from 'class-transformer';
 
@@ -186,5 +187,48 @@ describe('Sample DTOs', () => {
       const errors = await validate(dto);
       expect(errors.length).toBe(0);
     });
+
+    it('should not accept the released flag; samples are released through their own action', async () => {
+      const dto = plainToClass(UpdateSampleDto, { released: true });
+
+      const errors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+      expect(errors.map((error) => error.property)).toEqual(['released']);
+    });
+  });
+
+  describe('ReceiveSubmissionDto', () => {
+    it('should validate a scanned submission with its temperature', async () => {
+      const dto = plainToClass(ReceiveSubmissionDto, {
+        submissionNumber: 'SUB-20251130-9A1F3C',
+        temperatureOnReceiptC: 4.2,
+        sampleCodes: ['S-1', 'S-2'],
+      });
+
+      const errors = await validate(dto);
+      expect(errors.length).toBe(0);
+    });
+
+    it('should require the temperature on receipt', async () => {
+      const dto = plainToClass(ReceiveSubmissionDto, {
+        submissionNumber: 'SUB-20251130-9A1F3C',
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((e) => e.property)).toContain('temperatureOnReceiptC');
+    });
+
+    it('should reject non-string sample codes', async () => {
+      const dto = plainToClass(ReceiveSubmissionDto, {
+        submissionNumber: 'SUB-20251130-9A1F3C',
+        temperatureOnReceiptC: 4.2,
+        sampleCodes: [1, 2],
+      });
+
+      const errors = await validate(dto);
+      expect(errors.map((e) => e.property)).toContain('sampleCodes');
+    });
   });
 });
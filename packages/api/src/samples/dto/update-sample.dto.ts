@@ -99,11 +99,6 @@ export class UpdateSampleDto {
   @IsBoolean()
   allChemistryTestsAssigned?: boolean;
 
-  @ApiPropertyOptional({ description: 'Released flag' })
-  @IsOptional()
-  @IsBoolean()
-  released?: boolean;
-
   @ApiPropertyOptional({ description: 'Retest flag' })
   @IsOptional()
   @IsBoolean()
@@ -113,4 +108,12 @@ export class UpdateSampleDto {
   @IsOptional()
   @IsDateString()
   releaseDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reason for the change; required once the sample is released',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
 }
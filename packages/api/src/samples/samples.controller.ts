@@ -16,10 +16,15 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { SamplesService } from './samples.service';
-import { CreateSampleDto, UpdateSampleDto } from './dto';
+import { CreateSampleDto, ReceiveSubmissionDto, UpdateSampleDto } from './dto';
 import { Roles } from '../auth/roles.decorator';
 import { Role } from '@prisma/client';
 import type { Request } from 'express';
+import {
+  parseIncludeDeleted,
+  type DeleteDto,
+  type RestoreDto,
+} from '../soft-delete/soft-delete';
 
 @ApiTags('samples')
 @ApiBearerAuth()
@@ -40,21 +45,47 @@ export class SamplesController {
     return this.samplesService.createSample(dto, context);
   }
 
+  @Post('receive')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({
+    summary: 'Receive a pre-registered shipment scanned at reception',
+  })
+  @ApiResponse({ status: 201, description: 'Samples created' })
+  @ApiResponse({ status: 404, description: 'Submission not found' })
+  @ApiResponse({ status: 409, description: 'Submission already received' })
+  async receiveSubmission(
+    @Body() dto: ReceiveSubmissionDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.samplesService.receiveSubmission(dto, context);
+  }
+
   @Get()
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
   async listSamples(
+    @Req() req: Request,
     @Query('jobId') jobId?: string,
     @Query('clientId') clientId?: string,
     @Query('released') released?: string,
     @Query('urgent') urgent?: string,
+    @Query('includeDeleted') includeDeleted?: string,
     @Query('page') page?: string,
     @Query('perPage') perPage?: string,
   ) {
+    const user = (req as any).user;
     return this.samplesService.listSamples({
       jobId,
       clientId,
       released: released === 'true',
       urgent: urgent === 'true',
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
       page: page ? parseInt(page, 10) : undefined,
       perPage: perPage ? parseInt(perPage, 10) : undefined,
     });
@@ -62,14 +93,28 @@ export class SamplesController {
 
   @Get(':id')
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
-  async getSample(@Param('id') id: string) {
-    return this.samplesService.getSample(id);
+  async getSample(
+    @Param('id') id: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.samplesService.getSample(id, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Get('by-code/:sampleCode')
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST, Role.SALES_ACCOUNTING)
-  async getSampleByCode(@Param('sampleCode') sampleCode: string) {
-    return this.samplesService.getSampleByCode(sampleCode);
+  async getSampleByCode(
+    @Param('sampleCode') sampleCode: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.samplesService.getSampleByCode(sampleCode, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Put(':id')
@@ -104,7 +149,28 @@ export class SamplesController {
 
   @Delete(':id')
   @Roles(Role.ADMIN, Role.LAB_MANAGER)
-  async deleteSample(@Param('id') id: string, @Req() req: Request) {
+  async deleteSample(
+    @Param('id') id: string,
+    @Body() dto: DeleteDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.samplesService.deleteSample(id, dto, context);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  async restoreSample(
+    @Param('id') id: string,
+    @Body() dto: RestoreDto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -112,7 +178,7 @@ export class SamplesController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.samplesService.deleteSample(id, context);
+    return this.samplesService.restoreSample(id, dto, context);
   }
 
   @Post(':id/tests/add-pack')
@@ -3,9 +3,10 @@ import { SamplesService } from './samples.service';
 import { SamplesController } from './samples.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuditModule } from '../audit/audit.module';
+import { OOSInvestigationsModule } from '../oos-investigations/oos-investigations.module';
 
 @Module({
-  imports: [PrismaModule, AuditModule],
+  imports: [PrismaModule, AuditModule, OOSInvestigationsModule],
   providers: [SamplesService],
   controllers: [SamplesController],
   exports: [SamplesService],
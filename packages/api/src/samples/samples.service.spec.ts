@@ -0,0 +1,292 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SamplesService } from './samples.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { OOSInvestigationsService } from '../oos-investigations/oos-investigations.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { JobStatus, SampleSubmissionStatus } from '@prisma/client';
+
+describe('SamplesService', () => {
+  let service: SamplesService;
+
+  const mockPrismaService = {
+    sample: { findMany: jest.fn(), create: jest.fn() },
+    testPack: { findMany: jest.fn() },
+    testAssignment: { createMany: jest.fn() },
+    job: { update: jest.fn() },
+    sampleSubmission: { findUnique: jest.fn(), updateMany: jest.fn() },
+    sampleSubmissionItem: { update: jest.fn() },
+  };
+
+  // Runs the writes against the mocked client, as the transaction would
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const context = { actorId: 'user-1', actorEmail: 'reception@lab.com' };
+
+  const definition = (id: string) => ({
+    id,
+    sectionId: 'section-1',
+    methodId: 'method-1',
+    specificationId: null,
+  });
+
+  const submission = {
+    id: 'sub-1',
+    submissionNumber: 'SUB-20251130-ABC123',
+    status: SampleSubmissionStatus.SUBMITTED,
+    clientId: 'client-1',
+    jobId: 'job-1',
+    job: {
+      id: 'job-1',
+      jobNumber: 'SUB-20251130-ABC123',
+      status: JobStatus.DRAFT,
+      deletedAt: null,
+    },
+    items: [
+      {
+        id: 'item-1',
+        position: 1,
+        sampleDescription: 'Tablets',
+        sampleBatch: 'B-1',
+        rmSupplier: null,
+        storageConditions: 'Ambient',
+        testPackIds: ['pack-1', 'pack-2'],
+      },
+      {
+        id: 'item-2',
+        position: 2,
+        sampleDescription: 'Powder',
+        sampleBatch: null,
+        rmSupplier: 'Supplier Co',
+        storageConditions: null,
+        testPackIds: [],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SamplesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: OOSInvestigationsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<SamplesService>(SamplesService);
+
+    mockPrismaService.sampleSubmission.findUnique.mockResolvedValue(submission);
+    mockPrismaService.sampleSubmission.updateMany.mockResolvedValue({
+      count: 1,
+    });
+    mockPrismaService.sample.findMany.mockResolvedValue([]);
+    mockPrismaService.testPack.findMany.mockResolvedValue([
+      {
+        id: 'pack-1',
+        items: [
+          { testDefinitionId: 'td-1', testDefinition: definition('td-1') },
+          { testDefinitionId: 'td-2', testDefinition: definition('td-2') },
+        ],
+      },
+      {
+        id: 'pack-2',
+        items: [
+          { testDefinitionId: 'td-2', testDefinition: definition('td-2') },
+        ],
+      },
+    ]);
+    mockPrismaService.sample.create.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => ({
+        id: `sample-${data.sampleCode as string}`,
+        ...data,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('receiveSubmission', () => {
+    it('should create the samples with receipt details and requested tests', async () => {
+      const result = await service.receiveSubmission(
+        {
+          submissionNumber: ' SUB-20251130-ABC123 ',
+          temperatureOnReceiptC: 4.5,
+          dateReceived: '2025-12-01T09:30:00Z',
+        },
+        context,
+      );
+
+      expect(result.samples.map((s) => s.sampleCode)).toEqual([
+        'SUB-20251130-ABC123-01',
+        'SUB-20251130-ABC123-02',
+      ]);
+      const { data } = mockPrismaService.sample.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        jobId: 'job-1',
+        clientId: 'client-1',
+        dateReceived: new Date('2025-12-01T09:30:00Z'),
+        temperatureOnReceiptC: 4.5,
+        sampleDescription: 'Tablets',
+        storageConditions: 'Ambient',
+      });
+
+      // td-2 is in both packs but is assigned once
+      expect(mockPrismaService.testAssignment.createMany).toHaveBeenCalledTimes(
+        1,
+      );
+      const assignments =
+        mockPrismaService.testAssignment.createMany.mock.calls[0][0].data;
+      expect(assignments.map((a) => a.testDefinitionId)).toEqual([
+        'td-1',
+        'td-2',
+      ]);
+
+      expect(
+        mockPrismaService.sampleSubmissionItem.update,
+      ).toHaveBeenCalledWith({
+        where: { id: 'item-2' },
+        data: { sampleId: 'sample-SUB-20251130-ABC123-02' },
+      });
+      expect(
+        mockPrismaService.sampleSubmission.updateMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'sub-1', status: SampleSubmissionStatus.SUBMITTED },
+        }),
+      );
+      expect(mockPrismaService.job.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { status: JobStatus.ACTIVE, updatedById: 'user-1' },
+      });
+    });
+
+    it('should skip deleted tests and report test packs deleted since', async () => {
+      mockPrismaService.testPack.findMany.mockResolvedValue([
+        {
+          id: 'pack-1',
+          items: [
+            { testDefinitionId: 'td-1', testDefinition: definition('td-1') },
+          ],
+        },
+      ]);
+
+      const result = await service.receiveSubmission(
+        { submissionNumber: 'SUB-20251130-ABC123', temperatureOnReceiptC: 20 },
+        context,
+      );
+
+      const [query] = mockPrismaService.testPack.findMany.mock.calls[0] as [
+        { include: { items: { where: unknown } } },
+      ];
+      expect(query.include.items.where).toEqual({
+        testDefinition: { deletedAt: null },
+      });
+      expect(result.samples).toHaveLength(2);
+      expect(result.missingTestPacks).toEqual([
+        { sampleCode: 'SUB-20251130-ABC123-01', testPackIds: ['pack-2'] },
+      ]);
+    });
+
+    it('should use the sample codes given by reception', async () => {
+      const result = await service.receiveSubmission(
+        {
+          submissionNumber: 'SUB-20251130-ABC123',
+          temperatureOnReceiptC: 20,
+          sampleCodes: ['S-100', 'S-101'],
+        },
+        context,
+      );
+
+      expect(result.samples.map((s) => s.sampleCode)).toEqual([
+        'S-100',
+        'S-101',
+      ]);
+    });
+
+    it('should reject a wrong number of sample codes', async () => {
+      await expect(
+        service.receiveSubmission(
+          {
+            submissionNumber: 'SUB-20251130-ABC123',
+            temperatureOnReceiptC: 20,
+            sampleCodes: ['S-100'],
+          },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject sample codes already in use', async () => {
+      mockPrismaService.sample.findMany.mockResolvedValue([
+        { sampleCode: 'SUB-20251130-ABC123-01' },
+      ]);
+
+      await expect(
+        service.receiveSubmission(
+          {
+            submissionNumber: 'SUB-20251130-ABC123',
+            temperatureOnReceiptC: 20,
+          },
+          context,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.sample.create).not.toHaveBeenCalled();
+    });
+
+    it('should not receive a submission twice', async () => {
+      mockPrismaService.sampleSubmission.findUnique.mockResolvedValue({
+        ...submission,
+        status: SampleSubmissionStatus.RECEIVED,
+      });
+
+      await expect(
+        service.receiveSubmission(
+          {
+            submissionNumber: 'SUB-20251130-ABC123',
+            temperatureOnReceiptC: 20,
+          },
+          context,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should not create samples when a concurrent scan claimed it first', async () => {
+      mockPrismaService.sampleSubmission.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        service.receiveSubmission(
+          {
+            submissionNumber: 'SUB-20251130-ABC123',
+            temperatureOnReceiptC: 20,
+          },
+          context,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.sample.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown submissions', async () => {
+      mockPrismaService.sampleSubmission.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.receiveSubmission(
+          { submissionNumber: 'SUB-NOPE', temperatureOnReceiptC: 20 },
+          context,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -1,18 +1,30 @@
 import {
   Injectable,
+  BadRequestException,
   ConflictException,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService, AuditContext } from '../audit/audit.service';
-import { Sample } from '@prisma/client';
-import { CreateSampleDto, UpdateSampleDto } from './dto';
+import { assertChangeReason } from '../audit/change-reason';
+import { OOSInvestigationsService } from '../oos-investigations/oos-investigations.service';
+import { JobStatus, Sample, SampleSubmissionStatus } from '@prisma/client';
+import { CreateSampleDto, ReceiveSubmissionDto, UpdateSampleDto } from './dto';
+import {
+  DeleteDto,
+  RestoreDto,
+  SoftDeleteFilter,
+  excludeDeleted,
+  restoreData,
+  softDeleteData,
+} from '../soft-delete/soft-delete';
 
 @Injectable()
 export class SamplesService {
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private oosInvestigationsService: OOSInvestigationsService,
   ) {}
 
   /**
@@ -36,65 +48,235 @@ export class SamplesService {
 
     // Verify that job and client exist
     const job = await this.prisma.job.findUnique({ where: { id: dto.jobId } });
-    if (!job) {
+    if (!job || job.deletedAt) {
       throw new NotFoundException(`Job with ID '${dto.jobId}' not found`);
     }
 
     const client = await this.prisma.client.findUnique({
       where: { id: dto.clientId },
     });
-    if (!client) {
+    if (!client || client.deletedAt) {
       throw new NotFoundException(`Client with ID '${dto.clientId}' not found`);
     }
 
     // Create the sample
-    const sample = await this.prisma.sample.create({
-      data: {
-        jobId: dto.jobId,
-        clientId: dto.clientId,
-        sampleCode: dto.sampleCode,
-        dateReceived: dto.dateReceived
-          ? new Date(dto.dateReceived)
-          : new Date(),
-        dateDue: dto.dateDue ? new Date(dto.dateDue) : null,
-        rmSupplier: dto.rmSupplier,
-        sampleDescription: dto.sampleDescription,
-        uinCode: dto.uinCode,
-        sampleBatch: dto.sampleBatch,
-        temperatureOnReceiptC: dto.temperatureOnReceiptC,
-        storageConditions: dto.storageConditions,
-        comments: dto.comments,
-        expiredRawMaterial: dto.expiredRawMaterial || false,
-        postIrradiatedRawMaterial: dto.postIrradiatedRawMaterial || false,
-        stabilityStudy: dto.stabilityStudy || false,
-        urgent: dto.urgent || false,
-        allMicroTestsAssigned: dto.allMicroTestsAssigned || false,
-        allChemistryTestsAssigned: dto.allChemistryTestsAssigned || false,
-        released: dto.released || false,
-        retest: dto.retest || false,
-        createdById: context.actorId,
-        updatedById: context.actorId,
+    const sample = await this.auditService.withContext(context, (tx) =>
+      tx.sample.create({
+        data: {
+          jobId: dto.jobId,
+          clientId: dto.clientId,
+          sampleCode: dto.sampleCode,
+          dateReceived: dto.dateReceived
+            ? new Date(dto.dateReceived)
+            : new Date(),
+          dateDue: dto.dateDue ? new Date(dto.dateDue) : null,
+          rmSupplier: dto.rmSupplier,
+          sampleDescription: dto.sampleDescription,
+          uinCode: dto.uinCode,
+          sampleBatch: dto.sampleBatch,
+          temperatureOnReceiptC: dto.temperatureOnReceiptC,
+          storageConditions: dto.storageConditions,
+          comments: dto.comments,
+          expiredRawMaterial: dto.expiredRawMaterial || false,
+          postIrradiatedRawMaterial: dto.postIrradiatedRawMaterial || false,
+          stabilityStudy: dto.stabilityStudy || false,
+          urgent: dto.urgent || false,
+          allMicroTestsAssigned: dto.allMicroTestsAssigned || false,
+          allChemistryTestsAssigned: dto.allChemistryTestsAssigned || false,
+          retest: dto.retest || false,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: {
+          job: true,
+          client: true,
+          createdBy: { select: { id: true, email: true, name: true } },
+          updatedBy: { select: { id: true, email: true, name: true } },
+        },
+      }),
+    );
+
+    return sample;
+  }
+
+  /**
+   * Receive a pre-registered shipment whose custody form was scanned at
+   * reception
+   * AC: Each submitted sample becomes a Sample with dateReceived and
+   * temperatureOnReceiptC, with the tests of its requested test packs
+   * AC: A submission is received once; its DRAFT job becomes ACTIVE
+   * AC: Test packs deleted since submission are reported back, and deleted
+   * test definitions are not assigned
+   */
+  async receiveSubmission(dto: ReceiveSubmissionDto, context: AuditContext) {
+    const submission = await this.prisma.sampleSubmission.findUnique({
+      where: { submissionNumber: dto.submissionNumber.trim() },
+      include: { items: { orderBy: { position: 'asc' } }, job: true },
+    });
+
+    if (!submission) {
+      throw new NotFoundException(
+        `Sample submission '${dto.submissionNumber}' not found`,
+      );
+    }
+    if (submission.status !== SampleSubmissionStatus.SUBMITTED) {
+      throw new ConflictException(
+        `Sample submission '${submission.submissionNumber}' was already received`,
+      );
+    }
+    if (submission.job.deletedAt) {
+      throw new BadRequestException(
+        `Job '${submission.job.jobNumber}' of this submission has been deleted`,
+      );
+    }
+
+    if (dto.sampleCodes && dto.sampleCodes.length !== submission.items.length) {
+      throw new BadRequestException(
+        `Expected ${submission.items.length} sample codes, got ${dto.sampleCodes.length}`,
+      );
+    }
+    const sampleCodes = submission.items.map(
+      (item, index) =>
+        dto.sampleCodes?.[index]?.trim() ||
+        `${submission.submissionNumber}-${String(item.position).padStart(2, '0')}`,
+    );
+    if (new Set(sampleCodes).size !== sampleCodes.length) {
+      throw new BadRequestException('Sample codes must be unique');
+    }
+    const existing = await this.prisma.sample.findMany({
+      where: { sampleCode: { in: sampleCodes } },
+      select: { sampleCode: true },
+    });
+    if (existing.length > 0) {
+      throw new ConflictException(
+        `Sample with sampleCode '${existing[0].sampleCode}' already exists`,
+      );
+    }
+
+    const testPacks = await this.prisma.testPack.findMany({
+      where: {
+        id: { in: submission.items.flatMap((item) => item.testPackIds) },
       },
       include: {
-        job: true,
-        client: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
+        items: {
+          where: { testDefinition: { deletedAt: null } },
+          orderBy: { order: 'asc' },
+          include: { testDefinition: true },
+        },
       },
     });
-
-    // Log audit entry for sample creation with full field set
-    await this.auditService.logCreate(context, 'Sample', sample.id, sample);
-
-    return sample;
+    const packs = new Map(testPacks.map((pack) => [pack.id, pack]));
+
+    const dateReceived = dto.dateReceived
+      ? new Date(dto.dateReceived)
+      : new Date();
+
+    return this.auditService.withContext(context, async (tx) => {
+      // Claim the submission first, so a second scan cannot receive it twice
+      const claimed = await tx.sampleSubmission.updateMany({
+        where: {
+          id: submission.id,
+          status: SampleSubmissionStatus.SUBMITTED,
+        },
+        data: {
+          status: SampleSubmissionStatus.RECEIVED,
+          receivedAt: dateReceived,
+          receivedById: context.actorId,
+          updatedById: context.actorId,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException(
+          `Sample submission '${submission.submissionNumber}' was already received`,
+        );
+      }
+
+      const samples: Sample[] = [];
+      const missingTestPacks: { sampleCode: string; testPackIds: string[] }[] =
+        [];
+      for (const [index, item] of submission.items.entries()) {
+        const sample = await tx.sample.create({
+          data: {
+            jobId: submission.jobId,
+            clientId: submission.clientId,
+            sampleCode: sampleCodes[index],
+            dateReceived,
+            dateDue: dto.dateDue ? new Date(dto.dateDue) : null,
+            rmSupplier: item.rmSupplier,
+            sampleDescription: item.sampleDescription,
+            sampleBatch: item.sampleBatch,
+            temperatureOnReceiptC: dto.temperatureOnReceiptC,
+            storageConditions: item.storageConditions,
+            createdById: context.actorId,
+            updatedById: context.actorId,
+          },
+        });
+
+        // A test requested through two packs is assigned once
+        const testDefinitions = new Map(
+          item.testPackIds
+            .flatMap((packId) => packs.get(packId)?.items ?? [])
+            .map((packItem) => [
+              packItem.testDefinitionId,
+              packItem.testDefinition,
+            ]),
+        );
+        if (testDefinitions.size > 0) {
+          await tx.testAssignment.createMany({
+            data: [...testDefinitions.values()].map((definition) => ({
+              sampleId: sample.id,
+              testDefinitionId: definition.id,
+              sectionId: definition.sectionId,
+              methodId: definition.methodId,
+              specificationId: definition.specificationId,
+              createdById: context.actorId,
+              updatedById: context.actorId,
+            })),
+          });
+        }
+
+        await tx.sampleSubmissionItem.update({
+          where: { id: item.id },
+          data: { sampleId: sample.id },
+        });
+        samples.push(sample);
+
+        // The sample is received anyway; its tests are assigned by hand
+        const missing = item.testPackIds.filter((packId) => !packs.has(packId));
+        if (missing.length > 0) {
+          missingTestPacks.push({
+            sampleCode: sample.sampleCode,
+            testPackIds: missing,
+          });
+        }
+      }
+
+      if (submission.job.status === JobStatus.DRAFT) {
+        await tx.job.update({
+          where: { id: submission.jobId },
+          data: { status: JobStatus.ACTIVE, updatedById: context.actorId },
+        });
+      }
+
+      return {
+        submissionId: submission.id,
+        submissionNumber: submission.submissionNumber,
+        jobId: submission.jobId,
+        samples,
+        missingTestPacks,
+      };
+    });
   }
 
   /**
-   * Get a sample by ID
+   * Get a sample by ID; deleted samples only with includeDeleted
    */
-  async getSample(id: string): Promise<Sample | null> {
-    return this.prisma.sample.findUnique({
-      where: { id },
+  async getSample(
+    id: string,
+    filters?: SoftDeleteFilter,
+  ): Promise<Sample | null> {
+    return this.prisma.sample.findFirst({
+      where: { id, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         job: true,
         client: true,
@@ -119,11 +301,14 @@ export class SamplesService {
   }
 
   /**
-   * Get a sample by sampleCode
+   * Get a sample by sampleCode; deleted samples only with includeDeleted
    */
-  async getSampleByCode(sampleCode: string): Promise<Sample | null> {
-    return this.prisma.sample.findUnique({
-      where: { sampleCode },
+  async getSampleByCode(
+    sampleCode: string,
+    filters?: SoftDeleteFilter,
+  ): Promise<Sample | null> {
+    return this.prisma.sample.findFirst({
+      where: { sampleCode, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         job: true,
         client: true,
@@ -155,10 +340,11 @@ export class SamplesService {
     clientId?: string;
     released?: boolean;
     urgent?: boolean;
+    includeDeleted?: boolean;
     page?: number;
     perPage?: number;
   }) {
-    const where: any = {};
+    const where: any = excludeDeleted(filters?.includeDeleted);
     if (filters?.jobId) where.jobId = filters.jobId;
     if (filters?.clientId) where.clientId = filters.clientId;
     if (filters?.released !== undefined) where.released = filters.released;
@@ -207,66 +393,70 @@ export class SamplesService {
     // Get the current sample state for audit logging
     const oldSample = await this.prisma.sample.findUnique({ where: { id } });
 
-    if (!oldSample) {
+    if (!oldSample || oldSample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${id}' not found`);
     }
 
-    // Update the sample
-    const sample = await this.prisma.sample.update({
-      where: { id },
-      data: {
-        ...(dto.dateReceived && { dateReceived: new Date(dto.dateReceived) }),
-        ...(dto.dateDue && { dateDue: new Date(dto.dateDue) }),
-        ...(dto.releaseDate && { releaseDate: new Date(dto.releaseDate) }),
-        ...(dto.rmSupplier !== undefined && { rmSupplier: dto.rmSupplier }),
-        ...(dto.sampleDescription !== undefined && {
-          sampleDescription: dto.sampleDescription,
-        }),
-        ...(dto.uinCode !== undefined && { uinCode: dto.uinCode }),
-        ...(dto.sampleBatch !== undefined && { sampleBatch: dto.sampleBatch }),
-        ...(dto.temperatureOnReceiptC !== undefined && {
-          temperatureOnReceiptC: dto.temperatureOnReceiptC,
-        }),
-        ...(dto.storageConditions !== undefined && {
-          storageConditions: dto.storageConditions,
-        }),
-        ...(dto.comments !== undefined && { comments: dto.comments }),
-        ...(dto.expiredRawMaterial !== undefined && {
-          expiredRawMaterial: dto.expiredRawMaterial,
-        }),
-        ...(dto.postIrradiatedRawMaterial !== undefined && {
-          postIrradiatedRawMaterial: dto.postIrradiatedRawMaterial,
-        }),
-        ...(dto.stabilityStudy !== undefined && {
-          stabilityStudy: dto.stabilityStudy,
-        }),
-        ...(dto.urgent !== undefined && { urgent: dto.urgent }),
-        ...(dto.allMicroTestsAssigned !== undefined && {
-          allMicroTestsAssigned: dto.allMicroTestsAssigned,
-        }),
-        ...(dto.allChemistryTestsAssigned !== undefined && {
-          allChemistryTestsAssigned: dto.allChemistryTestsAssigned,
-        }),
-        ...(dto.released !== undefined && { released: dto.released }),
-        ...(dto.retest !== undefined && { retest: dto.retest }),
-        updatedById: context.actorId,
-      },
-      include: {
-        job: true,
-        client: true,
-        testAssignments: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
-    });
+    assertChangeReason(
+      oldSample.released ? 'a released Sample' : null,
+      dto.reason,
+    );
 
-    // Log audit entry for sample update
-    await this.auditService.logUpdate(
+    // Update the sample
+    const sample = await this.auditService.withContext(
       context,
-      'Sample',
-      sample.id,
-      oldSample,
-      sample,
+      (tx) =>
+        tx.sample.update({
+          where: { id },
+          data: {
+            ...(dto.dateReceived && {
+              dateReceived: new Date(dto.dateReceived),
+            }),
+            ...(dto.dateDue && { dateDue: new Date(dto.dateDue) }),
+            ...(dto.releaseDate && { releaseDate: new Date(dto.releaseDate) }),
+            ...(dto.rmSupplier !== undefined && { rmSupplier: dto.rmSupplier }),
+            ...(dto.sampleDescription !== undefined && {
+              sampleDescription: dto.sampleDescription,
+            }),
+            ...(dto.uinCode !== undefined && { uinCode: dto.uinCode }),
+            ...(dto.sampleBatch !== undefined && {
+              sampleBatch: dto.sampleBatch,
+            }),
+            ...(dto.temperatureOnReceiptC !== undefined && {
+              temperatureOnReceiptC: dto.temperatureOnReceiptC,
+            }),
+            ...(dto.storageConditions !== undefined && {
+              storageConditions: dto.storageConditions,
+            }),
+            ...(dto.comments !== undefined && { comments: dto.comments }),
+            ...(dto.expiredRawMaterial !== undefined && {
+              expiredRawMaterial: dto.expiredRawMaterial,
+            }),
+            ...(dto.postIrradiatedRawMaterial !== undefined && {
+              postIrradiatedRawMaterial: dto.postIrradiatedRawMaterial,
+            }),
+            ...(dto.stabilityStudy !== undefined && {
+              stabilityStudy: dto.stabilityStudy,
+            }),
+            ...(dto.urgent !== undefined && { urgent: dto.urgent }),
+            ...(dto.allMicroTestsAssigned !== undefined && {
+              allMicroTestsAssigned: dto.allMicroTestsAssigned,
+            }),
+            ...(dto.allChemistryTestsAssigned !== undefined && {
+              allChemistryTestsAssigned: dto.allChemistryTestsAssigned,
+            }),
+            ...(dto.retest !== undefined && { retest: dto.retest }),
+            updatedById: context.actorId,
+          },
+          include: {
+            job: true,
+            client: true,
+            testAssignments: true,
+            createdBy: { select: { id: true, email: true, name: true } },
+            updatedBy: { select: { id: true, email: true, name: true } },
+          },
+        }),
+      dto.reason,
     );
 
     return sample;
@@ -274,65 +464,94 @@ export class SamplesService {
 
   /**
    * Release a sample (3.4 - only Lab Manager or Admin can release)
+   * AC: Blocked while the sample has an open OOS investigation
    */
   async releaseSample(id: string, context: AuditContext): Promise<Sample> {
     const oldSample = await this.prisma.sample.findUnique({ where: { id } });
 
-    if (!oldSample) {
+    if (!oldSample || oldSample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${id}' not found`);
     }
 
-    const sample = await this.prisma.sample.update({
-      where: { id },
-      data: {
-        released: true,
-        releaseDate: new Date(),
-        updatedById: context.actorId,
-      },
-      include: {
-        job: true,
-        client: true,
-        testAssignments: true,
-        createdBy: { select: { id: true, email: true, name: true } },
-        updatedBy: { select: { id: true, email: true, name: true } },
-      },
+    const sample = await this.auditService.withContext(context, async (tx) => {
+      await this.oosInvestigationsService.assertNoOpenInvestigation(id);
+
+      return tx.sample.update({
+        where: { id },
+        data: {
+          released: true,
+          releaseDate: new Date(),
+          updatedById: context.actorId,
+        },
+        include: {
+          job: true,
+          client: true,
+          testAssignments: true,
+          createdBy: { select: { id: true, email: true, name: true } },
+          updatedBy: { select: { id: true, email: true, name: true } },
+        },
+      });
     });
 
-    // Log audit entry for sample release
-    await this.auditService.logUpdate(
+    return sample;
+  }
+
+  /**
+   * Delete a sample (soft delete: the row is kept and hidden from lists)
+   */
+  async deleteSample(
+    id: string,
+    dto: DeleteDto,
+    context: AuditContext,
+  ): Promise<Sample> {
+    const oldSample = await this.prisma.sample.findUnique({ where: { id } });
+
+    if (!oldSample || oldSample.deletedAt) {
+      throw new NotFoundException(`Sample with ID '${id}' not found`);
+    }
+
+    const sample = await this.auditService.withContext(
       context,
-      'Sample',
-      sample.id,
-      oldSample,
-      sample,
+      (tx) =>
+        tx.sample.update({
+          where: { id },
+          data: softDeleteData(dto, context.actorId),
+        }),
+      dto?.reason?.trim(),
     );
 
     return sample;
   }
 
   /**
-   * Delete a sample (soft delete by marking as cancelled)
+   * Restore a soft-deleted sample
    */
-  async deleteSample(id: string, context: AuditContext): Promise<Sample> {
+  async restoreSample(
+    id: string,
+    dto: RestoreDto,
+    context: AuditContext,
+  ): Promise<Sample> {
     const oldSample = await this.prisma.sample.findUnique({ where: { id } });
 
     if (!oldSample) {
       throw new NotFoundException(`Sample with ID '${id}' not found`);
     }
 
-    // For now, we'll just log the deletion but not actually delete the record
-    // In a real system, you might want to add a 'deleted' or 'cancelled' field
+    if (!oldSample.deletedAt) {
+      throw new BadRequestException(`Sample with ID '${id}' is not deleted`);
+    }
 
-    // Log audit entry for sample deletion
-    await this.auditService.logDelete(
+    const sample = await this.auditService.withContext(
       context,
-      'Sample',
-      oldSample.id,
-      oldSample,
-      'Sample marked for deletion',
+      (tx) =>
+        tx.sample.update({
+          where: { id },
+          data: restoreData(context.actorId),
+        }),
+      dto.reason,
     );
 
-    return oldSample;
+    return sample;
   }
 
   /**
@@ -347,7 +566,7 @@ export class SamplesService {
     const sample = await this.prisma.sample.findUnique({
       where: { id: sampleId },
     });
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
     }
 
@@ -366,35 +585,32 @@ export class SamplesService {
       throw new NotFoundException(`TestPack with ID '${testPackId}' not found`);
     }
 
-    // Create test assignments for each test definition in the pack
-    const testAssignments = await Promise.all(
-      testPack.items.map((item) =>
-        this.prisma.testAssignment.create({
-          data: {
-            sampleId,
-            testDefinitionId: item.testDefinitionId,
-            sectionId: item.testDefinition.sectionId,
-            methodId: item.testDefinition.methodId,
-            specificationId: item.testDefinition.specificationId,
-            createdById: context.actorId,
-            updatedById: context.actorId,
-          },
-          include: {
-            testDefinition: true,
-            section: true,
-            method: true,
-            specification: true,
-          },
-        }),
+    // Create test assignments for each test definition in the pack, in one
+    // transaction so their audit entries share a txId
+    const testAssignments = await this.auditService.withContext(context, (tx) =>
+      Promise.all(
+        testPack.items.map((item) =>
+          tx.testAssignment.create({
+            data: {
+              sampleId,
+              testDefinitionId: item.testDefinitionId,
+              sectionId: item.testDefinition.sectionId,
+              methodId: item.testDefinition.methodId,
+              specificationId: item.testDefinition.specificationId,
+              createdById: context.actorId,
+              updatedById: context.actorId,
+            },
+            include: {
+              testDefinition: true,
+              section: true,
+              method: true,
+              specification: true,
+            },
+          }),
+        ),
       ),
     );
 
-    // Log audit entry
-    await this.auditService.logCreate(context, 'Sample', sampleId, {
-      testPackId,
-      testAssignmentsCreated: testAssignments.length,
-    });
-
     return {
       message: `Test pack added successfully with ${testAssignments.length} tests`,
       testAssignments,
@@ -413,7 +629,7 @@ export class SamplesService {
     const sample = await this.prisma.sample.findUnique({
       where: { id: sampleId },
     });
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
     }
 
@@ -421,37 +637,31 @@ export class SamplesService {
     const testDefinition = await this.prisma.testDefinition.findUnique({
       where: { id: testDefinitionId },
     });
-    if (!testDefinition) {
+    if (!testDefinition || testDefinition.deletedAt) {
       throw new NotFoundException(
         `TestDefinition with ID '${testDefinitionId}' not found`,
       );
     }
 
     // Create test assignment
-    const testAssignment = await this.prisma.testAssignment.create({
-      data: {
-        sampleId,
-        testDefinitionId,
-        sectionId: testDefinition.sectionId,
-        methodId: testDefinition.methodId,
-        specificationId: testDefinition.specificationId,
-        createdById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        testDefinition: true,
-        section: true,
-        method: true,
-        specification: true,
-      },
-    });
-
-    // Log audit entry
-    await this.auditService.logCreate(
-      context,
-      'TestAssignment',
-      testAssignment.id,
-      testAssignment,
+    const testAssignment = await this.auditService.withContext(context, (tx) =>
+      tx.testAssignment.create({
+        data: {
+          sampleId,
+          testDefinitionId,
+          sectionId: testDefinition.sectionId,
+          methodId: testDefinition.methodId,
+          specificationId: testDefinition.specificationId,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: {
+          testDefinition: true,
+          section: true,
+          method: true,
+          specification: true,
+        },
+      }),
     );
 
     return testAssignment;
@@ -465,7 +675,7 @@ export class SamplesService {
     const sample = await this.prisma.sample.findUnique({
       where: { id: sampleId },
     });
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
     }
 
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SegregationOfDutiesService } from './segregation-of-duties.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [SegregationOfDutiesService],
+  exports: [SegregationOfDutiesService],
+})
+export class SegregationOfDutiesModule {}
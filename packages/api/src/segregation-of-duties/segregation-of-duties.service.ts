@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditContext } from '../audit/audit.service';
+
+export interface SignOffDto {
+  justification?: string; // Required to sign off your own work as an exception
+}
+
+export interface FourEyesCheck {
+  action: string; // What the actor is doing, e.g. 'review'
+  subject: string; // What they did themselves, e.g. 'a result you entered'
+  performedBy: (string | null | undefined)[]; // Users who did the earlier step
+  justification?: string;
+}
+
+/**
+ * Segregation of duties (four-eyes rule)
+ *
+ * The person who entered a result may not review or release it, and the
+ * person who built a COA may not approve it. Labs that cannot always staff
+ * a second person can turn on `LabSettings.allowSegregationExceptions`; a
+ * self sign-off then needs a justification, which is kept in the audit log.
+ */
+@Injectable()
+export class SegregationOfDutiesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Check that the actor did not perform the step they are signing off
+   *
+   * @returns The audit reason documenting an exception, or undefined when
+   * the four-eyes rule is met
+   * @throws ForbiddenException if the actor performed the earlier step and
+   * exceptions are not allowed
+   * @throws BadRequestException if an exception is allowed but no
+   * justification is given
+   */
+  async assertFourEyes(
+    context: AuditContext,
+    check: FourEyesCheck,
+  ): Promise<string | undefined> {
+    if (!check.performedBy.includes(context.actorId)) {
+      return undefined;
+    }
+
+    const settings = await this.prisma.labSettings.findFirst({
+      select: { allowSegregationExceptions: true },
+    });
+
+    if (!settings?.allowSegregationExceptions) {
+      throw new ForbiddenException(
+        `Four-eyes rule: you cannot ${check.action} ${check.subject}`,
+      );
+    }
+
+    if (!check.justification?.trim()) {
+      throw new BadRequestException(
+        `A justification is required to ${check.action} ${check.subject}`,
+      );
+    }
+
+    return `Segregation-of-duties exception: ${check.justification.trim()}`;
+  }
+}
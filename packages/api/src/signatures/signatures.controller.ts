@@ -0,0 +1,36 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SignaturesService } from './signatures.service';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '@prisma/client';
+
+@ApiTags('signatures')
+@ApiBearerAuth()
+@Controller('signatures')
+export class SignaturesController {
+  constructor(private signaturesService: SignaturesService) {}
+
+  @Get()
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({
+    summary:
+      'List the electronic signatures on a record, each checked against its current data',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Signatures retrieved successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Unknown record table' })
+  @ApiResponse({ status: 404, description: 'Record not found' })
+  async listSignatures(
+    @Query('recordTable') recordTable: string,
+    @Query('recordId') recordId: string,
+  ) {
+    return this.signaturesService.listSignatures(recordTable, recordId);
+  }
+}
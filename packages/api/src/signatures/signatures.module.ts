@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SignaturesService } from './signatures.service';
+import { SignaturesController } from './signatures.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [PrismaModule, AuditModule],
+  providers: [SignaturesService],
+  controllers: [SignaturesController],
+  exports: [SignaturesService],
+})
+export class SignaturesModule {}
@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { SignatureMeaning } from '@prisma/client';
+import { SignaturesService, hashSignedData } from './signatures.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+jest.mock('bcrypt', () => ({
+  compare: jest.fn((password: string, hash: string) =>
+    Promise.resolve(hash === `hashed:${password}`),
+  ),
+}));
+
+describe('SignaturesService', () => {
+  let service: SignaturesService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    testAssignment: {
+      findUnique: jest.fn(),
+    },
+    cOAReport: {
+      findUnique: jest.fn(),
+    },
+    electronicSignature: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  // Runs the writes against the mocked client, as the transaction would
+  const mockAuditService = {
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'test@example.com',
+  };
+
+  const testAssignment = {
+    id: 'ta-123',
+    sampleId: 'sample-123',
+    result: '12.4',
+    reportedResult: '12',
+    status: 'REVIEWED',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignaturesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SignaturesService>(SignaturesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('hashSignedData', () => {
+    it('should ignore workflow fields and key order', () => {
+      const hash = hashSignedData('TestAssignment', testAssignment);
+
+      expect(
+        hashSignedData('TestAssignment', {
+          status: 'RELEASED',
+          reportedResult: '12',
+          result: '12.4',
+          sampleId: 'sample-123',
+          id: 'ta-123',
+        }),
+      ).toBe(hash);
+      expect(
+        hashSignedData('TestAssignment', { ...testAssignment, result: '13' }),
+      ).not.toBe(hash);
+    });
+  });
+
+  describe('verifySigner', () => {
+    beforeEach(() => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-123',
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'hashed:secret',
+      });
+    });
+
+    it('should return the signer when the password matches', async () => {
+      const signer = await service.verifySigner(
+        context,
+        { password: 'secret', meaning: SignatureMeaning.REVIEWED },
+        'review',
+      );
+
+      expect(signer).toEqual({
+        id: 'user-123',
+        name: 'Test User',
+        email: 'test@example.com',
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(
+        service.verifySigner(
+          context,
+          { password: 'guess', meaning: SignatureMeaning.REVIEWED },
+          'review',
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a meaning that does not fit the action', async () => {
+      await expect(
+        service.verifySigner(
+          context,
+          { password: 'secret', meaning: SignatureMeaning.REVIEWED },
+          'release',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invalidateChanged', () => {
+    it('should invalidate signatures whose hash no longer matches', async () => {
+      const current = {
+        id: 'sig-1',
+        dataHash: hashSignedData('TestAssignment', testAssignment),
+      };
+      const stale = { id: 'sig-2', dataHash: 'outdated' };
+      mockPrismaService.electronicSignature.findMany.mockResolvedValue([
+        current,
+        stale,
+      ]);
+      mockPrismaService.electronicSignature.update.mockResolvedValue({
+        ...stale,
+        invalidatedAt: new Date(),
+      });
+
+      const count = await service.invalidateChanged(
+        context,
+        'TestAssignment',
+        testAssignment,
+      );
+
+      expect(count).toBe(1);
+      expect(mockPrismaService.electronicSignature.update).toHaveBeenCalledWith(
+        {
+          where: { id: 'sig-2' },
+          data: expect.objectContaining({
+            invalidationReason: 'Signed data changed',
+            invalidatedById: 'user-123',
+          }),
+        },
+      );
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+        'Signed data changed',
+      );
+    });
+  });
+
+  describe('listSignatures', () => {
+    it('should mark each signature as valid or not', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue(
+        testAssignment,
+      );
+      mockPrismaService.electronicSignature.findMany.mockResolvedValue([
+        {
+          id: 'sig-1',
+          dataHash: hashSignedData('TestAssignment', testAssignment),
+          invalidatedAt: null,
+        },
+        { id: 'sig-2', dataHash: 'outdated', invalidatedAt: null },
+        {
+          id: 'sig-3',
+          dataHash: hashSignedData('TestAssignment', testAssignment),
+          invalidatedAt: new Date(),
+        },
+      ]);
+
+      const signatures = await service.listSignatures(
+        'TestAssignment',
+        'ta-123',
+      );
+
+      expect(signatures.map((signature) => signature.valid)).toEqual([
+        true,
+        false,
+        false,
+      ]);
+    });
+
+    it('should reject tables that cannot be signed', async () => {
+      await expect(
+        service.listSignatures('Sample', 'sample-123'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService, AuditContext } from '../audit/audit.service';
+import { SignOffDto } from '../segregation-of-duties/segregation-of-duties.service';
+import { ElectronicSignature, SignatureMeaning } from '@prisma/client';
+
+export interface SignatureDto extends SignOffDto {
+  password: string; // Re-entered at the moment of signing
+  meaning: SignatureMeaning;
+}
+
+export type SignedTable = 'TestAssignment' | 'COAReport';
+
+export type SigningAction = 'review' | 'release' | 'approve';
+
+export interface Signer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface SignatureWithValidity extends ElectronicSignature {
+  valid: boolean;
+}
+
+/**
+ * Meanings a signer may choose for each signing action
+ */
+export const SIGNATURE_MEANINGS: Record<SigningAction, SignatureMeaning[]> = {
+  review: [SignatureMeaning.REVIEWED, SignatureMeaning.APPROVED],
+  release: [SignatureMeaning.RELEASED],
+  approve: [SignatureMeaning.APPROVED],
+};
+
+/**
+ * Fields covered by a signature. Workflow fields (status, checker,
+ * approver) are left out so that releasing a reviewed test does not void
+ * the review signature.
+ */
+const SIGNED_FIELDS: Record<SignedTable, string[]> = {
+  TestAssignment: [
+    'id',
+    'sampleId',
+    'testDefinitionId',
+    'methodId',
+    'specificationId',
+    'customTestName',
+    'result',
+    'reportedResult',
+    'resultUnit',
+    'testDate',
+    'oos',
+    'rawInputs',
+    'replicates',
+    'comments',
+  ],
+  COAReport: ['id', 'sampleId', 'version', 'dataSnapshot'],
+};
+
+/**
+ * Electronic signatures (21 CFR Part 11)
+ *
+ * A signature needs the signer's password at the moment of signing and a
+ * stated meaning (11.50, 11.200). It is bound to a SHA-256 hash of the
+ * signed data (11.70): when the record changes, the hash no longer matches
+ * and the signature is invalidated.
+ */
+@Injectable()
+export class SignaturesService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  /**
+   * Check the signer's password and chosen meaning before anything is
+   * changed
+   *
+   * @throws BadRequestException if the password or meaning is missing, or
+   * the meaning does not fit the action
+   * @throws UnauthorizedException if the password is wrong
+   */
+  async verifySigner(
+    context: AuditContext,
+    dto: SignatureDto,
+    action: SigningAction,
+  ): Promise<Signer> {
+    if (!dto.password) {
+      throw new BadRequestException('password is required to sign');
+    }
+
+    const meanings = SIGNATURE_MEANINGS[action];
+    if (!meanings.includes(dto.meaning)) {
+      throw new BadRequestException(
+        `meaning must be one of: ${meanings.join(', ')}`,
+      );
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: context.actorId },
+    });
+
+    if (!user || !(await bcrypt.compare(dto.password, user.password))) {
+      throw new UnauthorizedException('Signature password is incorrect');
+    }
+
+    return { id: user.id, name: user.name || user.email, email: user.email };
+  }
+
+  /**
+   * Record a signature bound to the current state of the record
+   */
+  async recordSignature(
+    context: AuditContext,
+    signer: Signer,
+    recordTable: SignedTable,
+    record: { id: string } & Record<string, any>,
+    meaning: SignatureMeaning,
+    signedAt = new Date(),
+  ): Promise<ElectronicSignature> {
+    const signature = await this.auditService.withContext(context, (tx) =>
+      tx.electronicSignature.create({
+        data: {
+          recordTable,
+          recordId: record.id,
+          meaning,
+          dataHash: hashSignedData(recordTable, record),
+          signerId: signer.id,
+          signerName: signer.name,
+          signerEmail: signer.email,
+          signedAt,
+        },
+      }),
+    );
+
+    return signature;
+  }
+
+  /**
+   * Invalidate signatures whose data hash no longer matches the record
+   * @returns The number of signatures invalidated
+   */
+  async invalidateChanged(
+    context: AuditContext,
+    recordTable: SignedTable,
+    record: { id: string } & Record<string, any>,
+  ): Promise<number> {
+    const dataHash = hashSignedData(recordTable, record);
+    const signatures = await this.prisma.electronicSignature.findMany({
+      where: { recordTable, recordId: record.id, invalidatedAt: null },
+    });
+
+    const changed = signatures.filter(
+      (signature) => signature.dataHash !== dataHash,
+    );
+    for (const signature of changed) {
+      await this.invalidate(context, signature, 'Signed data changed');
+    }
+    return changed.length;
+  }
+
+  /**
+   * Invalidate a record's signatures with the given meanings, e.g. when a
+   * reviewed test is sent back to the bench
+   */
+  async invalidateSignatures(
+    context: AuditContext,
+    recordTable: SignedTable,
+    recordId: string,
+    meanings: SignatureMeaning[],
+    reason: string,
+  ): Promise<number> {
+    const signatures = await this.prisma.electronicSignature.findMany({
+      where: {
+        recordTable,
+        recordId,
+        meaning: { in: meanings },
+        invalidatedAt: null,
+      },
+    });
+
+    for (const signature of signatures) {
+      await this.invalidate(context, signature, reason);
+    }
+    return signatures.length;
+  }
+
+  /**
+   * Signatures that are still valid for the given records, oldest first
+   */
+  async listValidSignatures(
+    recordTable: SignedTable,
+    records: ({ id: string } & Record<string, any>)[],
+  ): Promise<ElectronicSignature[]> {
+    if (records.length === 0) return [];
+
+    const hashes = new Map(
+      records.map((record) => [record.id, hashSignedData(recordTable, record)]),
+    );
+    const signatures = await this.prisma.electronicSignature.findMany({
+      where: {
+        recordTable,
+        recordId: { in: [...hashes.keys()] },
+        invalidatedAt: null,
+      },
+      orderBy: { signedAt: 'asc' },
+    });
+
+    return signatures.filter(
+      (signature) => hashes.get(signature.recordId) === signature.dataHash,
+    );
+  }
+
+  /**
+   * List every signature on a record, checking each against the record's
+   * current data
+   */
+  async listSignatures(
+    recordTable: string,
+    recordId: string,
+  ): Promise<SignatureWithValidity[]> {
+    if (!isSignedTable(recordTable)) {
+      throw new BadRequestException(
+        `recordTable must be one of: ${Object.keys(SIGNED_FIELDS).join(', ')}`,
+      );
+    }
+
+    const record =
+      recordTable === 'TestAssignment'
+        ? await this.prisma.testAssignment.findUnique({
+            where: { id: recordId },
+          })
+        : await this.prisma.cOAReport.findUnique({ where: { id: recordId } });
+
+    if (!record) {
+      throw new NotFoundException(
+        `${recordTable} with ID '${recordId}' not found`,
+      );
+    }
+
+    const dataHash = hashSignedData(recordTable, record);
+    const signatures = await this.prisma.electronicSignature.findMany({
+      where: { recordTable, recordId },
+      orderBy: { signedAt: 'asc' },
+    });
+
+    return signatures.map((signature) => ({
+      ...signature,
+      valid: !signature.invalidatedAt && signature.dataHash === dataHash,
+    }));
+  }
+
+  private async invalidate(
+    context: AuditContext,
+    signature: ElectronicSignature,
+    reason: string,
+  ) {
+    await this.auditService.withContext(
+      context,
+      (tx) =>
+        tx.electronicSignature.update({
+          where: { id: signature.id },
+          data: {
+            invalidatedAt: new Date(),
+            invalidationReason: reason,
+            invalidatedById: context.actorId,
+          },
+        }),
+      reason,
+    );
+  }
+}
+
+function isSignedTable(table: string): table is SignedTable {
+  return Object.prototype.hasOwnProperty.call(SIGNED_FIELDS, table);
+}
+
+/**
+ * SHA-256 of the signed fields of a record, as canonical JSON
+ */
+export function hashSignedData(
+  recordTable: SignedTable,
+  record: Record<string, any>,
+): string {
+  const signed = Object.fromEntries(
+    SIGNED_FIELDS[recordTable].map((field) => [field, record[field] ?? null]),
+  );
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize(signed)))
+    .digest('hex');
+}
+
+/**
+ * Sort object keys so equal data always serializes the same way,
+ * whichever order Prisma or JSONB returned the keys in
+ */
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof toJSON === 'function') return canonicalize(toJSON.call(value));
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as any)[key])]),
+    );
+  }
+  return value ?? null;
+}
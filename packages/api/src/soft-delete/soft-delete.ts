@@ -0,0 +1,71 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Role } from '@prisma/client';
+
+export interface DeleteDto {
+  reason: string; // Stored as deleteReason and on the audit entry
+}
+
+export interface RestoreDto {
+  reason?: string;
+}
+
+export interface SoftDeleteFilter {
+  includeDeleted?: boolean;
+}
+
+/**
+ * Where-clause fragment that hides soft-deleted rows unless asked for
+ */
+export function excludeDeleted(includeDeleted?: boolean) {
+  return includeDeleted ? {} : { deletedAt: null };
+}
+
+/**
+ * Read the includeDeleted query flag; only administrators may set it
+ *
+ * @throws ForbiddenException if a non-admin asks for deleted rows
+ */
+export function parseIncludeDeleted(
+  includeDeleted: string | undefined,
+  role: Role,
+): boolean {
+  if (includeDeleted !== 'true') return false;
+
+  if (role !== Role.ADMIN) {
+    throw new ForbiddenException(
+      'Only administrators can include deleted records',
+    );
+  }
+  return true;
+}
+
+/**
+ * Soft-delete fields for a record deleted by the actor
+ *
+ * @throws BadRequestException if no reason is given
+ */
+export function softDeleteData(dto: DeleteDto | undefined, actorId: string) {
+  const reason = dto?.reason?.trim();
+  if (!reason) {
+    throw new BadRequestException('A reason is required to delete a record');
+  }
+
+  return {
+    deletedAt: new Date(),
+    deletedById: actorId,
+    deleteReason: reason,
+    updatedById: actorId,
+  };
+}
+
+/**
+ * Fields that bring a soft-deleted record back
+ */
+export function restoreData(actorId: string) {
+  return {
+    deletedAt: null,
+    deletedById: null,
+    deleteReason: null,
+    updatedById: actorId,
+  };
+}
@@ -23,6 +23,10 @@ import type {
 import { Roles } from '../auth/roles.decorator';
 import { Role } from '@prisma/client';
 import type { Request } from 'express';
+import {
+  parseIncludeDeleted,
+  type DeleteDto,
+} from '../soft-delete/soft-delete';
 
 @ApiTags('specifications')
 @ApiBearerAuth()
@@ -59,14 +63,18 @@ export class SpecificationsController {
     description: 'Specifications retrieved successfully',
   })
   async listSpecifications(
+    @Req() req: Request,
     @Query('code') code?: string,
     @Query('name') name?: string,
+    @Query('includeDeleted') includeDeleted?: string,
     @Query('page') page?: string,
     @Query('perPage') perPage?: string,
   ) {
+    const user = (req as any).user;
     return this.specificationsService.listSpecifications({
       code,
       name,
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
       page: page ? parseInt(page, 10) : undefined,
       perPage: perPage ? parseInt(perPage, 10) : undefined,
     });
@@ -80,8 +88,15 @@ export class SpecificationsController {
     description: 'Specification retrieved successfully',
   })
   @ApiResponse({ status: 404, description: 'Specification not found' })
-  async getSpecification(@Param('id') id: string) {
-    return this.specificationsService.getSpecification(id);
+  async getSpecification(
+    @Param('id') id: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.specificationsService.getSpecification(id, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Put(':id')
@@ -115,7 +130,30 @@ export class SpecificationsController {
     description: 'Specification deleted successfully',
   })
   @ApiResponse({ status: 404, description: 'Specification not found' })
-  async deleteSpecification(@Param('id') id: string, @Req() req: Request) {
+  async deleteSpecification(
+    @Param('id') id: string,
+    @Body() dto: DeleteDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.specificationsService.deleteSpecification(id, dto, context);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Restore a deleted specification' })
+  @ApiResponse({
+    status: 201,
+    description: 'Specification restored successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Specification not found' })
+  async restoreSpecification(@Param('id') id: string, @Req() req: Request) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -123,6 +161,6 @@ export class SpecificationsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.specificationsService.deleteSpecification(id, context);
+    return this.specificationsService.restoreSpecification(id, context);
   }
 }
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { SpecificationsService } from './specifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SpecificationsService', () => {
+  let service: SpecificationsService;
+
+  const mockPrismaService = {
+    specification: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'test@example.com',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SpecificationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SpecificationsService>(SpecificationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSpecification', () => {
+    it('should accept a valid OOS rule', async () => {
+      mockPrismaService.specification.create.mockResolvedValue({
+        id: 'spec-1',
+      });
+
+      await service.createSpecification(
+        { code: 'PH', name: 'pH', oosRule: '> 5 and < 10' },
+        context,
+      );
+
+      expect(mockPrismaService.specification.create).toHaveBeenCalled();
+    });
+
+    it('should reject an OOS rule that does not parse', async () => {
+      await expect(
+        service.createSpecification(
+          { code: 'PH', name: 'pH', oosRule: '>= abc' },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.specification.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSpecification', () => {
+    it('should reject an invalid OOS rule on update', async () => {
+      mockPrismaService.specification.findUnique.mockResolvedValue({
+        id: 'spec-1',
+      });
+
+      await expect(
+        service.updateSpecification(
+          'spec-1',
+          { oosRule: '"Absent" in' },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.specification.update).not.toHaveBeenCalled();
+    });
+  });
+});
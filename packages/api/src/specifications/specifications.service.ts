@@ -1,5 +1,17 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  DeleteDto,
+  SoftDeleteFilter,
+  excludeDeleted,
+  restoreData,
+  softDeleteData,
+} from '../soft-delete/soft-delete';
+import { validateSpecRule } from '@lims/shared';
 
 export interface CreateSpecificationDto {
   code: string;
@@ -36,6 +48,8 @@ export class SpecificationsService {
     dto: CreateSpecificationDto,
     context: AuditContext,
   ) {
+    this.validateOOSRule(dto.oosRule);
+
     const specification = await this.prisma.specification.create({
       data: {
         ...dto,
@@ -50,6 +64,7 @@ export class SpecificationsService {
   async listSpecifications(filters?: {
     code?: string;
     name?: string;
+    includeDeleted?: boolean;
     page?: number;
     perPage?: number;
   }) {
@@ -57,7 +72,7 @@ export class SpecificationsService {
     const perPage = filters?.perPage || 50;
     const skip = (page - 1) * perPage;
 
-    const where: any = {};
+    const where: any = excludeDeleted(filters?.includeDeleted);
     if (filters?.code) {
       where.code = { contains: filters.code, mode: 'insensitive' };
     }
@@ -94,9 +109,9 @@ export class SpecificationsService {
     };
   }
 
-  async getSpecification(id: string) {
-    const specification = await this.prisma.specification.findUnique({
-      where: { id },
+  async getSpecification(id: string, filters?: SoftDeleteFilter) {
+    const specification = await this.prisma.specification.findFirst({
+      where: { id, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         createdBy: {
           select: { id: true, email: true, name: true },
@@ -123,10 +138,12 @@ export class SpecificationsService {
       where: { id },
     });
 
-    if (!existingSpecification) {
+    if (!existingSpecification || existingSpecification.deletedAt) {
       throw new NotFoundException(`Specification with ID ${id} not found`);
     }
 
+    this.validateOOSRule(dto.oosRule);
+
     const specification = await this.prisma.specification.update({
       where: { id },
       data: {
@@ -146,19 +163,59 @@ export class SpecificationsService {
     return specification;
   }
 
-  async deleteSpecification(id: string, context: AuditContext) {
+  /**
+   * Soft delete: the row is kept for existing references and hidden from
+   * lists. The audit trigger records the change with its deleteReason.
+   */
+  async deleteSpecification(id: string, dto: DeleteDto, context: AuditContext) {
     const specification = await this.prisma.specification.findUnique({
       where: { id },
     });
 
-    if (!specification) {
+    if (!specification || specification.deletedAt) {
       throw new NotFoundException(`Specification with ID ${id} not found`);
     }
 
-    await this.prisma.specification.delete({
+    await this.prisma.specification.update({
       where: { id },
+      data: softDeleteData(dto, context.actorId),
     });
 
     return { message: 'Specification deleted successfully' };
   }
+
+  async restoreSpecification(id: string, context: AuditContext) {
+    const specification = await this.prisma.specification.findUnique({
+      where: { id },
+    });
+
+    if (!specification) {
+      throw new NotFoundException(`Specification with ID ${id} not found`);
+    }
+
+    if (!specification.deletedAt) {
+      throw new BadRequestException(
+        `Specification with ID ${id} is not deleted`,
+      );
+    }
+
+    return this.prisma.specification.update({
+      where: { id },
+      data: restoreData(context.actorId),
+    });
+  }
+
+  /**
+   * Reject OOS rules that do not parse in the specification rule language
+   */
+  private validateOOSRule(oosRule?: string) {
+    if (!oosRule) return;
+
+    const error = validateSpecRule(oosRule);
+    if (error) {
+      throw new BadRequestException(
+        `Invalid OOS rule '${oosRule}': ${error.message} (at position ${error.position})`,
+      );
+    }
+  }
 }
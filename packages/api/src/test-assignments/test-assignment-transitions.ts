@@ -0,0 +1,147 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Role, TestAssignmentStatus } from '@prisma/client';
+import { AuditContext } from '../audit/audit.service';
+
+/**
+ * Service paths that change a test assignment's status
+ */
+export type TransitionAction = 'update' | 'enter-result' | 'review' | 'release';
+
+export interface StatusTransition {
+  from: TestAssignmentStatus;
+  to: TestAssignmentStatus;
+  roles: Role[];
+  actions: TransitionAction[]; // Paths allowed to make the move
+  requiresReason?: boolean; // Backward moves must be justified
+}
+
+/**
+ * Audit context for status changes; the actor's role decides which
+ * transitions are open to them
+ */
+export interface TransitionContext extends AuditContext {
+  actorRole: Role;
+}
+
+const { DRAFT, IN_PROGRESS, COMPLETED, REVIEWED, RELEASED } =
+  TestAssignmentStatus;
+const BENCH_ROLES: Role[] = [Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST];
+const REVIEWER_ROLES: Role[] = [Role.ADMIN, Role.LAB_MANAGER];
+
+/**
+ * TestAssignment status transition table
+ *
+ * Every status change goes through this table; moves that are not listed
+ * are rejected.
+ */
+export const TEST_ASSIGNMENT_TRANSITIONS: StatusTransition[] = [
+  // Bench work
+  { from: DRAFT, to: IN_PROGRESS, roles: BENCH_ROLES, actions: ['update'] },
+  { from: DRAFT, to: COMPLETED, roles: BENCH_ROLES, actions: ['enter-result'] },
+  {
+    from: IN_PROGRESS,
+    to: COMPLETED,
+    roles: BENCH_ROLES,
+    actions: ['enter-result'],
+  },
+  {
+    from: IN_PROGRESS,
+    to: DRAFT,
+    roles: BENCH_ROLES,
+    actions: ['update'],
+    requiresReason: true,
+  },
+  {
+    from: COMPLETED,
+    to: IN_PROGRESS,
+    roles: BENCH_ROLES,
+    actions: ['update'],
+    requiresReason: true,
+  },
+
+  // Review and release
+  { from: COMPLETED, to: REVIEWED, roles: REVIEWER_ROLES, actions: ['review'] },
+  { from: REVIEWED, to: RELEASED, roles: REVIEWER_ROLES, actions: ['release'] },
+  {
+    from: REVIEWED,
+    to: COMPLETED,
+    roles: REVIEWER_ROLES,
+    actions: ['update', 'enter-result'],
+    requiresReason: true,
+  },
+  {
+    from: REVIEWED,
+    to: IN_PROGRESS,
+    roles: REVIEWER_ROLES,
+    actions: ['update'],
+    requiresReason: true,
+  },
+  {
+    from: RELEASED,
+    to: REVIEWED,
+    roles: [Role.ADMIN],
+    actions: ['update'],
+    requiresReason: true,
+  },
+];
+
+/**
+ * List the transitions out of a status that a role may make
+ */
+export function getAllowedTransitions(
+  from: TestAssignmentStatus,
+  role: Role,
+): StatusTransition[] {
+  return TEST_ASSIGNMENT_TRANSITIONS.filter(
+    (transition) => transition.from === from && transition.roles.includes(role),
+  );
+}
+
+/**
+ * Check a status change against the transition table
+ *
+ * @throws BadRequestException if the move is not in the table, is not made
+ * through one of its actions, or lacks a required reason
+ * @throws ForbiddenException if the role may not make the move
+ */
+export function assertTransition(
+  from: TestAssignmentStatus,
+  to: TestAssignmentStatus,
+  action: TransitionAction,
+  role: Role,
+  reason?: string,
+): void {
+  // Edits and result re-entry may leave the status as it is; review and
+  // release always move it on
+  if (from === to && (action === 'update' || action === 'enter-result')) {
+    return;
+  }
+
+  const transition = TEST_ASSIGNMENT_TRANSITIONS.find(
+    (candidate) => candidate.from === from && candidate.to === to,
+  );
+
+  if (!transition) {
+    throw new BadRequestException(
+      `TestAssignment cannot move from ${from} to ${to}`,
+    );
+  }
+
+  if (!transition.actions.includes(action)) {
+    throw new BadRequestException(
+      `TestAssignment moves from ${from} to ${to} through ${transition.actions.join(' or ')}, not ${action}`,
+    );
+  }
+
+  if (!transition.roles.includes(role)) {
+    throw new ForbiddenException(
+      `Role ${role} cannot move a TestAssignment from ${from} to ${to}`,
+    );
+  }
+
+  if (transition.requiresReason && !reason?.trim()) {
+    throw new BadRequestException(
+      `A reason is required to move a TestAssignment from ${from} to ${to}`,
+    );
+  }
+}
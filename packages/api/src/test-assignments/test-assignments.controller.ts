@@ -20,7 +20,9 @@ import type {
   CreateTestAssignmentDto,
   UpdateTestAssignmentDto,
   EnterResultDto,
+  RequestRetestDto,
 } from './test-assignments.service';
+import type { SignatureDto } from '../signatures/signatures.service';
 import { Roles } from '../auth/roles.decorator';
 import { Role, TestAssignmentStatus } from '@prisma/client';
 import type { Request } from 'express';
@@ -46,6 +48,7 @@ export class TestAssignmentsController {
     const context = {
       actorId: user.userId,
       actorEmail: user.email,
+      actorRole: user.role,
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
@@ -89,6 +92,21 @@ export class TestAssignmentsController {
     return this.testAssignmentsService.getTestAssignment(id);
   }
 
+  @Get(':id/transitions')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({
+    summary: 'List the status transitions the current user may make',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Allowed transitions retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Test assignment not found' })
+  async getAllowedTransitions(@Param('id') id: string, @Req() req: Request) {
+    const user = (req as any).user;
+    return this.testAssignmentsService.getAllowedTransitions(id, user.role);
+  }
+
   @Put(':id')
   @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
   @ApiOperation({ summary: 'Update test assignment' })
@@ -106,6 +124,7 @@ export class TestAssignmentsController {
     const context = {
       actorId: user.userId,
       actorEmail: user.email,
+      actorRole: user.role,
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
@@ -126,6 +145,7 @@ export class TestAssignmentsController {
     const context = {
       actorId: user.userId,
       actorEmail: user.email,
+      actorRole: user.role,
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
@@ -139,16 +159,26 @@ export class TestAssignmentsController {
     status: 200,
     description: 'Test assignment reviewed successfully',
   })
+  @ApiResponse({ status: 401, description: 'Signature password is incorrect' })
+  @ApiResponse({
+    status: 403,
+    description: 'The result was entered by the same user (four-eyes rule)',
+  })
   @ApiResponse({ status: 404, description: 'Test assignment not found' })
-  async reviewTestAssignment(@Param('id') id: string, @Req() req: Request) {
+  async reviewTestAssignment(
+    @Param('id') id: string,
+    @Body() dto: SignatureDto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
       actorEmail: user.email,
+      actorRole: user.role,
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.testAssignmentsService.reviewTestAssignment(id, context);
+    return this.testAssignmentsService.reviewTestAssignment(id, dto, context);
   }
 
   @Post(':id/release')
@@ -158,16 +188,86 @@ export class TestAssignmentsController {
     status: 200,
     description: 'Test assignment released successfully',
   })
+  @ApiResponse({ status: 401, description: 'Signature password is incorrect' })
+  @ApiResponse({
+    status: 403,
+    description: 'The result was entered by the same user (four-eyes rule)',
+  })
   @ApiResponse({ status: 404, description: 'Test assignment not found' })
-  async releaseTestAssignment(@Param('id') id: string, @Req() req: Request) {
+  async releaseTestAssignment(
+    @Param('id') id: string,
+    @Body() dto: SignatureDto,
+    @Req() req: Request,
+  ) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
       actorEmail: user.email,
+      actorRole: user.role,
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.testAssignmentsService.releaseTestAssignment(id, context);
+    return this.testAssignmentsService.releaseTestAssignment(id, dto, context);
+  }
+
+  @Post(':id/retest')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({
+    summary: 'Request a retest as a new linked attempt with a reason code',
+  })
+  @ApiResponse({ status: 201, description: 'Retest created successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid reason, no result yet, or already retested',
+  })
+  @ApiResponse({ status: 404, description: 'Test assignment not found' })
+  async requestRetest(
+    @Param('id') id: string,
+    @Body() dto: RequestRetestDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.testAssignmentsService.requestRetest(id, dto, context);
+  }
+
+  @Post(':id/reportable')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({
+    summary: 'Mark this attempt as the reportable one in its retest chain',
+  })
+  @ApiResponse({ status: 200, description: 'Reportable attempt updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'The current reportable attempt has been released',
+  })
+  @ApiResponse({ status: 404, description: 'Test assignment not found' })
+  async markReportable(@Param('id') id: string, @Req() req: Request) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.testAssignmentsService.markReportable(id, context);
+  }
+
+  @Get(':id/retest-chain')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER, Role.ANALYST)
+  @ApiOperation({ summary: 'Get every attempt in the retest chain' })
+  @ApiResponse({
+    status: 200,
+    description: 'Retest chain retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Test assignment not found' })
+  async getRetestChain(@Param('id') id: string) {
+    return this.testAssignmentsService.getRetestChain(id);
   }
 
   @Post(':id/attachments')
@@ -3,9 +3,18 @@ import { TestAssignmentsService } from './test-assignments.service';
 import { TestAssignmentsController } from './test-assignments.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuditModule } from '../audit/audit.module';
+import { OOSInvestigationsModule } from '../oos-investigations/oos-investigations.module';
+import { SegregationOfDutiesModule } from '../segregation-of-duties/segregation-of-duties.module';
+import { SignaturesModule } from '../signatures/signatures.module';
 
 @Module({
-  imports: [PrismaModule, AuditModule],
+  imports: [
+    PrismaModule,
+    AuditModule,
+    OOSInvestigationsModule,
+    SegregationOfDutiesModule,
+    SignaturesModule,
+  ],
   providers: [TestAssignmentsService],
   controllers: [TestAssignmentsController],
   exports: [TestAssignmentsService],
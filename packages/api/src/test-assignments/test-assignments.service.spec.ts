@@ -1,8 +1,27 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { TestAssignmentsService } from './test-assignments.service';
+import {
+  TestAssignmentsService,
+  UpdateTestAssignmentDto,
+} from './test-assignments.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService } from '../audit/audit.service';
-import { TestAssignmentStatus } from '@prisma/client';
+import { OOSInvestigationsService } from '../oos-investigations/oos-investigations.service';
+import { SegregationOfDutiesService } from '../segregation-of-duties/segregation-of-duties.service';
+import { SignaturesService } from '../signatures/signatures.service';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  RetestReason,
+  Role,
+  SignatureMeaning,
+  TestAssignmentStatus,
+} from '@prisma/client';
+
+jest.mock('bcrypt', () => ({ compare: jest.fn() }));
 
 describe('TestAssignmentsService', () => {
   let service: TestAssignmentsService;
@@ -12,11 +31,15 @@ describe('TestAssignmentsService', () => {
   const mockPrismaService = {
     sample: {
       findUnique: jest.fn(),
+      update: jest.fn(),
     },
     testAssignment: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       findMany: jest.fn(),
       count: jest.fn(),
     },
@@ -26,12 +49,39 @@ describe('TestAssignmentsService', () => {
     testPack: {
       findUnique: jest.fn(),
     },
+    labSettings: {
+      findFirst: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
   };
 
+  // Runs the writes against the mocked client, as the transaction would
   const mockAuditService = {
-    logCreate: jest.fn(),
-    logUpdate: jest.fn(),
-    generateTxId: jest.fn(() => 'tx-123'),
+    withContext: jest.fn((_context, fn: (tx: unknown) => unknown) =>
+      fn(mockPrismaService),
+    ),
+  };
+
+  const mockOOSInvestigationsService = {
+    openInvestigation: jest.fn(),
+    assertNoOpenInvestigation: jest.fn(),
+    assertNotInvalidated: jest.fn(),
+  };
+
+  const mockSignaturesService = {
+    verifySigner: jest.fn(),
+    recordSignature: jest.fn(),
+    invalidateChanged: jest.fn(),
+    invalidateSignatures: jest.fn(),
+  };
+
+  const reviewSignature = {
+    password: 'secret',
+    meaning: SignatureMeaning.REVIEWED,
+  };
+  const releaseSignature = {
+    password: 'secret',
+    meaning: SignatureMeaning.RELEASED,
   };
 
   beforeEach(async () => {
@@ -46,12 +96,36 @@ describe('TestAssignmentsService', () => {
           provide: AuditService,
           useValue: mockAuditService,
         },
+        {
+          provide: OOSInvestigationsService,
+          useValue: mockOOSInvestigationsService,
+        },
+        {
+          provide: SignaturesService,
+          useValue: mockSignaturesService,
+        },
+        SegregationOfDutiesService,
       ],
     }).compile();
 
     service = module.get<TestAssignmentsService>(TestAssignmentsService);
     prismaService = module.get<PrismaService>(PrismaService);
     auditService = module.get<AuditService>(AuditService);
+
+    // The tests belong to a sample that has not been deleted
+    mockPrismaService.sample.findUnique.mockResolvedValue({
+      id: 'sample-123',
+      deletedAt: null,
+    });
+    // Review and release update conditionally, then read the row back
+    mockPrismaService.testAssignment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.testAssignment.findUniqueOrThrow.mockImplementation(
+      (args: { where: { id: string } }) => {
+        const [update] = mockPrismaService.testAssignment.updateMany.mock
+          .lastCall as [{ data: object }];
+        return Promise.resolve({ id: args.where.id, ...update.data });
+      },
+    );
   });
 
   afterEach(() => {
@@ -74,11 +148,13 @@ describe('TestAssignmentsService', () => {
       const context = {
         actorId: 'user-123',
         actorEmail: 'test@example.com',
+        actorRole: Role.ANALYST,
       };
 
       const oldTestAssignment = {
         id: testAssignmentId,
         result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
         oos: false,
         specification: {
           min: 100,
@@ -107,7 +183,10 @@ describe('TestAssignmentsService', () => {
       expect(result.result).toBe('150');
       expect(result.oos).toBe(false);
       expect(result.status).toBe(TestAssignmentStatus.COMPLETED);
-      expect(mockAuditService.logUpdate).toHaveBeenCalled();
+      expect(mockAuditService.withContext).toHaveBeenCalled();
+      expect(
+        mockOOSInvestigationsService.openInvestigation,
+      ).not.toHaveBeenCalled();
     });
 
     it('should flag OOS when result is out of range', async () => {
@@ -120,11 +199,13 @@ describe('TestAssignmentsService', () => {
       const context = {
         actorId: 'user-123',
         actorEmail: 'test@example.com',
+        actorRole: Role.ANALYST,
       };
 
       const oldTestAssignment = {
         id: testAssignmentId,
         result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
         oos: false,
         specification: {
           min: 100,
@@ -149,6 +230,47 @@ describe('TestAssignmentsService', () => {
       const result = await service.enterResult(testAssignmentId, dto, context);
 
       expect(result.oos).toBe(true);
+      expect(
+        mockOOSInvestigationsService.openInvestigation,
+      ).toHaveBeenCalledWith(updatedTestAssignment, context);
+    });
+
+    it('should open the investigation in the transaction of the OOS result', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        specification: { min: 100, max: 200 },
+      });
+      mockPrismaService.testAssignment.update.mockResolvedValue({
+        id: 'ta-123',
+        oos: true,
+        status: TestAssignmentStatus.COMPLETED,
+      });
+      let openedInTransaction = false;
+      mockAuditService.withContext.mockImplementationOnce(
+        async (_context, fn: (tx: unknown) => unknown) => {
+          const result = await fn(mockPrismaService);
+          openedInTransaction =
+            mockOOSInvestigationsService.openInvestigation.mock.calls.length ===
+              1 &&
+            mockSignaturesService.invalidateChanged.mock.calls.length === 1;
+          return result;
+        },
+      );
+
+      await service.enterResult(
+        'ta-123',
+        { result: '250' },
+        {
+          actorId: 'user-123',
+          actorEmail: 'test@example.com',
+          actorRole: Role.ANALYST,
+        },
+      );
+
+      expect(openedInTransaction).toBe(true);
+      expect(mockAuditService.withContext).toHaveBeenCalledTimes(1);
     });
 
     it('should not flag OOS when no specification is provided', async () => {
@@ -160,11 +282,13 @@ describe('TestAssignmentsService', () => {
       const context = {
         actorId: 'user-123',
         actorEmail: 'test@example.com',
+        actorRole: Role.ANALYST,
       };
 
       const oldTestAssignment = {
         id: testAssignmentId,
         result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
         oos: false,
         specification: null,
       };
@@ -187,6 +311,1147 @@ describe('TestAssignmentsService', () => {
 
       expect(result.oos).toBe(false);
     });
+
+    it('should flag OOS using a compound specification rule', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.ANALYST,
+      };
+
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        oos: false,
+        specification: { oosRule: '> 5 and < 10' },
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+
+      const result = await service.enterResult(
+        'ta-123',
+        { result: '12' },
+        context,
+      );
+
+      expect(result.oos).toBe(true);
+    });
+
+    it('should reject results against a specification rule that does not parse', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.ANALYST,
+      };
+
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        oos: false,
+        specification: { oosRule: '> 5 and' },
+      });
+
+      await expect(
+        service.enterResult('ta-123', { result: '7' }, context),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enterResult with replicates', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.ANALYST,
+    };
+
+    const enter = async (
+      replicates: { value: number; valid?: boolean; excludedReason?: string }[],
+      method: object,
+    ) => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        oos: false,
+        specification: { min: 98, max: 102 },
+        method,
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+      return service.enterResult('ta-123', { replicates }, context);
+    };
+
+    it('should report the mean and store the replicate statistics', async () => {
+      const result = await enter(
+        [{ value: 99.1 }, { value: 100.3 }, { value: 100.8 }],
+        { rsdLimit: 2, reportableRule: 'MEAN', decimalPlaces: 1 },
+      );
+
+      expect(result.result).toBe('100.066666666667');
+      expect(result.reportedResult).toBe('100.1');
+      expect(result.replicateMean).toBeCloseTo(100.0667, 4);
+      expect(result.replicateSd).toBeCloseTo(0.8737, 4);
+      expect(result.replicateRsd).toBeCloseTo(0.8731, 4);
+      expect(result.rsdExceeded).toBe(false);
+      expect(result.oos).toBe(false);
+    });
+
+    it('should flag the test when %RSD exceeds the method limit', async () => {
+      const result = await enter([{ value: 95 }, { value: 105 }], {
+        rsdLimit: 2,
+        reportableRule: 'MEAN',
+      });
+
+      expect(result.rsdExceeded).toBe(true);
+    });
+
+    it('should apply the median and first-valid reportable rules', async () => {
+      const readings = [
+        { value: 97, valid: false, excludedReason: 'Air bubble in injection' },
+        { value: 99 },
+        { value: 101 },
+        { value: 100 },
+      ];
+
+      expect((await enter(readings, { reportableRule: 'MEDIAN' })).result).toBe(
+        '100',
+      );
+      expect(
+        (await enter(readings, { reportableRule: 'FIRST_VALID' })).result,
+      ).toBe('99');
+    });
+
+    it('should require a reason for invalid replicates', async () => {
+      await expect(
+        enter([{ value: 97, valid: false }, { value: 99 }], {}),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject replicates combined with a result', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        specification: null,
+        method: null,
+      });
+
+      await expect(
+        service.enterResult(
+          'ta-123',
+          { result: '99', replicates: [{ value: 99 }] },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('enterResult with calculated results', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.ANALYST,
+    };
+
+    const testDefinition = {
+      name: 'Lead by ICP',
+      inputFields: [
+        { name: 'reading' },
+        { name: 'blank' },
+        { name: 'dilution' },
+        { name: 'mass' },
+      ],
+      formula: '(reading - blank) * dilution / mass',
+      formulaVersion: 2,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        oos: false,
+        specification: { max: 5 },
+        method: { decimalPlaces: 1 },
+        testDefinition,
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+    });
+
+    it('should calculate the result from raw inputs and store the working', async () => {
+      const inputs = { reading: 0.52, blank: 0.02, dilution: 10, mass: 0.5 };
+
+      const result = await service.enterResult('ta-123', { inputs }, context);
+
+      expect(result.result).toBe('10');
+      expect(result.reportedResult).toBe('10.0');
+      expect(result.oos).toBe(true);
+      expect(result.rawInputs).toEqual(inputs);
+      expect(result.formulaVersion).toBe(2);
+      expect(result.calculation).toBe(
+        '(reading - blank) * dilution / mass = (0.52 - 0.02) * 10 / 0.5 = 10',
+      );
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+        undefined,
+      );
+    });
+
+    it('should reject missing inputs', async () => {
+      await expect(
+        service.enterResult(
+          'ta-123',
+          { inputs: { reading: 0.52, blank: 0.02, dilution: 10 } },
+          context,
+        ),
+      ).rejects.toThrow(
+        "Missing or non-numeric input(s) for 'Lead by ICP': mass",
+      );
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a hand-entered result for a calculated test', async () => {
+      await expect(
+        service.enterResult('ta-123', { result: '10' }, context),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a calculation that divides by zero', async () => {
+      await expect(
+        service.enterResult(
+          'ta-123',
+          { inputs: { reading: 0.52, blank: 0.02, dilution: 10, mass: 0 } },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('enterResult with method rounding', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.ANALYST,
+    };
+
+    const enter = async (result: string, method: object) => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        oos: false,
+        specification: { max: 2.0 },
+        method,
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+      return service.enterResult('ta-123', { result }, context);
+    };
+
+    it('should store the raw result and the rounded reported result', async () => {
+      const result = await enter('1.96', { decimalPlaces: 1 });
+
+      expect(result.result).toBe('1.96');
+      expect(result.reportedResult).toBe('2.0');
+    });
+
+    it('should judge OOS on the rounded value by default', async () => {
+      const result = await enter('2.04', {
+        decimalPlaces: 1,
+        oosBasis: 'ROUNDED',
+      });
+
+      expect(result.reportedResult).toBe('2.0');
+      expect(result.oos).toBe(false);
+    });
+
+    it('should judge OOS on the raw value when the method requires it', async () => {
+      const result = await enter('2.04', { decimalPlaces: 1, oosBasis: 'RAW' });
+
+      expect(result.reportedResult).toBe('2.0');
+      expect(result.oos).toBe(true);
+    });
+  });
+
+  describe('enterResult with censored results', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.ANALYST,
+    };
+
+    const enter = async (result: string, specification: object) => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        result: null,
+        status: TestAssignmentStatus.IN_PROGRESS,
+        oos: false,
+        specification,
+        method: { lod: 1, loq: 10 },
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+      return service.enterResult('ta-123', { result }, context);
+    };
+
+    it('should store the parsed qualifier, value and detection state', async () => {
+      const result = await enter('<LOQ', { max: 100 });
+
+      expect(result.resultQualifier).toBe('<');
+      expect(result.resultValue).toBe(10);
+      expect(result.detectionState).toBe('BELOW_LIMIT');
+      expect(result.oos).toBe(false);
+    });
+
+    it('should resolve <LOD and ND against the method LOD', async () => {
+      expect((await enter('<LOD', { max: 1 })).detectionState).toBe(
+        'NOT_DETECTED',
+      );
+      expect((await enter('ND', { max: 1 })).oos).toBe(false);
+      expect((await enter('<0.5', { max: 1 })).detectionState).toBe(
+        'NOT_DETECTED',
+      );
+    });
+
+    it('should flag <LOQ as OOS when the maximum is below the LOQ', async () => {
+      const result = await enter('<LOQ', { max: 5 });
+
+      expect(result.oos).toBe(true);
+    });
+
+    it('should flag results above the working range against a maximum', async () => {
+      expect((await enter('TNTC', { max: 300 })).oos).toBe(true);
+      expect((await enter('>ULOQ', { max: 300 })).detectionState).toBe(
+        'ABOVE_LIMIT',
+      );
+      expect((await enter('>300', { min: 100 })).oos).toBe(false);
+    });
+
+    it('should flag censored results that cannot meet a minimum', async () => {
+      expect((await enter('<LOQ', { min: 5 })).oos).toBe(true);
+      expect((await enter('ND', { oosRule: '>= 2' })).oos).toBe(true);
+    });
+
+    it('should treat a censoring limit equal to the maximum as in spec', async () => {
+      expect((await enter('<10', { max: 10 })).oos).toBe(false);
+      expect((await enter('<20', { max: 10 })).oos).toBe(true);
+    });
+
+    it('should leave structured fields null for qualitative results', async () => {
+      const result = await enter('Absent', { target: 'Absent' });
+
+      expect(result.resultQualifier).toBeNull();
+      expect(result.resultValue).toBeNull();
+      expect(result.detectionState).toBeNull();
+      expect(result.oos).toBe(false);
+    });
+  });
+
+  describe('releaseTestAssignment', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.LAB_MANAGER,
+    };
+
+    it('should refuse to release while the sample has an open OOS investigation', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.REVIEWED,
+      });
+      mockOOSInvestigationsService.assertNoOpenInvestigation.mockRejectedValueOnce(
+        new BadRequestException('Sample has 1 open OOS investigation(s)'),
+      );
+
+      await expect(
+        service.releaseTestAssignment('ta-123', releaseSignature, context),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockOOSInvestigationsService.assertNoOpenInvestigation,
+      ).toHaveBeenCalledWith('sample-123');
+      // Checked in the transaction of the release, under the sample's lock
+      expect(mockAuditService.withContext).toHaveBeenCalledTimes(1);
+      expect(
+        mockPrismaService.testAssignment.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to release a result an investigation invalidated', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.REVIEWED,
+      });
+      mockOOSInvestigationsService.assertNotInvalidated.mockRejectedValueOnce(
+        new BadRequestException(
+          'The result was invalidated by OOS investigation oos-1; request a retest instead of releasing it',
+        ),
+      );
+
+      await expect(
+        service.releaseTestAssignment('ta-123', releaseSignature, context),
+      ).rejects.toThrow('request a retest');
+
+      expect(
+        mockOOSInvestigationsService.assertNotInvalidated,
+      ).toHaveBeenCalledWith('ta-123');
+      expect(
+        mockPrismaService.testAssignment.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should not sign when a concurrent release got there first', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.REVIEWED,
+        resultEnteredById: 'user-456',
+      });
+      mockPrismaService.testAssignment.updateMany.mockResolvedValueOnce({
+        count: 0,
+      });
+
+      await expect(
+        service.releaseTestAssignment('ta-123', releaseSignature, context),
+      ).rejects.toThrow(
+        "TestAssignment with ID 'ta-123' is no longer REVIEWED",
+      );
+
+      expect(mockPrismaService.testAssignment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ta-123', status: TestAssignmentStatus.REVIEWED },
+        data: {
+          status: TestAssignmentStatus.RELEASED,
+          updatedById: 'user-123',
+        },
+      });
+      expect(mockSignaturesService.recordSignature).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTestAssignment', () => {
+    it('should only change results and the OOS flag through enterResult', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.LAB_MANAGER,
+      };
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.COMPLETED,
+        result: '12',
+        oos: false,
+      });
+
+      // Fields outside the DTO still arrive in the JSON body
+      await expect(
+        service.updateTestAssignment(
+          'ta-123',
+          { result: '99', oos: true } as unknown as UpdateTestAssignmentDto,
+          context,
+        ),
+      ).rejects.toThrow('Cannot update result, oos directly');
+
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+      expect(
+        mockOOSInvestigationsService.openInvestigation,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should only record the checker through review', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.ANALYST,
+      };
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.COMPLETED,
+      });
+
+      await expect(
+        service.updateTestAssignment(
+          'ta-123',
+          {
+            chkById: 'user-123',
+            chkDate: new Date(),
+          } as unknown as UpdateTestAssignmentDto,
+          context,
+        ),
+      ).rejects.toThrow('Cannot update chkById, chkDate directly');
+
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should not change the tests of a deleted sample', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.LAB_MANAGER,
+      };
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.COMPLETED,
+      });
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        id: 'sample-123',
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.updateTestAssignment('ta-123', { comments: 'Typo' }, context),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.enterResult('ta-123', { result: '12' }, context),
+      ).rejects.toThrow(NotFoundException);
+
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason to change a reviewed test', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.LAB_MANAGER,
+      };
+      const oldTestAssignment = {
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.REVIEWED,
+        comments: null,
+      };
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue(
+        oldTestAssignment,
+      );
+
+      await expect(
+        service.updateTestAssignment('ta-123', { comments: 'Typo' }, context),
+      ).rejects.toThrow(
+        'A reason is required to change a REVIEWED TestAssignment',
+      );
+
+      const updated = { ...oldTestAssignment, comments: 'Typo' };
+      mockPrismaService.testAssignment.update.mockResolvedValue(updated);
+      await service.updateTestAssignment(
+        'ta-123',
+        { comments: 'Typo', reason: 'Transcription error' },
+        context,
+      );
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        context,
+        expect.any(Function),
+        'Transcription error',
+      );
+    });
+
+    it('should require a reason to change a test of a released sample', async () => {
+      const context = {
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        actorRole: Role.LAB_MANAGER,
+      };
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        status: TestAssignmentStatus.COMPLETED,
+        comments: null,
+      });
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        id: 'sample-123',
+        deletedAt: null,
+        released: true,
+      });
+
+      await expect(
+        service.updateTestAssignment('ta-123', { comments: 'Typo' }, context),
+      ).rejects.toThrow(
+        'A reason is required to change a TestAssignment of a released Sample',
+      );
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('status transitions', () => {
+    const analyst = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.ANALYST,
+    };
+    const manager = { ...analyst, actorRole: Role.LAB_MANAGER };
+
+    const mockStatus = (status: TestAssignmentStatus) => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        result: '12',
+        oos: false,
+        status,
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+    };
+
+    it('should reject moves that are not in the transition table', async () => {
+      mockStatus(TestAssignmentStatus.DRAFT);
+
+      await expect(
+        service.updateTestAssignment(
+          'ta-123',
+          { status: TestAssignmentStatus.RELEASED },
+          manager,
+        ),
+      ).rejects.toThrow('TestAssignment cannot move from DRAFT to RELEASED');
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason for backward moves', async () => {
+      mockStatus(TestAssignmentStatus.REVIEWED);
+
+      await expect(
+        service.updateTestAssignment(
+          'ta-123',
+          { status: TestAssignmentStatus.IN_PROGRESS },
+          manager,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should record the reason for a backward move in the audit log', async () => {
+      mockStatus(TestAssignmentStatus.REVIEWED);
+
+      await service.updateTestAssignment(
+        'ta-123',
+        {
+          status: TestAssignmentStatus.IN_PROGRESS,
+          reason: 'Standard curve failed system suitability',
+        },
+        manager,
+      );
+
+      const { data } = mockPrismaService.testAssignment.update.mock.calls[0][0];
+      expect(data.status).toBe(TestAssignmentStatus.IN_PROGRESS);
+      expect(data.reason).toBeUndefined();
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        manager,
+        expect.any(Function),
+        'Standard curve failed system suitability',
+      );
+    });
+
+    it('should restrict transitions by role', async () => {
+      mockStatus(TestAssignmentStatus.REVIEWED);
+
+      await expect(
+        service.updateTestAssignment(
+          'ta-123',
+          { status: TestAssignmentStatus.IN_PROGRESS, reason: 'Rework' },
+          analyst,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+
+      mockStatus(TestAssignmentStatus.COMPLETED);
+      await expect(
+        service.reviewTestAssignment('ta-123', reviewSignature, analyst),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should only review and release through their own actions', async () => {
+      mockStatus(TestAssignmentStatus.COMPLETED);
+
+      await expect(
+        service.updateTestAssignment(
+          'ta-123',
+          { status: TestAssignmentStatus.REVIEWED },
+          manager,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.releaseTestAssignment('ta-123', releaseSignature, manager),
+      ).rejects.toThrow(
+        'TestAssignment cannot move from COMPLETED to RELEASED',
+      );
+    });
+
+    it('should require a reason to re-enter a reviewed result', async () => {
+      mockStatus(TestAssignmentStatus.REVIEWED);
+
+      await expect(
+        service.enterResult('ta-123', { result: '13' }, manager),
+      ).rejects.toThrow(BadRequestException);
+
+      const result = await service.enterResult(
+        'ta-123',
+        { result: '13', reason: 'Transcription error' },
+        manager,
+      );
+      expect(result.status).toBe(TestAssignmentStatus.COMPLETED);
+    });
+
+    it('should list the transitions open to the user', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        status: TestAssignmentStatus.COMPLETED,
+      });
+
+      const analystMoves = await service.getAllowedTransitions(
+        'ta-123',
+        Role.ANALYST,
+      );
+      const managerMoves = await service.getAllowedTransitions(
+        'ta-123',
+        Role.LAB_MANAGER,
+      );
+
+      expect(analystMoves.map((transition) => transition.to)).toEqual([
+        TestAssignmentStatus.IN_PROGRESS,
+      ]);
+      expect(managerMoves.map((transition) => transition.to)).toEqual([
+        TestAssignmentStatus.IN_PROGRESS,
+        TestAssignmentStatus.REVIEWED,
+      ]);
+    });
+  });
+
+  describe('four-eyes rule', () => {
+    const manager = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.LAB_MANAGER,
+    };
+
+    const mockTest = (fields: object) => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        result: '12',
+        status: TestAssignmentStatus.COMPLETED,
+        resultEnteredById: 'user-456',
+        analystId: 'user-456',
+        ...fields,
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+    };
+
+    it('should record who entered the result', async () => {
+      mockTest({ status: TestAssignmentStatus.IN_PROGRESS });
+
+      const result = await service.enterResult(
+        'ta-123',
+        { result: '12' },
+        manager,
+      );
+
+      expect(result.resultEnteredById).toBe('user-123');
+    });
+
+    it('should let another user review the result', async () => {
+      mockTest({});
+
+      const result = await service.reviewTestAssignment(
+        'ta-123',
+        reviewSignature,
+        manager,
+      );
+
+      expect(result.chkById).toBe('user-123');
+      expect(mockPrismaService.labSettings.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('should block self-review and self-release', async () => {
+      mockPrismaService.labSettings.findFirst.mockResolvedValue(null);
+
+      mockTest({ resultEnteredById: 'user-123' });
+      await expect(
+        service.reviewTestAssignment('ta-123', reviewSignature, manager),
+      ).rejects.toThrow(ForbiddenException);
+
+      mockTest({
+        status: TestAssignmentStatus.REVIEWED,
+        resultEnteredById: 'user-123',
+      });
+      await expect(
+        service.releaseTestAssignment('ta-123', releaseSignature, manager),
+      ).rejects.toThrow(ForbiddenException);
+      expect(
+        mockPrismaService.testAssignment.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the assigned analyst for older results', async () => {
+      mockPrismaService.labSettings.findFirst.mockResolvedValue(null);
+      mockTest({ resultEnteredById: null, analystId: 'user-123' });
+
+      await expect(
+        service.reviewTestAssignment('ta-123', reviewSignature, manager),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should allow a justified exception when the lab permits it', async () => {
+      mockPrismaService.labSettings.findFirst.mockResolvedValue({
+        allowSegregationExceptions: true,
+      });
+      mockTest({ resultEnteredById: 'user-123' });
+
+      await expect(
+        service.reviewTestAssignment('ta-123', reviewSignature, manager),
+      ).rejects.toThrow(BadRequestException);
+
+      await service.reviewTestAssignment(
+        'ta-123',
+        {
+          ...reviewSignature,
+          justification: 'Night shift with a single analyst',
+        },
+        manager,
+      );
+
+      expect(mockAuditService.withContext).toHaveBeenCalledWith(
+        manager,
+        expect.any(Function),
+        'Segregation-of-duties exception: Night shift with a single analyst',
+      );
+    });
+  });
+
+  describe('electronic signatures', () => {
+    const manager = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.LAB_MANAGER,
+    };
+    const signer = {
+      id: 'user-123',
+      name: 'Test Manager',
+      email: 'test@example.com',
+    };
+
+    const mockTest = (status: TestAssignmentStatus) => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        id: 'ta-123',
+        sampleId: 'sample-123',
+        result: '12',
+        status,
+        resultEnteredById: 'user-456',
+      });
+      mockPrismaService.testAssignment.update.mockImplementation((args) =>
+        Promise.resolve({ id: 'ta-123', ...args.data }),
+      );
+    };
+
+    it('should sign the review with the chosen meaning', async () => {
+      mockTest(TestAssignmentStatus.COMPLETED);
+      mockSignaturesService.verifySigner.mockResolvedValue(signer);
+
+      const result = await service.reviewTestAssignment(
+        'ta-123',
+        reviewSignature,
+        manager,
+      );
+
+      expect(mockSignaturesService.verifySigner).toHaveBeenCalledWith(
+        manager,
+        reviewSignature,
+        'review',
+      );
+      expect(mockSignaturesService.recordSignature).toHaveBeenCalledWith(
+        manager,
+        signer,
+        'TestAssignment',
+        result,
+        SignatureMeaning.REVIEWED,
+      );
+    });
+
+    it('should sign the review in the transaction of the status change', async () => {
+      mockTest(TestAssignmentStatus.COMPLETED);
+      mockSignaturesService.verifySigner.mockResolvedValue(signer);
+      let signedInTransaction = false;
+      mockAuditService.withContext.mockImplementationOnce(
+        async (_context, fn: (tx: unknown) => unknown) => {
+          const result = await fn(mockPrismaService);
+          signedInTransaction =
+            mockSignaturesService.recordSignature.mock.calls.length === 1;
+          return result;
+        },
+      );
+
+      await service.reviewTestAssignment('ta-123', reviewSignature, manager);
+
+      expect(signedInTransaction).toBe(true);
+      expect(mockPrismaService.testAssignment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'ta-123', status: TestAssignmentStatus.COMPLETED },
+        }),
+      );
+    });
+
+    it('should not review when the password is wrong', async () => {
+      mockTest(TestAssignmentStatus.COMPLETED);
+      mockSignaturesService.verifySigner.mockRejectedValueOnce(
+        new UnauthorizedException('Signature password is incorrect'),
+      );
+
+      await expect(
+        service.reviewTestAssignment('ta-123', reviewSignature, manager),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(
+        mockPrismaService.testAssignment.updateMany,
+      ).not.toHaveBeenCalled();
+      expect(mockSignaturesService.recordSignature).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate signatures when a reviewed test is sent back', async () => {
+      mockTest(TestAssignmentStatus.REVIEWED);
+
+      await service.updateTestAssignment(
+        'ta-123',
+        { status: TestAssignmentStatus.IN_PROGRESS, reason: 'Wrong standard' },
+        manager,
+      );
+
+      expect(mockSignaturesService.invalidateChanged).toHaveBeenCalled();
+      expect(mockSignaturesService.invalidateSignatures).toHaveBeenCalledWith(
+        manager,
+        'TestAssignment',
+        'ta-123',
+        Object.values(SignatureMeaning),
+        'Status moved from REVIEWED to IN_PROGRESS: Wrong standard',
+      );
+    });
+
+    it('should only check the hash when the status stays put', async () => {
+      mockTest(TestAssignmentStatus.COMPLETED);
+
+      await service.updateTestAssignment(
+        'ta-123',
+        { comments: 'Checked' },
+        manager,
+      );
+
+      expect(mockSignaturesService.invalidateChanged).toHaveBeenCalled();
+      expect(mockSignaturesService.invalidateSignatures).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestRetest', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+      actorRole: Role.LAB_MANAGER,
+    };
+
+    const original = {
+      id: 'ta-1',
+      sampleId: 'sample-123',
+      testDefinitionId: 'td-1',
+      sectionId: 'section-1',
+      methodId: 'method-1',
+      specificationId: 'spec-1',
+      customTestName: null,
+      dueDate: null,
+      analystId: 'analyst-1',
+      status: TestAssignmentStatus.COMPLETED,
+      result: '94.2',
+      oos: true,
+      attempt: 1,
+      reportable: true,
+      retestOfId: null,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue(original);
+      mockPrismaService.testAssignment.count.mockResolvedValue(0);
+      mockPrismaService.sample.findUnique.mockResolvedValue({
+        id: 'sample-123',
+        retest: false,
+      });
+      mockPrismaService.testAssignment.create.mockResolvedValue({
+        id: 'ta-2',
+      });
+      mockPrismaService.testAssignment.update.mockResolvedValue({
+        ...original,
+        reportable: false,
+      });
+      mockPrismaService.sample.update.mockResolvedValue({
+        id: 'sample-123',
+        retest: true,
+      });
+    });
+
+    it('should clone the test into a linked reportable attempt', async () => {
+      await service.requestRetest(
+        'ta-1',
+        { reason: RetestReason.LAB_ERROR },
+        context,
+      );
+
+      expect(mockPrismaService.testAssignment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            sampleId: 'sample-123',
+            testDefinitionId: 'td-1',
+            specificationId: 'spec-1',
+            status: TestAssignmentStatus.DRAFT,
+            attempt: 2,
+            reportable: true,
+            retestOfId: 'ta-1',
+            retestReason: RetestReason.LAB_ERROR,
+          }),
+        }),
+      );
+      expect(mockAuditService.withContext).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the original result and only move the reportable flag', async () => {
+      await service.requestRetest(
+        'ta-1',
+        { reason: RetestReason.OOS_INVESTIGATION },
+        context,
+      );
+
+      expect(mockPrismaService.testAssignment.update).toHaveBeenCalledWith({
+        where: { id: 'ta-1' },
+        data: { reportable: false, updatedById: 'user-123' },
+      });
+      expect(mockPrismaService.sample.update).toHaveBeenCalledWith({
+        where: { id: 'sample-123' },
+        data: { retest: true, updatedById: 'user-123' },
+      });
+    });
+
+    it('should require notes when the reason is OTHER', async () => {
+      await expect(
+        service.requestRetest('ta-1', { reason: RetestReason.OTHER }, context),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only retest the latest attempt of a chain', async () => {
+      mockPrismaService.testAssignment.count.mockResolvedValue(1);
+
+      await expect(
+        service.requestRetest(
+          'ta-1',
+          { reason: RetestReason.LAB_ERROR },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      // Checked after locking the original, inside the transaction
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalled();
+      expect(mockPrismaService.testAssignment.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take the reportable flag from a released attempt', async () => {
+      mockPrismaService.testAssignment.findUnique.mockResolvedValue({
+        ...original,
+        status: TestAssignmentStatus.RELEASED,
+      });
+
+      await expect(
+        service.requestRetest(
+          'ta-1',
+          { reason: RetestReason.LAB_ERROR },
+          context,
+        ),
+      ).rejects.toThrow('Attempt 1 has been released and stays reportable');
+
+      expect(mockPrismaService.testAssignment.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a new result on an attempt that has been retested', async () => {
+      mockPrismaService.testAssignment.count.mockResolvedValue(1);
+
+      await expect(
+        service.enterResult('ta-1', { result: '99.1' }, context),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.testAssignment.update).not.toHaveBeenCalled();
+    });
+
+    afterEach(() => {
+      mockPrismaService.testAssignment.count.mockReset();
+    });
+  });
+
+  describe('markReportable', () => {
+    const context = {
+      actorId: 'user-123',
+      actorEmail: 'test@example.com',
+    };
+
+    const attempts: {
+      id: string;
+      attempt: number;
+      reportable: boolean;
+      retestOfId: string | null;
+      status?: TestAssignmentStatus;
+    }[] = [
+      { id: 'ta-1', attempt: 1, reportable: false, retestOfId: null },
+      {
+        id: 'ta-2',
+        attempt: 2,
+        reportable: true,
+        retestOfId: 'ta-1',
+        status: TestAssignmentStatus.COMPLETED,
+      },
+    ];
+
+    beforeEach(() => {
+      mockPrismaService.testAssignment.findUnique.mockImplementation(
+        ({ where }) => attempts.find((attempt) => attempt.id === where.id),
+      );
+      mockPrismaService.testAssignment.findFirst.mockImplementation(
+        ({ where }) =>
+          attempts.find((attempt) => attempt.retestOfId === where.retestOfId) ??
+          null,
+      );
+    });
+
+    afterEach(() => {
+      mockPrismaService.testAssignment.findUnique.mockReset();
+      mockPrismaService.testAssignment.findFirst.mockReset();
+    });
+
+    it('should move the reportable flag within the chain', async () => {
+      await service.markReportable('ta-1', context);
+
+      expect(mockPrismaService.testAssignment.update).toHaveBeenCalledWith({
+        where: { id: 'ta-1' },
+        data: { reportable: true, updatedById: 'user-123' },
+      });
+      expect(mockPrismaService.testAssignment.update).toHaveBeenCalledWith({
+        where: { id: 'ta-2' },
+        data: { reportable: false, updatedById: 'user-123' },
+      });
+    });
+
+    it('should not move the flag away from a released attempt', async () => {
+      attempts[1].status = TestAssignmentStatus.RELEASED;
+
+      await expect(service.markReportable('ta-1', context)).rejects.toThrow(
+        BadRequestException,
+      );
+
+      attempts[1].status = TestAssignmentStatus.COMPLETED;
+    });
   });
 
   describe('addTestPack', () => {
@@ -242,15 +1507,8 @@ describe('TestAssignmentsService', () => {
 
       expect(result).toHaveLength(2);
       expect(mockPrismaService.testAssignment.create).toHaveBeenCalledTimes(2);
-      expect(mockAuditService.logCreate).toHaveBeenCalledTimes(2);
-
-      // All should have the same txId
-      expect(mockAuditService.logCreate).toHaveBeenCalledWith(
-        expect.objectContaining({ txId: 'tx-123' }),
-        'TestAssignment',
-        expect.any(String),
-        expect.any(Object),
-      );
+      // All in one transaction, so their audit entries share a txId
+      expect(mockAuditService.withContext).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -5,7 +5,48 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditService, AuditContext } from '../audit/audit.service';
-import { TestAssignment, TestAssignmentStatus } from '@prisma/client';
+import { assertChangeReason } from '../audit/change-reason';
+import { OOSInvestigationsService } from '../oos-investigations/oos-investigations.service';
+import { SegregationOfDutiesService } from '../segregation-of-duties/segregation-of-duties.service';
+import {
+  SignatureDto,
+  SignaturesService,
+} from '../signatures/signatures.service';
+import {
+  Prisma,
+  ReportableRule,
+  RetestReason,
+  Role,
+  SignatureMeaning,
+  TestAssignment,
+  TestAssignmentStatus,
+  TestDefinition,
+} from '@prisma/client';
+import {
+  computeOOS,
+  SpecificationRule,
+  formatComputedResult,
+  MethodLimits,
+  parseResult,
+  getOOSEvaluationResult,
+  getReportedResult,
+  ReportingRule,
+  SpecRuleSyntaxError,
+  calculateFormula,
+  FormulaError,
+  FormulaInputField,
+  computeReplicateStatistics,
+  getValidReadings,
+  isRsdExceeded,
+  ReplicateReading,
+  selectReportableValue,
+} from '@lims/shared';
+import {
+  assertTransition,
+  getAllowedTransitions,
+  StatusTransition,
+  TransitionContext,
+} from './test-assignment-transitions';
 
 export interface CreateTestAssignmentDto {
   sampleId: string;
@@ -25,21 +66,42 @@ export interface UpdateTestAssignmentDto {
   analystId?: string;
   status?: TestAssignmentStatus;
   testDate?: Date;
-  result?: string;
   resultUnit?: string;
-  oos?: boolean;
   comments?: string;
   invoiceNote?: string;
   precision?: string;
   linearity?: string;
-  chkById?: string;
-  chkDate?: Date;
+  reason?: string; // Required for backward status moves and once REVIEWED or RELEASED
 }
 
+// Fields updateTestAssignment writes; results and the OOS flag only change
+// through enterResult, which calculates and evaluates them, and the checker
+// only through reviewTestAssignment
+const UPDATABLE_FIELDS: (keyof UpdateTestAssignmentDto)[] = [
+  'customTestName',
+  'dueDate',
+  'analystId',
+  'status',
+  'testDate',
+  'resultUnit',
+  'comments',
+  'invoiceNote',
+  'precision',
+  'linearity',
+];
+
 export interface EnterResultDto {
-  result: string;
+  result?: string; // Required unless the test definition calculates it
+  inputs?: Record<string, number>; // Raw data inputs for calculated results
+  replicates?: ReplicateReading[]; // Replicate readings; the reportable value becomes the result
   resultUnit?: string;
   testDate?: Date;
+  reason?: string; // Required when re-entering a result after review
+}
+
+export interface RequestRetestDto {
+  reason: RetestReason;
+  notes?: string; // Required when reason is OTHER
 }
 
 @Injectable()
@@ -47,6 +109,9 @@ export class TestAssignmentsService {
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private oosInvestigationsService: OOSInvestigationsService,
+    private segregationOfDutiesService: SegregationOfDutiesService,
+    private signaturesService: SignaturesService,
   ) {}
 
   /**
@@ -55,13 +120,22 @@ export class TestAssignmentsService {
    */
   async createTestAssignment(
     dto: CreateTestAssignmentDto,
-    context: AuditContext,
+    context: TransitionContext,
   ): Promise<TestAssignment> {
+    // New assignments start as DRAFT unless the table allows moving on
+    const status = dto.status || TestAssignmentStatus.DRAFT;
+    assertTransition(
+      TestAssignmentStatus.DRAFT,
+      status,
+      'update',
+      context.actorRole,
+    );
+
     // Verify that sample exists
     const sample = await this.prisma.sample.findUnique({
       where: { id: dto.sampleId },
     });
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${dto.sampleId}' not found`);
     }
 
@@ -77,41 +151,33 @@ export class TestAssignmentsService {
       }
     }
 
-    // Create the test assignment
-    const testAssignment = await this.prisma.testAssignment.create({
-      data: {
-        sampleId: dto.sampleId,
-        testDefinitionId: dto.testDefinitionId,
-        sectionId: dto.sectionId,
-        methodId: dto.methodId,
-        specificationId: dto.specificationId,
-        customTestName: dto.customTestName,
-        dueDate,
-        analystId: dto.analystId,
-        status: dto.status || TestAssignmentStatus.DRAFT,
-        createdById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        section: true,
-        method: true,
-        specification: true,
-        testDefinition: true,
-        analyst: { select: { id: true, email: true, name: true } },
-        checker: { select: { id: true, email: true, name: true } },
-      },
-    });
-
-    // Log audit entry with full field set
-    await this.auditService.logCreate(
-      context,
-      'TestAssignment',
-      testAssignment.id,
-      testAssignment,
+    // Create the test assignment; the audit trigger logs the full field set
+    return this.auditService.withContext(context, (tx) =>
+      tx.testAssignment.create({
+        data: {
+          sampleId: dto.sampleId,
+          testDefinitionId: dto.testDefinitionId,
+          sectionId: dto.sectionId,
+          methodId: dto.methodId,
+          specificationId: dto.specificationId,
+          customTestName: dto.customTestName,
+          dueDate,
+          analystId: dto.analystId,
+          status,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: {
+          sample: true,
+          section: true,
+          method: true,
+          specification: true,
+          testDefinition: true,
+          analyst: { select: { id: true, email: true, name: true } },
+          checker: { select: { id: true, email: true, name: true } },
+        },
+      }),
     );
-
-    return testAssignment;
   }
 
   /**
@@ -127,7 +193,7 @@ export class TestAssignmentsService {
     const sample = await this.prisma.sample.findUnique({
       where: { id: sampleId },
     });
-    if (!sample) {
+    if (!sample || sample.deletedAt) {
       throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
     }
 
@@ -154,122 +220,171 @@ export class TestAssignmentsService {
       throw new NotFoundException(`TestPack with ID '${testPackId}' not found`);
     }
 
-    // Create a transaction ID to group these changes
-    const txId = this.auditService.generateTxId();
-    const contextWithTxId = { ...context, txId };
-
-    // Create test assignments for each item in the pack
-    const testAssignments: TestAssignment[] = [];
-
-    for (const item of testPack.items) {
-      const testDef = item.testDefinition;
+    // Create test assignments for each item in the pack, in one transaction
+    // so their audit entries share a txId
+    return this.auditService.withContext(context, async (tx) => {
+      const testAssignments: TestAssignment[] = [];
+
+      for (const item of testPack.items) {
+        const testDef = item.testDefinition;
+
+        // Calculate due date
+        let dueDate: Date | undefined;
+        if (testDef.defaultDueDays) {
+          dueDate = new Date();
+          dueDate.setDate(dueDate.getDate() + testDef.defaultDueDays);
+        }
+
+        const testAssignment = await tx.testAssignment.create({
+          data: {
+            sampleId,
+            testDefinitionId: testDef.id,
+            sectionId: testDef.sectionId,
+            methodId: testDef.methodId,
+            specificationId: testDef.specificationId,
+            dueDate,
+            status: TestAssignmentStatus.DRAFT,
+            createdById: context.actorId,
+            updatedById: context.actorId,
+          },
+          include: {
+            sample: true,
+            section: true,
+            method: true,
+            specification: true,
+            testDefinition: true,
+            analyst: { select: { id: true, email: true, name: true } },
+            checker: { select: { id: true, email: true, name: true } },
+          },
+        });
 
-      // Calculate due date
-      let dueDate: Date | undefined;
-      if (testDef.defaultDueDays) {
-        dueDate = new Date();
-        dueDate.setDate(dueDate.getDate() + testDef.defaultDueDays);
+        testAssignments.push(testAssignment);
       }
 
-      const testAssignment = await this.prisma.testAssignment.create({
-        data: {
-          sampleId,
-          testDefinitionId: testDef.id,
-          sectionId: testDef.sectionId,
-          methodId: testDef.methodId,
-          specificationId: testDef.specificationId,
-          dueDate,
-          status: TestAssignmentStatus.DRAFT,
-          createdById: context.actorId,
-          updatedById: context.actorId,
-        },
-        include: {
-          sample: true,
-          section: true,
-          method: true,
-          specification: true,
-          testDefinition: true,
-          analyst: { select: { id: true, email: true, name: true } },
-          checker: { select: { id: true, email: true, name: true } },
-        },
-      });
-
-      testAssignments.push(testAssignment);
-
-      // Log audit entry for each test assignment
-      await this.auditService.logCreate(
-        contextWithTxId,
-        'TestAssignment',
-        testAssignment.id,
-        testAssignment,
-      );
-    }
-
-    return testAssignments;
+      return testAssignments;
+    });
   }
 
   /**
    * Enter result and compute OOS flag
    * AC: System computes OOS using Specification comparator
+   * AC: An OOS result opens an OOS investigation
    */
   async enterResult(
     id: string,
     dto: EnterResultDto,
-    context: AuditContext,
+    context: TransitionContext,
   ): Promise<TestAssignment> {
     const oldTestAssignment = await this.prisma.testAssignment.findUnique({
       where: { id },
-      include: { specification: true },
+      include: { specification: true, method: true, testDefinition: true },
     });
 
     if (!oldTestAssignment) {
       throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
     }
+    await this.assertSampleNotDeleted(oldTestAssignment.sampleId);
+
+    await this.assertNotRetested(id);
+    assertTransition(
+      oldTestAssignment.status,
+      TestAssignmentStatus.COMPLETED,
+      'enter-result',
+      context.actorRole,
+      dto.reason,
+    );
 
-    // Compute OOS flag based on specification
-    const oos = this.computeOOS(dto.result, oldTestAssignment.specification);
+    // Replicate readings and calculated tests derive the result server-side
+    const measured = this.summarizeReplicates(dto, oldTestAssignment.method);
+    const calculated = this.calculateResult(
+      dto,
+      oldTestAssignment.testDefinition,
+    );
+    const result = measured?.result ?? calculated?.result ?? dto.result;
+    if (!result) {
+      throw new BadRequestException('result is required');
+    }
 
-    // Update the test assignment
-    const testAssignment = await this.prisma.testAssignment.update({
-      where: { id },
-      data: {
-        result: dto.result,
-        resultUnit: dto.resultUnit,
-        testDate: dto.testDate || new Date(),
-        oos,
-        status: TestAssignmentStatus.COMPLETED,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        section: true,
-        method: true,
-        specification: true,
-        testDefinition: true,
-        analyst: { select: { id: true, email: true, name: true } },
-        checker: { select: { id: true, email: true, name: true } },
-      },
-    });
+    // Compute OOS flag based on specification; censored results such as
+    // <LOQ are resolved against the method's detection limits, and the
+    // rounded value is compared unless the method evaluates raw values
+    const oos = this.computeOOS(
+      getOOSEvaluationResult(result, oldTestAssignment.method),
+      oldTestAssignment.specification,
+      oldTestAssignment.method,
+    );
 
-    // Log audit entry with field-level diffs
-    await this.auditService.logUpdate(
+    // Update the test assignment; the audit trigger logs field-level diffs.
+    // Signatures and the investigation of an OOS result change in the same
+    // transaction, so the result never commits without them
+    return this.auditService.withContext(
       context,
-      'TestAssignment',
-      testAssignment.id,
-      oldTestAssignment,
-      testAssignment,
-    );
+      async (tx) => {
+        const testAssignment = await tx.testAssignment.update({
+          where: { id },
+          data: {
+            result,
+            ...this.deriveResultFields(result, oldTestAssignment.method),
+            ...(calculated && {
+              rawInputs: calculated.rawInputs,
+              formulaVersion: calculated.formulaVersion,
+              calculation: calculated.calculation,
+            }),
+            ...(measured && {
+              replicates: measured.replicates,
+              replicateMean: measured.replicateMean,
+              replicateSd: measured.replicateSd,
+              replicateRsd: measured.replicateRsd,
+              rsdExceeded: measured.rsdExceeded,
+            }),
+            resultUnit: dto.resultUnit,
+            testDate: dto.testDate || new Date(),
+            oos,
+            status: TestAssignmentStatus.COMPLETED,
+            resultEnteredById: context.actorId,
+            updatedById: context.actorId,
+          },
+          include: {
+            sample: true,
+            section: true,
+            method: true,
+            specification: true,
+            testDefinition: true,
+            analyst: { select: { id: true, email: true, name: true } },
+            checker: { select: { id: true, email: true, name: true } },
+          },
+        });
 
-    return testAssignment;
+        await this.invalidateSignatures(
+          oldTestAssignment.status,
+          testAssignment,
+          dto.reason,
+          context,
+        );
+
+        if (oos) {
+          await this.oosInvestigationsService.openInvestigation(
+            testAssignment,
+            context,
+          );
+        }
+
+        return testAssignment;
+      },
+      dto.reason,
+    );
   }
 
   /**
    * Review a test assignment (Lab Manager only)
    * AC: Only Lab Manager (or Admin) can review/release
+   * AC: The reviewer must differ from the analyst who entered the result
+   * AC: Review is e-signed (password re-entry and a signature meaning)
    */
   async reviewTestAssignment(
     id: string,
-    context: AuditContext,
+    dto: SignatureDto,
+    context: TransitionContext,
   ): Promise<TestAssignment> {
     const oldTestAssignment = await this.prisma.testAssignment.findUnique({
       where: { id },
@@ -278,50 +393,87 @@ export class TestAssignmentsService {
     if (!oldTestAssignment) {
       throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
     }
+    await this.assertSampleNotDeleted(oldTestAssignment.sampleId);
 
-    if (oldTestAssignment.status !== TestAssignmentStatus.COMPLETED) {
-      throw new BadRequestException(
-        'TestAssignment must be COMPLETED before it can be reviewed',
-      );
-    }
-
-    const testAssignment = await this.prisma.testAssignment.update({
-      where: { id },
-      data: {
-        status: TestAssignmentStatus.REVIEWED,
-        chkById: context.actorId,
-        chkDate: new Date(),
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        section: true,
-        method: true,
-        specification: true,
-        testDefinition: true,
-        analyst: { select: { id: true, email: true, name: true } },
-        checker: { select: { id: true, email: true, name: true } },
+    assertTransition(
+      oldTestAssignment.status,
+      TestAssignmentStatus.REVIEWED,
+      'review',
+      context.actorRole,
+    );
+    const exception = await this.segregationOfDutiesService.assertFourEyes(
+      context,
+      {
+        action: 'review',
+        subject: 'a result you entered',
+        performedBy: [this.getResultEnteredById(oldTestAssignment)],
+        justification: dto.justification,
       },
-    });
-
-    // Log audit entry for review action
-    await this.auditService.logUpdate(
+    );
+    const signer = await this.signaturesService.verifySigner(
       context,
-      'TestAssignment',
-      testAssignment.id,
-      oldTestAssignment,
-      testAssignment,
+      dto,
+      'review',
     );
 
-    return testAssignment;
+    // Conditional on the status checked above, so of two concurrent reviews
+    // only one updates and signs
+    return this.auditService.withContext(
+      context,
+      async (tx) => {
+        const { count } = await tx.testAssignment.updateMany({
+          where: { id, status: oldTestAssignment.status },
+          data: {
+            status: TestAssignmentStatus.REVIEWED,
+            chkById: context.actorId,
+            chkDate: new Date(),
+            updatedById: context.actorId,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            `TestAssignment with ID '${id}' is no longer ${oldTestAssignment.status}`,
+          );
+        }
+
+        const testAssignment = await tx.testAssignment.findUniqueOrThrow({
+          where: { id },
+          include: {
+            sample: true,
+            section: true,
+            method: true,
+            specification: true,
+            testDefinition: true,
+            analyst: { select: { id: true, email: true, name: true } },
+            checker: { select: { id: true, email: true, name: true } },
+          },
+        });
+
+        await this.signaturesService.recordSignature(
+          context,
+          signer,
+          'TestAssignment',
+          testAssignment,
+          dto.meaning,
+        );
+
+        return testAssignment;
+      },
+      exception,
+    );
   }
 
   /**
    * Release a test assignment (Lab Manager only)
+   * AC: Blocked while the sample has an open OOS investigation, and for a
+   * result an investigation invalidated
+   * AC: The releaser must differ from the analyst who entered the result
+   * AC: Release is e-signed (password re-entry and a signature meaning)
    */
   async releaseTestAssignment(
     id: string,
-    context: AuditContext,
+    dto: SignatureDto,
+    context: TransitionContext,
   ): Promise<TestAssignment> {
     const oldTestAssignment = await this.prisma.testAssignment.findUnique({
       where: { id },
@@ -330,40 +482,253 @@ export class TestAssignmentsService {
     if (!oldTestAssignment) {
       throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
     }
+    await this.assertSampleNotDeleted(oldTestAssignment.sampleId);
+
+    assertTransition(
+      oldTestAssignment.status,
+      TestAssignmentStatus.RELEASED,
+      'release',
+      context.actorRole,
+    );
+    const exception = await this.segregationOfDutiesService.assertFourEyes(
+      context,
+      {
+        action: 'release',
+        subject: 'a result you entered',
+        performedBy: [this.getResultEnteredById(oldTestAssignment)],
+        justification: dto.justification,
+      },
+    );
+    const signer = await this.signaturesService.verifySigner(
+      context,
+      dto,
+      'release',
+    );
+
+    // Conditional on the status checked above, so of two concurrent releases
+    // only one updates and signs
+    return this.auditService.withContext(
+      context,
+      async (tx) => {
+        await this.oosInvestigationsService.assertNoOpenInvestigation(
+          oldTestAssignment.sampleId,
+        );
+        await this.oosInvestigationsService.assertNotInvalidated(id);
+
+        const { count } = await tx.testAssignment.updateMany({
+          where: { id, status: oldTestAssignment.status },
+          data: {
+            status: TestAssignmentStatus.RELEASED,
+            updatedById: context.actorId,
+          },
+        });
+        if (count === 0) {
+          throw new BadRequestException(
+            `TestAssignment with ID '${id}' is no longer ${oldTestAssignment.status}`,
+          );
+        }
+
+        const testAssignment = await tx.testAssignment.findUniqueOrThrow({
+          where: { id },
+          include: {
+            sample: true,
+            section: true,
+            method: true,
+            specification: true,
+            testDefinition: true,
+            analyst: { select: { id: true, email: true, name: true } },
+            checker: { select: { id: true, email: true, name: true } },
+          },
+        });
+
+        await this.signaturesService.recordSignature(
+          context,
+          signer,
+          'TestAssignment',
+          testAssignment,
+          dto.meaning,
+        );
+
+        return testAssignment;
+      },
+      exception,
+    );
+  }
+
+  /**
+   * Request a retest: clone the assignment into a new linked attempt
+   * AC: The original result is kept unchanged and the new attempt becomes
+   * the reportable one
+   */
+  async requestRetest(
+    id: string,
+    dto: RequestRetestDto,
+    context: AuditContext,
+  ): Promise<TestAssignment> {
+    const original = await this.prisma.testAssignment.findUnique({
+      where: { id },
+    });
+
+    if (!original) {
+      throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
+    }
+
+    if (!Object.values(RetestReason).includes(dto.reason)) {
+      throw new BadRequestException(
+        `reason must be one of: ${Object.values(RetestReason).join(', ')}`,
+      );
+    }
+
+    if (dto.reason === RetestReason.OTHER && !dto.notes?.trim()) {
+      throw new BadRequestException('notes are required when reason is OTHER');
+    }
+
+    if (!original.result) {
+      throw new BadRequestException(
+        'Only a test with a result can be retested',
+      );
+    }
+
+    // The retest would take over the reportable flag, as markReportable does
+    if (
+      original.reportable &&
+      original.status === TestAssignmentStatus.RELEASED
+    ) {
+      throw new BadRequestException(
+        `Attempt ${original.attempt} has been released and stays reportable`,
+      );
+    }
+
+    const sample = await this.prisma.sample.findUnique({
+      where: { id: original.sampleId },
+    });
+    if (!sample || sample.deletedAt) {
+      throw new NotFoundException(
+        `Sample with ID '${original.sampleId}' not found`,
+      );
+    }
+
+    // The retest, the original and the sample flag change in one transaction,
+    // so their audit entries share a txId
+    return this.auditService.withContext(context, async (tx) => {
+      // Retests extend the chain from its latest attempt; the row lock makes
+      // concurrent requests check one after the other
+      await tx.$queryRaw`SELECT "id" FROM "TestAssignment" WHERE "id" = ${id}::uuid FOR UPDATE`;
+      await this.assertNotRetested(id, tx);
+
+      const retest = await tx.testAssignment.create({
+        data: {
+          sampleId: original.sampleId,
+          testDefinitionId: original.testDefinitionId,
+          sectionId: original.sectionId,
+          methodId: original.methodId,
+          specificationId: original.specificationId,
+          customTestName: original.customTestName,
+          dueDate: original.dueDate,
+          analystId: original.analystId,
+          status: TestAssignmentStatus.DRAFT,
+          attempt: original.attempt + 1,
+          reportable: original.reportable,
+          retestOfId: original.id,
+          retestReason: dto.reason,
+          retestNotes: dto.notes,
+          createdById: context.actorId,
+          updatedById: context.actorId,
+        },
+        include: {
+          sample: true,
+          section: true,
+          method: true,
+          specification: true,
+          testDefinition: true,
+          analyst: { select: { id: true, email: true, name: true } },
+          checker: { select: { id: true, email: true, name: true } },
+          retestOf: { select: { id: true, attempt: true, result: true } },
+        },
+      });
+
+      // Only the reportable flag of the original changes; its result stays
+      if (original.reportable) {
+        await tx.testAssignment.update({
+          where: { id },
+          data: { reportable: false, updatedById: context.actorId },
+        });
+      }
+
+      // Keep the legacy sample flag for reports that still read it
+      if (!sample.retest) {
+        await tx.sample.update({
+          where: { id: sample.id },
+          data: { retest: true, updatedById: context.actorId },
+        });
+      }
+
+      return retest;
+    });
+  }
+
+  /**
+   * Mark one attempt of a retest chain as the reportable one
+   * AC: Exactly one attempt per chain is reportable
+   */
+  async markReportable(
+    id: string,
+    context: AuditContext,
+  ): Promise<TestAssignment[]> {
+    const chain = await this.findRetestChain(id);
+    await this.assertSampleNotDeleted(chain[0].sampleId);
+    const current = chain.find((attempt) => attempt.reportable);
+
+    if (current?.id === id) {
+      return chain;
+    }
 
-    if (oldTestAssignment.status !== TestAssignmentStatus.REVIEWED) {
+    if (current?.status === TestAssignmentStatus.RELEASED) {
       throw new BadRequestException(
-        'TestAssignment must be REVIEWED before it can be released',
+        `Attempt ${current.attempt} has been released and stays reportable`,
       );
     }
 
-    const testAssignment = await this.prisma.testAssignment.update({
+    await this.auditService.withContext(context, async (tx) => {
+      for (const attempt of chain) {
+        const reportable = attempt.id === id;
+        if (attempt.reportable === reportable) continue;
+
+        await tx.testAssignment.update({
+          where: { id: attempt.id },
+          data: { reportable, updatedById: context.actorId },
+        });
+      }
+    });
+
+    return this.findRetestChain(id);
+  }
+
+  /**
+   * Get every attempt in a test's retest chain, original first
+   */
+  async getRetestChain(id: string): Promise<TestAssignment[]> {
+    return this.findRetestChain(id);
+  }
+
+  /**
+   * List the status transitions the given role may make from the test's
+   * current status
+   */
+  async getAllowedTransitions(
+    id: string,
+    role: Role,
+  ): Promise<StatusTransition[]> {
+    const testAssignment = await this.prisma.testAssignment.findUnique({
       where: { id },
-      data: {
-        status: TestAssignmentStatus.RELEASED,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        section: true,
-        method: true,
-        specification: true,
-        testDefinition: true,
-        analyst: { select: { id: true, email: true, name: true } },
-        checker: { select: { id: true, email: true, name: true } },
-      },
+      select: { status: true },
     });
 
-    // Log audit entry for release action
-    await this.auditService.logUpdate(
-      context,
-      'TestAssignment',
-      testAssignment.id,
-      oldTestAssignment,
-      testAssignment,
-    );
+    if (!testAssignment) {
+      throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
+    }
 
-    return testAssignment;
+    return getAllowedTransitions(testAssignment.status, role);
   }
 
   /**
@@ -381,6 +746,8 @@ export class TestAssignmentsService {
         analyst: { select: { id: true, email: true, name: true } },
         checker: { select: { id: true, email: true, name: true } },
         attachments: true,
+        retestOf: { select: { id: true, attempt: true, result: true } },
+        retests: { select: { id: true, attempt: true, status: true } },
       },
     });
   }
@@ -441,7 +808,7 @@ export class TestAssignmentsService {
   async updateTestAssignment(
     id: string,
     dto: UpdateTestAssignmentDto,
-    context: AuditContext,
+    context: TransitionContext,
   ): Promise<TestAssignment> {
     const oldTestAssignment = await this.prisma.testAssignment.findUnique({
       where: { id },
@@ -450,31 +817,72 @@ export class TestAssignmentsService {
     if (!oldTestAssignment) {
       throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
     }
+    const sample = await this.assertSampleNotDeleted(
+      oldTestAssignment.sampleId,
+    );
 
-    const testAssignment = await this.prisma.testAssignment.update({
-      where: { id },
-      data: {
-        ...dto,
-        updatedById: context.actorId,
-      },
-      include: {
-        sample: true,
-        section: true,
-        method: true,
-        specification: true,
-        testDefinition: true,
-        analyst: { select: { id: true, email: true, name: true } },
-        checker: { select: { id: true, email: true, name: true } },
-      },
-    });
+    await this.assertNotRetested(id);
 
-    // Log audit entry with field-level diffs
-    await this.auditService.logUpdate(
+    const { reason, ...changes } = dto;
+    const rejected = Object.keys(changes).filter(
+      (field) => !UPDATABLE_FIELDS.includes(field as keyof typeof changes),
+    );
+    if (rejected.length > 0) {
+      throw new BadRequestException(
+        `Cannot update ${rejected.join(', ')} directly; results are entered through enter-result and checks recorded by review`,
+      );
+    }
+
+    const locked: TestAssignmentStatus[] = [
+      TestAssignmentStatus.REVIEWED,
+      TestAssignmentStatus.RELEASED,
+    ];
+    // As for updateSample, the tests of a released sample are locked too
+    assertChangeReason(
+      locked.includes(oldTestAssignment.status)
+        ? `a ${oldTestAssignment.status} TestAssignment`
+        : sample.released
+          ? 'a TestAssignment of a released Sample'
+          : null,
+      reason,
+    );
+    if (changes.status) {
+      assertTransition(
+        oldTestAssignment.status,
+        changes.status,
+        'update',
+        context.actorRole,
+        reason,
+      );
+    }
+
+    const testAssignment = await this.auditService.withContext(
       context,
-      'TestAssignment',
-      testAssignment.id,
-      oldTestAssignment,
+      (tx) =>
+        tx.testAssignment.update({
+          where: { id },
+          data: {
+            ...changes,
+            updatedById: context.actorId,
+          },
+          include: {
+            sample: true,
+            section: true,
+            method: true,
+            specification: true,
+            testDefinition: true,
+            analyst: { select: { id: true, email: true, name: true } },
+            checker: { select: { id: true, email: true, name: true } },
+          },
+        }),
+      reason,
+    );
+
+    await this.invalidateSignatures(
+      oldTestAssignment.status,
       testAssignment,
+      reason,
+      context,
     );
 
     return testAssignment;
@@ -491,76 +899,312 @@ export class TestAssignmentsService {
     if (!oldTestAssignment) {
       throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
     }
+    await this.assertSampleNotDeleted(oldTestAssignment.sampleId);
 
-    await this.prisma.testAssignment.delete({
-      where: { id },
-    });
+    await this.assertNotRetested(id);
+    if (oldTestAssignment.retestOfId) {
+      throw new BadRequestException(
+        'Retest attempts cannot be deleted; mark another attempt as reportable instead',
+      );
+    }
+
+    await this.auditService.withContext(context, (tx) =>
+      tx.testAssignment.delete({
+        where: { id },
+      }),
+    );
+  }
 
-    // Log audit entry for deletion
-    await this.auditService.logDelete(
+  /**
+   * Invalidate signatures after a change: any change to the signed data,
+   * and review/release signatures that a backward status move undoes
+   */
+  private async invalidateSignatures(
+    oldStatus: TestAssignmentStatus,
+    testAssignment: TestAssignment,
+    reason: string | undefined,
+    context: AuditContext,
+  ) {
+    await this.signaturesService.invalidateChanged(
+      context,
+      'TestAssignment',
+      testAssignment,
+    );
+
+    const signed: TestAssignmentStatus[] = [
+      TestAssignmentStatus.REVIEWED,
+      TestAssignmentStatus.RELEASED,
+    ];
+    const newStatus = testAssignment.status;
+    if (oldStatus === newStatus || !signed.includes(oldStatus)) return;
+
+    const meanings =
+      newStatus === TestAssignmentStatus.REVIEWED
+        ? [SignatureMeaning.RELEASED]
+        : Object.values(SignatureMeaning);
+    await this.signaturesService.invalidateSignatures(
       context,
       'TestAssignment',
-      id,
-      oldTestAssignment,
+      testAssignment.id,
+      meanings,
+      `Status moved from ${oldStatus} to ${newStatus}${reason ? `: ${reason}` : ''}`,
     );
   }
 
+  /**
+   * Who entered the result; results entered before this was recorded fall
+   * back to the assigned analyst
+   */
+  private getResultEnteredById(
+    testAssignment: Pick<TestAssignment, 'resultEnteredById' | 'analystId'>,
+  ): string | null {
+    return testAssignment.resultEnteredById ?? testAssignment.analystId;
+  }
+
+  /**
+   * Reject changes to the tests of a deleted sample; they are kept with it
+   * for the record, as the sample is
+   */
+  private async assertSampleNotDeleted(sampleId: string) {
+    const sample = await this.prisma.sample.findUnique({
+      where: { id: sampleId },
+      select: { deletedAt: true, released: true },
+    });
+
+    if (!sample || sample.deletedAt) {
+      throw new NotFoundException(`Sample with ID '${sampleId}' not found`);
+    }
+
+    return sample;
+  }
+
+  /**
+   * Reject changes to an attempt that has been retested; its result is
+   * part of the retest record
+   */
+  private async assertNotRetested(
+    id: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const retests = await client.testAssignment.count({
+      where: { retestOfId: id },
+    });
+
+    if (retests > 0) {
+      throw new BadRequestException(
+        'TestAssignment has been retested and can no longer be changed',
+      );
+    }
+  }
+
+  /**
+   * Walk a retest chain from any attempt; chains are linear because a
+   * retest can only be requested on the latest attempt
+   */
+  private async findRetestChain(id: string): Promise<TestAssignment[]> {
+    const testAssignment = await this.prisma.testAssignment.findUnique({
+      where: { id },
+    });
+
+    if (!testAssignment) {
+      throw new NotFoundException(`TestAssignment with ID '${id}' not found`);
+    }
+
+    let current = testAssignment;
+    while (current.retestOfId) {
+      const parent = await this.prisma.testAssignment.findUnique({
+        where: { id: current.retestOfId },
+      });
+      if (!parent) break;
+      current = parent;
+    }
+
+    const chain: TestAssignment[] = [current];
+    for (;;) {
+      const next = await this.prisma.testAssignment.findFirst({
+        where: { retestOfId: chain[chain.length - 1].id },
+      });
+      if (!next) break;
+      chain.push(next);
+    }
+
+    return chain;
+  }
+
   /**
    * Compute OOS (Out of Specification) flag based on specification rules
-   * Supports: >=, <=, in range, equals, etc.
+   * Uses the shared evaluator so the stored flag matches the UI badge
    */
-  private computeOOS(result: string, specification: any): boolean {
-    if (!specification) {
-      return false; // No specification means no OOS
-    }
-
-    // Try to parse result as a number
-    const numericResult = parseFloat(result);
-    if (isNaN(numericResult)) {
-      // If result is not numeric, check for exact match with target
-      if (specification.target) {
-        return (
-          result.trim().toLowerCase() !==
-          specification.target.trim().toLowerCase()
+  private computeOOS(
+    result: string,
+    specification: SpecificationRule | null,
+    limits?: MethodLimits | null,
+  ): boolean {
+    try {
+      return computeOOS(result, specification, limits);
+    } catch (error) {
+      if (error instanceof SpecRuleSyntaxError) {
+        throw new BadRequestException(
+          `Specification OOS rule '${error.rule}' is invalid: ${error.message}`,
         );
       }
-      return false;
+      throw error;
     }
+  }
 
-    // Check min/max range
-    if (specification.min !== null && specification.min !== undefined) {
-      if (numericResult < specification.min) {
-        return true; // OOS: below minimum
-      }
+  /**
+   * Summarize replicate readings: mean, SD and %RSD over the valid readings,
+   * the %RSD check against the method limit, and the reportable value
+   * @returns null when the result is not entered as replicates
+   */
+  private summarizeReplicates(
+    dto: EnterResultDto,
+    method: {
+      rsdLimit: number | null;
+      reportableRule: ReportableRule;
+    } | null,
+  ) {
+    if (!dto.replicates) return null;
+
+    if (dto.result !== undefined || dto.inputs !== undefined) {
+      throw new BadRequestException(
+        'Enter replicates, inputs or a result, not a combination',
+      );
     }
 
-    if (specification.max !== null && specification.max !== undefined) {
-      if (numericResult > specification.max) {
-        return true; // OOS: above maximum
+    const readings = dto.replicates.map((reading, index) => {
+      if (
+        typeof reading.value !== 'number' ||
+        !Number.isFinite(reading.value)
+      ) {
+        throw new BadRequestException(
+          `Replicate ${index + 1} must have a numeric value`,
+        );
+      }
+      if (reading.valid === false && !reading.excludedReason?.trim()) {
+        throw new BadRequestException(
+          `Replicate ${index + 1} is marked invalid and requires an excludedReason`,
+        );
       }
+      return {
+        value: reading.value,
+        valid: reading.valid !== false,
+        ...(reading.valid === false && {
+          excludedReason: reading.excludedReason,
+        }),
+      };
+    });
+
+    if (getValidReadings(readings).length === 0) {
+      throw new BadRequestException('At least one replicate must be valid');
     }
 
-    // Check oosRule if specified
-    if (specification.oosRule) {
-      const rule = specification.oosRule.toLowerCase();
+    const statistics = computeReplicateStatistics(readings);
+    const reportable = selectReportableValue(
+      readings,
+      method?.reportableRule ?? 'MEAN',
+    ) as number;
 
-      if (rule.includes('>=')) {
-        const threshold = parseFloat(rule.split('>=')[1]);
-        return numericResult < threshold;
-      }
+    return {
+      result: formatComputedResult(reportable),
+      replicates: readings,
+      replicateMean: statistics.mean,
+      replicateSd: statistics.sd,
+      replicateRsd: statistics.rsd,
+      rsdExceeded: isRsdExceeded(statistics, method?.rsdLimit),
+    };
+  }
 
-      if (rule.includes('<=')) {
-        const threshold = parseFloat(rule.split('<=')[1]);
-        return numericResult > threshold;
+  /**
+   * Calculate a result from raw inputs when the test definition has a formula
+   * @returns null for tests whose result is entered directly
+   */
+  private calculateResult(
+    dto: EnterResultDto,
+    testDefinition: TestDefinition | null,
+  ) {
+    if (!testDefinition?.formula) {
+      if (dto.inputs) {
+        throw new BadRequestException(
+          'Test has no formula; enter the result directly',
+        );
       }
+      return null;
+    }
+
+    if (dto.result !== undefined) {
+      throw new BadRequestException(
+        `Result of '${testDefinition.name}' is calculated from inputs and cannot be entered directly`,
+      );
+    }
+
+    const fields =
+      (testDefinition.inputFields as unknown as FormulaInputField[] | null) ??
+      [];
+    const inputs = dto.inputs ?? {};
+
+    const missing = fields
+      .filter(
+        (field) =>
+          typeof inputs[field.name] !== 'number' ||
+          !Number.isFinite(inputs[field.name]),
+      )
+      .map((field) => field.name);
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing or non-numeric input(s) for '${testDefinition.name}': ${missing.join(', ')}`,
+      );
+    }
+
+    const unknown = Object.keys(inputs).filter(
+      (name) => !fields.some((field) => field.name === name),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown input(s) for '${testDefinition.name}': ${unknown.join(', ')}`,
+      );
+    }
 
-      if (rule.includes('=') || rule.includes('equals')) {
-        const target = parseFloat(rule.match(/[\d.]+/)?.[0] || '0');
-        return numericResult !== target;
+    try {
+      const { result, working } = calculateFormula(
+        testDefinition.formula,
+        inputs,
+      );
+      return {
+        result,
+        rawInputs: inputs,
+        formulaVersion: testDefinition.formulaVersion,
+        calculation: working,
+      };
+    } catch (error) {
+      if (error instanceof FormulaError) {
+        throw new BadRequestException(
+          `Cannot calculate result of '${testDefinition.name}': ${error.message}`,
+        );
       }
+      throw error;
     }
+  }
 
-    return false; // In specification
+  /**
+   * Derive the reported (rounded) result and the structured
+   * qualifier/value/detection columns from the raw result
+   * Qualitative results (e.g. "Absent") leave the structured columns null
+   */
+  private deriveResultFields(
+    result: string | null,
+    method?: ReportingRule | null,
+  ): Pick<
+    TestAssignment,
+    'reportedResult' | 'resultQualifier' | 'resultValue' | 'detectionState'
+  > {
+    const parsed = result ? parseResult(result, method) : null;
+    return {
+      reportedResult: result ? getReportedResult(result, method) : null,
+      resultQualifier: parsed?.qualifier ?? null,
+      resultValue: parsed?.value ?? null,
+      detectionState: parsed?.detection ?? null,
+    };
   }
 
   /**
@@ -585,34 +1229,27 @@ export class TestAssignmentsService {
         `TestAssignment with ID '${testAssignmentId}' not found`,
       );
     }
+    await this.assertSampleNotDeleted(testAssignment.sampleId);
 
     // Create attachment
-    const attachment = await this.prisma.attachment.create({
-      data: {
-        testAssignmentId,
-        sampleId: testAssignment.sampleId,
-        fileName: body.fileName,
-        fileUrl: body.fileUrl,
-        fileSize: body.fileSize || 0,
-        mimeType: body.mimeType,
-        createdById: context.actorId,
-        updatedById: context.actorId,
-      },
-      include: {
-        createdBy: {
-          select: { id: true, email: true, name: true },
+    return this.auditService.withContext(context, (tx) =>
+      tx.attachment.create({
+        data: {
+          testAssignmentId,
+          sampleId: testAssignment.sampleId,
+          fileName: body.fileName,
+          fileUrl: body.fileUrl,
+          fileSize: body.fileSize || 0,
+          mimeType: body.mimeType,
+          createdById: context.actorId,
+          updatedById: context.actorId,
         },
-      },
-    });
-
-    // Log audit entry
-    await this.auditService.logCreate(
-      context,
-      'Attachment',
-      attachment.id,
-      attachment,
+        include: {
+          createdBy: {
+            select: { id: true, email: true, name: true },
+          },
+        },
+      }),
     );
-
-    return attachment;
   }
 }
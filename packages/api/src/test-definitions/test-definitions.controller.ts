@@ -23,6 +23,10 @@ import type {
 import { Roles } from '../auth/roles.decorator';
 import { Role } from '@prisma/client';
 import type { Request } from 'express';
+import {
+  parseIncludeDeleted,
+  type DeleteDto,
+} from '../soft-delete/soft-delete';
 
 @ApiTags('test-definitions')
 @ApiBearerAuth()
@@ -59,14 +63,18 @@ export class TestDefinitionsController {
     description: 'Test definitions retrieved successfully',
   })
   async listTestDefinitions(
+    @Req() req: Request,
     @Query('name') name?: string,
     @Query('sectionId') sectionId?: string,
+    @Query('includeDeleted') includeDeleted?: string,
     @Query('page') page?: string,
     @Query('perPage') perPage?: string,
   ) {
+    const user = (req as any).user;
     return this.testDefinitionsService.listTestDefinitions({
       name,
       sectionId,
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
       page: page ? parseInt(page, 10) : undefined,
       perPage: perPage ? parseInt(perPage, 10) : undefined,
     });
@@ -80,8 +88,15 @@ export class TestDefinitionsController {
     description: 'Test definition retrieved successfully',
   })
   @ApiResponse({ status: 404, description: 'Test definition not found' })
-  async getTestDefinition(@Param('id') id: string) {
-    return this.testDefinitionsService.getTestDefinition(id);
+  async getTestDefinition(
+    @Param('id') id: string,
+    @Query('includeDeleted') includeDeleted: string | undefined,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.testDefinitionsService.getTestDefinition(id, {
+      includeDeleted: parseIncludeDeleted(includeDeleted, user.role),
+    });
   }
 
   @Put(':id')
@@ -115,7 +130,30 @@ export class TestDefinitionsController {
     description: 'Test definition deleted successfully',
   })
   @ApiResponse({ status: 404, description: 'Test definition not found' })
-  async deleteTestDefinition(@Param('id') id: string, @Req() req: Request) {
+  async deleteTestDefinition(
+    @Param('id') id: string,
+    @Body() dto: DeleteDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    const context = {
+      actorId: user.userId,
+      actorEmail: user.email,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+    return this.testDefinitionsService.deleteTestDefinition(id, dto, context);
+  }
+
+  @Post(':id/restore')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Restore a deleted test definition' })
+  @ApiResponse({
+    status: 201,
+    description: 'Test definition restored successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Test definition not found' })
+  async restoreTestDefinition(@Param('id') id: string, @Req() req: Request) {
     const user = (req as any).user;
     const context = {
       actorId: user.userId,
@@ -123,6 +161,6 @@ export class TestDefinitionsController {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     };
-    return this.testDefinitionsService.deleteTestDefinition(id, context);
+    return this.testDefinitionsService.restoreTestDefinition(id, context);
   }
 }
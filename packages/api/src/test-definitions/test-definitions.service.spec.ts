@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { TestDefinitionsService } from './test-definitions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('TestDefinitionsService', () => {
+  let service: TestDefinitionsService;
+
+  const mockPrismaService = {
+    testDefinition: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const context = {
+    actorId: 'user-123',
+    actorEmail: 'test@example.com',
+  };
+
+  const inputFields = [
+    { name: 'reading', unit: 'mg/L' },
+    { name: 'blank', unit: 'mg/L' },
+    { name: 'dilution' },
+    { name: 'mass', unit: 'g' },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TestDefinitionsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TestDefinitionsService>(TestDefinitionsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTestDefinition', () => {
+    it('should create a calculated test at formula version 1', async () => {
+      mockPrismaService.testDefinition.create.mockResolvedValue({
+        id: 'td-1',
+      });
+
+      await service.createTestDefinition(
+        {
+          name: 'Lead by ICP',
+          sectionId: 'section-1',
+          methodId: 'method-1',
+          inputFields,
+          formula: '(reading - blank) * dilution / mass',
+        },
+        context,
+      );
+
+      expect(mockPrismaService.testDefinition.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            inputFields,
+            formula: '(reading - blank) * dilution / mass',
+            formulaVersion: 1,
+          }),
+        }),
+      );
+    });
+
+    it('should reject a formula that uses undeclared inputs', async () => {
+      await expect(
+        service.createTestDefinition(
+          {
+            name: 'Lead by ICP',
+            sectionId: 'section-1',
+            methodId: 'method-1',
+            inputFields: [{ name: 'reading' }],
+            formula: 'reading * dilution',
+          },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.testDefinition.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject input names that cannot appear in a formula', async () => {
+      await expect(
+        service.createTestDefinition(
+          {
+            name: 'Lead by ICP',
+            sectionId: 'section-1',
+            methodId: 'method-1',
+            inputFields: [{ name: 'sample mass' }],
+            formula: 'mass',
+          },
+          context,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateTestDefinition', () => {
+    it('should increment the formula version when the formula changes', async () => {
+      mockPrismaService.testDefinition.findUnique.mockResolvedValue({
+        id: 'td-1',
+        inputFields,
+        formula: '(reading - blank) * dilution / mass',
+        formulaVersion: 2,
+      });
+      mockPrismaService.testDefinition.update.mockResolvedValue({
+        id: 'td-1',
+      });
+
+      await service.updateTestDefinition(
+        'td-1',
+        { formula: '(reading - blank) * dilution / mass / 1000' },
+        context,
+      );
+
+      expect(mockPrismaService.testDefinition.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ formulaVersion: 3 }),
+        }),
+      );
+    });
+
+    it('should keep the formula version for unrelated changes', async () => {
+      mockPrismaService.testDefinition.findUnique.mockResolvedValue({
+        id: 'td-1',
+        inputFields,
+        formula: '(reading - blank) * dilution / mass',
+        formulaVersion: 2,
+      });
+      mockPrismaService.testDefinition.update.mockResolvedValue({
+        id: 'td-1',
+      });
+
+      await service.updateTestDefinition(
+        'td-1',
+        { name: 'Lead (Pb) by ICP-MS' },
+        context,
+      );
+
+      const { data } = mockPrismaService.testDefinition.update.mock.calls[0][0];
+      expect(data.formulaVersion).toBeUndefined();
+    });
+  });
+});
@@ -1,5 +1,18 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  DeleteDto,
+  SoftDeleteFilter,
+  excludeDeleted,
+  restoreData,
+  softDeleteData,
+} from '../soft-delete/soft-delete';
+import { FormulaInputField, validateFormula } from '@lims/shared';
 
 export interface CreateTestDefinitionDto {
   name: string;
@@ -7,6 +20,8 @@ export interface CreateTestDefinitionDto {
   methodId: string;
   specificationId?: string;
   defaultDueDays?: number;
+  inputFields?: FormulaInputField[] | null;
+  formula?: string | null;
 }
 
 export interface UpdateTestDefinitionDto {
@@ -15,6 +30,8 @@ export interface UpdateTestDefinitionDto {
   methodId?: string;
   specificationId?: string;
   defaultDueDays?: number;
+  inputFields?: FormulaInputField[] | null;
+  formula?: string | null;
 }
 
 export interface AuditContext {
@@ -32,6 +49,8 @@ export class TestDefinitionsService {
     dto: CreateTestDefinitionDto,
     context: AuditContext,
   ) {
+    this.validateCalculation(dto.formula, dto.inputFields);
+
     const testDefinition = await this.prisma.testDefinition.create({
       data: {
         name: dto.name,
@@ -39,6 +58,9 @@ export class TestDefinitionsService {
         methodId: dto.methodId,
         specificationId: dto.specificationId,
         defaultDueDays: dto.defaultDueDays,
+        inputFields: this.toInputFieldsJson(dto.inputFields),
+        formula: dto.formula,
+        formulaVersion: dto.formula ? 1 : null,
         createdById: context.actorId,
         updatedById: context.actorId,
       },
@@ -55,6 +77,7 @@ export class TestDefinitionsService {
   async listTestDefinitions(filters?: {
     name?: string;
     sectionId?: string;
+    includeDeleted?: boolean;
     page?: number;
     perPage?: number;
   }) {
@@ -62,7 +85,7 @@ export class TestDefinitionsService {
     const perPage = filters?.perPage || 50;
     const skip = (page - 1) * perPage;
 
-    const where: any = {};
+    const where: any = excludeDeleted(filters?.includeDeleted);
     if (filters?.name) {
       where.name = { contains: filters.name, mode: 'insensitive' };
     }
@@ -102,9 +125,9 @@ export class TestDefinitionsService {
     };
   }
 
-  async getTestDefinition(id: string) {
-    const testDefinition = await this.prisma.testDefinition.findUnique({
-      where: { id },
+  async getTestDefinition(id: string, filters?: SoftDeleteFilter) {
+    const testDefinition = await this.prisma.testDefinition.findFirst({
+      where: { id, ...excludeDeleted(filters?.includeDeleted) },
       include: {
         section: true,
         method: true,
@@ -134,14 +157,38 @@ export class TestDefinitionsService {
       where: { id },
     });
 
-    if (!existingTestDefinition) {
+    if (!existingTestDefinition || existingTestDefinition.deletedAt) {
       throw new NotFoundException(`TestDefinition with ID ${id} not found`);
     }
 
+    const { inputFields, ...rest } = dto;
+    const formula =
+      dto.formula !== undefined ? dto.formula : existingTestDefinition.formula;
+    const fields =
+      inputFields !== undefined
+        ? inputFields
+        : (existingTestDefinition.inputFields as FormulaInputField[] | null);
+    this.validateCalculation(formula, fields);
+
+    // Results record the formula version they were calculated with, so any
+    // change to the formula or its inputs starts a new version
+    const calculationChanged =
+      (dto.formula !== undefined &&
+        dto.formula !== existingTestDefinition.formula) ||
+      (inputFields !== undefined &&
+        JSON.stringify(inputFields ?? null) !==
+          JSON.stringify(existingTestDefinition.inputFields));
+
     const testDefinition = await this.prisma.testDefinition.update({
       where: { id },
       data: {
-        ...dto,
+        ...rest,
+        ...(inputFields !== undefined && {
+          inputFields: this.toInputFieldsJson(inputFields),
+        }),
+        ...(calculationChanged && {
+          formulaVersion: (existingTestDefinition.formulaVersion ?? 0) + 1,
+        }),
         updatedById: context.actorId,
       },
       include: {
@@ -160,19 +207,88 @@ export class TestDefinitionsService {
     return testDefinition;
   }
 
-  async deleteTestDefinition(id: string, context: AuditContext) {
+  /**
+   * Soft delete: the row is kept for existing references and hidden from
+   * lists. The audit trigger records the change with its deleteReason.
+   */
+  async deleteTestDefinition(
+    id: string,
+    dto: DeleteDto,
+    context: AuditContext,
+  ) {
     const testDefinition = await this.prisma.testDefinition.findUnique({
       where: { id },
     });
 
-    if (!testDefinition) {
+    if (!testDefinition || testDefinition.deletedAt) {
       throw new NotFoundException(`TestDefinition with ID ${id} not found`);
     }
 
-    await this.prisma.testDefinition.delete({
+    await this.prisma.testDefinition.update({
       where: { id },
+      data: softDeleteData(dto, context.actorId),
     });
 
     return { message: 'TestDefinition deleted successfully' };
   }
+
+  async restoreTestDefinition(id: string, context: AuditContext) {
+    const testDefinition = await this.prisma.testDefinition.findUnique({
+      where: { id },
+    });
+
+    if (!testDefinition) {
+      throw new NotFoundException(`TestDefinition with ID ${id} not found`);
+    }
+
+    if (!testDefinition.deletedAt) {
+      throw new BadRequestException(
+        `TestDefinition with ID ${id} is not deleted`,
+      );
+    }
+
+    return this.prisma.testDefinition.update({
+      where: { id },
+      data: restoreData(context.actorId),
+    });
+  }
+
+  /**
+   * Validate a calculated-result formula against its declared inputs
+   */
+  private validateCalculation(
+    formula?: string | null,
+    inputFields?: FormulaInputField[] | null,
+  ) {
+    if (!formula) {
+      if (inputFields?.length) {
+        throw new BadRequestException(
+          'inputFields require a formula to calculate the result',
+        );
+      }
+      return;
+    }
+
+    if (!inputFields?.length) {
+      throw new BadRequestException(
+        'A formula requires at least one input field',
+      );
+    }
+
+    const error = validateFormula(formula, inputFields);
+    if (error) {
+      throw new BadRequestException(
+        `Invalid formula '${formula}': ${error.message} (at position ${error.position})`,
+      );
+    }
+  }
+
+  private toInputFieldsJson(
+    inputFields?: FormulaInputField[] | null,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+    if (inputFields === undefined) return undefined;
+    return inputFields === null
+      ? Prisma.DbNull
+      : (inputFields as unknown as Prisma.InputJsonValue);
+  }
 }
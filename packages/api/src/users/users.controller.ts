@@ -8,6 +8,7 @@ import {
   Body,
   Param,
   Query,
+  Req,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,9 +17,14 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
-import type { CreateUserDto, UpdateUserDto } from './users.service';
+import type {
+  CreateUserDto,
+  SetUserClientsDto,
+  UpdateUserDto,
+} from './users.service';
 import { Roles } from '../auth/roles.decorator';
 import { Role } from '@prisma/client';
+import type { Request } from 'express';
 
 @ApiTags('users')
 @ApiBearerAuth()
@@ -95,4 +101,31 @@ export class UsersController {
   async updateUserRoles(@Param('id') id: string, @Body() body: { role: Role }) {
     return this.usersService.updateUserRoles(id, body.role);
   }
+
+  @Get(':id/clients')
+  @Roles(Role.ADMIN, Role.LAB_MANAGER)
+  @ApiOperation({ summary: 'List the clients a portal user is linked to' })
+  @ApiResponse({ status: 200, description: 'Linked clients retrieved' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getUserClients(@Param('id') id: string) {
+    return this.usersService.getUserClients(id);
+  }
+
+  @Put(':id/clients')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Set the clients a portal user is linked to' })
+  @ApiResponse({ status: 200, description: 'Linked clients updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'User does not have the CLIENT role',
+  })
+  @ApiResponse({ status: 404, description: 'User or client not found' })
+  async setUserClients(
+    @Param('id') id: string,
+    @Body() dto: SetUserClientsDto,
+    @Req() req: Request,
+  ) {
+    const user = (req as any).user;
+    return this.usersService.setUserClients(id, dto, user.userId);
+  }
 }
@@ -1,4 +1,8 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Role } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
@@ -17,6 +21,10 @@ export interface UpdateUserDto {
   role?: Role;
 }
 
+export interface SetUserClientsDto {
+  clientIds: string[];
+}
+
 @Injectable()
 export class UsersService {
   constructor(private prisma: PrismaService) {}
@@ -176,4 +184,58 @@ export class UsersService {
 
     return updatedUser;
   }
+
+  /**
+   * Clients a CLIENT user can see in the portal
+   */
+  async getUserClients(id: string) {
+    await this.getUser(id);
+
+    const links = await this.prisma.clientUser.findMany({
+      where: { userId: id },
+      include: { client: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return links.map((link) => link.client);
+  }
+
+  /**
+   * Replace the clients a CLIENT user is linked to
+   */
+  async setUserClients(id: string, dto: SetUserClientsDto, actorId: string) {
+    const user = await this.getUser(id);
+
+    if (user.role !== Role.CLIENT) {
+      throw new BadRequestException(
+        'Only users with the CLIENT role can be linked to clients',
+      );
+    }
+
+    const clientIds = [...new Set(dto.clientIds ?? [])];
+    const clients = await this.prisma.client.findMany({
+      where: { id: { in: clientIds }, deletedAt: null },
+      select: { id: true },
+    });
+    const missing = clientIds.filter(
+      (clientId) => !clients.some((client) => client.id === clientId),
+    );
+    if (missing.length > 0) {
+      throw new NotFoundException(`Clients not found: ${missing.join(', ')}`);
+    }
+
+    await this.prisma.clientUser.deleteMany({
+      where: { userId: id, clientId: { notIn: clientIds } },
+    });
+    await this.prisma.clientUser.createMany({
+      data: clientIds.map((clientId) => ({
+        userId: id,
+        clientId,
+        createdById: actorId,
+      })),
+      skipDuplicates: true,
+    });
+
+    return this.getUserClients(id);
+  }
 }
@@ -0,0 +1,140 @@
+/* eslint-disable @typescript-eslint/no-unsafe-assignment */
+/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import * as bcrypt from 'bcrypt';
+import { Role } from '@prisma/client';
+import { AppModule } from '../src/app.module';
+import { PrismaService } from '../src/prisma/prisma.service';
+
+/**
+ * Audit Context Tests
+ *
+ * Runs requests against the database and checks the entries written by the
+ * audit triggers, so the transaction-local settings are proven to reach
+ * them:
+ * 1. Writes of a request are logged with the authenticated actor, IP and
+ *    user agent, passed as bound parameters
+ * 2. Concurrent requests keep their own actors on pooled connections
+ * 3. Writes made outside a request fall back to the system actor
+ */
+describe('Audit Context (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  const suffix = Date.now();
+  const users = {
+    admin: {
+      email: `admin-audit-context-${suffix}@test.com`,
+      role: Role.ADMIN,
+    },
+    manager: {
+      email: `manager-audit-context-${suffix}@test.com`,
+      role: Role.LAB_MANAGER,
+    },
+  };
+  const ids: Record<keyof typeof users, string> = { admin: '', manager: '' };
+  const tokens: Record<keyof typeof users, string> = {
+    admin: '',
+    manager: '',
+  };
+  const clientIds: string[] = [];
+
+  // Would end the set_config() statement if it were interpolated
+  const hostileUserAgent = `e2e'); UPDATE "AuditLog" SET "actorEmail" = 'x'; --`;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true }));
+    await app.init();
+
+    prisma = app.get<PrismaService>(PrismaService);
+
+    const password = await bcrypt.hash('password123', 10);
+    for (const key of Object.keys(users) as (keyof typeof users)[]) {
+      const user = await prisma.user.create({
+        data: {
+          email: users[key].email,
+          password,
+          name: `Audit Context ${key}`,
+          role: users[key].role,
+        },
+      });
+      ids[key] = user.id;
+
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: users[key].email, password: 'password123' });
+      tokens[key] = login.body.access_token;
+    }
+  });
+
+  // AuditLog is append-only, so its entries are left in place
+  afterAll(async () => {
+    try {
+      await prisma.client.deleteMany({ where: { id: { in: clientIds } } });
+      await prisma.user.deleteMany({
+        where: { id: { in: Object.values(ids) } },
+      });
+    } catch (error) {
+      console.error('Cleanup error:', error);
+    }
+    await app.close();
+  });
+
+  const createClient = async (user: keyof typeof users, name: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/clients')
+      .set('Authorization', `Bearer ${tokens[user]}`)
+      .set('User-Agent', hostileUserAgent)
+      .send({ name, email: `${name.replace(/\W/g, '')}@test.com` })
+      .expect(201);
+    clientIds.push(response.body.id);
+    return response.body.id as string;
+  };
+
+  const createEntry = (recordId: string) =>
+    prisma.auditLog.findFirstOrThrow({
+      where: { table: 'Client', recordId, action: 'CREATE' },
+    });
+
+  it('should log the writes of a request with the authenticated actor', async () => {
+    const clientId = await createClient('admin', `Audit Context ${suffix}`);
+
+    const entry = await createEntry(clientId);
+    expect(entry.actorId).toBe(ids.admin);
+    expect(entry.actorEmail).toBe(users.admin.email);
+    expect(entry.userAgent).toBe(hostileUserAgent);
+    expect(entry.ip).toBeTruthy();
+  });
+
+  it('should keep the actor of each concurrent request', async () => {
+    const [adminClientId, managerClientId] = await Promise.all([
+      createClient('admin', `Audit Context Admin ${suffix}`),
+      createClient('manager', `Audit Context Manager ${suffix}`),
+    ]);
+
+    expect((await createEntry(adminClientId)).actorId).toBe(ids.admin);
+    expect((await createEntry(managerClientId)).actorId).toBe(ids.manager);
+  });
+
+  it('should fall back to the system actor outside a request', async () => {
+    const client = await prisma.client.create({
+      data: {
+        name: `Audit Context System ${suffix}`,
+        createdById: ids.admin,
+        updatedById: ids.admin,
+      },
+    });
+    clientIds.push(client.id);
+
+    const entry = await createEntry(client.id);
+    expect(entry.actorId).toBe('00000000-0000-0000-0000-000000000000');
+    expect(entry.actorEmail).toBe('system@lims.local');
+  });
+});
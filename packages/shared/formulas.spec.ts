@@ -0,0 +1,81 @@
+import {
+  calculateFormula,
+  FormulaError,
+  formatFormula,
+  getFormulaInputs,
+  parseFormula,
+  validateFormula,
+} from './formulas';
+import { formatComputedResult } from './results';
+
+describe('Calculated result formulas', () => {
+  it('should apply arithmetic precedence', () => {
+    expect(calculateFormula('2 + 3 * 4', {}).value).toBe(14);
+    expect(calculateFormula('(2 + 3) * 4', {}).value).toBe(20);
+    expect(calculateFormula('2 ^ 3 ^ 2', {}).value).toBe(512);
+    expect(calculateFormula('-2 ^ 2', {}).value).toBe(-4);
+    expect(calculateFormula('10 - 4 - 3', {}).value).toBe(3);
+  });
+
+  it('should calculate from named inputs and show the working', () => {
+    const calculation = calculateFormula(
+      '(reading - blank) * dilution / mass',
+      { reading: 0.52, blank: 0.02, dilution: 10, mass: 0.5 },
+    );
+
+    expect(calculation.result).toBe('10');
+    expect(calculation.working).toBe(
+      '(reading - blank) * dilution / mass = (0.52 - 0.02) * 10 / 0.5 = 10',
+    );
+  });
+
+  it('should list the inputs a formula uses', () => {
+    expect(
+      getFormulaInputs(parseFormula('(reading - blank) * dilution / reading')),
+    ).toEqual(['reading', 'blank', 'dilution']);
+  });
+
+  it('should keep parentheses needed by the expression when formatting', () => {
+    expect(formatFormula(parseFormula('a - (b - c)'))).toBe('a - (b - c)');
+    expect(formatFormula(parseFormula('(a * b) + c'))).toBe('a * b + c');
+    expect(formatFormula(parseFormula('a * b'), { a: -1, b: 2 })).toBe(
+      '(-1) * 2',
+    );
+  });
+
+  it('should only accept declared input names', () => {
+    const inputs = [{ name: 'reading' }, { name: 'blank' }];
+    expect(validateFormula('reading - blank', inputs)).toBeNull();
+    expect(validateFormula('reading - mass', inputs)?.message).toBe(
+      'Formula uses undeclared input(s): mass',
+    );
+    expect(
+      validateFormula('reading', [{ name: 'reading' }, { name: 'reading' }])
+        ?.message,
+    ).toBe("Input 'reading' is declared more than once");
+    expect(validateFormula('reading', [{ name: '1st' }])).toBeInstanceOf(
+      FormulaError,
+    );
+  });
+
+  it('should trim floating-point noise from the result', () => {
+    expect(calculateFormula('0.1 + 0.2', {}).result).toBe('0.3');
+    expect(formatComputedResult(10.000000000000002)).toBe('10');
+  });
+
+  it('should report syntax and evaluation errors', () => {
+    expect(() => parseFormula('reading *')).toThrow(
+      'Unexpected end of formula',
+    );
+    expect(() => parseFormula('(reading - blank')).toThrow("Missing ')'");
+    expect(() => parseFormula('reading % 2')).toThrow(
+      "Unexpected character '%'",
+    );
+    expect(() => calculateFormula('reading / mass', { reading: 1 })).toThrow(
+      "Missing value for input 'mass'",
+    );
+    expect(() =>
+      calculateFormula('reading / mass', { reading: 1, mass: 0 }),
+    ).toThrow('does not evaluate to a finite number');
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * Calculated Result Formulas
+ *
+ * Parser and evaluator for `TestDefinition.formula`. A formula computes a
+ * result from named raw data inputs, e.g. `(reading - blank) * dilution / mass`
+ * for a heavy metal by ICP.
+ *
+ * Supported forms:
+ * - Numbers: `10`, `0.5`, `1e-3`
+ * - Input names: `reading`, `blank_2`
+ * - Arithmetic: `+`, `-`, `*`, `/`, `^` (power, right-associative)
+ * - Unary minus and parentheses
+ *
+ * The usual precedence applies: `^` before `*` and `/`, before `+` and `-`.
+ */
+
+import { formatComputedResult } from './results';
+
+export interface FormulaInputField {
+  name: string;
+  label?: string;
+  unit?: string;
+}
+
+export type FormulaOperator = '+' | '-' | '*' | '/' | '^';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'input'; name: string }
+  | { type: 'negate'; operand: FormulaNode }
+  | {
+      type: 'binary';
+      operator: FormulaOperator;
+      left: FormulaNode;
+      right: FormulaNode;
+    };
+
+export interface FormulaCalculation {
+  value: number;
+  result: string; // Value as text, free of floating-point noise
+  working: string; // e.g. `(reading - blank) * dilution / mass = (0.52 - 0.02) * 10 / 0.5 = 10`
+}
+
+/**
+ * Thrown when a formula cannot be parsed or evaluated
+ */
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    public readonly formula: string,
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type TokenType = 'number' | 'name' | 'op' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const PRECEDENCE: Record<FormulaOperator, number> = {
+  '+': 1,
+  '-': 1,
+  '*': 2,
+  '/': 2,
+  '^': 3,
+};
+
+const NUMBER_PATTERN = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const INPUT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < formula.length) {
+    const rest = formula.slice(position);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const name = NAME_PATTERN.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position });
+      position += name[0].length;
+      continue;
+    }
+
+    if ('+-*/^'.includes(char)) {
+      tokens.push({ type: 'op', value: char, position });
+      position++;
+      continue;
+    }
+
+    if ('()'.includes(char)) {
+      tokens.push({ type: 'punct', value: char, position });
+      position++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character '${char}'`, formula, position);
+  }
+
+  return tokens;
+}
+
+class FormulaParser {
+  private index = 0;
+
+  constructor(
+    private readonly formula: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): FormulaNode {
+    if (this.tokens.length === 0) {
+      throw new FormulaError('Formula is empty', this.formula, 0);
+    }
+
+    const node = this.parseExpression(1);
+    const trailing = this.tokens[this.index];
+    if (trailing) {
+      throw new FormulaError(
+        `Unexpected '${trailing.value}'`,
+        this.formula,
+        trailing.position,
+      );
+    }
+    return node;
+  }
+
+  /**
+   * Precedence climbing over binary operators
+   */
+  private parseExpression(minPrecedence: number): FormulaNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.tokens[this.index];
+      if (token?.type !== 'op') return left;
+
+      const operator = token.value as FormulaOperator;
+      const precedence = PRECEDENCE[operator];
+      if (precedence < minPrecedence) return left;
+
+      this.index++;
+      // `^` is right-associative; the others associate left
+      const right = this.parseExpression(
+        operator === '^' ? precedence : precedence + 1,
+      );
+      left = { type: 'binary', operator, left, right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.tokens[this.index];
+    if (token?.type === 'op' && token.value === '-') {
+      this.index++;
+      // Binds looser than `^` so that -2^2 is -(2^2)
+      return { type: 'negate', operand: this.parseExpression(PRECEDENCE['^']) };
+    }
+    if (token?.type === 'op' && token.value === '+') {
+      this.index++;
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new FormulaError(
+        'Unexpected end of formula',
+        this.formula,
+        this.formula.length,
+      );
+    }
+
+    this.index++;
+
+    if (token.type === 'number') {
+      return { type: 'number', value: parseFloat(token.value) };
+    }
+
+    if (token.type === 'name') {
+      return { type: 'input', name: token.value };
+    }
+
+    if (token.type === 'punct' && token.value === '(') {
+      const node = this.parseExpression(1);
+      const closing = this.tokens[this.index];
+      if (closing?.type !== 'punct' || closing.value !== ')') {
+        throw new FormulaError(
+          closing ? `Expected ')' but found '${closing.value}'` : "Missing ')'",
+          this.formula,
+          closing?.position ?? this.formula.length,
+        );
+      }
+      this.index++;
+      return node;
+    }
+
+    throw new FormulaError(
+      `Unexpected '${token.value}'`,
+      this.formula,
+      token.position,
+    );
+  }
+}
+
+/**
+ * Parse a formula into an expression tree
+ *
+ * @throws FormulaError if the formula does not parse
+ *
+ * @example
+ * parseFormula('reading * dilution')
+ * // returns { type: 'binary', operator: '*', left: { type: 'input', name: 'reading' }, ... }
+ */
+export function parseFormula(formula: string): FormulaNode {
+  return new FormulaParser(formula, tokenize(formula)).parse();
+}
+
+/**
+ * List the input names a formula refers to, in order of first use
+ */
+export function getFormulaInputs(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'input':
+      return [node.name];
+    case 'negate':
+      return getFormulaInputs(node.operand);
+    case 'binary':
+      return [
+        ...new Set([
+          ...getFormulaInputs(node.left),
+          ...getFormulaInputs(node.right),
+        ]),
+      ];
+  }
+}
+
+/**
+ * Validate a formula against the input fields a test definition declares
+ *
+ * @returns The error, or null if the formula parses and only uses declared inputs
+ */
+export function validateFormula(
+  formula: string,
+  inputFields: FormulaInputField[],
+): FormulaError | null {
+  try {
+    const declared = new Set<string>();
+    for (const field of inputFields) {
+      if (!INPUT_NAME_PATTERN.test(field.name)) {
+        return new FormulaError(
+          `Input name '${field.name}' must start with a letter or underscore and contain only letters, digits and underscores`,
+          formula,
+          0,
+        );
+      }
+      if (declared.has(field.name)) {
+        return new FormulaError(
+          `Input '${field.name}' is declared more than once`,
+          formula,
+          0,
+        );
+      }
+      declared.add(field.name);
+    }
+
+    const undeclared = getFormulaInputs(parseFormula(formula)).filter(
+      (name) => !declared.has(name),
+    );
+    if (undeclared.length > 0) {
+      return new FormulaError(
+        `Formula uses undeclared input(s): ${undeclared.join(', ')}`,
+        formula,
+        formula.indexOf(undeclared[0]),
+      );
+    }
+    return null;
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+}
+
+/**
+ * Evaluate a parsed formula with the given input values
+ *
+ * @throws FormulaError if an input is missing or the result is not finite
+ * (e.g. division by zero)
+ */
+export function evaluateFormula(
+  node: FormulaNode,
+  inputs: Record<string, number>,
+  formula = formatFormula(node),
+): number {
+  const value = evaluateNode(node, inputs, formula);
+  if (!Number.isFinite(value)) {
+    throw new FormulaError(
+      'Formula does not evaluate to a finite number (check for division by zero)',
+      formula,
+      0,
+    );
+  }
+  return value;
+}
+
+/**
+ * Format a formula, optionally substituting input values for names
+ *
+ * @example
+ * formatFormula(parseFormula('(reading - blank) * dilution'), { reading: 0.52, blank: 0.02, dilution: 10 })
+ * // returns '(0.52 - 0.02) * 10'
+ */
+export function formatFormula(
+  node: FormulaNode,
+  inputs?: Record<string, number>,
+): string {
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'input':
+      return inputs && node.name in inputs
+        ? String(inputs[node.name])
+        : node.name;
+    case 'negate': {
+      const operand = formatFormula(node.operand, inputs);
+      return node.operand.type === 'binary' ? `-(${operand})` : `-${operand}`;
+    }
+    case 'binary': {
+      const precedence = PRECEDENCE[node.operator];
+      const left = formatOperand(node.left, inputs, precedence, false);
+      const right = formatOperand(
+        node.right,
+        inputs,
+        precedence,
+        node.operator !== '^',
+      );
+      return `${left} ${node.operator} ${right}`;
+    }
+  }
+}
+
+/**
+ * Calculate a result from a formula and its raw inputs, with the working
+ *
+ * @throws FormulaError if the formula does not parse, an input is missing,
+ * or the result is not finite
+ *
+ * @example
+ * calculateFormula('(reading - blank) * dilution / mass', { reading: 0.52, blank: 0.02, dilution: 10, mass: 0.5 })
+ * // returns { value: 10, result: '10', working: '(reading - blank) * dilution / mass = (0.52 - 0.02) * 10 / 0.5 = 10' }
+ */
+export function calculateFormula(
+  formula: string,
+  inputs: Record<string, number>,
+): FormulaCalculation {
+  const node = parseFormula(formula);
+  const value = evaluateFormula(node, inputs, formula);
+  const result = formatComputedResult(value);
+
+  return {
+    value,
+    result,
+    working: `${formatFormula(node)} = ${formatFormula(node, inputs)} = ${result}`,
+  };
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  inputs: Record<string, number>,
+  formula: string,
+): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'input': {
+      const value = inputs[node.name];
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        throw new FormulaError(
+          `Missing value for input '${node.name}'`,
+          formula,
+          Math.max(formula.indexOf(node.name), 0),
+        );
+      }
+      return value;
+    }
+    case 'negate':
+      return -evaluateNode(node.operand, inputs, formula);
+    case 'binary': {
+      const left = evaluateNode(node.left, inputs, formula);
+      const right = evaluateNode(node.right, inputs, formula);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '^':
+          return Math.pow(left, right);
+      }
+    }
+  }
+}
+
+/**
+ * Format one side of a binary expression, adding parentheses where the
+ * operand binds more loosely than its parent (or equally, on the right of
+ * a left-associative operator)
+ */
+function formatOperand(
+  node: FormulaNode,
+  inputs: Record<string, number> | undefined,
+  parentPrecedence: number,
+  parenthesizeEqual: boolean,
+): string {
+  const text = formatFormula(node, inputs);
+  if (node.type === 'negate') {
+    return parentPrecedence > PRECEDENCE['+'] ? `(${text})` : text;
+  }
+  if (node.type !== 'binary') {
+    return text.startsWith('-') ? `(${text})` : text;
+  }
+
+  const precedence = PRECEDENCE[node.operator];
+  if (
+    precedence < parentPrecedence ||
+    (precedence === parentPrecedence && parenthesizeEqual)
+  ) {
+    return `(${text})`;
+  }
+  return text;
+}
@@ -4,3 +4,8 @@
 
 export * from './types';
 export * from './oos';
+export * from './spec-rules';
+export * from './results';
+export * from './rounding';
+export * from './formulas';
+export * from './replicates';
@@ -5,6 +5,14 @@
  * is Out of Specification (OOS) based on specification rules.
  */
 
+import { evaluateSpecRule, formatSpecRule, parseSpecRule } from './spec-rules';
+import {
+  getResultInterval,
+  isIntervalWithinLimits,
+  MethodLimits,
+  parseResult,
+} from './results';
+
 export interface SpecificationRule {
   min?: number | null;
   max?: number | null;
@@ -17,12 +25,16 @@ export interface SpecificationRule {
  * 
  * Supports:
  * - Numeric ranges (min/max)
+ * - Censored results (<10, <LOQ, >ULOQ, TNTC, Not Detected); these are
+ *   only in specification when every value they allow is within limits
  * - Exact target matching
- * - Custom OOS rules (>=, <=, equals)
+ * - OOS rules written in the specification rule language (see spec-rules.ts)
  * 
  * @param result - The test result value
  * @param specification - The specification rules to check against
+ * @param limits - The method's LOD/LOQ, used to resolve <LOD and <LOQ
  * @returns true if result is out of specification, false otherwise
+ * @throws SpecRuleSyntaxError if the specification's oosRule does not parse
  * 
  * @example
  * // Numeric range check
@@ -30,6 +42,12 @@ export interface SpecificationRule {
  * computeOOS('15', { min: 1, max: 10 }) // returns true (OOS - above max)
  * 
  * @example
+ * // Censored results
+ * computeOOS('<10', { max: 10 }) // returns false (in spec)
+ * computeOOS('<20', { max: 10 }) // returns true (OOS - may exceed max)
+ * computeOOS('TNTC', { max: 100 }) // returns true (OOS - above max)
+ * 
+ * @example
  * // Target matching
  * computeOOS('Pass', { target: 'Pass' }) // returns false (matches)
  * computeOOS('Fail', { target: 'Pass' }) // returns true (OOS - doesn't match)
@@ -38,19 +56,31 @@ export interface SpecificationRule {
  * // Custom OOS rule
  * computeOOS('8', { oosRule: '>= 5' }) // returns false (meets requirement)
  * computeOOS('3', { oosRule: '>= 5' }) // returns true (OOS - below threshold)
+ * computeOOS('12', { oosRule: '> 5 and < 10' }) // returns true (OOS - above range)
+ * computeOOS('Present', { oosRule: '"Absent" in 25g' }) // returns true (OOS)
  */
 export function computeOOS(
   result: string,
   specification?: SpecificationRule | null,
+  limits?: MethodLimits | null,
 ): boolean {
   if (!specification) {
     return false; // No specification means no OOS
   }
 
-  // Try to parse result as a number
-  const numericResult = parseFloat(result);
-  if (isNaN(numericResult)) {
-    // If result is not numeric, check for exact match with target
+  const parsed = parseResult(result, limits);
+
+  // Check oosRule if specified; it applies to numeric and qualitative results
+  if (specification.oosRule) {
+    const rule = parseSpecRule(specification.oosRule);
+    if (!evaluateSpecRule(rule, parsed)) {
+      return true; // OOS: rule not met
+    }
+  }
+
+  // Qualitative results (no numeric value or censoring) use the target
+  const interval = getResultInterval(parsed);
+  if (!interval) {
     if (specification.target) {
       return (
         result.trim().toLowerCase() !==
@@ -60,40 +90,12 @@ export function computeOOS(
     return false;
   }
 
-  // Check min/max range
-  if (specification.min !== null && specification.min !== undefined) {
-    if (numericResult < specification.min) {
-      return true; // OOS: below minimum
-    }
-  }
-
-  if (specification.max !== null && specification.max !== undefined) {
-    if (numericResult > specification.max) {
-      return true; // OOS: above maximum
-    }
-  }
-
-  // Check oosRule if specified
-  if (specification.oosRule) {
-    const rule = specification.oosRule.toLowerCase();
-
-    if (rule.includes('>=')) {
-      const threshold = parseFloat(rule.split('>=')[1]);
-      return numericResult < threshold;
-    }
-
-    if (rule.includes('<=')) {
-      const threshold = parseFloat(rule.split('<=')[1]);
-      return numericResult > threshold;
-    }
-
-    if (rule.includes('=') || rule.includes('equals')) {
-      const target = parseFloat(rule.match(/[\d.]+/)?.[0] || '0');
-      return numericResult !== target;
-    }
-  }
-
-  return false; // In specification
+  // Check min/max range against every value the result allows
+  return !isIntervalWithinLimits(
+    interval,
+    specification.min,
+    specification.max,
+  );
 }
 
 /**
@@ -101,6 +103,7 @@ export function computeOOS(
  * 
  * @param result - The test result value
  * @param specification - The specification rules to check against
+ * @param limits - The method's LOD/LOQ, used to resolve <LOD and <LOQ
  * @returns A string describing the OOS status
  * 
  * @example
@@ -110,32 +113,47 @@ export function computeOOS(
 export function getOOSMessage(
   result: string,
   specification?: SpecificationRule | null,
+  limits?: MethodLimits | null,
 ): string {
   if (!specification) {
     return 'In Specification (No specification defined)';
   }
 
-  const isOOS = computeOOS(result, specification);
+  const isOOS = computeOOS(result, specification, limits);
   if (!isOOS) {
     return 'In Specification';
   }
 
-  const numericResult = parseFloat(result);
-  if (!isNaN(numericResult)) {
+  const parsed = parseResult(result, limits);
+  const interval = getResultInterval(parsed);
+  if (interval) {
+    const quantified = parsed.detection === 'QUANTIFIED';
+
     if (
       specification.min !== null &&
       specification.min !== undefined &&
-      numericResult < specification.min
+      interval.low < specification.min
     ) {
-      return `Out of Specification: Result ${numericResult} is below minimum ${specification.min}`;
+      return quantified
+        ? `Out of Specification: Result ${parsed.value} is below minimum ${specification.min}`
+        : `Out of Specification: Result "${result.trim()}" cannot be shown to meet minimum ${specification.min}`;
     }
 
     if (
       specification.max !== null &&
       specification.max !== undefined &&
-      numericResult > specification.max
+      interval.high > specification.max
     ) {
-      return `Out of Specification: Result ${numericResult} exceeds maximum ${specification.max}`;
+      return quantified
+        ? `Out of Specification: Result ${parsed.value} exceeds maximum ${specification.max}`
+        : `Out of Specification: Result "${result.trim()}" cannot be shown to meet maximum ${specification.max}`;
+    }
+  }
+
+  if (specification.oosRule) {
+    const rule = parseSpecRule(specification.oosRule);
+    if (!evaluateSpecRule(rule, parsed)) {
+      return `Out of Specification: Result "${result}" does not meet rule ${formatSpecRule(rule)}`;
     }
   }
 
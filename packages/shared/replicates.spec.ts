@@ -0,0 +1,73 @@
+import {
+  computeReplicateStatistics,
+  isRsdExceeded,
+  selectReportableValue,
+} from './replicates';
+
+describe('Replicate statistics', () => {
+  it('should use the sample standard deviation', () => {
+    expect(
+      computeReplicateStatistics([
+        { value: 98 },
+        { value: 100 },
+        { value: 102 },
+      ]),
+    ).toEqual({ count: 3, mean: 100, sd: 2, rsd: 2 });
+  });
+
+  it('should leave SD and %RSD undefined for a single reading', () => {
+    expect(computeReplicateStatistics([{ value: 5 }])).toEqual({
+      count: 1,
+      mean: 5,
+      sd: null,
+      rsd: null,
+    });
+  });
+
+  it('should leave %RSD undefined for a zero mean', () => {
+    expect(computeReplicateStatistics([{ value: -1 }, { value: 1 }])).toEqual({
+      count: 2,
+      mean: 0,
+      sd: Math.SQRT2,
+      rsd: null,
+    });
+    expect(computeReplicateStatistics([])).toEqual({
+      count: 0,
+      mean: null,
+      sd: null,
+      rsd: null,
+    });
+  });
+
+  it('should exclude invalid readings', () => {
+    const readings = [
+      { value: 50, valid: false, excludedReason: 'Spilled' },
+      { value: 4 },
+      { value: 6 },
+    ];
+    expect(computeReplicateStatistics(readings).mean).toBe(5);
+    expect(selectReportableValue(readings, 'MEDIAN')).toBe(5);
+    expect(selectReportableValue(readings, 'FIRST_VALID')).toBe(4);
+  });
+
+  it('should take the mean of the two middle readings for an even count', () => {
+    const readings = [{ value: 4 }, { value: 1 }, { value: 3 }, { value: 2 }];
+    expect(selectReportableValue(readings, 'MEDIAN')).toBe(2.5);
+    expect(selectReportableValue(readings)).toBe(2.5);
+    expect(selectReportableValue([{ value: 1, valid: false }])).toBeNull();
+  });
+
+  it('should only flag %RSD above a configured limit', () => {
+    const statistics = computeReplicateStatistics([
+      { value: 98 },
+      { value: 100 },
+      { value: 102 },
+    ]);
+    expect(isRsdExceeded(statistics, 1.5)).toBe(true);
+    expect(isRsdExceeded(statistics, 2)).toBe(false);
+    expect(isRsdExceeded(statistics, null)).toBe(false);
+    expect(isRsdExceeded(computeReplicateStatistics([{ value: 5 }]), 1)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Replicate Measurement Utilities
+ *
+ * Summary statistics and reportable-value selection for a test measured
+ * several times. Readings marked invalid (e.g. a failed injection) are kept
+ * for the record but excluded from every calculation.
+ */
+
+/**
+ * How the reportable result is chosen from the valid readings
+ * - MEAN: arithmetic mean
+ * - MEDIAN: middle reading (mean of the two middle readings for even N)
+ * - FIRST_VALID: the first reading not marked invalid
+ */
+export type ReportableRule = 'MEAN' | 'MEDIAN' | 'FIRST_VALID';
+
+export interface ReplicateReading {
+  value: number;
+  valid?: boolean; // Defaults to true
+  excludedReason?: string; // Required when valid is false
+}
+
+export interface ReplicateStatistics {
+  count: number; // Number of valid readings
+  mean: number | null;
+  sd: number | null; // Sample standard deviation (N - 1)
+  rsd: number | null; // Relative standard deviation, in percent
+}
+
+/**
+ * Get the readings that count towards statistics
+ */
+export function getValidReadings(readings: ReplicateReading[]): number[] {
+  return readings
+    .filter((reading) => reading.valid !== false)
+    .map((reading) => reading.value);
+}
+
+/**
+ * Compute mean, SD and %RSD over the valid readings
+ *
+ * SD and %RSD need at least two valid readings; %RSD is undefined for a
+ * zero mean.
+ *
+ * @example
+ * computeReplicateStatistics([{ value: 98 }, { value: 100 }, { value: 102 }])
+ * // returns { count: 3, mean: 100, sd: 2, rsd: 2 }
+ */
+export function computeReplicateStatistics(
+  readings: ReplicateReading[],
+): ReplicateStatistics {
+  const values = getValidReadings(readings);
+  const count = values.length;
+  if (count === 0) {
+    return { count, mean: null, sd: null, rsd: null };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  if (count < 2) {
+    return { count, mean, sd: null, rsd: null };
+  }
+
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1);
+  const sd = Math.sqrt(variance);
+  const rsd = mean === 0 ? null : (sd / Math.abs(mean)) * 100;
+
+  return { count, mean, sd, rsd };
+}
+
+/**
+ * Choose the reportable value from the valid readings
+ *
+ * @returns The reportable value, or null if no reading is valid
+ *
+ * @example
+ * selectReportableValue([{ value: 3 }, { value: 1 }, { value: 2 }], 'MEDIAN') // returns 2
+ * selectReportableValue([{ value: 9, valid: false }, { value: 4 }], 'FIRST_VALID') // returns 4
+ */
+export function selectReportableValue(
+  readings: ReplicateReading[],
+  rule: ReportableRule = 'MEAN',
+): number | null {
+  const values = getValidReadings(readings);
+  if (values.length === 0) return null;
+
+  switch (rule) {
+    case 'FIRST_VALID':
+      return values[0];
+    case 'MEDIAN': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+    case 'MEAN':
+      return computeReplicateStatistics(readings).mean;
+  }
+}
+
+/**
+ * Check %RSD against a method's limit
+ *
+ * @returns true if the limit is set and the %RSD exceeds it
+ */
+export function isRsdExceeded(
+  statistics: ReplicateStatistics,
+  rsdLimit?: number | null,
+): boolean {
+  if (rsdLimit === null || rsdLimit === undefined || statistics.rsd === null) {
+    return false;
+  }
+  return statistics.rsd > rsdLimit;
+}
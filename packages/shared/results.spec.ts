@@ -0,0 +1,127 @@
+import {
+  formatComputedResult,
+  formatReportedResult,
+  getResultInterval,
+  isIntervalWithinLimits,
+  parseResult,
+} from './results';
+
+describe('Result parsing', () => {
+  it('should parse measured values and ignore trailing units', () => {
+    expect(parseResult('12.5 mg/L')).toEqual({
+      raw: '12.5 mg/L',
+      qualifier: '=',
+      value: 12.5,
+      detection: 'QUANTIFIED',
+    });
+    expect(parseResult('-1.2e-3').value).toBe(-0.0012);
+  });
+
+  it('should parse censored values against the method limits', () => {
+    expect(parseResult('<10')).toMatchObject({
+      qualifier: '<',
+      value: 10,
+      detection: 'BELOW_LIMIT',
+    });
+    expect(parseResult('<10', { lod: 10 }).detection).toBe('NOT_DETECTED');
+    expect(parseResult('<LOQ', { loq: 0.5 })).toMatchObject({
+      qualifier: '<',
+      value: 0.5,
+      detection: 'BELOW_LIMIT',
+    });
+    expect(parseResult('<LOD', { lod: 0.1 })).toMatchObject({
+      value: 0.1,
+      detection: 'NOT_DETECTED',
+    });
+    expect(parseResult('≤ 5').qualifier).toBe('<=');
+  });
+
+  it('should recognise not-detected and above-range terms', () => {
+    expect(parseResult('Not Detected', { lod: 0.1 })).toMatchObject({
+      qualifier: '<',
+      value: 0.1,
+      detection: 'NOT_DETECTED',
+    });
+    expect(parseResult('TNTC')).toMatchObject({
+      qualifier: '>',
+      value: null,
+      detection: 'ABOVE_LIMIT',
+    });
+    expect(parseResult('>ULOQ').detection).toBe('ABOVE_LIMIT');
+    expect(parseResult('>300')).toMatchObject({
+      value: 300,
+      detection: 'ABOVE_LIMIT',
+    });
+  });
+
+  it('should leave qualitative results without a value', () => {
+    expect(parseResult('Absent')).toEqual({
+      raw: 'Absent',
+      qualifier: null,
+      value: null,
+      detection: null,
+    });
+  });
+});
+
+describe('Result intervals', () => {
+  const interval = (result: string, limits?: { lod?: number; loq?: number }) =>
+    getResultInterval(parseResult(result, limits));
+
+  it('should bound censored-low results below by zero', () => {
+    expect(interval('<10')).toEqual({
+      low: 0,
+      lowInclusive: true,
+      high: 10,
+      highInclusive: false,
+    });
+    expect(interval('<=10')?.highInclusive).toBe(true);
+    expect(interval('ND')).toEqual({
+      low: 0,
+      lowInclusive: true,
+      high: 0,
+      highInclusive: true,
+    });
+  });
+
+  it('should leave results without a known limit unbounded', () => {
+    expect(interval('<LOQ')?.high).toBe(Infinity);
+    expect(interval('>300')).toEqual({
+      low: 300,
+      lowInclusive: false,
+      high: Infinity,
+      highInclusive: false,
+    });
+    expect(interval('Absent')).toBeNull();
+  });
+
+  it('should only meet limits when compliance is certain', () => {
+    expect(isIntervalWithinLimits(interval('<10')!, null, 10)).toBe(true);
+    expect(isIntervalWithinLimits(interval('<20')!, null, 10)).toBe(false);
+    expect(isIntervalWithinLimits(interval('<LOQ')!, null, 10)).toBe(false);
+    expect(isIntervalWithinLimits(interval('<LOQ', { loq: 5 })!, 0, 10)).toBe(
+      true,
+    );
+    expect(isIntervalWithinLimits(interval('>300')!, 100)).toBe(true);
+    expect(isIntervalWithinLimits(interval('7')!, 8, 10)).toBe(false);
+  });
+});
+
+describe('Result formatting', () => {
+  it('should report quantified values below the LOQ as <LOQ', () => {
+    expect(formatReportedResult(parseResult('0.2'), { loq: 0.5 })).toBe('<LOQ');
+    expect(formatReportedResult(parseResult(' 12.5 '), { loq: 0.5 })).toBe(
+      '12.5',
+    );
+    expect(formatReportedResult(parseResult('<0.1'), { loq: 0.5 })).toBe(
+      '<0.1',
+    );
+    expect(formatReportedResult(parseResult('0.2'))).toBe('0.2');
+  });
+
+  it('should trim floating-point noise from computed values', () => {
+    expect(formatComputedResult(((0.52 - 0.02) * 10) / 0.5)).toBe('10');
+    expect(formatComputedResult(0.1 + 0.2)).toBe('0.3');
+    expect(formatComputedResult(-1.5)).toBe('-1.5');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Result Parsing Utilities
+ *
+ * Turns the free-text result an analyst types into a structured form so
+ * censored values (`<10`, `<LOQ`, `>ULOQ`, `TNTC`, `Not Detected`) are
+ * evaluated against specifications instead of being silently ignored.
+ */
+
+export type ResultQualifier = '<' | '<=' | '=' | '>=' | '>';
+
+/**
+ * Detection state of a result
+ * - QUANTIFIED: a measured numeric value (`12.5`)
+ * - BELOW_LIMIT: detected or reported below a limit (`<10`, `<LOQ`)
+ * - NOT_DETECTED: below the limit of detection (`ND`, `<LOD`, `Not Detected`)
+ * - ABOVE_LIMIT: above the working range (`>300`, `>ULOQ`, `TNTC`)
+ */
+export type DetectionState =
+  | 'QUANTIFIED'
+  | 'BELOW_LIMIT'
+  | 'NOT_DETECTED'
+  | 'ABOVE_LIMIT';
+
+export interface ParsedResult {
+  raw: string;
+  qualifier: ResultQualifier | null; // null for qualitative results
+  value: number | null; // Measured value or censoring limit, if known
+  detection: DetectionState | null; // null for qualitative results
+}
+
+/**
+ * Method detection/quantification limits used to resolve `<LOD`/`<LOQ`
+ */
+export interface MethodLimits {
+  lod?: number | null;
+  loq?: number | null;
+}
+
+/**
+ * The range of true values consistent with a result
+ */
+export interface ResultInterval {
+  low: number;
+  lowInclusive: boolean;
+  high: number;
+  highInclusive: boolean;
+}
+
+const NOT_DETECTED_TERMS = ['nd', 'n.d.', 'not detected', 'none detected'];
+const ABOVE_RANGE_TERMS = ['tntc', 'too numerous to count'];
+const CENSORED_PATTERN = /^(<=|>=|≤|≥|<|>)\s*(.+)$/;
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+
+/**
+ * Parse a result string into qualifier, numeric value and detection state
+ *
+ * Trailing units are ignored (`12.5 mg/L` parses as 12.5).
+ *
+ * @param result - The result as entered
+ * @param limits - Method limits used to resolve `<LOD`/`<LOQ`
+ * @returns The structured result
+ *
+ * @example
+ * parseResult('<10')
+ * // returns { raw: '<10', qualifier: '<', value: 10, detection: 'BELOW_LIMIT' }
+ *
+ * @example
+ * parseResult('<LOQ', { loq: 0.5 })
+ * // returns { raw: '<LOQ', qualifier: '<', value: 0.5, detection: 'BELOW_LIMIT' }
+ *
+ * @example
+ * parseResult('TNTC')
+ * // returns { raw: 'TNTC', qualifier: '>', value: null, detection: 'ABOVE_LIMIT' }
+ */
+export function parseResult(
+  result: string,
+  limits?: MethodLimits | null,
+): ParsedResult {
+  const raw = result;
+  const text = result.trim();
+  const lower = text.toLowerCase();
+  const lod = limits?.lod ?? null;
+  const loq = limits?.loq ?? null;
+
+  if (NOT_DETECTED_TERMS.includes(lower)) {
+    return { raw, qualifier: '<', value: lod, detection: 'NOT_DETECTED' };
+  }
+
+  if (ABOVE_RANGE_TERMS.includes(lower)) {
+    return { raw, qualifier: '>', value: null, detection: 'ABOVE_LIMIT' };
+  }
+
+  const censored = CENSORED_PATTERN.exec(text);
+  if (censored) {
+    const qualifier = normalizeQualifier(censored[1]);
+    const bound = censored[2].trim().toLowerCase();
+    const below = qualifier === '<' || qualifier === '<=';
+
+    if (below && bound === 'lod') {
+      return { raw, qualifier, value: lod, detection: 'NOT_DETECTED' };
+    }
+    if (below && bound === 'loq') {
+      return { raw, qualifier, value: loq, detection: 'BELOW_LIMIT' };
+    }
+    if (!below && (bound === 'uloq' || bound === 'loq')) {
+      return { raw, qualifier, value: null, detection: 'ABOVE_LIMIT' };
+    }
+
+    const number = NUMBER_PATTERN.exec(bound);
+    if (number) {
+      const value = parseFloat(number[0]);
+      if (!below) {
+        return { raw, qualifier, value, detection: 'ABOVE_LIMIT' };
+      }
+      const notDetected = lod !== null && value <= lod;
+      return {
+        raw,
+        qualifier,
+        value,
+        detection: notDetected ? 'NOT_DETECTED' : 'BELOW_LIMIT',
+      };
+    }
+  }
+
+  const number = NUMBER_PATTERN.exec(text);
+  if (number) {
+    return {
+      raw,
+      qualifier: '=',
+      value: parseFloat(number[0]),
+      detection: 'QUANTIFIED',
+    };
+  }
+
+  return { raw, qualifier: null, value: null, detection: null };
+}
+
+/**
+ * Get the range of true values consistent with a numeric result
+ *
+ * Censored-low results are bounded below by zero, since concentrations and
+ * counts cannot be negative; censored-high results are unbounded above.
+ *
+ * @returns The interval, or null for qualitative results
+ */
+export function getResultInterval(parsed: ParsedResult): ResultInterval | null {
+  if (!parsed.detection) return null;
+
+  switch (parsed.detection) {
+    case 'QUANTIFIED':
+      return {
+        low: parsed.value as number,
+        lowInclusive: true,
+        high: parsed.value as number,
+        highInclusive: true,
+      };
+    case 'NOT_DETECTED':
+      // Without a known LOD, "Not Detected" is treated as zero
+      return {
+        low: 0,
+        lowInclusive: true,
+        high: parsed.value ?? 0,
+        highInclusive: parsed.value === null || parsed.qualifier === '<=',
+      };
+    case 'BELOW_LIMIT':
+      // Without a known LOQ, "<LOQ" cannot be shown to meet any maximum
+      return {
+        low: 0,
+        lowInclusive: true,
+        high: parsed.value ?? Infinity,
+        highInclusive: parsed.qualifier === '<=',
+      };
+    case 'ABOVE_LIMIT':
+      return {
+        low: parsed.value ?? Number.MAX_VALUE,
+        lowInclusive: parsed.qualifier === '>=',
+        high: Infinity,
+        highInclusive: false,
+      };
+  }
+}
+
+/**
+ * Check whether every value in a result interval lies within min/max
+ *
+ * A censored result is only in specification when compliance is certain:
+ * `<10` meets a maximum of 10 but `<20` does not.
+ */
+export function isIntervalWithinLimits(
+  interval: ResultInterval,
+  min?: number | null,
+  max?: number | null,
+): boolean {
+  if (min !== null && min !== undefined && interval.low < min) {
+    return false;
+  }
+  if (max !== null && max !== undefined && interval.high > max) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Format a result for reporting on the COA
+ *
+ * Quantified results below the method's LOQ are reported as `<LOQ`;
+ * everything else is reported as entered.
+ *
+ * @example
+ * formatReportedResult(parseResult('0.2'), { loq: 0.5 }) // returns '<LOQ'
+ * formatReportedResult(parseResult('12.5'), { loq: 0.5 }) // returns '12.5'
+ */
+export function formatReportedResult(
+  parsed: ParsedResult,
+  limits?: MethodLimits | null,
+): string {
+  const loq = limits?.loq;
+  if (
+    parsed.detection === 'QUANTIFIED' &&
+    loq !== null &&
+    loq !== undefined &&
+    (parsed.value as number) < loq
+  ) {
+    return '<LOQ';
+  }
+  return parsed.raw.trim();
+}
+
+/**
+ * Format a computed numeric result as text, trimming binary floating-point
+ * noise such as 10.000000000000002
+ *
+ * @example
+ * formatComputedResult((0.52 - 0.02) * 10 / 0.5) // returns '10'
+ */
+export function formatComputedResult(value: number): string {
+  return String(Number(value.toPrecision(15)));
+}
+
+function normalizeQualifier(symbol: string): ResultQualifier {
+  if (symbol === '≤') return '<=';
+  if (symbol === '≥') return '>=';
+  return symbol as ResultQualifier;
+}
@@ -0,0 +1,58 @@
+import {
+  getOOSEvaluationResult,
+  getReportedResult,
+  roundNumber,
+  roundResult,
+} from './rounding';
+
+describe('Result rounding', () => {
+  it('should round half up away from zero', () => {
+    expect(roundNumber('2.345', { decimalPlaces: 2 })).toBe('2.35');
+    expect(roundNumber('-2.345', { decimalPlaces: 2 })).toBe('-2.35');
+    expect(roundNumber('2.675', { decimalPlaces: 2 })).toBe('2.68');
+  });
+
+  it('should round half to even', () => {
+    const rule = { decimalPlaces: 2, roundingMode: 'HALF_EVEN' as const };
+    expect(roundNumber('2.345', rule)).toBe('2.34');
+    expect(roundNumber('2.355', rule)).toBe('2.36');
+    expect(roundNumber('2.3451', rule)).toBe('2.35');
+  });
+
+  it('should pad to the configured decimal places', () => {
+    expect(roundNumber('12', { decimalPlaces: 2 })).toBe('12.00');
+    expect(roundNumber('0.004', { decimalPlaces: 2 })).toBe('0.00');
+    expect(roundNumber('-0.004', { decimalPlaces: 2 })).toBe('0.00');
+  });
+
+  it('should round to significant figures', () => {
+    expect(roundNumber('0.012345', { significantFigures: 3 })).toBe('0.0123');
+    expect(roundNumber('12345', { significantFigures: 2 })).toBe('12000');
+    expect(roundNumber('9.996', { significantFigures: 3 })).toBe('10.0');
+    expect(roundNumber('1.5e3', { significantFigures: 1 })).toBe('2000');
+  });
+
+  it('should leave values unchanged without a rounding rule', () => {
+    expect(roundNumber('12.3456', {})).toBe('12.3456');
+    expect(roundResult('12.3456 mg/L', null)).toBe('12.3456 mg/L');
+  });
+
+  it('should keep units and leave censored results as entered', () => {
+    expect(roundResult('12.345 mg/L', { decimalPlaces: 1 })).toBe('12.3 mg/L');
+    expect(roundResult('<10.55', { decimalPlaces: 1 })).toBe('<10.55');
+    expect(roundResult('Absent', { decimalPlaces: 1 })).toBe('Absent');
+  });
+
+  it('should report values below LOQ as <LOQ before rounding', () => {
+    const method = { loq: 0.5, decimalPlaces: 0 };
+    expect(getReportedResult('0.49', method)).toBe('<LOQ');
+    expect(getReportedResult('0.5', method)).toBe('1');
+  });
+
+  it('should evaluate OOS on the rounded value unless the method uses raw values', () => {
+    expect(getOOSEvaluationResult('2.04', { decimalPlaces: 1 })).toBe('2.0');
+    expect(
+      getOOSEvaluationResult('2.04', { decimalPlaces: 1, oosBasis: 'RAW' }),
+    ).toBe('2.04');
+  });
+});
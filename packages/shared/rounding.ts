@@ -0,0 +1,198 @@
+/**
+ * Result Rounding Utilities
+ *
+ * Rounds reported results to a method's decimal places or significant
+ * figures. Rounding works on the decimal digits as entered rather than on
+ * binary floats, so `2.675` rounds to `2.68` and not `2.67`.
+ */
+
+import { formatReportedResult, MethodLimits, parseResult } from './results';
+
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN';
+
+/**
+ * Whether the OOS decision uses the raw or the rounded result. USP General
+ * Notices 7.20 compares the rounded value against the specification limit.
+ */
+export type OOSEvaluationBasis = 'RAW' | 'ROUNDED';
+
+export interface RoundingRule {
+  decimalPlaces?: number | null;
+  significantFigures?: number | null;
+  roundingMode?: RoundingMode | null; // Defaults to HALF_UP
+}
+
+export interface ReportingRule extends RoundingRule, MethodLimits {
+  oosBasis?: OOSEvaluationBasis | null; // Defaults to ROUNDED
+}
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+const LEADING_NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+
+// BigInt literals need ES2020; the web build targets ES2017
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+/**
+ * Round a decimal number string
+ *
+ * Significant figures take effect when set; otherwise decimal places are
+ * used. Half-up rounds ties away from zero.
+ *
+ * @param value - The number as text, e.g. `12.345` or `1.2e-3`
+ * @param rule - The rounding rule
+ * @returns The rounded number as text, or the input if no rule applies
+ *
+ * @example
+ * roundNumber('2.345', { decimalPlaces: 2 }) // returns '2.35'
+ * roundNumber('2.345', { decimalPlaces: 2, roundingMode: 'HALF_EVEN' }) // returns '2.34'
+ * roundNumber('0.012345', { significantFigures: 3 }) // returns '0.0123'
+ * roundNumber('12345', { significantFigures: 2 }) // returns '12000'
+ */
+export function roundNumber(value: string, rule?: RoundingRule | null): string {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) return value;
+
+  const [, sign, integerDigits, fractionDigits = '', exponent = '0'] = match;
+  const digits = (integerDigits + fractionDigits).replace(/^0+/, '') || '0';
+  const scale = parseInt(exponent, 10) - fractionDigits.length;
+  const mode = rule?.roundingMode ?? 'HALF_UP';
+
+  let places: number;
+  if (rule?.significantFigures) {
+    if (digits === '0') {
+      places = Math.max(rule.significantFigures - 1, 0);
+    } else {
+      // Position of the leading digit relative to the decimal point
+      const magnitude = digits.length - 1 + scale;
+      places = rule.significantFigures - 1 - magnitude;
+    }
+  } else if (
+    rule?.decimalPlaces !== null &&
+    rule?.decimalPlaces !== undefined
+  ) {
+    places = rule.decimalPlaces;
+  } else {
+    return value;
+  }
+
+  let rounded = roundDigits(BigInt(digits), scale, places, mode);
+
+  // A carry such as 9.96 -> 10.0 adds a digit; drop one place to keep
+  // the requested number of significant figures
+  if (
+    rule?.significantFigures &&
+    rounded !== ZERO &&
+    rounded.toString().length > rule.significantFigures
+  ) {
+    places -= 1;
+    rounded = roundDigits(BigInt(digits), scale, places, mode);
+  }
+
+  return formatDigits(rounded, places, sign === '-');
+}
+
+/**
+ * Round the numeric part of a result, keeping any trailing units
+ *
+ * Censored (`<10`) and qualitative (`Absent`) results are returned as
+ * entered since they carry no measured value to round.
+ *
+ * @example
+ * roundResult('12.345 mg/L', { decimalPlaces: 1 }) // returns '12.3 mg/L'
+ * roundResult('<LOQ', { decimalPlaces: 1 }) // returns '<LOQ'
+ */
+export function roundResult(
+  result: string,
+  rule?: RoundingRule | null,
+): string {
+  const text = result.trim();
+  if (parseResult(text).detection !== 'QUANTIFIED') return text;
+
+  const number = LEADING_NUMBER_PATTERN.exec(text);
+  if (!number) return text;
+
+  return roundNumber(number[0], rule) + text.slice(number[0].length);
+}
+
+/**
+ * Get the result as it should be reported on the COA
+ *
+ * Quantified results below the method's LOQ are reported as `<LOQ` (judged
+ * on the raw value); other quantified results are rounded per the method.
+ *
+ * @example
+ * getReportedResult('0.2', { loq: 0.5, decimalPlaces: 1 }) // returns '<LOQ'
+ * getReportedResult('12.345', { loq: 0.5, decimalPlaces: 1 }) // returns '12.3'
+ */
+export function getReportedResult(
+  result: string,
+  rule?: ReportingRule | null,
+): string {
+  const parsed = parseResult(result, rule);
+  const reported = formatReportedResult(parsed, rule);
+  if (parsed.detection === 'QUANTIFIED' && reported === '<LOQ') {
+    return reported;
+  }
+  return roundResult(result, rule);
+}
+
+/**
+ * Get the result the OOS decision should be made on
+ *
+ * @returns The rounded result unless the method evaluates OOS on raw values
+ */
+export function getOOSEvaluationResult(
+  result: string,
+  rule?: ReportingRule | null,
+): string {
+  if (rule?.oosBasis === 'RAW') return result;
+  return roundResult(result, rule);
+}
+
+/**
+ * Round an integer digit string scaled by 10^scale to `places` decimals
+ * @returns The rounded value scaled by 10^places
+ */
+function roundDigits(
+  digits: bigint,
+  scale: number,
+  places: number,
+  mode: RoundingMode,
+): bigint {
+  const shift = -places - scale;
+  if (shift <= 0) {
+    return digits * TEN ** BigInt(-shift);
+  }
+
+  const divisor = TEN ** BigInt(shift);
+  const quotient = digits / divisor;
+  const twiceRemainder = (digits % divisor) * TWO;
+
+  if (twiceRemainder > divisor) return quotient + ONE;
+  if (twiceRemainder < divisor) return quotient;
+  if (mode === 'HALF_EVEN') {
+    return quotient % TWO === ZERO ? quotient : quotient + ONE;
+  }
+  return quotient + ONE;
+}
+
+/**
+ * Format a value scaled by 10^places as a decimal string
+ */
+function formatDigits(
+  scaled: bigint,
+  places: number,
+  negative: boolean,
+): string {
+  let text: string;
+  if (places <= 0) {
+    text = scaled === ZERO ? '0' : scaled.toString() + '0'.repeat(-places);
+  } else {
+    const padded = scaled.toString().padStart(places + 1, '0');
+    text = `${padded.slice(0, -places)}.${padded.slice(-places)}`;
+  }
+  return negative && scaled !== ZERO ? `-${text}` : text;
+}
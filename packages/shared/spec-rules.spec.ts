@@ -0,0 +1,79 @@
+import { computeOOS } from './oos';
+import {
+  evaluateSpecRule,
+  formatSpecRule,
+  parseSpecRule,
+  SpecRuleSyntaxError,
+  validateSpecRule,
+} from './spec-rules';
+
+describe('Specification rule language', () => {
+  const passes = (rule: string, result: string) =>
+    evaluateSpecRule(parseSpecRule(rule), result);
+
+  it('should evaluate comparators combined with AND', () => {
+    expect(passes('> 5 and < 10', '7')).toBe(true);
+    expect(passes('> 5 and < 10', '5')).toBe(false);
+    expect(passes('> 5 and < 10', '12')).toBe(false);
+  });
+
+  it('should give AND precedence over OR', () => {
+    const rule = parseSpecRule('< 1 or > 5 and < 10');
+    expect(rule.type).toBe('or');
+    expect(passes('< 1 or > 5 and < 10', '0.5')).toBe(true);
+    expect(passes('< 1 or > 5 and < 10', '12')).toBe(false);
+  });
+
+  it('should evaluate inclusive ranges', () => {
+    expect(passes('5 - 10', '10')).toBe(true);
+    expect(passes('5 to 10 mg/L', '4.9')).toBe(false);
+    expect(passes('-2..2', '-1.5')).toBe(true);
+  });
+
+  it('should map NMT/NLT to pharmacopoeial limits', () => {
+    expect(parseSpecRule('NMT 10 ppm')).toEqual({
+      type: 'comparison',
+      operator: '<=',
+      value: 10,
+      unit: 'ppm',
+    });
+    expect(passes('NLT 98.0', '97.9')).toBe(false);
+  });
+
+  it('should match qualitative sets case-insensitively', () => {
+    expect(parseSpecRule('"Absent" in 25g')).toEqual({
+      type: 'set',
+      values: ['Absent'],
+      basis: '25g',
+    });
+    expect(passes('"Absent" in 25g', 'absent')).toBe(true);
+    expect(passes('["Absent", "Not Detected"]', 'Not Detected')).toBe(true);
+    expect(passes('"Absent" in 25g', 'Present')).toBe(false);
+  });
+
+  it('should report the position of syntax errors', () => {
+    expect(() => parseSpecRule('> 5 and')).toThrow('Unexpected end of rule');
+    expect(() => parseSpecRule('10 - 5')).toThrow(
+      'Range minimum 10 is greater than maximum 5',
+    );
+    expect(() => parseSpecRule('>= 5 5')).toThrow("Unexpected '5'");
+  });
+
+  it('should validate rules without throwing', () => {
+    expect(validateSpecRule('> 5 and < 10')).toBeNull();
+    const error = validateSpecRule('>= abc');
+    expect(error).toBeInstanceOf(SpecRuleSyntaxError);
+    expect(error?.position).toBe(3);
+  });
+
+  it('should format rules canonically', () => {
+    expect(formatSpecRule(parseSpecRule('nlt 2 && (< 1 || > 3)'))).toBe(
+      '>= 2 AND (< 1 OR > 3)',
+    );
+  });
+
+  it('should be used by computeOOS for qualitative results', () => {
+    expect(computeOOS('Present', { oosRule: '"Absent" in 25g' })).toBe(true);
+    expect(computeOOS('Absent', { oosRule: '"Absent" in 25g' })).toBe(false);
+  });
+});
@@ -0,0 +1,553 @@
+/**
+ * Specification Rule Language
+ *
+ * Parser and evaluator for `Specification.oosRule`. Rules describe the
+ * acceptance criteria a result must meet; a result that does not satisfy
+ * the rule is Out of Specification (OOS).
+ *
+ * Supported forms:
+ * - Comparators: `> 5`, `>= 5`, `< 10`, `<= 10`, `= 7`, `!= 0` (also `≥`, `≤`)
+ * - Inclusive ranges: `5 - 10`, `5 to 10`, `5..10`
+ * - Pharmacopoeial limits: `NMT 10` (not more than), `NLT 98.0` (not less than)
+ * - Qualitative values and sets: `"Absent"`, `["Absent", "Not Detected"]`
+ * - An optional basis for qualitative values: `"Absent" in 25g`
+ * - Boolean combinations: `> 5 and < 10`, `NLT 2 OR "Pass"`, parentheses
+ *
+ * Numeric values may be followed by a unit (`NMT 10 ppm`), which is kept
+ * on the parsed rule for display but does not affect evaluation.
+ * `AND` binds more tightly than `OR`.
+ */
+
+import {
+  getResultInterval,
+  isIntervalWithinLimits,
+  parseResult,
+  ParsedResult,
+  ResultInterval,
+} from './results';
+
+export type SpecRuleComparator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export type SpecRuleNode =
+  | {
+      type: 'comparison';
+      operator: SpecRuleComparator;
+      value: number;
+      unit?: string;
+    }
+  | { type: 'range'; min: number; max: number; unit?: string }
+  | { type: 'set'; values: string[]; basis?: string }
+  | { type: 'and'; left: SpecRuleNode; right: SpecRuleNode }
+  | { type: 'or'; left: SpecRuleNode; right: SpecRuleNode };
+
+/**
+ * Thrown when an OOS rule cannot be parsed
+ */
+export class SpecRuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly rule: string,
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = 'SpecRuleSyntaxError';
+  }
+}
+
+type TokenType = 'number' | 'string' | 'word' | 'op' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const COMPARATOR_ALIASES: Record<string, SpecRuleComparator> = {
+  '>': '>',
+  '>=': '>=',
+  '≥': '>=',
+  '<': '<',
+  '<=': '<=',
+  '≤': '<=',
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+};
+
+const KEYWORDS = ['and', 'or', 'to', 'in', 'nmt', 'nlt'];
+
+const OPERATOR_PATTERN = /^(>=|<=|==|!=|<>|&&|\|\||\.\.|[><=≥≤-])/;
+const NUMBER_PATTERN = /^\d+(\.\d+)?([eE][+-]?\d+)?|^\.\d+/;
+const WORD_PATTERN = /^[A-Za-z%°µμ][A-Za-z0-9%°µμ/_]*/;
+
+function tokenize(rule: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < rule.length) {
+    const rest = rule.slice(position);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = rule.indexOf(char, position + 1);
+      if (end === -1) {
+        throw new SpecRuleSyntaxError(
+          'Unterminated string literal',
+          rule,
+          position,
+        );
+      }
+      tokens.push({
+        type: 'string',
+        value: rule.slice(position + 1, end),
+        position,
+      });
+      position = end + 1;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const operator = OPERATOR_PATTERN.exec(rest);
+    if (operator) {
+      tokens.push({ type: 'op', value: operator[0], position });
+      position += operator[0].length;
+      continue;
+    }
+
+    if ('()[],'.includes(char)) {
+      tokens.push({ type: 'punct', value: char, position });
+      position++;
+      continue;
+    }
+
+    const word = WORD_PATTERN.exec(rest);
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], position });
+      position += word[0].length;
+      continue;
+    }
+
+    throw new SpecRuleSyntaxError(
+      `Unexpected character '${char}'`,
+      rule,
+      position,
+    );
+  }
+
+  return tokens;
+}
+
+class SpecRuleParser {
+  private index = 0;
+
+  constructor(
+    private readonly rule: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): SpecRuleNode {
+    if (this.tokens.length === 0) {
+      throw new SpecRuleSyntaxError('Rule is empty', this.rule, 0);
+    }
+
+    const node = this.parseOr();
+    const trailing = this.peek();
+    if (trailing) {
+      throw this.error(`Unexpected '${trailing.value}'`, trailing);
+    }
+    return node;
+  }
+
+  private parseOr(): SpecRuleNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or') || this.matchOp('||')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SpecRuleNode {
+    let left = this.parseTerm();
+    while (this.matchKeyword('and') || this.matchOp('&&')) {
+      left = { type: 'and', left, right: this.parseTerm() };
+    }
+    return left;
+  }
+
+  private parseTerm(): SpecRuleNode {
+    const token = this.peek();
+    if (!token) {
+      throw new SpecRuleSyntaxError(
+        'Unexpected end of rule',
+        this.rule,
+        this.rule.length,
+      );
+    }
+
+    if (token.type === 'punct' && token.value === '(') {
+      this.index++;
+      const node = this.parseOr();
+      this.expectPunct(')');
+      return node;
+    }
+
+    if (token.type === 'op' && COMPARATOR_ALIASES[token.value]) {
+      this.index++;
+      const value = this.parseNumber();
+      return {
+        type: 'comparison',
+        operator: COMPARATOR_ALIASES[token.value],
+        value,
+        unit: this.parseUnit(),
+      };
+    }
+
+    if (this.matchKeyword('nmt')) {
+      const value = this.parseNumber();
+      return {
+        type: 'comparison',
+        operator: '<=',
+        value,
+        unit: this.parseUnit(),
+      };
+    }
+
+    if (this.matchKeyword('nlt')) {
+      const value = this.parseNumber();
+      return {
+        type: 'comparison',
+        operator: '>=',
+        value,
+        unit: this.parseUnit(),
+      };
+    }
+
+    if (
+      token.type === 'string' ||
+      (token.type === 'punct' && token.value === '[')
+    ) {
+      return this.parseSet();
+    }
+
+    if (
+      token.type === 'number' ||
+      (token.type === 'op' && token.value === '-')
+    ) {
+      return this.parseRange();
+    }
+
+    throw this.error(`Unexpected '${token.value}'`, token);
+  }
+
+  private parseRange(): SpecRuleNode {
+    const min = this.parseNumber();
+    this.parseUnit();
+
+    if (!(this.matchOp('-') || this.matchOp('..') || this.matchKeyword('to'))) {
+      const next = this.peek();
+      throw next
+        ? this.error(
+            `Expected a range separator after ${min} but found '${next.value}'`,
+            next,
+          )
+        : new SpecRuleSyntaxError(
+            `Expected a comparator or range around ${min}`,
+            this.rule,
+            this.rule.length,
+          );
+    }
+
+    const max = this.parseNumber();
+    const unit = this.parseUnit();
+    if (min > max) {
+      throw new SpecRuleSyntaxError(
+        `Range minimum ${min} is greater than maximum ${max}`,
+        this.rule,
+        0,
+      );
+    }
+    return { type: 'range', min, max, unit };
+  }
+
+  private parseSet(): SpecRuleNode {
+    const values: string[] = [];
+
+    if (this.matchPunct('[')) {
+      do {
+        values.push(this.expectString());
+      } while (this.matchPunct(','));
+      this.expectPunct(']');
+    } else {
+      values.push(this.expectString());
+    }
+
+    let basis: string | undefined;
+    if (this.matchKeyword('in')) {
+      const quantity = this.parseNumber();
+      const unit = this.parseUnit();
+      basis = unit ? `${quantity}${unit}` : `${quantity}`;
+    }
+
+    return { type: 'set', values, basis };
+  }
+
+  private parseNumber(): number {
+    const negative = this.matchOp('-');
+    const token = this.peek();
+    if (!token || token.type !== 'number') {
+      throw token
+        ? this.error(`Expected a number but found '${token.value}'`, token)
+        : new SpecRuleSyntaxError(
+            'Expected a number at end of rule',
+            this.rule,
+            this.rule.length,
+          );
+    }
+    this.index++;
+    const value = parseFloat(token.value);
+    return negative ? -value : value;
+  }
+
+  private parseUnit(): string | undefined {
+    const token = this.peek();
+    if (
+      token?.type === 'word' &&
+      !KEYWORDS.includes(token.value.toLowerCase())
+    ) {
+      this.index++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private expectString(): string {
+    const token = this.peek();
+    if (!token || token.type !== 'string') {
+      throw token
+        ? this.error(
+            `Expected a quoted value but found '${token.value}'`,
+            token,
+          )
+        : new SpecRuleSyntaxError(
+            'Expected a quoted value at end of rule',
+            this.rule,
+            this.rule.length,
+          );
+    }
+    this.index++;
+    return token.value;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.matchPunct(value)) {
+      const token = this.peek();
+      throw token
+        ? this.error(`Expected '${value}' but found '${token.value}'`, token)
+        : new SpecRuleSyntaxError(
+            `Expected '${value}' at end of rule`,
+            this.rule,
+            this.rule.length,
+          );
+    }
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'word' && token.value.toLowerCase() === keyword) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOp(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'op' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunct(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'punct' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private error(message: string, token: Token): SpecRuleSyntaxError {
+    return new SpecRuleSyntaxError(message, this.rule, token.position);
+  }
+}
+
+/**
+ * Parse an OOS rule into its syntax tree
+ *
+ * @param rule - The rule text, e.g. `> 5 and < 10`
+ * @returns The parsed rule
+ * @throws SpecRuleSyntaxError if the rule is not valid
+ *
+ * @example
+ * parseSpecRule('NMT 10 ppm')
+ * // returns { type: 'comparison', operator: '<=', value: 10, unit: 'ppm' }
+ */
+export function parseSpecRule(rule: string): SpecRuleNode {
+  return new SpecRuleParser(rule, tokenize(rule)).parse();
+}
+
+/**
+ * Check whether an OOS rule is valid without throwing
+ *
+ * @param rule - The rule text to validate
+ * @returns `null` if the rule parses, otherwise the syntax error
+ *
+ * @example
+ * validateSpecRule('>= 5') // returns null
+ * validateSpecRule('>= abc')?.message // "Expected a number but found 'abc'"
+ */
+export function validateSpecRule(rule: string): SpecRuleSyntaxError | null {
+  try {
+    parseSpecRule(rule);
+    return null;
+  } catch (error) {
+    if (error instanceof SpecRuleSyntaxError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Evaluate a parsed rule against a result
+ *
+ * Numeric conditions are evaluated against the range of values consistent
+ * with the result, so censored results (`<10`, `TNTC`) only meet a condition
+ * when compliance is certain. Qualitative sets are matched case-insensitively,
+ * and any not-detected term matches any other (`ND` meets `"Not Detected"`).
+ *
+ * @param node - The parsed rule
+ * @param result - The test result value, or an already parsed result
+ * @returns true if the result meets the rule (in specification)
+ *
+ * @example
+ * evaluateSpecRule(parseSpecRule('> 5 and < 10'), '7') // returns true
+ * evaluateSpecRule(parseSpecRule('"Absent" in 25g'), 'Present') // returns false
+ * evaluateSpecRule(parseSpecRule('NMT 100'), 'TNTC') // returns false
+ */
+export function evaluateSpecRule(
+  node: SpecRuleNode,
+  result: string | ParsedResult,
+): boolean {
+  const parsed = typeof result === 'string' ? parseResult(result) : result;
+
+  switch (node.type) {
+    case 'and':
+      return (
+        evaluateSpecRule(node.left, parsed) &&
+        evaluateSpecRule(node.right, parsed)
+      );
+    case 'or':
+      return (
+        evaluateSpecRule(node.left, parsed) ||
+        evaluateSpecRule(node.right, parsed)
+      );
+    case 'set': {
+      const normalized = parsed.raw.trim().toLowerCase();
+      return node.values.some(
+        (value) =>
+          value.trim().toLowerCase() === normalized ||
+          (parsed.detection === 'NOT_DETECTED' &&
+            parseResult(value).detection === 'NOT_DETECTED'),
+      );
+    }
+    case 'range': {
+      const interval = getResultInterval(parsed);
+      if (!interval) return false;
+      return isIntervalWithinLimits(interval, node.min, node.max);
+    }
+    case 'comparison': {
+      const interval = getResultInterval(parsed);
+      if (!interval) return false;
+      return compare(interval, node.operator, node.value);
+    }
+  }
+}
+
+/**
+ * Render a parsed rule back to its canonical text form
+ *
+ * @example
+ * formatSpecRule(parseSpecRule('nmt 10 ppm')) // returns "<= 10 ppm"
+ */
+export function formatSpecRule(node: SpecRuleNode): string {
+  switch (node.type) {
+    case 'and':
+      return `${formatAndOperand(node.left)} AND ${formatAndOperand(node.right)}`;
+    case 'or':
+      return `${formatSpecRule(node.left)} OR ${formatSpecRule(node.right)}`;
+    case 'set': {
+      const values = node.values.map((value) => `"${value}"`);
+      const set = values.length === 1 ? values[0] : `[${values.join(', ')}]`;
+      return node.basis ? `${set} in ${node.basis}` : set;
+    }
+    case 'range':
+      return `${node.min} - ${node.max}${node.unit ? ` ${node.unit}` : ''}`;
+    case 'comparison':
+      return `${node.operator} ${node.value}${node.unit ? ` ${node.unit}` : ''}`;
+  }
+}
+
+function formatAndOperand(node: SpecRuleNode): string {
+  const text = formatSpecRule(node);
+  return node.type === 'or' ? `(${text})` : text;
+}
+
+/**
+ * Check that every value in the interval satisfies `x <operator> value`
+ */
+function compare(
+  interval: ResultInterval,
+  operator: SpecRuleComparator,
+  value: number,
+): boolean {
+  const { low, lowInclusive, high, highInclusive } = interval;
+
+  switch (operator) {
+    case '>':
+      return low > value || (low === value && !lowInclusive);
+    case '>=':
+      return low >= value;
+    case '<':
+      return high < value || (high === value && !highInclusive);
+    case '<=':
+      return high <= value;
+    case '=':
+      return low === value && high === value;
+    case '!=':
+      return (
+        value < low ||
+        value > high ||
+        (value === low && !lowInclusive) ||
+        (value === high && !highInclusive)
+      );
+  }
+}
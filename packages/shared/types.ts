@@ -3,6 +3,11 @@
  * These types are shared between API and Web packages
  */
 
+import { DetectionState, ResultQualifier } from './results';
+import { OOSEvaluationBasis, RoundingMode } from './rounding';
+import { FormulaInputField } from './formulas';
+import { ReplicateReading, ReportableRule } from './replicates';
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -25,6 +30,21 @@ export type TestAssignmentStatus =
 
 export type COAReportStatus = 'DRAFT' | 'FINAL' | 'SUPERSEDED';
 
+export type RetestReason =
+  | 'LAB_ERROR'
+  | 'OOS_INVESTIGATION'
+  | 'INSTRUMENT_FAILURE'
+  | 'SAMPLE_PREPARATION'
+  | 'RESAMPLE'
+  | 'CLIENT_REQUEST'
+  | 'OTHER';
+
+export type OOSInvestigationStatus = 'PHASE_I' | 'PHASE_II' | 'CLOSED';
+
+export type OOSConclusion = 'INVALIDATED' | 'CONFIRMED' | 'INCONCLUSIVE';
+
+export type SignatureMeaning = 'REVIEWED' | 'APPROVED' | 'RELEASED';
+
 export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
 
 // ============================================================================
@@ -47,6 +67,9 @@ export interface Client {
   email?: string;
   phone?: string;
   address?: string;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -64,6 +87,9 @@ export interface Job {
   soNumber?: string;
   amountExTax?: number;
   invoiced: boolean;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -74,6 +100,17 @@ export interface Method {
   name: string;
   unit?: string;
   description?: string;
+  lod?: number;
+  loq?: number;
+  decimalPlaces?: number;
+  significantFigures?: number;
+  roundingMode: RoundingMode;
+  oosBasis: OOSEvaluationBasis;
+  rsdLimit?: number;
+  reportableRule: ReportableRule;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -88,6 +125,9 @@ export interface Specification {
   unit?: string;
   oosRule?: string;
   description?: string;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -110,6 +150,12 @@ export interface TestDefinition {
   specificationId?: string;
   specification?: Specification;
   defaultDueDays?: number;
+  inputFields?: FormulaInputField[];
+  formula?: string;
+  formulaVersion?: number;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -148,6 +194,9 @@ export interface Sample {
   allChemistryTestsAssigned: boolean;
   released: boolean;
   retest: boolean;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -171,15 +220,58 @@ export interface TestAssignment {
   status: TestAssignmentStatus;
   testDate?: string;
   result?: string;
+  reportedResult?: string;
+  resultQualifier?: ResultQualifier;
+  resultValue?: number;
+  detectionState?: DetectionState;
+  rawInputs?: Record<string, number>;
+  formulaVersion?: number;
+  calculation?: string;
+  replicates?: ReplicateReading[];
+  replicateMean?: number;
+  replicateSd?: number;
+  replicateRsd?: number;
+  rsdExceeded: boolean;
   resultUnit?: string;
   oos: boolean;
   comments?: string;
   invoiceNote?: string;
   precision?: string;
   linearity?: string;
+  resultEnteredById?: string; // Who entered the result; may not review or release it
   chkById?: string;
   checker?: User;
   chkDate?: string;
+  attempt: number; // 1 for the original test, 2+ for retests
+  reportable: boolean; // The attempt reported on the COA
+  retestOfId?: string;
+  retestOf?: TestAssignment;
+  retests?: TestAssignment[];
+  retestReason?: RetestReason;
+  retestNotes?: string;
+  oosInvestigations?: OOSInvestigation[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OOSInvestigation {
+  id: string;
+  testAssignmentId: string;
+  testAssignment?: TestAssignment;
+  sampleId: string;
+  sample?: Sample;
+  status: OOSInvestigationStatus;
+  phaseIFindings?: string;
+  labErrorFound?: boolean;
+  phaseICompletedAt?: string;
+  phaseIIFindings?: string;
+  rootCause?: string;
+  capaReference?: string;
+  conclusion?: OOSConclusion;
+  conclusionNotes?: string;
+  closedAt?: string;
+  closedById?: string;
+  closedBy?: User;
   createdAt: string;
   updatedAt: string;
 }
@@ -204,6 +296,22 @@ export interface COAReport {
   updatedAt: string;
 }
 
+export interface ElectronicSignature {
+  id: string;
+  recordTable: 'TestAssignment' | 'COAReport';
+  recordId: string;
+  meaning: SignatureMeaning;
+  dataHash: string; // SHA-256 of the signed fields at signing time
+  signerId: string;
+  signerName: string;
+  signerEmail: string;
+  signedAt: string;
+  invalidatedAt?: string;
+  invalidationReason?: string;
+  invalidatedById?: string;
+  valid?: boolean; // Set when listed against the record's current data
+}
+
 export interface AuditLog {
   id: string;
   tableName: string;
@@ -212,11 +320,29 @@ export interface AuditLog {
   changedFields?: any; // JSON object
   oldValues?: any; // JSON object
   newValues?: any; // JSON object
+  reason?: string; // Justification for the change, required after review or release
   actorId?: string;
   actor?: User;
   ipAddress?: string;
   userAgent?: string;
   timestamp: string;
+  seq?: number; // Position in the hash chain
+  prevHash?: string;
+  hash?: string;
+}
+
+export interface AuditExport {
+  id: string;
+  table: 'Sample' | 'Job';
+  recordId: string;
+  entryCount: number;
+  lastSeq?: number;
+  pdfKey: string;
+  pdfSha256: string;
+  csvKey: string;
+  csvSha256: string;
+  createdAt: string;
+  createdById: string;
 }
 
 // ============================================================================
@@ -305,7 +431,9 @@ export interface UpdateTestAssignmentDto {
 }
 
 export interface EnterResultDto {
-  result: string;
+  result?: string; // Required unless the test definition calculates it
+  inputs?: Record<string, number>; // Raw data inputs for calculated results
+  replicates?: ReplicateReading[]; // Replicate readings; the reportable value becomes the result
   resultUnit?: string;
   testDate?: string;
 }
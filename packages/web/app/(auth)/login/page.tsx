@@ -43,8 +43,8 @@ export default function LoginPage() {
         localStorage.setItem('accessToken', data.accessToken);
         localStorage.setItem('user', JSON.stringify(data.user));
         
-        // Redirect to dashboard
-        router.push('/dashboard');
+        // Clients use the portal; staff go to the dashboard
+        router.push(data.user?.role === 'CLIENT' ? '/portal' : '/dashboard');
       } else {
         throw new Error('No access token received');
       }
@@ -26,6 +26,7 @@ export default function AuditPage() {
         oldValue: 'DRAFT',
         newValue: 'IN_PROGRESS',
       },
+      reason: 'Status corrected after review',
       at: '2024-11-14T10:30:00Z',
       txId: 'tx-123',
     },
@@ -36,6 +37,7 @@ export default function AuditPage() {
       recordId: 'test-5',
       actorEmail: 'sarah@lab.com',
       changes: null,
+      reason: null,
       at: '2024-11-14T09:15:00Z',
       txId: 'tx-124',
     },
@@ -148,6 +150,11 @@ export default function AuditPage() {
                         <span>→</span>
                         <span className="text-green-600">{log.changes.newValue}</span>
                       </div>
+                      {log.reason && (
+                        <div className="text-xs text-gray-600">
+                          <span className="font-medium">Reason:</span> {log.reason}
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <span className="text-gray-400">New record</span>
@@ -4,6 +4,7 @@ import { AppLayout } from '@/components/layout/app-layout';
 import { Card, Badge } from '@/components/ui/display';
 import { Button } from '@/components/ui/button';
 import { Input, Select } from '@/components/ui/form';
+import COABatchPanel from '@/components/COABatchPanel';
 import Link from 'next/link';
 import { useState } from 'react';
 
@@ -79,6 +80,8 @@ export default function JobDetailPage({ params }: { params: { id: string } }) {
             </div>
           </Card>
         </div>
+
+        <COABatchPanel jobId={job.id} jobNumber={job.jobNumber} />
       </div>
     </AppLayout>
   );
@@ -0,0 +1,5 @@
+import { PortalLayout } from '@/components/layout/portal-layout';
+
+export default function Layout({ children }: { children: React.ReactNode }) {
+  return <PortalLayout>{children}</PortalLayout>;
+}
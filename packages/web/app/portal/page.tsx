@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, Table, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { apiClient } from '@/lib/api-client';
+import type { PortalJob, PortalOverview, PortalSampleStatus } from '@/lib/types';
+
+// Status changes as the lab works; keep the list current without a reload
+const REFRESH_INTERVAL_MS = 60_000;
+
+function getStatusBadge(status: PortalSampleStatus) {
+  return status === 'RELEASED' ? (
+    <Badge variant="success">Released</Badge>
+  ) : (
+    <Badge variant="info">In Progress</Badge>
+  );
+}
+
+function getJobBadge(job: PortalJob) {
+  if (job.status === 'DRAFT') return <Badge variant="warning">Requested</Badge>;
+  if (job.status === 'COMPLETED') return <Badge variant="success">Completed</Badge>;
+  if (job.status === 'CANCELLED') return <Badge variant="danger">Cancelled</Badge>;
+  return <Badge variant="info">In Progress</Badge>;
+}
+
+/**
+ * Client portal home: the client's jobs and samples with their current
+ * status. Released samples link to their results and COAs.
+ */
+export default function PortalPage() {
+  const [jobs, setJobs] = useState<PortalJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = () =>
+      apiClient
+        .get<PortalOverview>('/portal/overview')
+        .then((overview) => {
+          setJobs(overview.jobs);
+          setError('');
+        })
+        .catch((err) => setError(err.message))
+        .finally(() => setIsLoading(false));
+
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Samples</h1>
+          <p className="text-gray-600 mt-1">Track your jobs and download certificates</p>
+        </div>
+        <Link href="/portal/requests/new">
+          <Button>+ Request Testing</Button>
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center text-gray-500">Loading...</div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <p className="text-center text-sm text-gray-500">
+            No jobs yet. Use &quot;Request Testing&quot; to send us samples.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {jobs.map((job) => (
+            <Card
+              key={job.id}
+              title={`${job.jobNumber} · ${job.client.name}`}
+              actions={getJobBadge(job)}
+            >
+              {job.samples.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {job.status === 'DRAFT'
+                    ? 'Awaiting receipt of your samples.'
+                    : 'No samples registered yet.'}
+                </p>
+              ) : (
+                <Table headers={['Sample', 'Description', 'Received', 'Due', 'Status', 'COA']}>
+                  {job.samples.map((sample) => (
+                    <tr key={sample.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-blue-600">
+                        <Link href={`/portal/samples/${sample.id}`}>{sample.sampleCode}</Link>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {sample.sampleDescription || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(sample.dateReceived).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {sample.dateDue ? new Date(sample.dateDue).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">{getStatusBadge(sample.status)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {sample.hasFinalCOA ? 'Available' : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </Table>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { Input, Select, TextArea } from '@/components/ui/form';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import type { PortalOverview, SampleRequest } from '@/lib/types';
+
+/**
+ * Sample request form. The request reaches the lab as a DRAFT job, which
+ * reception completes when the samples arrive.
+ */
+export default function NewSampleRequestPage() {
+  const router = useRouter();
+  const [clients, setClients] = useState<PortalOverview['clients']>([]);
+  const [form, setForm] = useState<SampleRequest>({ details: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient
+      .get<PortalOverview>('/portal/overview')
+      .then((overview) => {
+        setClients(overview.clients);
+        if (overview.clients.length === 1) {
+          setForm((current) => ({ ...current, clientId: overview.clients[0].id }));
+        }
+      })
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await apiClient.post('/portal/sample-requests', form);
+      router.push('/portal');
+    } catch (err) {
+      setError((err as ApiError).message || 'The request could not be submitted');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Request Testing</h1>
+        <p className="text-gray-600 mt-1">
+          Tell us what you are sending. Our reception team will confirm once the samples arrive.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <Card>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {clients.length > 1 && (
+            <Select
+              label="Company"
+              required
+              value={form.clientId ?? ''}
+              onChange={(e) => setForm({ ...form, clientId: e.target.value })}
+              options={[
+                { value: '', label: 'Select a company' },
+                ...clients.map((client) => ({ value: client.id, label: client.name })),
+              ]}
+            />
+          )}
+          <Input
+            label="Number of samples"
+            type="number"
+            min={1}
+            value={form.sampleCount ?? ''}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                sampleCount: e.target.value ? parseInt(e.target.value, 10) : undefined,
+              })
+            }
+          />
+          <TextArea
+            label="Samples and tests required"
+            required
+            rows={6}
+            placeholder="e.g. 2 batches of paracetamol 500 mg tablets: assay, dissolution"
+            value={form.details}
+            onChange={(e) => setForm({ ...form, details: e.target.value })}
+          />
+          <Input
+            label="Results needed by"
+            type="date"
+            value={form.needByDate ?? ''}
+            onChange={(e) => setForm({ ...form, needByDate: e.target.value || undefined })}
+          />
+          <Input
+            label="Purchase order number"
+            value={form.poNumber ?? ''}
+            onChange={(e) => setForm({ ...form, poNumber: e.target.value || undefined })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="secondary" onClick={() => router.push('/portal')}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, Table, Badge } from '@/components/ui/display';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import { saveBlob } from '@/lib/download';
+import type { PortalResult, PortalSampleDetail } from '@/lib/types';
+
+function formatSpecification(result: PortalResult): string {
+  const spec = result.specification;
+  if (!spec) return '-';
+  if (spec.target) return spec.target;
+  if (spec.min != null && spec.max != null) return `${spec.min} - ${spec.max}`;
+  if (spec.min != null) return `≥ ${spec.min}`;
+  if (spec.max != null) return `≤ ${spec.max}`;
+  return '-';
+}
+
+/**
+ * Client portal sample page: released results and every issued COA
+ * version. Superseded versions stay downloadable and are marked as such.
+ */
+export default function PortalSamplePage() {
+  const params = useParams();
+  const sampleId = params.id as string;
+
+  const [sample, setSample] = useState<PortalSampleDetail | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient
+      .get<PortalSampleDetail>(`/portal/samples/${sampleId}`)
+      .then(setSample)
+      .catch((err) => setError(err.message));
+  }, [sampleId]);
+
+  const handleDownload = async (reportId: string, version: number) => {
+    try {
+      const blob = await apiClient.getBlob(`/coa/${reportId}/download`);
+      saveBlob(blob, `COA-${sample?.sampleCode}-v${version}.pdf`);
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  if (!sample) {
+    return error ? (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+        <p className="text-sm text-red-800">{error}</p>
+      </div>
+    ) : (
+      <div className="text-center text-gray-500">Loading...</div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/portal" className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to My Samples
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2">{sample.sampleCode}</h1>
+        <p className="text-gray-600 mt-1">
+          {sample.job.jobNumber} · {sample.client.name}
+          {sample.sampleDescription && ` · ${sample.sampleDescription}`}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <Card
+          title="Results"
+          actions={
+            sample.status === 'RELEASED' ? (
+              <Badge variant="success">Released</Badge>
+            ) : (
+              <Badge variant="info">In Progress</Badge>
+            )
+          }
+        >
+          {sample.results.length === 0 ? (
+            <p className="text-sm text-gray-500">No results have been released yet.</p>
+          ) : (
+            <Table headers={['Test', 'Method', 'Result', 'Specification', 'Outcome']}>
+              {sample.results.map((result) => (
+                <tr key={result.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {result.testName || '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{result.method.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {result.result ?? '-'} {result.unit}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatSpecification(result)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {result.oos ? (
+                      <Badge variant="danger">Out of Spec</Badge>
+                    ) : (
+                      <Badge variant="success">Pass</Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Card>
+
+        <Card title="Certificates of Analysis">
+          {sample.coaReports.length === 0 ? (
+            <p className="text-sm text-gray-500">No certificate has been issued yet.</p>
+          ) : (
+            <Table headers={['Version', 'Status', 'Issued', '']}>
+              {sample.coaReports.map((report) => (
+                <tr key={report.id} className={report.superseded ? 'text-gray-400' : ''}>
+                  <td className="px-6 py-4 text-sm font-medium">
+                    v{report.version}
+                    {report.amendmentReason && (
+                      <p className="text-xs font-normal text-gray-500">Amended: {report.amendmentReason}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {report.superseded ? (
+                      <Badge>Superseded</Badge>
+                    ) : (
+                      <Badge variant="success">Current</Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {report.reportedAt ? new Date(report.reportedAt).toLocaleDateString() : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleDownload(report.id, report.version)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Download PDF
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, Table, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { Input, Select, TextArea, Checkbox } from '@/components/ui/form';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import { saveBlob } from '@/lib/download';
+import type {
+  CreateSampleSubmission,
+  PortalOverview,
+  SampleSubmission,
+} from '@/lib/types';
+
+type SubmissionItem = CreateSampleSubmission['items'][number];
+
+const emptyItem = (): SubmissionItem => ({ sampleDescription: '', testPackIds: [] });
+
+/**
+ * Pre-register a shipment of samples and print its chain-of-custody form.
+ * The QR code on the form is scanned by reception when the parcel arrives.
+ */
+export default function PortalSubmissionsPage() {
+  const [submissions, setSubmissions] = useState<SampleSubmission[]>([]);
+  const [clients, setClients] = useState<PortalOverview['clients']>([]);
+  const [testPacks, setTestPacks] = useState<{ id: string; name: string }[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [items, setItems] = useState<SubmissionItem[]>([emptyItem()]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSubmissions = () =>
+    apiClient
+      .get<SampleSubmission[]>('/sample-submissions')
+      .then(setSubmissions)
+      .catch((err) => setError(err.message));
+
+  useEffect(() => {
+    loadSubmissions();
+    apiClient
+      .get<PortalOverview>('/portal/overview')
+      .then((overview) => {
+        setClients(overview.clients);
+        if (overview.clients.length === 1) setClientId(overview.clients[0].id);
+      })
+      .catch((err) => setError(err.message));
+    apiClient
+      .get<{ id: string; name: string }[]>('/portal/test-packs')
+      .then(setTestPacks)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const updateItem = (index: number, changes: Partial<SubmissionItem>) =>
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const togglePack = (index: number, packId: string) => {
+    const packIds = items[index].testPackIds;
+    updateItem(index, {
+      testPackIds: packIds.includes(packId)
+        ? packIds.filter((id) => id !== packId)
+        : [...packIds, packId],
+    });
+  };
+
+  const handleDownload = async (submission: SampleSubmission) => {
+    try {
+      const blob = await apiClient.getBlob(`/sample-submissions/${submission.id}/custody-form`);
+      saveBlob(blob, `COC-${submission.submissionNumber}.pdf`);
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const submission = await apiClient.post<SampleSubmission>('/sample-submissions', {
+        clientId: clientId || undefined,
+        notes: notes || undefined,
+        items,
+      });
+      setItems([emptyItem()]);
+      setNotes('');
+      await loadSubmissions();
+      await handleDownload(submission);
+    } catch (err) {
+      setError((err as ApiError).message || 'The shipment could not be registered');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Ship Samples</h1>
+        <p className="text-gray-600 mt-1">
+          Register your samples before sending them, then print the chain-of-custody form and
+          put it in the parcel.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <Card title="New Shipment">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {clients.length > 1 && (
+              <Select
+                label="Company"
+                required
+                value={clientId}
+                onChange={(e) => setClientId(e.target.value)}
+                options={[
+                  { value: '', label: 'Select a company' },
+                  ...clients.map((client) => ({ value: client.id, label: client.name })),
+                ]}
+              />
+            )}
+
+            {items.map((item, index) => (
+              <div key={index} className="border border-gray-200 rounded-md p-4 space-y-3">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-sm font-semibold text-gray-900">Sample {index + 1}</h4>
+                  {items.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <Input
+                  label="Description"
+                  required
+                  value={item.sampleDescription}
+                  onChange={(e) => updateItem(index, { sampleDescription: e.target.value })}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <Input
+                    label="Batch"
+                    value={item.sampleBatch ?? ''}
+                    onChange={(e) => updateItem(index, { sampleBatch: e.target.value || undefined })}
+                  />
+                  <Input
+                    label="Supplier"
+                    value={item.rmSupplier ?? ''}
+                    onChange={(e) => updateItem(index, { rmSupplier: e.target.value || undefined })}
+                  />
+                  <Input
+                    label="Storage conditions"
+                    placeholder="e.g. 2-8 °C"
+                    value={item.storageConditions ?? ''}
+                    onChange={(e) =>
+                      updateItem(index, { storageConditions: e.target.value || undefined })
+                    }
+                  />
+                </div>
+                {testPacks.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-1">Tests requested</p>
+                    <div className="flex flex-wrap gap-4">
+                      {testPacks.map((pack) => (
+                        <Checkbox
+                          key={pack.id}
+                          label={pack.name}
+                          checked={item.testPackIds.includes(pack.id)}
+                          onChange={() => togglePack(index, pack.id)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <Button type="button" variant="secondary" onClick={() => setItems([...items, emptyItem()])}>
+              + Add Sample
+            </Button>
+
+            <TextArea
+              label="Notes for the lab"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? 'Registering...' : 'Register & Print Custody Form'}
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        <Card title="Shipments">
+          {submissions.length === 0 ? (
+            <p className="text-sm text-gray-500">No shipments registered yet.</p>
+          ) : (
+            <Table headers={['Submission', 'Company', 'Samples', 'Registered', 'Status', '']}>
+              {submissions.map((submission) => (
+                <tr key={submission.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium font-mono text-gray-900">
+                    {submission.submissionNumber}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{submission.client.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{submission._count?.items}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(submission.createdAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {submission.status === 'RECEIVED' ? (
+                      <Badge variant="success">Received</Badge>
+                    ) : (
+                      <Badge variant="warning">Awaiting Receipt</Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleDownload(submission)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Custody Form
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { AppLayout } from '@/components/layout/app-layout';
 import { Card, Table, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 
 export default function ReportsPage() {
@@ -29,11 +30,16 @@ export default function ReportsPage() {
   return (
     <AppLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">COA Reports</h1>
-          <p className="mt-2 text-sm text-gray-600">
-            Certificates of Analysis
-          </p>
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">COA Reports</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Certificates of Analysis
+            </p>
+          </div>
+          <Link href="/reports/templates">
+            <Button variant="secondary">COA Templates</Button>
+          </Link>
         </div>
 
         <Card>
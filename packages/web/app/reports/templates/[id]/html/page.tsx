@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { AppLayout } from '@/components/layout/app-layout';
+import { Card, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { Input, TextArea } from '@/components/ui/form';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import type { COATemplate, Sample } from '@/lib/types';
+
+// Starting point for a template without source
+const STARTER_TEMPLATE = `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 11px; margin: 24px; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+    .oos { color: #b91c1c; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <h1>{{reportMetadata.labName}} - Certificate of Analysis v{{reportMetadata.version}}</h1>
+  <p>
+    Client: {{sample.client.name}}<br>
+    Sample: {{sample.sampleCode}} ({{sample.sampleDescription}})<br>
+    Received: {{formatDate sample.dateReceived}}
+  </p>
+  {{#if sample.statusFlags.urgent}}<p><strong>URGENT</strong></p>{{/if}}
+
+  <table>
+    <tr><th>Test</th><th>Method</th><th>Result</th><th>Unit</th></tr>
+    {{#each tests}}
+    <tr>
+      <td>{{testName}}</td>
+      <td>{{method.name}}</td>
+      <td{{#if oos}} class="oos"{{/if}}>{{reportedResult}}</td>
+      <td>{{resultUnit}}</td>
+    </tr>
+    {{/each}}
+  </table>
+
+  {{#each signatures}}
+  <p>{{meaning}}: {{name}} for {{subject}} ({{formatDateTime signedAt}})</p>
+  {{/each}}
+
+  {{#each reportMetadata.amendments}}
+  <p>Amended in version {{version}} on {{formatDate amendedAt}}: {{reason}}</p>
+  <ul>{{#each summary}}<li>{{this}}</li>{{/each}}</ul>
+  {{/each}}
+
+  <p>{{reportMetadata.disclaimerText}}</p>
+</body>
+</html>
+`;
+
+// Shown beside the editor; paths are relative to the COA data snapshot
+const PLACEHOLDERS: [string, string][] = [
+  ['{{sample.sampleCode}}', 'Also jobNumber, sampleDescription, uinCode, sampleBatch, rmSupplier, comments'],
+  ['{{sample.client.name}}', 'Also contactName, email, phone, address'],
+  ['{{formatDate sample.dateReceived}}', 'Also dateDue, releaseDate, needByDate, mcdDate'],
+  ['{{#if sample.statusFlags.urgent}}', 'Also released, retest, stabilityStudy, expiredRawMaterial'],
+  ['{{#each tests}}', 'testName, section.name, method.name, specification.name, reportedResult, resultUnit, oos'],
+  ['{{#each signatures}}', 'meaning, name, subject, formatDateTime signedAt'],
+  ['{{#each reportMetadata.amendments}}', 'version, previousVersion, reason, amendedBy, formatDate amendedAt; summary lists the changes'],
+  ['{{reportMetadata.version}}', 'Also labName, generatedBy, disclaimerText'],
+  ['{{#if (eq status "COMPLETED")}}', 'Compare two values'],
+];
+
+/**
+ * HTML template editor for a COA template. Placeholders are always
+ * HTML-escaped and markup that runs script is rejected by the API; the
+ * preview renders a real sample and is shown in a sandboxed frame.
+ */
+export default function COATemplateHTMLPage() {
+  const params = useParams();
+  const templateId = params.id as string;
+
+  const [template, setTemplate] = useState<COATemplate | null>(null);
+  const [source, setSource] = useState('');
+  const [sampleCode, setSampleCode] = useState('');
+  const [sample, setSample] = useState<Sample | null>(null);
+  const [previewHtml, setPreviewHtml] = useState('');
+  const [previewError, setPreviewError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient
+      .get<COATemplate>(`/coa-templates/${templateId}`)
+      .then((loaded) => {
+        setTemplate(loaded);
+        setSource(loaded.versions[0]?.source ?? STARTER_TEMPLATE);
+      })
+      .catch((err) => setError(err.message));
+  }, [templateId]);
+
+  // Re-render the preview shortly after the last edit
+  useEffect(() => {
+    if (!sample) return;
+    const timer = setTimeout(() => {
+      apiClient
+        .post<{ htmlSnapshot: string }>(`/samples/${sample.id}/coa/preview`, { templateId, source })
+        .then((preview) => {
+          setPreviewHtml(preview.htmlSnapshot);
+          setPreviewError('');
+        })
+        .catch((err) => setPreviewError((err as ApiError).message));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [sample, source, templateId]);
+
+  const selectSample = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      setSample(await apiClient.get<Sample>(`/samples/by-code/${encodeURIComponent(sampleCode.trim())}`));
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const save = async (value: string | null) => {
+    setError('');
+    setMessage('');
+    setIsSaving(true);
+    try {
+      const saved = await apiClient.put<COATemplate>(`/coa-templates/${templateId}`, { source: value });
+      setTemplate(await apiClient.get<COATemplate>(`/coa-templates/${templateId}`));
+      if (value === null) setSource(STARTER_TEMPLATE);
+      setMessage(
+        value === null
+          ? `Back to the built-in layout as version ${saved.currentVersion}`
+          : `Saved as version ${saved.currentVersion}`,
+      );
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const savedSource = template?.versions[0]?.source;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {template ? `${template.name} HTML Template` : 'HTML Template'}
+            </h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Replaces the built-in COA layout. Placeholders are always HTML-escaped; scripts,
+              frames, event handlers and unescaped output are not allowed.
+            </p>
+          </div>
+          <div className="flex gap-2 items-center">
+            {template && <Badge variant="info">v{template.currentVersion}</Badge>}
+            <Link href="/reports/templates">
+              <Button variant="secondary">Back to Templates</Button>
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Card
+            title="Template"
+            actions={
+              <div className="flex gap-2">
+                {savedSource && (
+                  <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => save(null)}>
+                    Use Built-in Layout
+                  </Button>
+                )}
+                <Button size="sm" disabled={isSaving || !source.trim()} onClick={() => save(source)}>
+                  {isSaving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            }
+          >
+            <div className="space-y-4">
+              <TextArea
+                rows={28}
+                spellCheck={false}
+                className="font-mono text-xs"
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+              />
+              <table className="w-full text-xs">
+                <tbody className="divide-y divide-gray-100">
+                  {PLACEHOLDERS.map(([placeholder, description]) => (
+                    <tr key={placeholder}>
+                      <td className="py-1 pr-3 font-mono text-gray-900 whitespace-nowrap">{placeholder}</td>
+                      <td className="py-1 text-gray-500">{description}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          <Card title={sample ? `Preview: ${sample.sampleCode}` : 'Preview'}>
+            <div className="space-y-4">
+              <form onSubmit={selectSample} className="flex gap-2 items-end">
+                <div className="flex-1">
+                  <Input
+                    label="Sample code"
+                    placeholder="Render the preview with this sample's data"
+                    value={sampleCode}
+                    onChange={(e) => setSampleCode(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" variant="secondary" disabled={!sampleCode.trim()}>
+                  Preview
+                </Button>
+              </form>
+              {previewError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-800">{previewError}</p>
+                </div>
+              )}
+              {previewHtml ? (
+                // Empty sandbox: no script, forms or navigation in the preview
+                <iframe
+                  sandbox=""
+                  title="COA preview"
+                  srcDoc={previewHtml}
+                  className="w-full h-[720px] border border-gray-200 rounded-md bg-white"
+                />
+              ) : (
+                <p className="text-sm text-gray-500">Choose a sample to preview the template.</p>
+              )}
+            </div>
+          </Card>
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
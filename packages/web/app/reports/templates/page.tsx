@@ -0,0 +1,481 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AppLayout } from '@/components/layout/app-layout';
+import { Card, Table, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { Input, Select, TextArea, Checkbox } from '@/components/ui/form';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import type {
+  Client,
+  COATemplate,
+  COATemplateLayout,
+  Job,
+  PaginatedResponse,
+} from '@/lib/types';
+
+// Keys match the COA renderer; the arrays are in the default print order
+const SECTIONS: [string, string][] = [
+  ['clientInformation', 'Client Information'],
+  ['sampleInformation', 'Sample Information'],
+  ['testResults', 'Test Results'],
+  ['retestHistory', 'Retest History'],
+  ['amendmentHistory', 'Amendment History'],
+  ['electronicSignatures', 'Electronic Signatures'],
+  ['signatureBlock', 'Prepared / Reviewed By'],
+];
+
+const SAMPLE_FIELDS: [string, string][] = [
+  ['jobNumber', 'Job Number'],
+  ['sampleCode', 'Sample Code'],
+  ['sampleDescription', 'Description'],
+  ['uinCode', 'UIN Code'],
+  ['sampleBatch', 'Batch'],
+  ['dateReceived', 'Date Received'],
+  ['dateDue', 'Date Due'],
+  ['needByDate', 'Need By Date'],
+  ['mcdDate', 'MCD Date'],
+  ['releaseDate', 'Release Date'],
+  ['rmSupplier', 'RM Supplier'],
+  ['temperatureOnReceiptC', 'Temperature on Receipt'],
+  ['storageConditions', 'Storage Conditions'],
+  ['comments', 'Comments'],
+];
+
+const COLUMNS: [string, string][] = [
+  ['section', 'Section'],
+  ['test', 'Test'],
+  ['method', 'Method'],
+  ['specification', 'Specification'],
+  ['result', 'Result'],
+  ['unit', 'Unit'],
+  ['testDate', 'Test Date'],
+  ['analyst', 'Analyst'],
+  ['checkedBy', 'Checked By'],
+  ['checkedDate', 'Checked Date'],
+  ['oos', 'OOS'],
+  ['comments', 'Comments'],
+];
+
+interface OrderedItem {
+  key: string;
+  label: string;
+  included: boolean;
+}
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  sections: OrderedItem[];
+  columns: OrderedItem[];
+  hiddenFields: string[];
+}
+
+/**
+ * Put the items in the given order, those not in it last and excluded
+ */
+const toOrdered = (items: [string, string][], order?: string[], visible?: (key: string) => boolean) => {
+  const byKey = new Map(items);
+  const ordered = order?.filter((key) => byKey.has(key)) ?? items.map(([key]) => key);
+  const rest = items.map(([key]) => key).filter((key) => !ordered.includes(key));
+  return [
+    ...ordered.map((key) => ({ key, label: byKey.get(key)!, included: visible?.(key) ?? true })),
+    ...rest.map((key) => ({ key, label: byKey.get(key)!, included: !order && (visible?.(key) ?? true) })),
+  ];
+};
+
+const formFromLayout = (template?: COATemplate): TemplateForm => {
+  const layout = template?.versions[0]?.layout ?? {};
+  const visible = (key: string) =>
+    !layout.visibleFields?.length || layout.visibleFields.includes(key);
+  return {
+    name: template?.name ?? '',
+    description: template?.description ?? '',
+    sections: toOrdered(SECTIONS, layout.sectionOrder),
+    columns: toOrdered(COLUMNS, layout.columnOrder, visible),
+    hiddenFields: SAMPLE_FIELDS.map(([key]) => key).filter((key) => !visible(key)),
+  };
+};
+
+const layoutFromForm = (form: TemplateForm): COATemplateLayout => {
+  const visibleFields = [
+    ...SAMPLE_FIELDS.map(([key]) => key).filter((key) => !form.hiddenFields.includes(key)),
+    ...form.columns.filter((column) => column.included).map((column) => column.key),
+  ];
+  const everythingVisible =
+    form.hiddenFields.length === 0 && form.columns.every((column) => column.included);
+  return {
+    sectionOrder: form.sections.filter((section) => section.included).map((section) => section.key),
+    columnOrder: form.columns.map((column) => column.key),
+    // Sample fields and columns share the list; both are visible when it is empty
+    visibleFields: everythingVisible ? undefined : [...new Set(visibleFields)],
+  };
+};
+
+function OrderedList({
+  items,
+  onChange,
+}: {
+  items: OrderedItem[];
+  onChange: (items: OrderedItem[]) => void;
+}) {
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+      {items.map((item, index) => (
+        <li key={item.key} className="flex items-center justify-between px-3 py-2">
+          <Checkbox
+            label={item.label}
+            checked={item.included}
+            onChange={() =>
+              onChange(items.map((other, i) => (i === index ? { ...other, included: !other.included } : other)))
+            }
+          />
+          <div className="space-x-1">
+            <Button type="button" size="sm" variant="ghost" disabled={index === 0} onClick={() => move(index, -1)}>
+              ↑
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={index === items.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              ↓
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * COA templates: named layouts assigned to clients, with a per-job override.
+ * Saving a changed layout adds a version; issued COAs keep the version they
+ * were rendered with.
+ */
+export default function COATemplatesPage() {
+  const [templates, setTemplates] = useState<COATemplate[]>([]);
+  const [selected, setSelected] = useState<COATemplate | null>(null);
+  const [form, setForm] = useState<TemplateForm>(formFromLayout());
+  const [clients, setClients] = useState<Client[]>([]);
+  const [assignClientId, setAssignClientId] = useState('');
+  const [jobNumber, setJobNumber] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadTemplates = () =>
+    apiClient
+      .get<COATemplate[]>('/coa-templates')
+      .then(setTemplates)
+      .catch((err) => setError(err.message));
+
+  useEffect(() => {
+    loadTemplates();
+    apiClient
+      .get<PaginatedResponse<Client>>('/clients?perPage=500')
+      .then((response) => setClients(response.data))
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const selectTemplate = async (id: string | null) => {
+    setError('');
+    setMessage('');
+    if (!id) {
+      setSelected(null);
+      setForm(formFromLayout());
+      return;
+    }
+    try {
+      const template = await apiClient.get<COATemplate>(`/coa-templates/${id}`);
+      setSelected(template);
+      setForm(formFromLayout(template));
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setIsSaving(true);
+
+    try {
+      const body = {
+        name: form.name,
+        description: form.description || undefined,
+        layout: layoutFromForm(form),
+      };
+      const saved = selected
+        ? await apiClient.put<COATemplate>(`/coa-templates/${selected.id}`, body)
+        : await apiClient.post<COATemplate>('/coa-templates', body);
+      await loadTemplates();
+      await selectTemplate(saved.id);
+      setMessage(`Saved as version ${saved.currentVersion}`);
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const assignClient = async (clientId: string, coaTemplateId: string | null) => {
+    if (!selected) return;
+    setError('');
+    try {
+      await apiClient.put(`/clients/${clientId}`, { coaTemplateId });
+      setAssignClientId('');
+      await loadTemplates();
+      await selectTemplate(selected.id);
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const overrideJob = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setError('');
+    setMessage('');
+    try {
+      const job = await apiClient.get<Job>(`/jobs/by-number/${encodeURIComponent(jobNumber.trim())}`);
+      await apiClient.put(`/jobs/${job.id}`, { coaTemplateId: selected.id });
+      setMessage(`${job.jobNumber} now uses ${selected.name}`);
+      setJobNumber('');
+      await loadTemplates();
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const toggleField = (key: string) =>
+    setForm({
+      ...form,
+      hiddenFields: form.hiddenFields.includes(key)
+        ? form.hiddenFields.filter((field) => field !== key)
+        : [...form.hiddenFields, key],
+    });
+
+  const assignedClientIds = new Set(selected?.clients?.map((client) => client.id));
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">COA Templates</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              Certificate layouts per client. A job can override its client&apos;s template; COAs
+              without one use the lab settings.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/reports">
+              <Button variant="secondary">Back to Reports</Button>
+            </Link>
+            <Button onClick={() => selectTemplate(null)}>New Template</Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        <Card>
+          {templates.length === 0 ? (
+            <p className="text-sm text-gray-500">No templates yet.</p>
+          ) : (
+            <Table headers={['Name', 'Version', 'Clients', 'Job Overrides', '']}>
+              {templates.map((template) => (
+                <tr key={template.id} className={template.id === selected?.id ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                  <td className="px-6 py-4 whitespace-nowrap font-medium text-gray-900">
+                    {template.name}
+                    {template.description && (
+                      <span className="block text-xs text-gray-500">{template.description}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge variant="info">v{template.currentVersion}</Badge>
+                    {template.versions[0]?.source && (
+                      <Badge variant="default" className="ml-2">
+                        HTML
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{template._count?.clients ?? 0}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{template._count?.jobs ?? 0}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => selectTemplate(template.id)}
+                      className="text-blue-600 hover:text-blue-900 mr-4"
+                    >
+                      Edit
+                    </button>
+                    <Link href={`/reports/templates/${template.id}/html`} className="text-blue-600 hover:text-blue-900">
+                      Edit HTML
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Card>
+
+        <form onSubmit={handleSave}>
+          <Card
+            title={selected ? `Edit ${selected.name} (v${selected.currentVersion})` : 'New Template'}
+            actions={
+              <Button type="submit" disabled={isSaving || !form.name.trim()}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            }
+          >
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Name"
+                  required
+                  placeholder="e.g. Pharma, Food, Short form"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+                <TextArea
+                  label="Description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">Sections</h4>
+                  <OrderedList
+                    items={form.sections}
+                    onChange={(sections) => setForm({ ...form, sections })}
+                  />
+                </div>
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">Sample information</h4>
+                  <div className="space-y-2">
+                    {SAMPLE_FIELDS.map(([key, label]) => (
+                      <Checkbox
+                        key={key}
+                        label={label}
+                        checked={!form.hiddenFields.includes(key)}
+                        onChange={() => toggleField(key)}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 mb-2">Result columns</h4>
+                  <OrderedList
+                    items={form.columns}
+                    onChange={(columns) => setForm({ ...form, columns })}
+                  />
+                </div>
+              </div>
+            </div>
+          </Card>
+        </form>
+
+        {selected && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card title="Clients">
+              <div className="space-y-4">
+                {(selected.clients ?? []).length === 0 ? (
+                  <p className="text-sm text-gray-500">Not assigned to any client.</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {selected.clients?.map((client) => (
+                      <li key={client.id} className="flex justify-between">
+                        {client.name}
+                        <button
+                          onClick={() => assignClient(client.id, null)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-2 items-end">
+                  <div className="flex-1">
+                    <Select
+                      label="Assign to client"
+                      value={assignClientId}
+                      onChange={(e) => setAssignClientId(e.target.value)}
+                      options={[
+                        { value: '', label: 'Select a client' },
+                        ...clients
+                          .filter((client) => !assignedClientIds.has(client.id))
+                          .map((client) => ({ value: client.id, label: client.name })),
+                      ]}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    disabled={!assignClientId}
+                    onClick={() => assignClient(assignClientId, selected.id)}
+                  >
+                    Assign
+                  </Button>
+                </div>
+              </div>
+            </Card>
+
+            <Card title="Job Override">
+              <form onSubmit={overrideJob} className="flex gap-2 items-end">
+                <div className="flex-1">
+                  <Input
+                    label="Job number"
+                    value={jobNumber}
+                    onChange={(e) => setJobNumber(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" disabled={!jobNumber.trim()}>
+                  Use for Job
+                </Button>
+              </form>
+            </Card>
+
+            <Card title="Versions">
+              <Table headers={['Version', 'Saved', 'By']}>
+                {selected.versions.map((version) => (
+                  <tr key={version.id}>
+                    <td className="px-6 py-4 text-sm text-gray-900">v{version.version}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {version.createdBy?.name || version.createdBy?.email}
+                    </td>
+                  </tr>
+                ))}
+              </Table>
+            </Card>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import { saveBlob } from '@/lib/download';
 
 interface COAVersion {
   id: string;
@@ -12,6 +14,7 @@ interface COAVersion {
   approver?: { name?: string; email: string };
   approvalDate?: string;
   pdfKey?: string;
+  approvalPdfKey?: string; // Signed approval manifest, issued separately from the COA
   notes?: string;
   createdAt: string;
 }
@@ -148,6 +151,15 @@ export default function COAPage() {
     }
   };
 
+  const handleDownloadApproval = async (version: COAVersion) => {
+    try {
+      const blob = await apiClient.getBlob(`/coa/${version.id}/approval/download`);
+      saveBlob(blob, `COA-${sampleId}-v${version.version}-approval.pdf`);
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -203,9 +215,13 @@ export default function COAPage() {
               Close
             </button>
           </div>
-          <div className="border border-gray-300 rounded-md overflow-auto max-h-96">
-            <div dangerouslySetInnerHTML={{ __html: previewHtml }} />
-          </div>
+          {/* Empty sandbox: no script, forms or navigation in the preview */}
+          <iframe
+            sandbox=""
+            title="COA preview"
+            srcDoc={previewHtml}
+            className="w-full h-96 border border-gray-300 rounded-md bg-white"
+          />
         </div>
       )}
 
@@ -279,6 +295,14 @@ export default function COAPage() {
                     >
                       Export PDF
                     </button>
+                    {version.approvalPdfKey && (
+                      <button
+                        onClick={() => handleDownloadApproval(version)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Approval PDF
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))
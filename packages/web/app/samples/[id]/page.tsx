@@ -4,6 +4,7 @@ import { AppLayout } from '@/components/layout/app-layout';
 import { Card, Badge, Table } from '@/components/ui/display';
 import { Button } from '@/components/ui/button';
 import { Input, TextArea, Checkbox } from '@/components/ui/form';
+import RecordTimeSlider from '@/components/RecordTimeSlider';
 import Link from 'next/link';
 import { useState } from 'react';
 
@@ -69,8 +70,66 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
       specification: '< 2 ppm',
       oos: false,
     },
+    {
+      id: '3',
+      testName: 'Assay',
+      section: 'Chemistry',
+      analyst: 'Sarah Miller',
+      status: 'COMPLETED',
+      result: '94.2 %',
+      specification: '95.0 - 105.0 %',
+      oos: true,
+      attempt: 1,
+      reportable: false,
+      retestOfId: null,
+      retestReason: null,
+    },
+    {
+      id: '4',
+      testName: 'Assay',
+      section: 'Chemistry',
+      analyst: 'John Brown',
+      status: 'IN_PROGRESS',
+      result: '',
+      specification: '95.0 - 105.0 %',
+      oos: false,
+      attempt: 2,
+      reportable: true,
+      retestOfId: '3',
+      retestReason: 'OOS_INVESTIGATION',
+    },
   ];
 
+  // Retest chains: every attempt of a test that has been retested, original first
+  const retestChains = tests
+    .filter((test) => test.attempt === 1 && tests.some((t) => t.retestOfId === test.id))
+    .map((original) => {
+      const chain = [original];
+      let next = tests.find((t) => t.retestOfId === original.id);
+      while (next) {
+        chain.push(next);
+        const previousId = next.id;
+        next = tests.find((t) => t.retestOfId === previousId);
+      }
+      return chain;
+    });
+
+  const oosInvestigations = [
+    {
+      id: '1',
+      testName: 'Assay',
+      result: '94.2 %',
+      status: 'PHASE_II',
+      phaseIFindings: 'No assignable laboratory error: standards, calculations and instrument checks in order',
+      labErrorFound: false,
+      rootCause: null,
+      capaReference: null,
+      conclusion: null,
+      openedAt: '2024-11-09T09:15:00Z',
+    },
+  ];
+  const hasOpenInvestigation = oosInvestigations.some((investigation) => investigation.status !== 'CLOSED');
+
   const coaVersions = [
     {
       id: '1',
@@ -79,6 +138,7 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
       createdBy: 'Sarah Miller',
       approvedBy: 'Lab Manager',
       createdAt: '2024-11-10T10:00:00Z',
+      amendmentReason: 'Batch number corrected at client request',
     },
     {
       id: '2',
@@ -87,6 +147,7 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
       createdBy: 'John Brown',
       approvedBy: null,
       createdAt: '2024-11-08T14:30:00Z',
+      amendmentReason: null,
     },
   ];
 
@@ -99,6 +160,7 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
               <h1 className="text-3xl font-bold text-gray-900">{sample.sampleCode}</h1>
               {sample.urgent && <Badge variant="danger">Urgent</Badge>}
               {sample.released && <Badge variant="success">Released</Badge>}
+              {hasOpenInvestigation && <Badge variant="warning">OOS Investigation Open</Badge>}
             </div>
             <p className="mt-2 text-sm text-gray-600">
               Job: <Link href={`/jobs/${sample.jobId}`} className="text-blue-600">{sample.jobNumber}</Link> • 
@@ -147,7 +209,7 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
               <Checkbox label="Urgent" checked={sample.urgent} disabled={!isEditing} />
               <Checkbox label="All Micro Tests Assigned" checked={sample.allMicroTestsAssigned} disabled={!isEditing} />
               <Checkbox label="All Chemistry Tests Assigned" checked={sample.allChemistryTestsAssigned} disabled={!isEditing} />
-              <Checkbox label="Released" checked={sample.released} disabled={!isEditing} />
+              <Checkbox label="Released" checked={sample.released} disabled />
               <Checkbox label="Retest" checked={sample.retest} disabled={!isEditing} />
               {sample.releaseDate && (
                 <Input type="date" label="Release Date" value={sample.releaseDate} disabled />
@@ -185,8 +247,13 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
             <Button variant="secondary" size="sm">Past Deliveries</Button>
             <Button variant="secondary" size="sm">Generate Re-Test</Button>
             <Button variant="secondary" size="sm">Preview COA</Button>
-            <Button variant="primary" size="sm">Export COA</Button>
+            <Button variant="primary" size="sm" disabled={hasOpenInvestigation}>Export COA</Button>
           </div>
+          {hasOpenInvestigation && (
+            <p className="mt-3 text-sm text-yellow-700">
+              Release and COA finalization are blocked until every OOS investigation on this sample is closed.
+            </p>
+          )}
         </Card>
 
         {/* Tests Grid */}
@@ -201,7 +268,15 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
           <Table headers={['Test Name', 'Section', 'Analyst', 'Status', 'Result', 'Specification', 'OOS', 'Actions']}>
             {tests.map((test) => (
               <tr key={test.id} className="hover:bg-gray-50">
-                <td className="px-6 py-4 text-sm font-medium text-gray-900">{test.testName}</td>
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                  {test.testName}
+                  {test.attempt && test.attempt > 1 && (
+                    <span className="ml-2 text-xs text-gray-500">Retest #{test.attempt - 1}</span>
+                  )}
+                  {test.reportable === false && (
+                    <span className="ml-2 text-xs text-gray-500">(not reported)</span>
+                  )}
+                </td>
                 <td className="px-6 py-4 text-sm text-gray-900">{test.section}</td>
                 <td className="px-6 py-4 text-sm text-gray-900">{test.analyst}</td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -220,6 +295,57 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
           </Table>
         </Card>
 
+        {/* Retest Chains */}
+        {retestChains.length > 0 && (
+          <Card title="Retest History">
+            <div className="space-y-4">
+              {retestChains.map((chain) => (
+                <div key={chain[0].id}>
+                  <p className="text-sm font-medium text-gray-900 mb-2">{chain[0].testName}</p>
+                  <ol className="space-y-1">
+                    {chain.map((attempt) => (
+                      <li key={attempt.id} className="flex items-center gap-3 text-sm">
+                        <span className="w-20 text-gray-500">Attempt {attempt.attempt}</span>
+                        <span className="w-24 text-gray-900">{attempt.result || '-'}</span>
+                        <span className="w-40 text-gray-600">
+                          {attempt.retestReason ? attempt.retestReason.replace(/_/g, ' ').toLowerCase() : 'original'}
+                        </span>
+                        <Badge variant={attempt.status === 'COMPLETED' ? 'success' : 'info'}>{attempt.status}</Badge>
+                        {attempt.oos && <Badge variant="danger">OOS</Badge>}
+                        {attempt.reportable && <Badge variant="success">Reportable</Badge>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* OOS Investigations */}
+        {oosInvestigations.length > 0 && (
+          <Card title="OOS Investigations">
+            <Table headers={['Test', 'Result', 'Stage', 'Phase I Findings', 'Root Cause', 'CAPA', 'Conclusion', 'Opened']}>
+              {oosInvestigations.map((investigation) => (
+                <tr key={investigation.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{investigation.testName}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{investigation.result}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge variant={investigation.status === 'CLOSED' ? 'default' : 'warning'}>
+                      {investigation.status === 'PHASE_I' ? 'Phase I' : investigation.status === 'PHASE_II' ? 'Phase II' : 'Closed'}
+                    </Badge>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{investigation.phaseIFindings || '-'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{investigation.rootCause || '-'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{investigation.capaReference || '-'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{investigation.conclusion || '-'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{new Date(investigation.openedAt).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </Table>
+          </Card>
+        )}
+
         {/* COA Versions */}
         <Card title="COA Versions">
           <div className="space-y-3">
@@ -237,6 +363,9 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
                     {coa.approvedBy && (
                       <p className="text-xs text-gray-500">Approved by {coa.approvedBy}</p>
                     )}
+                    {coa.amendmentReason && (
+                      <p className="text-xs text-gray-500">Amended: {coa.amendmentReason}</p>
+                    )}
                   </div>
                   <Button size="sm" variant="secondary">Download PDF</Button>
                 </div>
@@ -244,6 +373,9 @@ export default function SampleDetailPage({ params }: { params: { id: string } })
             ))}
           </div>
         </Card>
+
+        {/* Point-in-time history */}
+        <RecordTimeSlider table="Sample" recordId={sample.id} />
       </div>
     </AppLayout>
   );
@@ -39,9 +39,14 @@ export default function SamplesPage() {
               Manage laboratory samples and testing
             </p>
           </div>
-          <Link href="/samples/new">
-            <Button>Register New Sample</Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/samples/receive">
+              <Button variant="secondary">Receive Shipment</Button>
+            </Link>
+            <Link href="/samples/new">
+              <Button>Register New Sample</Button>
+            </Link>
+          </div>
         </div>
 
         <Card>
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { AppLayout } from '@/components/layout/app-layout';
+import { Card, Table, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/form';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import type { ReceivedSubmission, SampleSubmission } from '@/lib/types';
+
+/**
+ * Reception: scan the QR code on a chain-of-custody form to receive a
+ * pre-registered shipment. Handheld scanners type the submission number
+ * followed by Enter into the focused field.
+ */
+export default function ReceiveShipmentPage() {
+  const [scanned, setScanned] = useState('');
+  const [submission, setSubmission] = useState<SampleSubmission | null>(null);
+  const [temperature, setTemperature] = useState('');
+  const [sampleCodes, setSampleCodes] = useState<string[]>([]);
+  const [received, setReceived] = useState<ReceivedSubmission | null>(null);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setReceived(null);
+
+    try {
+      const found = await apiClient.get<SampleSubmission>(
+        `/sample-submissions/by-number/${encodeURIComponent(scanned.trim())}`
+      );
+      setSubmission(found);
+      setSampleCodes((found.items ?? []).map(() => ''));
+      setTemperature('');
+    } catch (err) {
+      setSubmission(null);
+      setError((err as ApiError).message);
+    }
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!submission) return;
+    setError('');
+    setIsReceiving(true);
+
+    try {
+      // Blank codes are numbered from the submission number by the API
+      const codes = sampleCodes.some((code) => code.trim())
+        ? (submission.items ?? []).map(
+            (item, index) =>
+              sampleCodes[index].trim() ||
+              `${submission.submissionNumber}-${String(item.position).padStart(2, '0')}`
+          )
+        : undefined;
+
+      const result = await apiClient.post<ReceivedSubmission>('/samples/receive', {
+        submissionNumber: submission.submissionNumber,
+        temperatureOnReceiptC: parseFloat(temperature),
+        sampleCodes: codes,
+      });
+      setReceived(result);
+      setSubmission(null);
+      setScanned('');
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Receive Shipment</h1>
+          <p className="mt-2 text-sm text-gray-600">
+            Scan the QR code on the chain-of-custody form
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <Card>
+          <form onSubmit={handleScan} className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Input
+                label="Submission number"
+                autoFocus
+                placeholder="SUB-..."
+                value={scanned}
+                onChange={(e) => setScanned(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={!scanned.trim()}>
+              Look Up
+            </Button>
+          </form>
+        </Card>
+
+        {submission && (
+          <Card
+            title={`${submission.submissionNumber} · ${submission.client.name}`}
+            actions={
+              submission.status === 'RECEIVED' ? (
+                <Badge variant="success">Already Received</Badge>
+              ) : (
+                <Badge variant="warning">Awaiting Receipt</Badge>
+              )
+            }
+          >
+            <form onSubmit={handleReceive} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Job {submission.job.jobNumber}
+                {submission.notes && ` · ${submission.notes}`}
+              </p>
+              <Table headers={['#', 'Description', 'Batch', 'Storage', 'Sample Code']}>
+                {(submission.items ?? []).map((item, index) => (
+                  <tr key={item.id}>
+                    <td className="px-6 py-4 text-sm text-gray-500">{item.position}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{item.sampleDescription}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{item.sampleBatch || '-'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {item.storageConditions || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {item.sample ? (
+                        item.sample.sampleCode
+                      ) : (
+                        <Input
+                          placeholder={`${submission.submissionNumber}-${String(item.position).padStart(2, '0')}`}
+                          value={sampleCodes[index] ?? ''}
+                          onChange={(e) =>
+                            setSampleCodes(
+                              sampleCodes.map((code, i) => (i === index ? e.target.value : code))
+                            )
+                          }
+                        />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </Table>
+              {submission.status === 'SUBMITTED' && (
+                <div className="flex gap-2 items-end">
+                  <div className="w-64">
+                    <Input
+                      label="Temperature on receipt (°C)"
+                      type="number"
+                      step="0.1"
+                      required
+                      value={temperature}
+                      onChange={(e) => setTemperature(e.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" disabled={isReceiving || temperature === ''}>
+                    {isReceiving ? 'Receiving...' : 'Receive Samples'}
+                  </Button>
+                </div>
+              )}
+            </form>
+          </Card>
+        )}
+
+        {received && (
+          <Card title={`Received ${received.submissionNumber}`}>
+            <ul className="text-sm space-y-1">
+              {received.samples.map((sample) => (
+                <li key={sample.id}>
+                  <Link href={`/samples/${sample.id}`} className="text-blue-600 hover:text-blue-800">
+                    {sample.sampleCode}
+                  </Link>{' '}
+                  <span className="text-gray-500">{sample.sampleDescription}</span>
+                </li>
+              ))}
+            </ul>
+            {received.missingTestPacks.length > 0 && (
+              <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+                <p className="text-sm text-yellow-800">
+                  Some requested test packs have been deleted; assign their tests by hand:
+                </p>
+                <ul className="mt-1 text-sm text-yellow-800 list-disc list-inside">
+                  {received.missingTestPacks.map((missing) => (
+                    <li key={missing.sampleCode}>
+                      {missing.sampleCode}: {missing.testPackIds.length} test pack(s)
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
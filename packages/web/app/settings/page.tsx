@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { AppLayout } from '@/components/layout/app-layout';
 import { Card } from '@/components/ui/display';
 import { Button } from '@/components/ui/button';
@@ -91,6 +92,21 @@ export default function SettingsPage() {
             </div>
           </Card>
 
+          {/* COA Templates */}
+          <Card title="COA Templates">
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Certificate layouts per client, and HTML templates with placeholders for sample
+                data, test loops and status conditions, previewed against a real sample
+              </p>
+              <Link href="/reports/templates">
+                <Button variant="secondary" className="w-full">
+                  Manage COA Templates
+                </Button>
+              </Link>
+            </div>
+          </Card>
+
           {/* Notifications */}
           <Card title="Notification Settings">
             <div className="space-y-3">
@@ -0,0 +1,147 @@
+'use client';
+
+import { AppLayout } from '@/components/layout/app-layout';
+import { Card, Badge, Table } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/form';
+import Link from 'next/link';
+import { useState } from 'react';
+
+// Same evaluator as the API, so the preview matches the stored result
+import { calculateFormula, FormulaError } from '@lims/shared';
+
+export default function TestDetailPage({ params }: { params: { id: string } }) {
+  // Mock test assignment data
+  const test = {
+    id: params.id,
+    sampleId: '1',
+    sampleCode: 'SAMPLE-001',
+    testName: 'Heavy Metals - Lead',
+    section: 'Chemistry',
+    method: 'ICP-MS-01',
+    analyst: 'Sarah Miller',
+    status: 'COMPLETED',
+    specification: 'NMT 2 ppm',
+    result: '1.96223859788887',
+    reportedResult: '1.96',
+    resultUnit: 'ppm',
+    oos: false,
+    testDefinition: {
+      formula: '(reading - blank) * dilution / mass',
+      formulaVersion: 2,
+      inputFields: [
+        { name: 'reading', label: 'Instrument reading', unit: 'µg/L' },
+        { name: 'blank', label: 'Blank reading', unit: 'µg/L' },
+        { name: 'dilution', label: 'Dilution factor' },
+        { name: 'mass', label: 'Sample mass', unit: 'g' },
+      ],
+    },
+    rawInputs: { reading: 4.931, blank: 0.0048, dilution: 200, mass: 502.1 } as Record<string, number>,
+    formulaVersion: 2,
+    calculation:
+      '(reading - blank) * dilution / mass = (4.931 - 0.0048) * 200 / 502.1 = 1.96223859788887',
+  };
+
+  const [inputs, setInputs] = useState<Record<string, string>>(
+    Object.fromEntries(
+      Object.entries(test.rawInputs).map(([name, value]) => [name, String(value)]),
+    ),
+  );
+
+  const preview = (() => {
+    const values: Record<string, number> = {};
+    for (const field of test.testDefinition.inputFields) {
+      const value = parseFloat(inputs[field.name] ?? '');
+      if (Number.isNaN(value)) return null;
+      values[field.name] = value;
+    }
+    try {
+      return calculateFormula(test.testDefinition.formula, values).working;
+    } catch (error) {
+      if (error instanceof FormulaError) return error.message;
+      throw error;
+    }
+  })();
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-gray-900">{test.testName}</h1>
+              <Badge variant={test.status === 'COMPLETED' ? 'success' : 'info'}>{test.status}</Badge>
+              {test.oos && <Badge variant="danger">OOS</Badge>}
+            </div>
+            <p className="mt-2 text-sm text-gray-600">
+              Sample: <Link href={`/samples/${test.sampleId}`} className="text-blue-600">{test.sampleCode}</Link> •
+              Section: {test.section} • Method: {test.method}
+            </p>
+          </div>
+          <Link href="/tests">
+            <Button variant="secondary">Back to Tests</Button>
+          </Link>
+        </div>
+
+        {/* Result */}
+        <Card title="Result">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Input label="Reported Result" value={`${test.reportedResult} ${test.resultUnit}`} disabled />
+            <Input label="Raw Result" value={test.result} disabled />
+            <Input label="Specification" value={test.specification} disabled />
+            <Input label="Analyst" value={test.analyst} disabled />
+          </div>
+        </Card>
+
+        {/* Calculation */}
+        {test.testDefinition.formula && (
+          <Card title={`Calculation (formula v${test.formulaVersion})`}>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-700">
+                Formula: <code className="px-1 bg-gray-100 rounded">{test.testDefinition.formula}</code>
+                {test.formulaVersion !== test.testDefinition.formulaVersion && (
+                  <span className="ml-2 text-xs text-yellow-700">
+                    (current definition is v{test.testDefinition.formulaVersion})
+                  </span>
+                )}
+              </p>
+
+              <Table headers={['Input', 'Description', 'Value', 'Unit']}>
+                {test.testDefinition.inputFields.map((field) => (
+                  <tr key={field.name}>
+                    <td className="px-6 py-4 text-sm font-mono text-gray-900">{field.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{field.label || '-'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <input
+                        type="number"
+                        value={inputs[field.name] ?? ''}
+                        onChange={(e) => setInputs(prev => ({ ...prev, [field.name]: e.target.value }))}
+                        className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">{field.unit || '-'}</td>
+                  </tr>
+                ))}
+              </Table>
+
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase">Working (as recorded)</p>
+                <p className="mt-1 text-sm font-mono text-gray-900">{test.calculation}</p>
+              </div>
+              {preview && preview !== test.calculation && (
+                <div>
+                  <p className="text-xs font-medium text-gray-500 uppercase">Working (with edited inputs)</p>
+                  <p className="mt-1 text-sm font-mono text-blue-700">{preview}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button size="sm">Enter Result</Button>
+              </div>
+            </div>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Card, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import type { COAVerificationResult, VerifiedCOA } from '@/lib/types';
+
+/**
+ * Public COA verification, opened from the QR code on a COA. Shows the
+ * certificate as issued and checks an uploaded copy against its signed PDF.
+ * No login needed.
+ */
+export default function VerifyCOAPage() {
+  const params = useParams();
+  const reportId = params.id as string;
+
+  const [report, setReport] = useState<VerifiedCOA | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<COAVerificationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient
+      .get<VerifiedCOA>(`/coa-reports/verify/${reportId}`)
+      .then(setReport)
+      .catch((err) => setError((err as ApiError).message))
+      .finally(() => setIsLoading(false));
+  }, [reportId]);
+
+  const checkFile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setError('');
+    setResult(null);
+    setIsChecking(true);
+
+    try {
+      const form = new FormData();
+      form.append('reportId', reportId);
+      form.append('file', file);
+      setResult(await apiClient.postForm<COAVerificationResult>('/coa-reports/verify', form));
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-extrabold text-gray-900">Certificate of Analysis Verification</h1>
+          <p className="mt-2 text-sm text-gray-600">{report?.labName ?? 'Laboratory LIMS Pro'}</p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-center text-sm text-gray-500">Loading...</p>
+        ) : (
+          report && (
+            <>
+              <Card title={`${report.sampleCode} - Version ${report.version}`}>
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-gray-500">Status</dt>
+                    <dd className="mt-1">
+                      {report.status === 'FINAL' ? (
+                        <Badge variant="success">Current</Badge>
+                      ) : (
+                        <Badge variant="warning">
+                          {report.supersededByVersion
+                            ? `Superseded by version ${report.supersededByVersion}`
+                            : 'Superseded'}
+                        </Badge>
+                      )}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Issued</dt>
+                    <dd className="mt-1 text-gray-900">
+                      {report.issuedAt ? new Date(report.issuedAt).toLocaleString() : 'N/A'}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Approved</dt>
+                    <dd className="mt-1 text-gray-900">{report.approved ? 'Yes' : 'No'}</dd>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <dt className="text-gray-500">SHA-256 of the issued PDF</dt>
+                    <dd className="mt-1 font-mono text-xs text-gray-900 break-all">{report.pdfSha256 ?? 'N/A'}</dd>
+                  </div>
+                </dl>
+              </Card>
+
+              <Card title="Check Your Copy">
+                <form onSubmit={checkFile} className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Upload the PDF you received to confirm it is this certificate, unchanged.
+                  </p>
+                  <input
+                    type="file"
+                    accept="application/pdf"
+                    onChange={(e) => {
+                      setFile(e.target.files?.[0] ?? null);
+                      setResult(null);
+                    }}
+                    className="block w-full text-sm text-gray-700"
+                  />
+                  <Button type="submit" disabled={!file || isChecking}>
+                    {isChecking ? 'Checking...' : 'Verify PDF'}
+                  </Button>
+                </form>
+
+                {result && (
+                  <div
+                    className={`mt-4 p-4 rounded-md border ${
+                      result.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+                    }`}
+                  >
+                    <p className={`text-sm font-medium ${result.valid ? 'text-green-800' : 'text-red-800'}`}>
+                      {result.valid ? 'Verified' : 'Not verified'}
+                    </p>
+                    <p className={`text-sm ${result.valid ? 'text-green-700' : 'text-red-700'}`}>{result.message}</p>
+                  </div>
+                )}
+              </Card>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,15 +10,17 @@ interface AuditDiffProps {
   changes: AuditChange[];
   tableName?: string;
   action?: 'CREATE' | 'UPDATE' | 'DELETE';
+  reason?: string | null;
 }
 
 /**
  * AuditDiff Component
  * 
  * Renders audit log changes in a clean, readable format
- * Shows {old, new} value pairs with visual indicators
+ * Shows {old, new} value pairs with visual indicators,
+ * and the reason for change when one was recorded
  */
-export default function AuditDiff({ changes, tableName, action }: AuditDiffProps) {
+export default function AuditDiff({ changes, tableName, action, reason }: AuditDiffProps) {
   const formatValue = (value: any): string => {
     if (value === null || value === undefined) {
       return 'N/A';
@@ -74,6 +76,12 @@ export default function AuditDiff({ changes, tableName, action }: AuditDiffProps
         </div>
       )}
 
+      {reason && (
+        <div className="text-sm text-gray-700 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+          <span className="font-medium">Reason for change:</span> {reason}
+        </div>
+      )}
+
       <div className="border border-gray-200 rounded-lg overflow-hidden">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
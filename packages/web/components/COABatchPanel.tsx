@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, Table, Badge } from '@/components/ui/display';
+import { Button } from '@/components/ui/button';
+import { apiClient, type ApiError } from '@/lib/api-client';
+import { saveBlob } from '@/lib/download';
+import type { COABatch, COABatchResult } from '@/lib/types';
+
+interface COABatchPanelProps {
+  jobId: string;
+  jobNumber: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const OUTCOMES: Record<
+  COABatchResult['outcome'],
+  { label: string; variant: 'default' | 'success' | 'warning' | 'danger' | 'info' }
+> = {
+  GENERATED: { label: 'Issued', variant: 'success' },
+  FINALIZED: { label: 'Draft finalized', variant: 'success' },
+  EXISTING: { label: 'Already issued', variant: 'info' },
+  SKIPPED: { label: 'Skipped', variant: 'default' },
+  FAILED: { label: 'Failed', variant: 'danger' },
+};
+
+/**
+ * COABatchPanel Component
+ *
+ * Generates the COAs of every sample in a job in the background, shows its
+ * progress and downloads the ZIP of PDFs with the cover summary.
+ */
+export default function COABatchPanel({ jobId, jobNumber }: COABatchPanelProps) {
+  const [batch, setBatch] = useState<COABatch | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient
+      .get<COABatch[]>(`/jobs/${jobId}/coa-batches`)
+      .then((batches) => setBatch(batches[0] ?? null))
+      .catch((err) => setError((err as ApiError).message));
+  }, [jobId]);
+
+  // Poll while the batch runs
+  useEffect(() => {
+    if (batch?.status !== 'RUNNING') return;
+    const timer = setTimeout(() => {
+      apiClient
+        .get<COABatch>(`/coa-batches/${batch.id}`)
+        .then(setBatch)
+        .catch((err) => setError((err as ApiError).message));
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batch]);
+
+  const startBatch = async () => {
+    setError('');
+    setIsStarting(true);
+    try {
+      setBatch(await apiClient.post<COABatch>(`/jobs/${jobId}/coa-batches`));
+    } catch (err) {
+      setError((err as ApiError).message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const downloadZip = async () => {
+    if (!batch) return;
+    try {
+      const blob = await apiClient.getBlob(`/coa-batches/${batch.id}/download`);
+      saveBlob(blob, `COAs-${jobNumber}.zip`);
+    } catch (err) {
+      setError((err as ApiError).message);
+    }
+  };
+
+  const isRunning = batch?.status === 'RUNNING';
+  const percent = batch && batch.total > 0 ? Math.round((batch.processed / batch.total) * 100) : 0;
+
+  return (
+    <Card
+      title="Certificates of Analysis"
+      actions={
+        <div className="flex gap-2">
+          {batch?.status === 'COMPLETED' && (
+            <Button variant="secondary" size="sm" onClick={downloadZip}>
+              Download ZIP
+            </Button>
+          )}
+          <Button size="sm" onClick={startBatch} disabled={isRunning || isStarting}>
+            {isRunning ? 'Generating...' : 'Generate All COAs'}
+          </Button>
+        </div>
+      }
+    >
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+      {!batch ? (
+        <p className="text-sm text-gray-500">
+          Issue the COA of every released sample and finalize drafts, then download them as one ZIP.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>
+                {batch.processed} of {batch.total} sample(s) processed
+              </span>
+              {batch.status === 'COMPLETED' && <Badge variant="success">Completed</Badge>}
+              {batch.status === 'FAILED' && <Badge variant="danger">Failed</Badge>}
+              {isRunning && <Badge variant="info">Running</Badge>}
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full">
+              <div className="h-2 bg-blue-600 rounded-full" style={{ width: `${percent}%` }} />
+            </div>
+            {batch.error && <p className="mt-2 text-sm text-red-600">{batch.error}</p>}
+          </div>
+
+          {batch.results.length > 0 && (
+            <Table headers={['Sample', 'Outcome', 'Version', 'Notes']}>
+              {batch.results.map((result) => (
+                <tr key={result.sampleId}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {result.sampleCode}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge variant={OUTCOMES[result.outcome].variant}>{OUTCOMES[result.outcome].label}</Badge>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {result.version ? `v${result.version}` : '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{result.message ?? ''}</td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
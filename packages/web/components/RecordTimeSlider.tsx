@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, Badge } from '@/components/ui/display';
+import { apiClient } from '@/lib/api-client';
+import type { ReconstructedRecord, RecordHistoryEntry } from '@/lib/types';
+
+interface RecordTimeSliderProps {
+  table: string;
+  recordId: string;
+}
+
+/**
+ * RecordTimeSlider Component
+ *
+ * Steps through the audit history of a record and shows what it looked
+ * like after each entry, as rebuilt by the audit log reconstruction API.
+ * Lets QA see exactly what a reviewer saw when they signed.
+ */
+export default function RecordTimeSlider({ table, recordId }: RecordTimeSliderProps) {
+  const [history, setHistory] = useState<RecordHistoryEntry[]>([]);
+  const [position, setPosition] = useState(0);
+  const [snapshot, setSnapshot] = useState<ReconstructedRecord | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    apiClient
+      .get<RecordHistoryEntry[]>(`/audit/records/${table}/${recordId}/history`)
+      .then((entries) => {
+        setHistory(entries);
+        setPosition(entries.length - 1);
+      })
+      .catch((err) => setError(err.message));
+  }, [table, recordId]);
+
+  const selected = history[position];
+
+  useEffect(() => {
+    if (!selected) return;
+    apiClient
+      .get<ReconstructedRecord>(
+        `/audit/records/${table}/${recordId}?at=${encodeURIComponent(selected.at)}`
+      )
+      .then(setSnapshot)
+      .catch((err) => setError(err.message));
+  }, [table, recordId, selected]);
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '-';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  return (
+    <Card title="History">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {history.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No audit entries recorded.</p>
+      )}
+
+      {selected && (
+        <div className="space-y-4">
+          <div>
+            <input
+              type="range"
+              min={0}
+              max={history.length - 1}
+              value={position}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              className="w-full"
+              aria-label="Point in time"
+            />
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>{new Date(history[0].at).toLocaleString()}</span>
+              <span>{new Date(history[history.length - 1].at).toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant={selected.action === 'DELETE' ? 'danger' : 'info'}>{selected.action}</Badge>
+            <span className="text-gray-900">{selected.table}</span>
+            <span className="text-gray-500">
+              {new Date(selected.at).toLocaleString()} by {selected.actorEmail}
+            </span>
+          </div>
+          {selected.reason && (
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">Reason for change:</span> {selected.reason}
+            </p>
+          )}
+
+          {snapshot?.state && (
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              {Object.entries(snapshot.state).map(([field, value]) => (
+                <div key={field} className="flex justify-between border-b border-gray-100 py-1">
+                  <dt className="text-gray-500">{field}</dt>
+                  <dd className="text-gray-900 text-right break-all">{formatValue(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          {snapshot?.testAssignments && snapshot.testAssignments.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-900 mb-2">Tests at this time</p>
+              <ul className="space-y-1 text-sm">
+                {snapshot.testAssignments.map((test) => (
+                  <li key={test.recordId} className="flex gap-3">
+                    <span className="w-32 text-gray-600">{formatValue(test.state?.status)}</span>
+                    <span className="text-gray-900">{formatValue(test.state?.result)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
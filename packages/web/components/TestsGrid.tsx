@@ -1,72 +1,60 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
 
-// Import OOS computation from shared utilities
-// Note: In a monorepo setup, you might need to configure path aliases or use relative paths
-function computeOOS(
-  result: string,
-  specification?: {
-    min?: number;
-    max?: number;
-    target?: string;
-    oosRule?: string;
-  } | null,
-): boolean {
-  if (!specification) return false;
-
-  const numericResult = parseFloat(result);
-  if (isNaN(numericResult)) {
-    if (specification.target) {
-      return (
-        result.trim().toLowerCase() !==
-        specification.target.trim().toLowerCase()
-      );
-    }
-    return false;
-  }
-
-  if (specification.min !== null && specification.min !== undefined) {
-    if (numericResult < specification.min) return true;
-  }
+// OOS computation is shared with the API so the badge matches the stored flag
+import {
+  computeOOS,
+  SpecificationRule,
+  getOOSEvaluationResult,
+  ReportingRule,
+  SpecRuleSyntaxError,
+} from '@lims/shared';
 
-  if (specification.max !== null && specification.max !== undefined) {
-    if (numericResult > specification.max) return true;
-  }
-
-  if (specification.oosRule) {
-    const rule = specification.oosRule.toLowerCase();
-    if (rule.includes('>=')) {
-      const threshold = parseFloat(rule.split('>=')[1]);
-      return numericResult < threshold;
-    }
-    if (rule.includes('<=')) {
-      const threshold = parseFloat(rule.split('<=')[1]);
-      return numericResult > threshold;
-    }
-    if (rule.includes('=') || rule.includes('equals')) {
-      const target = parseFloat(rule.match(/[\d.]+/)?.[0] || '0');
-      return numericResult !== target;
-    }
+/**
+ * Evaluate OOS for the live badge; an invalid spec rule leaves the
+ * stored flag untouched so the API can report the error on save
+ */
+function computeDisplayOOS(
+  result: string,
+  specification: SpecificationRule | null,
+  method?: ReportingRule,
+): boolean | undefined {
+  try {
+    return computeOOS(getOOSEvaluationResult(result, method), specification, method);
+  } catch (error) {
+    if (error instanceof SpecRuleSyntaxError) return undefined;
+    throw error;
   }
-
-  return false;
 }
 
 interface Test {
   id: string;
   testName: string;
   section: { name: string };
-  method: { code: string; name: string; unit?: string };
+  method: ReportingRule & {
+    code: string;
+    name: string;
+    unit?: string;
+    rsdLimit?: number;
+    reportableRule?: 'MEAN' | 'MEDIAN' | 'FIRST_VALID';
+  };
   specification?: {
     code: string;
     min?: number;
     max?: number;
     target?: string;
     unit?: string;
+    oosRule?: string;
   };
   result?: string;
+  reportedResult?: string;
   resultUnit?: string;
+  replicates?: { value: number; valid?: boolean; excludedReason?: string }[];
+  replicateMean?: number;
+  replicateSd?: number;
+  replicateRsd?: number;
+  rsdExceeded?: boolean;
   status: string;
   oos: boolean;
   analyst?: { name?: string };
@@ -74,10 +62,13 @@ interface Test {
   comments?: string;
 }
 
+// What the grid edits; the API computes the OOS flag when the result is entered
+type TestEdit = Partial<Pick<Test, 'result' | 'resultUnit' | 'comments'>>;
+
 interface TestsGridProps {
   sampleId: string;
   tests: Test[];
-  onUpdate?: (testId: string, updates: Partial<Test>) => void;
+  onUpdate?: (testId: string, updates: TestEdit) => void;
   readOnly?: boolean;
 }
 
@@ -86,13 +77,21 @@ interface TestsGridProps {
  * 
  * Editable grid for test assignments with:
  * - Validation of result values
- * - Auto-calculation of OOS (Out of Specification) flags
+ * - Live preview of OOS (Out of Specification) flags
  * - Inline editing capabilities
  * - Visual indicators for OOS results
+ * - Expandable rows showing replicate readings and their statistics
  */
 export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false }: TestsGridProps) {
   const [editingTestId, setEditingTestId] = useState<string | null>(null);
-  const [editValues, setEditValues] = useState<Partial<Test>>({});
+  const [editValues, setEditValues] = useState<TestEdit>({});
+  const [expandedTestIds, setExpandedTestIds] = useState<string[]>([]);
+
+  const toggleReplicates = (testId: string) => {
+    setExpandedTestIds(prev =>
+      prev.includes(testId) ? prev.filter(id => id !== testId) : [...prev, testId]
+    );
+  };
 
   const handleEdit = (test: Test) => {
     setEditingTestId(test.id);
@@ -106,13 +105,6 @@ export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false
   const handleSave = async (testId: string) => {
     if (!onUpdate) return;
 
-    // Auto-calculate OOS based on result and specification
-    const test = tests.find(t => t.id === testId);
-    if (test && editValues.result) {
-      const isOOS = computeOOS(editValues.result, test.specification || null);
-      editValues.oos = isOOS;
-    }
-
     await onUpdate(testId, editValues);
     setEditingTestId(null);
     setEditValues({});
@@ -123,14 +115,8 @@ export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false
     setEditValues({});
   };
 
-  const handleResultChange = (value: string, test: Test) => {
+  const handleResultChange = (value: string) => {
     setEditValues(prev => ({ ...prev, result: value }));
-
-    // Auto-calculate OOS on change
-    if (test.specification) {
-      const isOOS = computeOOS(value, test.specification);
-      setEditValues(prev => ({ ...prev, oos: isOOS }));
-    }
   };
 
   return (
@@ -178,12 +164,34 @@ export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false
         <tbody className="bg-white divide-y divide-gray-200">
           {tests.map((test) => {
             const isEditing = editingTestId === test.id;
-            const displayOOS = isEditing ? (editValues.oos ?? test.oos) : test.oos;
+            // Preview the flag while editing; the stored flag comes from the API
+            const displayOOS =
+              isEditing && editValues.result && test.specification
+                ? (computeDisplayOOS(editValues.result, test.specification, test.method) ?? test.oos)
+                : test.oos;
+
+            const isExpanded = expandedTestIds.includes(test.id);
 
             return (
-              <tr key={test.id} className={displayOOS ? 'bg-red-50' : ''}>
+              <Fragment key={test.id}>
+              <tr className={displayOOS ? 'bg-red-50' : ''}>
                 <td className="px-4 py-3 text-sm text-gray-900">{test.section.name}</td>
-                <td className="px-4 py-3 text-sm text-gray-900">{test.testName}</td>
+                <td className="px-4 py-3 text-sm text-gray-900">
+                  <div>{test.testName}</div>
+                  {test.replicates && test.replicates.length > 0 && (
+                    <button
+                      onClick={() => toggleReplicates(test.id)}
+                      className="text-xs text-blue-600 hover:text-blue-900"
+                    >
+                      {isExpanded ? '▾' : '▸'} {test.replicates.length} replicates
+                    </button>
+                  )}
+                  {test.rsdExceeded && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                      RSD
+                    </span>
+                  )}
+                </td>
                 <td className="px-4 py-3 text-sm text-gray-500">
                   <div>{test.method.code}</div>
                   <div className="text-xs text-gray-400">{test.method.name}</div>
@@ -203,6 +211,11 @@ export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false
                           Target: {test.specification.target}
                         </div>
                       )}
+                      {test.specification.oosRule && (
+                        <div className="text-xs text-gray-400">
+                          Rule: {test.specification.oosRule}
+                        </div>
+                      )}
                     </div>
                   ) : (
                     'N/A'
@@ -213,14 +226,19 @@ export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false
                     <input
                       type="text"
                       value={editValues.result || ''}
-                      onChange={(e) => handleResultChange(e.target.value, test)}
+                      onChange={(e) => handleResultChange(e.target.value)}
                       className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
                       placeholder="Enter result"
                     />
                   ) : (
-                    <span className={displayOOS ? 'font-semibold text-red-700' : ''}>
-                      {test.result || 'N/A'}
-                    </span>
+                    <div>
+                      <span className={displayOOS ? 'font-semibold text-red-700' : ''}>
+                        {test.reportedResult || test.result || 'N/A'}
+                      </span>
+                      {test.reportedResult && test.reportedResult !== test.result && (
+                        <div className="text-xs text-gray-500">Raw: {test.result}</div>
+                      )}
+                    </div>
                   )}
                 </td>
                 <td className="px-4 py-3 text-sm text-gray-500">
@@ -292,6 +310,48 @@ export default function TestsGrid({ sampleId, tests, onUpdate, readOnly = false
                   </td>
                 )}
               </tr>
+              {isExpanded && test.replicates && (
+                <tr className="bg-gray-50">
+                  <td colSpan={readOnly ? 10 : 11} className="px-8 py-3">
+                    <div className="flex gap-8">
+                      <table className="text-sm">
+                        <thead>
+                          <tr>
+                            <th className="pr-6 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                            <th className="pr-6 text-left text-xs font-medium text-gray-500 uppercase">Reading</th>
+                            <th className="text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {test.replicates.map((reading, index) => (
+                            <tr key={index} className={reading.valid === false ? 'text-gray-400' : 'text-gray-900'}>
+                              <td className="pr-6">{index + 1}</td>
+                              <td className={`pr-6 ${reading.valid === false ? 'line-through' : ''}`}>{reading.value}</td>
+                              <td>{reading.valid === false ? `Excluded: ${reading.excludedReason}` : 'Valid'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <dl className="text-sm grid grid-cols-2 gap-x-4 gap-y-1">
+                        <dt className="text-gray-500">Mean</dt>
+                        <dd>{test.replicateMean?.toPrecision(6) ?? 'N/A'}</dd>
+                        <dt className="text-gray-500">SD</dt>
+                        <dd>{test.replicateSd?.toPrecision(3) ?? 'N/A'}</dd>
+                        <dt className="text-gray-500">%RSD</dt>
+                        <dd className={test.rsdExceeded ? 'font-semibold text-yellow-800' : ''}>
+                          {test.replicateRsd !== undefined && test.replicateRsd !== null
+                            ? `${test.replicateRsd.toFixed(2)}%`
+                            : 'N/A'}
+                          {test.method.rsdLimit !== undefined && ` (limit ${test.method.rsdLimit}%)`}
+                        </dd>
+                        <dt className="text-gray-500">Reportable</dt>
+                        <dd>{(test.method.reportableRule ?? 'MEAN').replace('_', ' ').toLowerCase()}</dd>
+                      </dl>
+                    </div>
+                  </td>
+                </tr>
+              )}
+              </Fragment>
             );
           })}
         </tbody>
@@ -0,0 +1,84 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import React, { useEffect } from 'react';
+import { apiClient } from '@/lib/api-client';
+
+interface PortalLayoutProps {
+  children: React.ReactNode;
+}
+
+const portalNavItems = [
+  { name: 'My Samples', href: '/portal' },
+  { name: 'Request Testing', href: '/portal/requests/new' },
+  { name: 'Ship Samples', href: '/portal/submissions' },
+];
+
+/**
+ * Layout for CLIENT users. Sends anyone without a session back to login.
+ */
+export function PortalLayout({ children }: PortalLayoutProps) {
+  const pathname = usePathname();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!localStorage.getItem('accessToken')) {
+      router.push('/login');
+    }
+  }, [router]);
+
+  const handleSignOut = () => {
+    localStorage.removeItem('accessToken');
+    localStorage.removeItem('user');
+    apiClient.setToken(null);
+    router.push('/login');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex">
+              <div className="flex-shrink-0 flex items-center">
+                <Link href="/portal" className="text-xl font-bold text-blue-600">
+                  Client Portal
+                </Link>
+              </div>
+              <div className="hidden sm:ml-6 sm:flex sm:space-x-4">
+                {portalNavItems.map((item) => {
+                  const isActive = pathname === item.href;
+                  return (
+                    <Link
+                      key={item.name}
+                      href={item.href}
+                      className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                        isActive
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
+                      }`}
+                    >
+                      {item.name}
+                    </Link>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="flex items-center">
+              <button
+                onClick={handleSignOut}
+                className="text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                Sign out
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </main>
+    </div>
+  );
+}
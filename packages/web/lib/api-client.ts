@@ -23,6 +23,12 @@ export class ApiClient {
     this.token = token;
   }
 
+  // Falls back to the token stored at login
+  private getToken(): string | null {
+    if (this.token) return this.token;
+    return typeof window === 'undefined' ? null : localStorage.getItem('accessToken');
+  }
+
   private async request<T>(
     endpoint: string,
     options: RequestInit = {}
@@ -32,8 +38,9 @@ export class ApiClient {
       ...(options.headers as Record<string, string>),
     };
 
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
+    const token = this.getToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
     }
 
     const response = await fetch(`${this.baseUrl}${endpoint}`, {
@@ -56,6 +63,23 @@ export class ApiClient {
     return this.request<T>(endpoint, { method: 'GET' });
   }
 
+  // For file downloads such as COA PDFs
+  async getBlob(endpoint: string): Promise<Blob> {
+    const token = this.getToken();
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      throw {
+        message: 'Download failed',
+        statusCode: response.status,
+      } as ApiError;
+    }
+
+    return response.blob();
+  }
+
   async post<T>(endpoint: string, data?: unknown): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
@@ -63,6 +87,26 @@ export class ApiClient {
     });
   }
 
+  // For file uploads; the browser sets the multipart content type
+  async postForm<T>(endpoint: string, form: FormData): Promise<T> {
+    const token = this.getToken();
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: form,
+    });
+
+    if (!response.ok) {
+      const error: ApiError = await response.json().catch(() => ({
+        message: 'An error occurred',
+        statusCode: response.status,
+      }));
+      throw error;
+    }
+
+    return response.json();
+  }
+
   async put<T>(endpoint: string, data: unknown): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'PUT',
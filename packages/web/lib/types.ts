@@ -8,10 +8,29 @@ export type JobStatus = 'DRAFT' | 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
 
 export type TestAssignmentStatus = 'DRAFT' | 'IN_PROGRESS' | 'COMPLETED' | 'REVIEWED' | 'RELEASED';
 
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN';
+
+export type OOSEvaluationBasis = 'ROUNDED' | 'RAW';
+
+export type ReportableRule = 'MEAN' | 'MEDIAN' | 'FIRST_VALID';
+
+export type DetectionState = 'QUANTIFIED' | 'BELOW_LIMIT' | 'NOT_DETECTED' | 'ABOVE_LIMIT';
+
 export type COAReportStatus = 'DRAFT' | 'FINAL' | 'SUPERSEDED';
 
+export type RetestReason =
+  'LAB_ERROR' | 'OOS_INVESTIGATION' | 'INSTRUMENT_FAILURE' | 'SAMPLE_PREPARATION' | 'RESAMPLE' | 'CLIENT_REQUEST' | 'OTHER';
+
+export type OOSInvestigationStatus = 'PHASE_I' | 'PHASE_II' | 'CLOSED';
+
+export type OOSConclusion = 'INVALIDATED' | 'CONFIRMED' | 'INCONCLUSIVE';
+
+export type SignatureMeaning = 'REVIEWED' | 'APPROVED' | 'RELEASED';
+
 export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
 
+export type SampleSubmissionStatus = 'SUBMITTED' | 'RECEIVED';
+
 export interface User {
   id: string;
   email: string;
@@ -28,6 +47,10 @@ export interface Client {
   email?: string;
   phone?: string;
   address?: string;
+  coaTemplateId?: string;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -45,6 +68,11 @@ export interface Job {
   soNumber?: string;
   amountExTax?: number;
   invoiced: boolean;
+  clientNotes?: string; // Sample request details from the client portal
+  coaTemplateId?: string; // Overrides the client's COA template
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -74,6 +102,9 @@ export interface Sample {
   released: boolean;
   retest: boolean;
   releaseDate?: string;
+  deletedAt?: string;
+  deletedById?: string;
+  deleteReason?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -86,6 +117,12 @@ export interface Method {
   unit?: string;
   lod?: number;
   loq?: number;
+  decimalPlaces?: number;
+  significantFigures?: number;
+  roundingMode?: RoundingMode;
+  oosBasis?: OOSEvaluationBasis;
+  rsdLimit?: number;
+  reportableRule?: ReportableRule;
 }
 
 export interface Specification {
@@ -114,6 +151,21 @@ export interface TestDefinition {
   method?: Method;
   specificationId?: string;
   specification?: Specification;
+  inputFields?: FormulaInputField[];
+  formula?: string;
+  formulaVersion?: number;
+}
+
+export interface FormulaInputField {
+  name: string;
+  label?: string;
+  unit?: string;
+}
+
+export interface ReplicateReading {
+  value: number;
+  valid?: boolean;
+  excludedReason?: string;
 }
 
 export interface TestAssignment {
@@ -135,14 +187,53 @@ export interface TestAssignment {
   testDate?: string;
   status: TestAssignmentStatus;
   result?: string;
+  reportedResult?: string;
+  resultQualifier?: string;
+  resultValue?: number;
+  detectionState?: DetectionState;
+  rawInputs?: Record<string, number>;
+  formulaVersion?: number;
+  calculation?: string;
+  replicates?: ReplicateReading[];
+  replicateMean?: number;
+  replicateSd?: number;
+  replicateRsd?: number;
+  rsdExceeded?: boolean;
   resultUnit?: string;
   oos: boolean;
+  resultEnteredById?: string;
   chkById?: string;
   chkDate?: string;
   comments?: string;
   invoiceNote?: string;
   precision?: string;
   linearity?: string;
+  attempt?: number;
+  reportable?: boolean;
+  retestOfId?: string;
+  retestReason?: RetestReason;
+  retestNotes?: string;
+  oosInvestigations?: OOSInvestigation[];
+}
+
+export interface OOSInvestigation {
+  id: string;
+  testAssignmentId: string;
+  testAssignment?: TestAssignment;
+  sampleId: string;
+  status: OOSInvestigationStatus;
+  phaseIFindings?: string;
+  labErrorFound?: boolean;
+  phaseICompletedAt?: string;
+  phaseIIFindings?: string;
+  rootCause?: string;
+  capaReference?: string;
+  conclusion?: OOSConclusion;
+  conclusionNotes?: string;
+  closedAt?: string;
+  closedById?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface COAReport {
@@ -154,6 +245,11 @@ export interface COAReport {
   dataSnapshot: unknown;
   htmlSnapshot?: string;
   pdfKey?: string;
+  pdfSha256?: string; // SHA-256 of the signed PDF
+  approvalPdfKey?: string; // Signed approval manifest
+  approvalPdfSha256?: string;
+  amendmentReason?: string; // Why this version replaces the previous issued one
+  amendmentChanges?: COAAmendmentChanges;
   reportedAt?: string;
   reportedById?: string;
   approvedById?: string;
@@ -162,6 +258,89 @@ export interface COAReport {
   updatedAt: string;
 }
 
+export interface COAFieldChange {
+  field: string;
+  label: string;
+  from?: string;
+  to?: string;
+}
+
+export interface COATestReference {
+  section: string;
+  testName: string;
+  method: string;
+}
+
+// What an amended COA changed against the previous issued version
+export interface COAAmendmentChanges {
+  header: COAFieldChange[];
+  results: Array<COATestReference & { changes: COAFieldChange[] }>;
+  addedTests: COATestReference[];
+  removedTests: COATestReference[];
+}
+
+export type COABatchStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+// What a batch did with each sample of the job
+export interface COABatchResult {
+  sampleId: string;
+  sampleCode: string;
+  outcome: 'GENERATED' | 'FINALIZED' | 'EXISTING' | 'SKIPPED' | 'FAILED';
+  version?: number;
+  message?: string;
+}
+
+// Background generation of a job's COAs, downloadable as a ZIP when completed
+export interface COABatch {
+  id: string;
+  jobId: string;
+  status: COABatchStatus;
+  total: number;
+  processed: number;
+  results: COABatchResult[];
+  zipSha256?: string;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+  createdById: string;
+  createdBy?: { id: string; email: string; name?: string };
+}
+
+// Public view of an issued COA
+export interface VerifiedCOA {
+  id: string;
+  sampleCode: string;
+  version: number;
+  status: COAReportStatus;
+  issuedAt: string | null;
+  approved: boolean;
+  labName?: string;
+  pdfSha256: string | null;
+  supersededByVersion?: number;
+}
+
+export interface COAVerificationResult {
+  valid: boolean;
+  message: string;
+  report: VerifiedCOA | null;
+}
+
+export interface ElectronicSignature {
+  id: string;
+  recordTable: 'TestAssignment' | 'COAReport';
+  recordId: string;
+  meaning: SignatureMeaning;
+  dataHash: string;
+  signerId: string;
+  signerName: string;
+  signerEmail: string;
+  signedAt: string;
+  invalidatedAt?: string;
+  invalidationReason?: string;
+  invalidatedById?: string;
+  valid?: boolean;
+}
+
 export interface AuditLog {
   id: string;
   actorId?: string;
@@ -170,10 +349,192 @@ export interface AuditLog {
   table: string;
   recordId: string;
   changes: unknown;
+  reason?: string; // Justification for the change, required after review or release
   txId: string;
   ip?: string;
   userAgent?: string;
   at: string;
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
+}
+
+export interface AuditExport {
+  id: string;
+  table: 'Sample' | 'Job';
+  recordId: string;
+  entryCount: number;
+  lastSeq?: number;
+  pdfKey: string;
+  pdfSha256: string;
+  csvKey: string;
+  csvSha256: string;
+  createdAt: string;
+  createdById: string;
+}
+
+export interface RecordHistoryEntry {
+  id: string;
+  seq?: number;
+  table: string;
+  recordId: string;
+  action: AuditAction;
+  at: string;
+  actorEmail: string;
+  reason?: string;
+}
+
+export interface ReconstructedRecord {
+  table: string;
+  recordId: string;
+  at: string;
+  exists: boolean; // False if the record was created after `at`
+  deleted: boolean;
+  state: Record<string, unknown> | null;
+  entriesApplied: number;
+  lastEntry: RecordHistoryEntry | null;
+  testAssignments?: ReconstructedRecord[]; // Samples only
+}
+
+export type PortalSampleStatus = 'IN_PROGRESS' | 'RELEASED';
+
+export interface PortalSample {
+  id: string;
+  sampleCode: string;
+  sampleDescription?: string;
+  sampleBatch?: string;
+  dateReceived: string;
+  dateDue?: string;
+  status: PortalSampleStatus;
+  releaseDate?: string;
+  releasedTests: number;
+  hasFinalCOA: boolean;
+}
+
+export interface PortalJob {
+  id: string;
+  jobNumber: string;
+  status: JobStatus; // DRAFT until reception accepts a sample request
+  client: { id: string; name: string };
+  needByDate?: string;
+  createdAt: string;
+  samples: PortalSample[];
+}
+
+export interface PortalOverview {
+  clients: { id: string; name: string }[];
+  jobs: PortalJob[];
+}
+
+export interface PortalResult {
+  id: string;
+  testName?: string;
+  method: { code: string; name: string };
+  result?: string;
+  unit?: string;
+  specification?: { target?: string; min?: number; max?: number; unit?: string };
+  oos: boolean;
+  testDate?: string;
+}
+
+export interface PortalCOAVersion {
+  id: string;
+  version: number;
+  status: COAReportStatus;
+  superseded: boolean;
+  reportedAt?: string;
+  amendmentReason?: string;
+}
+
+export interface PortalSampleDetail extends Omit<PortalSample, 'releasedTests' | 'hasFinalCOA'> {
+  job: { id: string; jobNumber: string };
+  client: { id: string; name: string };
+  results: PortalResult[];
+  coaReports: PortalCOAVersion[];
+}
+
+export interface SampleRequest {
+  clientId?: string;
+  details: string;
+  sampleCount?: number;
+  needByDate?: string;
+  poNumber?: string;
+}
+
+export interface SampleSubmissionItem {
+  id: string;
+  position: number;
+  sampleDescription: string;
+  sampleBatch?: string;
+  rmSupplier?: string;
+  storageConditions?: string;
+  testPackIds: string[];
+  sampleId?: string; // Set on receipt
+  sample?: { id: string; sampleCode: string };
+}
+
+export interface SampleSubmission {
+  id: string;
+  submissionNumber: string; // Encoded in the custody form QR code
+  status: SampleSubmissionStatus;
+  notes?: string;
+  receivedAt?: string;
+  clientId: string;
+  client: { id: string; name: string };
+  jobId: string;
+  job: { id: string; jobNumber: string; status: JobStatus };
+  items?: SampleSubmissionItem[];
+  _count?: { items: number };
+  createdAt: string;
+}
+
+export interface CreateSampleSubmission {
+  clientId?: string;
+  notes?: string;
+  items: Array<{
+    sampleDescription: string;
+    sampleBatch?: string;
+    rmSupplier?: string;
+    storageConditions?: string;
+    testPackIds: string[];
+  }>;
+}
+
+export interface ReceivedSubmission {
+  submissionId: string;
+  submissionNumber: string;
+  jobId: string;
+  samples: Sample[];
+  missingTestPacks: { sampleCode: string; testPackIds: string[] }[]; // Deleted since submission
+}
+
+// Layout of a COA template version; unset settings use the defaults
+export interface COATemplateLayout {
+  sectionOrder?: string[];
+  visibleFields?: string[];
+  columnOrder?: string[];
+  labelOverrides?: Record<string, string>;
+}
+
+export interface COATemplateVersion {
+  id: string;
+  version: number;
+  layout: COATemplateLayout;
+  source?: string; // Handlebars HTML replacing the built-in layout
+  createdAt: string;
+  createdBy?: { id: string; email: string; name?: string };
+}
+
+export interface COATemplate {
+  id: string;
+  name: string;
+  description?: string;
+  currentVersion: number;
+  versions: COATemplateVersion[]; // Newest first; lists include the current one only
+  clients?: { id: string; name: string }[];
+  _count?: { clients: number; jobs: number };
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface PaginationInfo {
@@ -1,7 +1,11 @@
+import path from 'path';
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: 'standalone',
+  // The shared workspace package lives outside this package; trace from the
+  // repository root so the standalone output includes it
+  outputFileTracingRoot: path.join(__dirname, '../..'),
   experimental: {
     serverActions: {
       bodySizeLimit: '10mb',